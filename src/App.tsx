@@ -1,12 +1,21 @@
-import React from 'react';
+import React, { lazy } from 'react';
 import './App.css';
 import { ThemeProvider } from './context/ThemeContext';
 import { SoundProvider } from './context/SoundContext';
 import { ToastProvider } from './context/ToastContext';
 import { GameProvider } from './context/GameContext';
-import Dashboard from './pages/Dashboard';
 import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
-import Insights from './pages/Insights';
+import Layout from './components/layout/Layout';
+
+// Each page is its own bundle, loaded the first time it is visited
+const Dashboard = lazy(() => import('./pages/Dashboard'));
+const Insights = lazy(() => import('./pages/Insights'));
+const Analytics = lazy(() => import('./pages/Analytics'));
+const Journey = lazy(() => import('./pages/Journey'));
+const Backtest = lazy(() => import('./pages/Backtest'));
+const Sessions = lazy(() => import('./pages/Sessions'));
+const SessionCompare = lazy(() => import('./pages/SessionCompare'));
+const NotFound = lazy(() => import('./pages/NotFound'));
 
 function App() {
   return (
@@ -16,8 +25,17 @@ function App() {
           <GameProvider>
             <Router>
               <Routes>
-                <Route path="/" element={<Dashboard />} />
-                <Route path="/insights" element={<Insights />} />
+                <Route element={<Layout />}>
+                  <Route path="/" element={<Dashboard />} />
+                  <Route path="/insights" element={<Insights />} />
+                  <Route path="/insights/:section" element={<Insights />} />
+                  <Route path="/analytics" element={<Analytics />} />
+                  <Route path="/journey" element={<Journey />} />
+                  <Route path="/backtest" element={<Backtest />} />
+                  <Route path="/sessions" element={<Sessions />} />
+                  <Route path="/sessions/compare" element={<SessionCompare />} />
+                  <Route path="*" element={<NotFound />} />
+                </Route>
               </Routes>
             </Router>
           </GameProvider>
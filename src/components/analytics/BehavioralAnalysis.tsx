@@ -1,6 +1,7 @@
 import React from 'react';
-import { useGame, BetHistory } from '../../context/GameContext';
+import { useGame } from '../../context/GameContext';
 import { useTheme } from '../../context/ThemeContext';
+import { analyzeBettingBehavior, BEHAVIORAL_ANALYSIS_MIN_BETS, describeRiskConsistency } from '../../utils/behavioralAnalysis';
 
 const BehavioralAnalysis: React.FC = () => {
   const { betHistory } = useGame();
@@ -8,115 +9,26 @@ const BehavioralAnalysis: React.FC = () => {
   const isDarkMode = theme === 'dark';
 
   // Skip rendering if not enough data
-  if (betHistory.length < 3) {
+  if (betHistory.length < BEHAVIORAL_ANALYSIS_MIN_BETS) {
     return (
       <div className={`rounded-lg p-6 ${isDarkMode ? 'bg-gray-800' : 'bg-white shadow-md'} mb-6`}>
         <h2 className={`text-xl font-bold mb-4 ${isDarkMode ? 'text-white' : 'text-gray-800'}`}>Behavioral Analysis</h2>
         <p className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
-          Place at least 3 bets to see your betting behavior analysis.
+          Place at least {BEHAVIORAL_ANALYSIS_MIN_BETS} bets to see your betting behavior analysis.
         </p>
       </div>
     );
   }
 
-  // Calculate time between bets to analyze betting frequency
-  const bettingIntervals: number[] = [];
-  const sortedBets = [...betHistory].sort((a, b) => 
-    new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-  );
-  
-  for (let i = 1; i < sortedBets.length; i++) {
-    const timeGap = new Date(sortedBets[i].timestamp).getTime() - 
-                    new Date(sortedBets[i-1].timestamp).getTime();
-    bettingIntervals.push(timeGap);
-  }
-  
-  const avgBettingInterval = bettingIntervals.length > 0 ? 
-    Math.floor(bettingIntervals.reduce((sum, interval) => sum + interval, 0) / bettingIntervals.length / 1000) : 0;
-  
-  // Analyze reaction to losses
-  const lossReactions: { accelerated: number, cautious: number, unchanged: number } = { 
-    accelerated: 0, 
-    cautious: 0, 
-    unchanged: 0 
-  };
-  
-  for (let i = 1; i < betHistory.length; i++) {
-    if (betHistory[i-1].outcome === 'loss') {
-      const prevBet = betHistory[i-1].betAmount;
-      const currentBet = betHistory[i].betAmount;
-      
-      if (currentBet > prevBet * 1.2) {
-        lossReactions.accelerated++;
-      } else if (currentBet < prevBet * 0.8) {
-        lossReactions.cautious++;
-      } else {
-        lossReactions.unchanged++;
-      }
-    }
-  }
-  
-  // Calculate risk appetite consistency
-  const riskValues = betHistory.map(bet => bet.riskPercentage);
-  const avgRisk = riskValues.reduce((sum, risk) => sum + risk, 0) / riskValues.length;
-  const riskDeviation = Math.sqrt(
-    riskValues.reduce((sum, risk) => sum + Math.pow(risk - avgRisk, 2), 0) / riskValues.length
-  );
-  
-  const getRiskAppetiteDescription = (deviation: number): string => {
-    if (deviation < 10) return "Very Consistent";
-    if (deviation < 20) return "Somewhat Consistent";
-    if (deviation < 30) return "Variable";
-    return "Highly Variable";
-  };
-  
-  // Calculate decision making under emotion (wins/losses)
-  const postWinBets = betHistory.filter((bet, index) => 
-    index > 0 && betHistory[index-1].outcome === 'win'
-  );
-  
-  const postLossBets = betHistory.filter((bet, index) => 
-    index > 0 && betHistory[index-1].outcome === 'loss'
-  );
-  
-  const avgPostWinRisk = postWinBets.length > 0 ?
-    postWinBets.reduce((sum, bet) => sum + bet.riskPercentage, 0) / postWinBets.length : 0;
-    
-  const avgPostLossRisk = postLossBets.length > 0 ?
-    postLossBets.reduce((sum, bet) => sum + bet.riskPercentage, 0) / postLossBets.length : 0;
-  
-  // Determine behavioral traits based on analysis
-  const behavioralTraits: string[] = [];
-  
-  // Frequency trait
-  if (avgBettingInterval < 30) {
-    behavioralTraits.push("Rapid Bettor");
-  } else if (avgBettingInterval > 120) {
-    behavioralTraits.push("Methodical Bettor");
-  }
-  
-  // Loss reaction trait
-  if (lossReactions.accelerated > lossReactions.cautious && lossReactions.accelerated > lossReactions.unchanged) {
-    behavioralTraits.push("Loss Chaser");
-  } else if (lossReactions.cautious > lossReactions.accelerated && lossReactions.cautious > lossReactions.unchanged) {
-    behavioralTraits.push("Loss Avoider");
-  }
-  
-  // Risk consistency trait
-  if (riskDeviation < 15) {
-    behavioralTraits.push("Risk Consistent");
-  } else if (riskDeviation > 25) {
-    behavioralTraits.push("Risk Explorer");
-  }
-  
-  // Emotional betting trait
-  if (avgPostWinRisk > avgRisk + 10) {
-    behavioralTraits.push("Confidence After Wins");
-  } else if (avgPostLossRisk > avgRisk + 10) {
-    behavioralTraits.push("Aggressive After Losses");
-  } else if (avgPostLossRisk < avgRisk - 10) {
-    behavioralTraits.push("Conservative After Losses");
-  }
+  const {
+    avgBettingInterval,
+    lossReactions,
+    avgRisk,
+    riskDeviation,
+    avgPostWinRisk,
+    avgPostLossRisk,
+    traits: behavioralTraits,
+  } = analyzeBettingBehavior(betHistory);
   
   return (
     <div className={`rounded-lg p-6 ${isDarkMode ? 'bg-gray-800' : 'bg-white shadow-md'} mb-6`}>
@@ -139,7 +51,7 @@ const BehavioralAnalysis: React.FC = () => {
           <h3 className={`font-semibold mb-2 ${isDarkMode ? 'text-white' : 'text-gray-800'}`}>Risk Appetite</h3>
           <p className={`text-sm ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
             Average risk level: <span className="font-medium">{avgRisk.toFixed(1)}%</span><br />
-            Consistency: <span className="font-medium">{getRiskAppetiteDescription(riskDeviation)}</span>
+            Consistency: <span className="font-medium">{describeRiskConsistency(riskDeviation)}</span>
           </p>
         </div>
         
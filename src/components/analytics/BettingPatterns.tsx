@@ -1,9 +1,11 @@
 import React from 'react';
 import { useGame, BetEvent, BetHistory } from '../../context/GameContext';
 import { useTheme } from '../../context/ThemeContext';
+import { calculateSelectionOdds, getEventOutcomes, getSelection } from '../../utils/payTable';
+import { calculateWinRate, isDecidedOutcome, isLosingOutcome } from '../../utils/settlement';
 
 const BettingPatterns: React.FC = () => {
-  const { betHistory, betEvents } = useGame();
+  const { betHistory, eventRegistry } = useGame();
   const { theme } = useTheme();
   const isDarkMode = theme === 'dark';
   
@@ -28,12 +30,15 @@ const BettingPatterns: React.FC = () => {
   const mostCommonEventId = Object.entries(eventFrequency)
     .sort((a, b) => b[1] - a[1])[0][0];
     
-  const mostCommonEvent = betEvents.find(e => e.id === mostCommonEventId);
+  const mostCommonEvent = eventRegistry.getEvent(mostCommonEventId);
+  
+  // Win rates only count decided bets; a push hands the stake back
+  const decidedBets = betHistory.filter(bet => isDecidedOutcome(bet.outcome));
   
   // Calculate success rate by event
   const eventSuccessRates: Record<string, { total: number, wins: number, successRate: number }> = {};
   
-  betHistory.forEach(bet => {
+  decidedBets.forEach(bet => {
     if (!eventSuccessRates[bet.eventId]) {
       eventSuccessRates[bet.eventId] = { total: 0, wins: 0, successRate: 0 };
     }
@@ -60,10 +65,36 @@ const BettingPatterns: React.FC = () => {
     successRateEntries[successRateEntries.length - 1][0] : null;
   
   const mostSuccessfulEvent = mostSuccessfulEventId ? 
-    betEvents.find(e => e.id === mostSuccessfulEventId) : null;
+    eventRegistry.getEvent(mostSuccessfulEventId) : null;
     
   const leastSuccessfulEvent = leastSuccessfulEventId ? 
-    betEvents.find(e => e.id === leastSuccessfulEventId) : null;
+    eventRegistry.getEvent(leastSuccessfulEventId) : null;
+  
+  // Track how each selection on multi-outcome events has landed against its odds
+  const selectionStats: Record<string, { label: string, bets: BetHistory[], expectedWinRate: number | null }> = {};
+  
+  betHistory.forEach(bet => {
+    if (!bet.selectionId) return;
+    
+    const key = `${bet.eventId}:${bet.selectionId}`;
+    if (!selectionStats[key]) {
+      const event = eventRegistry.getEvent(bet.eventId);
+      const selection = event && getSelection(event, bet.selectionId);
+      selectionStats[key] = {
+        label: `${bet.eventName}: ${bet.selectionLabel || bet.selectionId}`,
+        bets: [],
+        expectedWinRate: event && selection
+          ? calculateSelectionOdds(getEventOutcomes(event), selection).winChance * 100
+          : null,
+      };
+    }
+    
+    selectionStats[key].bets.push(bet);
+  });
+  
+  const topSelections = Object.values(selectionStats)
+    .sort((a, b) => b.bets.length - a.bets.length)
+    .slice(0, 3);
   
   // Analyze time of day patterns
   const timeDistribution = betHistory.reduce((acc: Record<string, number>, bet) => {
@@ -78,7 +109,7 @@ const BettingPatterns: React.FC = () => {
     return acc;
   }, {});
   
-  const timeSuccess = betHistory.reduce((acc: Record<string, { wins: number, total: number }>, bet) => {
+  const timeSuccess = decidedBets.reduce((acc: Record<string, { wins: number, total: number }>, bet) => {
     const hour = new Date(bet.timestamp).getHours();
     const timePeriod = 
       hour < 6 ? 'night' :
@@ -118,16 +149,16 @@ const BettingPatterns: React.FC = () => {
   
   // Analyze chase-loss behavior
   const analyzeChaseLoss = (betHistory: BetHistory[]): { chaseCount: number, chaseSuccessCount: number } => {
-    const sortedBets = [...betHistory].sort((a, b) => 
-      new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-    );
+    const sortedBets = betHistory
+      .filter(bet => isDecidedOutcome(bet.outcome))
+      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
     
     let chaseCount = 0;
     let chaseSuccessCount = 0;
     
     for (let i = 1; i < sortedBets.length; i++) {
       if (
-        sortedBets[i-1].outcome === 'loss' && 
+        isLosingOutcome(sortedBets[i-1].outcome) && 
         sortedBets[i].betAmount > sortedBets[i-1].betAmount * 1.2
       ) {
         chaseCount++;
@@ -172,7 +203,7 @@ const BettingPatterns: React.FC = () => {
               <div className="flex flex-wrap gap-2 mt-1">
                 {['Low', 'Medium', 'High'].map((risk) => {
                   const riskCount = betHistory.filter(bet => {
-                    const event = betEvents.find(e => e.id === bet.eventId);
+                    const event = eventRegistry.getEvent(bet.eventId);
                     return event?.riskLevel === risk;
                   }).length;
                   
@@ -295,6 +326,28 @@ const BettingPatterns: React.FC = () => {
             )}
           </div>
         </div>
+        
+        {topSelections.length > 0 && (
+          <div className={`p-4 rounded-lg md:col-span-2 ${isDarkMode ? 'bg-gray-700' : 'bg-gray-100'}`}>
+            <h3 className={`font-semibold mb-2 ${isDarkMode ? 'text-white' : 'text-gray-800'}`}>Favorite Selections</h3>
+            <ul className="space-y-2">
+              {topSelections.map(stats => (
+                <li key={stats.label} className="flex justify-between items-center text-sm">
+                  <span className={isDarkMode ? 'text-white' : 'text-gray-800'}>
+                    {stats.label}
+                    <span className={`ml-2 text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                      {stats.bets.length} {stats.bets.length === 1 ? 'bet' : 'bets'}
+                    </span>
+                  </span>
+                  <span className={isDarkMode ? 'text-gray-300' : 'text-gray-700'}>
+                    Hit {(calculateWinRate(stats.bets) * 100).toFixed(1)}%
+                    {stats.expectedWinRate !== null && ` vs ${stats.expectedWinRate.toFixed(1)}% expected`}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
       </div>
       
       <div className="mt-4">
@@ -2,26 +2,21 @@ import React from 'react';
 import { useGame } from '../../context/GameContext';
 import { useTheme } from '../../context/ThemeContext';
 import Tooltip from '../ui/Tooltip';
-
-// Responsible gambling benchmarks
-const responsibleBenchmarks = {
-  maxSessionDuration: 60, // minutes
-  maxBankrollPercentage: 10, // percent per bet
-  maxRiskLevel: 40, // percent
-  minBreakFrequency: 4, // bets before taking a break
-  minDaysPerWeek: 3, // days without betting per week
-  winRateExpectation: 0.45, // expected win rate (slightly below 0.5 due to house edge)
-  riskDiversification: 0.3, // minimum distribution across different game types
-  chaseFrequency: 0.15, // maximum percentage of bets that chase losses
-};
+import {
+  BENCHMARK_MIN_BETS,
+  RESPONSIBLE_BENCHMARKS,
+  calculateBenchmarkMetrics,
+  calculateResponsibleGamblingScore,
+  compareWithBenchmarks,
+} from '../../utils/benchmarks';
 
 const ComparativeAnalytics: React.FC = () => {
-  const { betHistory, betEvents } = useGame();
+  const { betHistory, betEvents, currentSession, sessionArchive } = useGame();
   const { theme } = useTheme();
   const isDarkMode = theme === 'dark';
 
   // Skip rendering if not enough data
-  if (betHistory.length < 5) {
+  if (betHistory.length < BENCHMARK_MIN_BETS) {
     return (
       <div className={`rounded-lg p-6 ${isDarkMode ? 'bg-gray-800' : 'bg-white shadow-md'} mb-6`} id="comparative-analytics">
         <h2 className={`text-xl font-bold mb-4 ${isDarkMode ? 'text-white' : 'text-gray-800'}`}>
@@ -30,177 +25,17 @@ const ComparativeAnalytics: React.FC = () => {
           </Tooltip>
         </h2>
         <p className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
-          We need at least 5 bets to generate meaningful comparisons. Continue betting to see how your habits compare to responsible gambling benchmarks.
+          We need at least {BENCHMARK_MIN_BETS} bets to generate meaningful comparisons. Continue betting to see how your habits compare to responsible gambling benchmarks.
         </p>
       </div>
     );
   }
 
-  // Calculate user metrics for comparison against benchmarks
-  const calculateMetrics = () => {
-    // Sort bets by timestamp
-    const sortedBets = [...betHistory].sort((a, b) => 
-      new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-    );
-    
-    // Average risk level
-    const avgRiskLevel = betHistory.reduce((sum, bet) => sum + bet.riskPercentage, 0) / betHistory.length;
-    
-    // Maximum bet size as percentage of bankroll
-    const maxBankrollPercentage = Math.max(...betHistory.map(bet => (bet.betAmount / bet.balanceAfter) * 100));
-    
-    // Session duration detection (a new session starts if there's a gap of more than 30 minutes)
-    const sessionBreaks: number[] = [];
-    for (let i = 1; i < sortedBets.length; i++) {
-      const timeDiffMinutes = (new Date(sortedBets[i].timestamp).getTime() - new Date(sortedBets[i-1].timestamp).getTime()) / (1000 * 60);
-      if (timeDiffMinutes > 30) {
-        sessionBreaks.push(i);
-      }
-    }
-    
-    // Calculate average session length
-    const sessions = [0, ...sessionBreaks, sortedBets.length];
-    let totalSessionDuration = 0;
-    let sessionCount = 0;
-    for (let i = 1; i < sessions.length; i++) {
-      if (sessions[i] - sessions[i-1] > 1) {
-        // If the session has at least 2 bets, calculate duration
-        const sessionStart = new Date(sortedBets[sessions[i-1]].timestamp).getTime();
-        const sessionEnd = new Date(sortedBets[sessions[i] - 1].timestamp).getTime();
-        const durationMinutes = (sessionEnd - sessionStart) / (1000 * 60);
-        totalSessionDuration += durationMinutes;
-        sessionCount++;
-      }
-    }
-    const avgSessionDuration = sessionCount > 0 ? totalSessionDuration / sessionCount : 0;
-    
-    // Break frequency (average number of bets before a significant time gap)
-    const breakFrequency = sessionBreaks.length > 0 
-      ? sortedBets.length / (sessionBreaks.length + 1) 
-      : sortedBets.length;
-    
-    // Win rate
-    const winRate = betHistory.filter(bet => bet.outcome === 'win').length / betHistory.length;
-    
-    // Game diversification (how evenly spread are bets across game types)
-    const gameCounts: Record<string, number> = {};
-    betHistory.forEach(bet => {
-      gameCounts[bet.eventId] = (gameCounts[bet.eventId] || 0) + 1;
-    });
-    
-    const gamePercentages = Object.values(gameCounts).map(count => count / betHistory.length);
-    const giniCoefficient = calculateGiniCoefficient(gamePercentages);
-    const diversificationIndex = 1 - giniCoefficient; // Higher means more diversified
-    
-    // Chase frequency (percentage of bets that chase losses)
-    let chaseCount = 0;
-    for (let i = 1; i < sortedBets.length; i++) {
-      if (
-        sortedBets[i-1].outcome === 'loss' && 
-        sortedBets[i].betAmount > sortedBets[i-1].betAmount * 1.2
-      ) {
-        chaseCount++;
-      }
-    }
-    const chaseFrequency = chaseCount / (sortedBets.length - 1);
-    
-    return {
-      avgRiskLevel,
-      maxBankrollPercentage,
-      avgSessionDuration,
-      breakFrequency,
-      winRate,
-      diversificationIndex,
-      chaseFrequency
-    };
-  };
-
-  // Calculate Gini coefficient to measure game diversification
-  // (A standard economic measure of inequality, used here to measure how evenly spread bets are)
-  const calculateGiniCoefficient = (values: number[]): number => {
-    if (values.length === 0) return 0;
-    
-    const sortedValues = [...values].sort((a, b) => a - b);
-    const n = sortedValues.length;
-    
-    let sumNumerator = 0;
-    for (let i = 0; i < n; i++) {
-      sumNumerator += sortedValues[i] * (i + 1);
-    }
-    
-    const sumDenominator = sortedValues.reduce((sum, val) => sum + val, 0);
-    
-    if (sumDenominator === 0) return 0;
-    
-    const coefficient = (2 * sumNumerator) / (n * sumDenominator) - (n + 1) / n;
-    return coefficient;
-  };
-
-  // Calculate how user metrics compare to benchmarks
-  const getComparisons = () => {
-    const metrics = calculateMetrics();
-    
-    return {
-      riskLevel: {
-        user: metrics.avgRiskLevel,
-        benchmark: responsibleBenchmarks.maxRiskLevel,
-        score: Math.max(0, 100 - (metrics.avgRiskLevel / responsibleBenchmarks.maxRiskLevel) * 100),
-        better: metrics.avgRiskLevel <= responsibleBenchmarks.maxRiskLevel
-      },
-      betSize: {
-        user: metrics.maxBankrollPercentage,
-        benchmark: responsibleBenchmarks.maxBankrollPercentage,
-        score: Math.max(0, 100 - (metrics.maxBankrollPercentage / responsibleBenchmarks.maxBankrollPercentage) * 100),
-        better: metrics.maxBankrollPercentage <= responsibleBenchmarks.maxBankrollPercentage
-      },
-      sessionDuration: {
-        user: metrics.avgSessionDuration,
-        benchmark: responsibleBenchmarks.maxSessionDuration,
-        score: Math.max(0, 100 - (metrics.avgSessionDuration / responsibleBenchmarks.maxSessionDuration) * 100),
-        better: metrics.avgSessionDuration <= responsibleBenchmarks.maxSessionDuration
-      },
-      breakFrequency: {
-        user: metrics.breakFrequency,
-        benchmark: responsibleBenchmarks.minBreakFrequency,
-        score: Math.max(0, 100 - (metrics.breakFrequency / responsibleBenchmarks.minBreakFrequency) * 100),
-        better: metrics.breakFrequency <= responsibleBenchmarks.minBreakFrequency
-      },
-      winRate: {
-        user: metrics.winRate,
-        benchmark: responsibleBenchmarks.winRateExpectation,
-        score: 100, // Not scored since win rate is not directly controllable
-        better: metrics.winRate >= responsibleBenchmarks.winRateExpectation
-      },
-      diversification: {
-        user: metrics.diversificationIndex,
-        benchmark: responsibleBenchmarks.riskDiversification,
-        score: (metrics.diversificationIndex / responsibleBenchmarks.riskDiversification) * 100,
-        better: metrics.diversificationIndex >= responsibleBenchmarks.riskDiversification
-      },
-      chaseLosses: {
-        user: metrics.chaseFrequency,
-        benchmark: responsibleBenchmarks.chaseFrequency,
-        score: Math.max(0, 100 - (metrics.chaseFrequency / responsibleBenchmarks.chaseFrequency) * 100),
-        better: metrics.chaseFrequency <= responsibleBenchmarks.chaseFrequency
-      }
-    };
-  };
-
-  const comparisons = getComparisons();
-  
-  // Calculate overall responsible gambling score
-  const metrics = [
-    comparisons.riskLevel,
-    comparisons.betSize,
-    comparisons.sessionDuration,
-    comparisons.breakFrequency,
-    comparisons.diversification,
-    comparisons.chaseLosses
-  ];
-  
-  const overallScore = Math.round(
-    metrics.reduce((sum, metric) => sum + metric.score, 0) / metrics.length
+  // Sessions are explicit: every archived session and the one in progress
+  const comparisons = compareWithBenchmarks(
+    calculateBenchmarkMetrics(betHistory, [...sessionArchive, currentSession])
   );
+  const overallScore = calculateResponsibleGamblingScore(comparisons);
   
   // Function to get color classes based on comparison
   const getComparisonColors = (comparison: { better: boolean, score: number }) => {
@@ -366,7 +201,7 @@ const ComparativeAnalytics: React.FC = () => {
             ) : (
               <li className="flex items-start">
                 <span className={`mr-2 mt-0.5 flex-shrink-0 h-4 w-4 rounded-full flex items-center justify-center ${isDarkMode ? 'bg-red-900/50 text-red-400' : 'bg-red-100 text-red-600'}`}>!</span>
-                Your risk level is {Math.round(comparisons.riskLevel.user - responsibleBenchmarks.maxRiskLevel)}% higher than recommended
+                Your risk level is {Math.round(comparisons.riskLevel.user - RESPONSIBLE_BENCHMARKS.maxRiskLevel)}% higher than recommended
               </li>
             )}
             
@@ -440,13 +275,13 @@ const ComparativeAnalytics: React.FC = () => {
             <li>Reduce your average risk level by selecting more low and medium risk betting options</li>
           )}
           {!comparisons.betSize.better && (
-            <li>Limit your bet sizes to no more than {responsibleBenchmarks.maxBankrollPercentage}% of your bankroll for better risk management</li>
+            <li>Limit your bet sizes to no more than {RESPONSIBLE_BENCHMARKS.maxBankrollPercentage}% of your bankroll for better risk management</li>
           )}
           {!comparisons.sessionDuration.better && (
-            <li>Keep your betting sessions under {responsibleBenchmarks.maxSessionDuration} minutes with clear start and end times</li>
+            <li>Keep your betting sessions under {RESPONSIBLE_BENCHMARKS.maxSessionDuration} minutes with clear start and end times</li>
           )}
           {!comparisons.breakFrequency.better && (
-            <li>Take a break after every {responsibleBenchmarks.minBreakFrequency} bets to maintain perspective</li>
+            <li>Take a break after every {RESPONSIBLE_BENCHMARKS.minBreakFrequency} bets to maintain perspective</li>
           )}
           {!comparisons.diversification.better && (
             <li>Try different types of betting games rather than focusing on just one or two</li>
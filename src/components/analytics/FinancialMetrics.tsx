@@ -1,14 +1,15 @@
 import React from 'react';
-import { useGame, BetHistory } from '../../context/GameContext';
+import { useGame } from '../../context/GameContext';
 import { useTheme } from '../../context/ThemeContext';
+import { calculateFinancialMetrics, FINANCIAL_METRICS_MIN_BETS } from '../../utils/financialMetrics';
 
 const FinancialMetrics: React.FC = () => {
-  const { betHistory, balance } = useGame();
+  const { betHistory, eventRegistry } = useGame();
   const { theme } = useTheme();
   const isDarkMode = theme === 'dark';
   
   // Skip rendering if not enough data
-  if (betHistory.length < 3) {
+  if (betHistory.length < FINANCIAL_METRICS_MIN_BETS) {
     return (
       <div className={`rounded-lg p-6 ${isDarkMode ? 'bg-gray-800' : 'bg-white shadow-md'} mb-6`}>
         <h2 className={`text-xl font-bold mb-4 ${isDarkMode ? 'text-white' : 'text-gray-800'}`}>Financial Metrics</h2>
@@ -19,109 +20,26 @@ const FinancialMetrics: React.FC = () => {
     );
   }
   
-  // Sort bets by timestamp
-  const sortedBets = [...betHistory].sort((a, b) => 
-    new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-  );
-  
-  // Calculate win/loss ratio
-  const wins = betHistory.filter(bet => bet.outcome === 'win').length;
-  const losses = betHistory.filter(bet => bet.outcome === 'loss').length;
-  const winLossRatio = losses === 0 ? wins : (wins / losses).toFixed(2);
-  
-  // Calculate total won/lost
-  const totalWon = betHistory
-    .filter(bet => bet.outcome === 'win')
-    .reduce((sum, bet) => sum + bet.winAmount, 0);
-    
-  const totalLost = betHistory
-    .filter(bet => bet.outcome === 'loss')
-    .reduce((sum, bet) => sum + bet.betAmount, 0);
-  
-  // Calculate ROI
-  const totalInvested = betHistory.reduce((sum, bet) => sum + bet.betAmount, 0);
-  const netProfit = totalWon - totalLost;
-  const roi = totalInvested > 0 ? ((netProfit / totalInvested) * 100).toFixed(2) : '0.00';
-  
-  // Analyze stake sizing patterns
-  const stakePercentages = betHistory.map(bet => (bet.betAmount / bet.balanceAfter) * 100);
-  const avgStakePercentage = stakePercentages.reduce((sum, pct) => sum + pct, 0) / stakePercentages.length;
-  const maxStakePercentage = Math.max(...stakePercentages);
-  
-  // Calculate maximum drawdown
-  const calculateMaxDrawdown = (betHistory: BetHistory[]): number => {
-    if (betHistory.length === 0) return 0;
-    
-    let maxBalance = sortedBets[0].balanceAfter;
-    let maxDrawdown = 0;
-    
-    for (const bet of sortedBets) {
-      if (bet.balanceAfter > maxBalance) {
-        maxBalance = bet.balanceAfter;
-      }
-      
-      const drawdown = ((maxBalance - bet.balanceAfter) / maxBalance) * 100;
-      if (drawdown > maxDrawdown) {
-        maxDrawdown = drawdown;
-      }
-    }
-    
-    return maxDrawdown;
-  };
-  
-  const maxDrawdown = calculateMaxDrawdown(sortedBets);
-  
-  // Calculate consecutive wins/losses
-  const calculateStreaks = (betHistory: BetHistory[]): { maxWinStreak: number, maxLossStreak: number, currentStreak: number } => {
-    let maxWinStreak = 0;
-    let maxLossStreak = 0;
-    let currentWinStreak = 0;
-    let currentLossStreak = 0;
-    let currentStreak = 0;
-    
-    for (const bet of sortedBets) {
-      if (bet.outcome === 'win') {
-        currentWinStreak++;
-        currentLossStreak = 0;
-        currentStreak = currentWinStreak;
-        if (currentWinStreak > maxWinStreak) {
-          maxWinStreak = currentWinStreak;
-        }
-      } else {
-        currentLossStreak++;
-        currentWinStreak = 0;
-        currentStreak = -currentLossStreak;
-        if (currentLossStreak > maxLossStreak) {
-          maxLossStreak = currentLossStreak;
-        }
-      }
-    }
-    
-    return { maxWinStreak, maxLossStreak, currentStreak };
-  };
-  
-  const streaks = calculateStreaks(sortedBets);
-  
-  // Calculate recovery patterns after losses
-  const calculateRecoveryRate = (betHistory: BetHistory[]): number => {
-    let lossFollowedByWinCount = 0;
-    let totalLossesFollowedByAnyBet = 0;
-    
-    for (let i = 0; i < sortedBets.length - 1; i++) {
-      if (sortedBets[i].outcome === 'loss') {
-        totalLossesFollowedByAnyBet++;
-        if (sortedBets[i+1].outcome === 'win') {
-          lossFollowedByWinCount++;
-        }
-      }
-    }
-    
-    return totalLossesFollowedByAnyBet > 0 
-      ? (lossFollowedByWinCount / totalLossesFollowedByAnyBet) * 100 
-      : 0;
-  };
-  
-  const recoveryRate = calculateRecoveryRate(sortedBets);
+  const metrics = calculateFinancialMetrics(betHistory, eventRegistry.getEvent);
+  const {
+    wins,
+    losses,
+    pushes,
+    partials,
+    winRate,
+    totalInvested,
+    netProfit,
+    expectedLoss,
+    averageHouseEdge,
+    actualLoss,
+    kelly,
+    avgStakePercentage,
+    maxStakePercentage,
+    maxDrawdown,
+    recoveryRate,
+  } = metrics;
+  const winLossRatio = losses === 0 ? wins : metrics.winLossRatio.toFixed(2);
+  const roi = metrics.roi.toFixed(2);
   
   return (
     <div className={`rounded-lg p-6 ${isDarkMode ? 'bg-gray-800' : 'bg-white shadow-md'} mb-6`}>
@@ -138,10 +56,16 @@ const FinancialMetrics: React.FC = () => {
             <div>
               <p className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>Win Rate</p>
               <p className={`font-semibold text-lg ${isDarkMode ? 'text-white' : 'text-gray-800'}`}>
-                {betHistory.length > 0 ? ((wins / betHistory.length) * 100).toFixed(1) : '0'}%
+                {(winRate * 100).toFixed(1)}%
               </p>
             </div>
           </div>
+          {(pushes > 0 || partials > 0) && (
+            <p className={`text-xs mt-2 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+              {pushes} {pushes === 1 ? 'push' : 'pushes'} returned the stake and are left out of the win rate.
+              {partials > 0 && ` ${partials} partial ${partials === 1 ? 'refund counts' : 'refunds count'} as ${partials === 1 ? 'a loss' : 'losses'}.`}
+            </p>
+          )}
         </div>
         
         <div className={`p-4 rounded-lg ${isDarkMode ? 'bg-gray-700' : 'bg-gray-100'}`}>
@@ -217,34 +141,101 @@ const FinancialMetrics: React.FC = () => {
         </div>
       </div>
       
+      <div className={`p-4 rounded-lg mb-6 ${isDarkMode ? 'bg-gray-700' : 'bg-gray-100'}`}>
+        <h3 className={`font-semibold mb-2 ${isDarkMode ? 'text-white' : 'text-gray-800'}`}>House Edge</h3>
+        <div className="grid grid-cols-3 gap-4">
+          <div>
+            <p className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>Average Edge</p>
+            <p className={`font-semibold text-lg ${isDarkMode ? 'text-white' : 'text-gray-800'}`}>
+              {averageHouseEdge.toFixed(2)}%
+            </p>
+          </div>
+          <div>
+            <p className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>Expected Loss</p>
+            <p className={`font-semibold text-lg ${isDarkMode ? 'text-red-400' : 'text-red-600'}`}>
+              ${expectedLoss.toFixed(2)}
+            </p>
+          </div>
+          <div>
+            <p className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>Actual Loss</p>
+            <p className={`font-semibold text-lg ${
+              actualLoss > 0
+                ? isDarkMode ? 'text-red-400' : 'text-red-600'
+                : isDarkMode ? 'text-green-400' : 'text-green-600'
+            }`}>
+              {actualLoss >= 0 ? `$${actualLoss.toFixed(2)}` : `-$${Math.abs(actualLoss).toFixed(2)}`}
+            </p>
+          </div>
+        </div>
+        <p className={`text-xs mt-2 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+          Every event pays a little less than fair odds. You have wagered ${totalInvested.toLocaleString()}, so the house
+          expects to keep ${expectedLoss.toFixed(2)} of it. Luck moves your actual result around that figure, but the
+          more you bet, the closer it gets.
+        </p>
+      </div>
+      
+      {kelly.betsCompared > 0 && (
+        <div className={`p-4 rounded-lg mb-6 ${isDarkMode ? 'bg-gray-700' : 'bg-gray-100'}`}>
+          <h3 className={`font-semibold mb-2 ${isDarkMode ? 'text-white' : 'text-gray-800'}`}>Stakes vs. Kelly</h3>
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <p className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>Over-Bets</p>
+              <p className={`font-semibold text-lg ${
+                kelly.overBets > 0
+                  ? isDarkMode ? 'text-red-400' : 'text-red-600'
+                  : isDarkMode ? 'text-green-400' : 'text-green-600'
+              }`}>
+                {kelly.overBets} of {kelly.betsCompared}
+              </p>
+            </div>
+            <div>
+              <p className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>Bets With No Edge</p>
+              <p className={`font-semibold text-lg ${isDarkMode ? 'text-white' : 'text-gray-800'}`}>
+                {kelly.noEdgeBets}
+              </p>
+            </div>
+            <div>
+              <p className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>Staked Beyond Kelly</p>
+              <p className={`font-semibold text-lg ${isDarkMode ? 'text-red-400' : 'text-red-600'}`}>
+                ${kelly.excessStaked.toLocaleString()}
+              </p>
+            </div>
+          </div>
+          <p className={`text-xs mt-2 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+            The Kelly stake is the most a bet can take before it starts to slow your balance's growth. On a bet with a
+            house edge it is zero, so every dollar staked there is beyond Kelly.
+          </p>
+        </div>
+      )}
+      
       <div className={`p-4 rounded-lg ${isDarkMode ? 'bg-gray-700' : 'bg-gray-100'}`}>
         <h3 className={`font-semibold mb-2 ${isDarkMode ? 'text-white' : 'text-gray-800'}`}>Winning & Losing Streaks</h3>
         <div className="grid grid-cols-3 gap-4">
           <div>
             <p className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>Best Streak</p>
             <p className={`font-semibold text-lg ${isDarkMode ? 'text-green-400' : 'text-green-600'}`}>
-              {streaks.maxWinStreak} wins
+              {metrics.maxWinStreak} wins
             </p>
           </div>
           <div>
             <p className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>Worst Streak</p>
             <p className={`font-semibold text-lg ${isDarkMode ? 'text-red-400' : 'text-red-600'}`}>
-              {streaks.maxLossStreak} losses
+              {metrics.maxLossStreak} losses
             </p>
           </div>
           <div>
             <p className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>Current Streak</p>
             <p className={`font-semibold text-lg ${
-              streaks.currentStreak > 0 
+              metrics.currentStreak > 0 
                 ? isDarkMode ? 'text-green-400' : 'text-green-600'
-                : streaks.currentStreak < 0 
+                : metrics.currentStreak < 0 
                   ? isDarkMode ? 'text-red-400' : 'text-red-600'
                   : isDarkMode ? 'text-white' : 'text-gray-800'
             }`}>
-              {streaks.currentStreak > 0 
-                ? `${streaks.currentStreak} wins` 
-                : streaks.currentStreak < 0 
-                  ? `${Math.abs(streaks.currentStreak)} losses`
+              {metrics.currentStreak > 0 
+                ? `${metrics.currentStreak} wins` 
+                : metrics.currentStreak < 0 
+                  ? `${Math.abs(metrics.currentStreak)} losses`
                   : '0'
               }
             </p>
@@ -264,7 +255,7 @@ const FinancialMetrics: React.FC = () => {
           {parseFloat(roi) < 0 && (
             <li>Review your betting strategy - you're currently losing money overall</li>
           )}
-          {streaks.maxLossStreak > 3 && (
+          {metrics.maxLossStreak > 3 && (
             <li>Consider taking a break after 3 consecutive losses to reset your mindset</li>
           )}
           {recoveryRate < 30 && wins > 0 && losses > 0 && (
@@ -2,92 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { useTheme } from '../../context/ThemeContext';
 import { useGame } from '../../context/GameContext';
 import Tooltip from '../ui/Tooltip';
-
-// Define the Goal interface
-interface Goal {
-  id: string;
-  title: string;
-  description: string;
-  type: 'percentage' | 'minutes' | 'count';
-  defaultValue: number;
-  currentValue: number;
-  isCompleted: boolean;
-  isActive: boolean;
-}
-
-// Default goals
-const defaultGoals: Goal[] = [
-  {
-    id: 'max-bet',
-    title: 'Maximum Bet Size',
-    description: 'Set a maximum percentage of your bankroll for any single bet',
-    type: 'percentage',
-    defaultValue: 10,
-    currentValue: 10,
-    isCompleted: false,
-    isActive: true
-  },
-  {
-    id: 'session-limit',
-    title: 'Session Time Limit',
-    description: 'Set a maximum duration for your betting sessions',
-    type: 'minutes',
-    defaultValue: 60,
-    currentValue: 60,
-    isCompleted: false,
-    isActive: true
-  },
-  {
-    id: 'bet-frequency',
-    title: 'Daily Bet Limit',
-    description: 'Set a maximum number of bets you want to place per day',
-    type: 'count',
-    defaultValue: 20,
-    currentValue: 20,
-    isCompleted: false,
-    isActive: true
-  },
-  {
-    id: 'risk-level',
-    title: 'Average Risk Level',
-    description: 'Keep your average risk level below this percentage',
-    type: 'percentage',
-    defaultValue: 40,
-    currentValue: 40,
-    isCompleted: false,
-    isActive: true
-  },
-  {
-    id: 'break-frequency',
-    title: 'Break Frequency',
-    description: 'Take a break after this many consecutive bets',
-    type: 'count',
-    defaultValue: 5,
-    currentValue: 5,
-    isCompleted: false,
-    isActive: true
-  },
-  {
-    id: 'profit-target',
-    title: 'Profit Target',
-    description: 'Stop when you reach this profit percentage in a session',
-    type: 'percentage',
-    defaultValue: 50,
-    currentValue: 50,
-    isCompleted: false,
-    isActive: false
-  },
-  {
-    id: 'loss-limit',
-    title: 'Loss Limit',
-    description: 'Stop when you lose this percentage of your bankroll',
-    type: 'percentage',
-    defaultValue: 20,
-    currentValue: 20,
-    isCompleted: false,
-    isActive: false
-  }
-];
+import { evaluateGoals, formatGoalValue, Goal, GOAL_MIN_BETS, loadGoals, saveGoals } from '../../utils/goals';
 
 const GoalSetting: React.FC = () => {
   // Get theme and game context
@@ -96,15 +11,11 @@ const GoalSetting: React.FC = () => {
   const isDarkMode = theme === 'dark';
   
   // Initialize state
-  const [goals, setGoals] = useState<Goal[]>(() => {
-    // Try to load goals from localStorage
-    const savedGoals = localStorage.getItem('bettingGoals');
-    return savedGoals ? JSON.parse(savedGoals) : defaultGoals;
-  });
+  const [goals, setGoals] = useState<Goal[]>(loadGoals);
   
   // Save goals to localStorage when they change
   useEffect(() => {
-    localStorage.setItem('bettingGoals', JSON.stringify(goals));
+    saveGoals(goals);
   }, [goals]);
   
   // Handle goal value change
@@ -128,114 +39,9 @@ const GoalSetting: React.FC = () => {
   // Calculate progress towards goals
   const calculateGoalProgress = (): void => {
     // If not enough betting history, we can't calculate progress
-    if (betHistory.length < 3) return;
-    
-    // Calculate metrics to check against goals
-    const sortedBets = [...betHistory].sort((a, b) => 
-      new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-    );
-    
-    // Maximum bet as percentage of bankroll
-    const maxBetPercentage = Math.max(...betHistory.map(bet => (bet.betAmount / bet.balanceAfter) * 100));
-    
-    // Average risk level
-    const avgRiskLevel = betHistory.reduce((sum, bet) => sum + bet.riskPercentage, 0) / betHistory.length;
-    
-    // Session duration (a new session starts if there's a gap of more than 30 minutes)
-    const sessions: number[][] = [];
-    let currentSession = [0];
-    
-    for (let i = 1; i < sortedBets.length; i++) {
-      const timeDiffMinutes = (new Date(sortedBets[i].timestamp).getTime() - new Date(sortedBets[i-1].timestamp).getTime()) / (1000 * 60);
-      if (timeDiffMinutes > 30) {
-        sessions.push(currentSession);
-        currentSession = [i];
-      } else {
-        currentSession.push(i);
-      }
-    }
-    
-    if (currentSession.length > 0) {
-      sessions.push(currentSession);
-    }
-    
-    // Get longest session duration
-    let maxSessionDuration = 0;
-    sessions.forEach(session => {
-      if (session.length < 2) return; // Skip sessions with only one bet
-      
-      const sessionStart = new Date(sortedBets[session[0]].timestamp).getTime();
-      const sessionEnd = new Date(sortedBets[session[session.length - 1]].timestamp).getTime();
-      const durationMinutes = (sessionEnd - sessionStart) / (1000 * 60);
-      
-      maxSessionDuration = Math.max(maxSessionDuration, durationMinutes);
-    });
-    
-    // Get maximum bets per day
-    const betsByDay: Record<string, number> = {};
-    betHistory.forEach(bet => {
-      const dateKey = new Date(bet.timestamp).toISOString().split('T')[0];
-      betsByDay[dateKey] = (betsByDay[dateKey] || 0) + 1;
-    });
-    
-    const maxBetsPerDay = Math.max(...Object.values(betsByDay));
-    
-    // Get maximum consecutive bets without a break
-    let maxConsecutiveBets = 0;
-    let currentConsecutiveBets = 1;
+    if (betHistory.length < GOAL_MIN_BETS) return;
     
-    for (let i = 1; i < sortedBets.length; i++) {
-      const timeDiffMinutes = (new Date(sortedBets[i].timestamp).getTime() - new Date(sortedBets[i-1].timestamp).getTime()) / (1000 * 60);
-      if (timeDiffMinutes < 10) { // Less than 10 minutes counts as consecutive
-        currentConsecutiveBets++;
-      } else {
-        maxConsecutiveBets = Math.max(maxConsecutiveBets, currentConsecutiveBets);
-        currentConsecutiveBets = 1;
-      }
-    }
-    
-    maxConsecutiveBets = Math.max(maxConsecutiveBets, currentConsecutiveBets);
-    
-    // Calculate profit and loss
-    const initialBalance = sortedBets[0].balanceAfter - (sortedBets[0].outcome === 'win' ? sortedBets[0].winAmount : -sortedBets[0].betAmount);
-    const currentBalance = sortedBets[sortedBets.length - 1].balanceAfter;
-    const profitPercentage = ((currentBalance - initialBalance) / initialBalance) * 100;
-    const maxLossPercentage = initialBalance > 0 ? ((initialBalance - Math.min(...sortedBets.map(b => b.balanceAfter))) / initialBalance) * 100 : 0;
-    
-    // Update goals' completion status
-    setGoals(prevGoals => 
-      prevGoals.map(goal => {
-        let isCompleted = false;
-        
-        switch(goal.id) {
-          case 'max-bet':
-            isCompleted = maxBetPercentage <= goal.currentValue;
-            break;
-          case 'session-limit':
-            isCompleted = maxSessionDuration <= goal.currentValue;
-            break;
-          case 'bet-frequency':
-            isCompleted = maxBetsPerDay <= goal.currentValue;
-            break;
-          case 'risk-level':
-            isCompleted = avgRiskLevel <= goal.currentValue;
-            break;
-          case 'break-frequency':
-            isCompleted = maxConsecutiveBets <= goal.currentValue;
-            break;
-          case 'profit-target':
-            isCompleted = profitPercentage >= goal.currentValue;
-            break;
-          case 'loss-limit':
-            isCompleted = maxLossPercentage <= goal.currentValue;
-            break;
-          default:
-            break;
-        }
-        
-        return { ...goal, isCompleted };
-      })
-    );
+    setGoals(prevGoals => evaluateGoals(prevGoals, betHistory));
   };
   
   // Calculate goal progress whenever betting history changes
@@ -267,12 +73,12 @@ const GoalSetting: React.FC = () => {
               </Tooltip>
             </h3>
             <p className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
-              {betHistory.length < 3 
-                ? "Place at least 3 bets to see your progress"
+              {betHistory.length < GOAL_MIN_BETS 
+                ? `Place at least ${GOAL_MIN_BETS} bets to see your progress`
                 : `${completedGoals.length} of ${activeGoals.length} goals met`}
             </p>
           </div>
-          {betHistory.length >= 3 && (
+          {betHistory.length >= GOAL_MIN_BETS && (
             <div className="text-right">
               <span className={`text-3xl font-bold ${
                 goalProgressPercentage >= 80 
@@ -286,7 +92,7 @@ const GoalSetting: React.FC = () => {
             </div>
           )}
         </div>
-        {betHistory.length >= 3 && (
+        {betHistory.length >= GOAL_MIN_BETS && (
           <div className={`w-full h-3 rounded-full ${isDarkMode ? 'bg-gray-700' : 'bg-gray-200'} overflow-hidden`}>
             <div 
               className={`h-full rounded-full ${
@@ -365,7 +171,7 @@ const GoalSetting: React.FC = () => {
               <span className={`font-medium min-w-[60px] text-center ${
                 isDarkMode ? 'text-white' : 'text-gray-800'
               }`}>
-                {goal.currentValue}{goal.type === 'percentage' ? '%' : goal.type === 'minutes' ? ' min' : ''}
+                {formatGoalValue(goal)}
               </span>
             </div>
           </div>
@@ -1,15 +1,8 @@
 import React from 'react';
-import { useGame, BetHistory } from '../../context/GameContext';
+import { useGame } from '../../context/GameContext';
 import { useTheme } from '../../context/ThemeContext';
 import Tooltip from '../ui/Tooltip';
-
-interface PatternWarning {
-  id: string;
-  title: string;
-  description: string;
-  severity: 'low' | 'medium' | 'high';
-  recommendation: string;
-}
+import { detectBettingPatterns, PATTERN_DETECTION_MIN_BETS, PatternSeverity } from '../../utils/patternDetection';
 
 const PatternRecognition: React.FC = () => {
   const { betHistory } = useGame();
@@ -17,7 +10,7 @@ const PatternRecognition: React.FC = () => {
   const isDarkMode = theme === 'dark';
 
   // Skip rendering if not enough data
-  if (betHistory.length < 5) {
+  if (betHistory.length < PATTERN_DETECTION_MIN_BETS) {
     return (
       <div className={`rounded-lg p-6 ${isDarkMode ? 'bg-gray-800' : 'bg-white shadow-md'} mb-6`} id="pattern-recognition">
         <h2 className={`text-xl font-bold mb-4 ${isDarkMode ? 'text-white' : 'text-gray-800'}`}>
@@ -32,171 +25,13 @@ const PatternRecognition: React.FC = () => {
     );
   }
 
-  // Sort bets by timestamp for temporal analysis
-  const sortedBets = [...betHistory].sort((a, b) => 
-    new Date(a.timestamp).getTime() - new Date(a.timestamp).getTime()
-  );
-
-  // Detect potentially problematic patterns
-  const detectPatterns = (): PatternWarning[] => {
-    const warnings: PatternWarning[] = [];
-    
-    // Pattern 1: Escalating bet sizes after losses (chasing losses)
-    let chaseLossCount = 0;
-    for (let i = 1; i < sortedBets.length; i++) {
-      if (
-        sortedBets[i-1].outcome === 'loss' && 
-        sortedBets[i].betAmount > sortedBets[i-1].betAmount * 1.3
-      ) {
-        chaseLossCount++;
-      }
-    }
-    
-    const chaseLossRatio = chaseLossCount / (sortedBets.length - 1);
-    if (chaseLossRatio > 0.2) {
-      warnings.push({
-        id: 'chase-losses',
-        title: 'Chasing Losses',
-        description: `You increased your bet size after a loss ${Math.round(chaseLossRatio * 100)}% of the time. This pattern often leads to larger losses.`,
-        severity: chaseLossRatio > 0.4 ? 'high' : chaseLossRatio > 0.3 ? 'medium' : 'low',
-        recommendation: 'Try to maintain consistent bet sizes regardless of previous outcomes. Consider taking a break after losses before placing your next bet.'
-      });
-    }
-    
-    // Pattern 2: Consistently high risk bets (risk-seeking)
-    const avgRiskLevel = betHistory.reduce((sum, bet) => sum + bet.riskPercentage, 0) / betHistory.length;
-    const highRiskBets = betHistory.filter(bet => bet.riskPercentage > 60);
-    const highRiskRatio = highRiskBets.length / betHistory.length;
-    
-    if (avgRiskLevel > 50 || highRiskRatio > 0.4) {
-      warnings.push({
-        id: 'high-risk',
-        title: 'High-Risk Betting',
-        description: `${Math.round(highRiskRatio * 100)}% of your bets are high-risk (above 60% risk level). Your average risk level is ${Math.round(avgRiskLevel)}%.`,
-        severity: avgRiskLevel > 70 ? 'high' : avgRiskLevel > 60 ? 'medium' : 'low',
-        recommendation: 'Balance your portfolio with more low and medium risk bets to protect your bankroll from significant losses.'
-      });
-    }
-    
-    // Pattern 3: Betting too frequently (compulsive betting)
-    const timeGaps: number[] = [];
-    for (let i = 1; i < sortedBets.length; i++) {
-      const timeDiffMinutes = (new Date(sortedBets[i].timestamp).getTime() - new Date(sortedBets[i-1].timestamp).getTime()) / (1000 * 60);
-      timeGaps.push(timeDiffMinutes);
-    }
-    
-    const rapidBetCount = timeGaps.filter(gap => gap < 2).length;
-    const rapidBetRatio = rapidBetCount / timeGaps.length;
-    
-    if (rapidBetRatio > 0.3) {
-      warnings.push({
-        id: 'rapid-betting',
-        title: 'Rapid Betting',
-        description: `${Math.round(rapidBetRatio * 100)}% of your bets are placed within 2 minutes of the previous bet. This may indicate impulsive betting.`,
-        severity: rapidBetRatio > 0.6 ? 'high' : rapidBetRatio > 0.45 ? 'medium' : 'low',
-        recommendation: 'Take more time between bets to make thoughtful decisions. Consider setting a 5-minute cooling-off period between bets.'
-      });
-    }
-    
-    // Pattern 4: Martingale-like progression (doubling after losses)
-    let martingaleCount = 0;
-    for (let i = 1; i < sortedBets.length; i++) {
-      if (
-        sortedBets[i-1].outcome === 'loss' && 
-        Math.abs(sortedBets[i].betAmount / sortedBets[i-1].betAmount - 2) < 0.3
-      ) {
-        martingaleCount++;
-      }
-    }
-    
-    const martingaleRatio = martingaleCount / (sortedBets.length - 1);
-    if (martingaleRatio > 0.15) {
-      warnings.push({
-        id: 'martingale',
-        title: 'Martingale Strategy',
-        description: `You appear to be using a Martingale-like strategy (doubling after losses) ${Math.round(martingaleRatio * 100)}% of the time. This is high-risk over the long term.`,
-        severity: martingaleRatio > 0.3 ? 'high' : martingaleRatio > 0.2 ? 'medium' : 'low',
-        recommendation: 'Avoid doubling your bet after losses. This strategy can quickly deplete your bankroll with a series of consecutive losses.'
-      });
-    }
-    
-    // Pattern 5: All-in behavior (betting large percentages of bankroll)
-    const bankrollPercentages = betHistory.map(bet => (bet.betAmount / bet.balanceAfter) * 100);
-    const largeStakeCount = bankrollPercentages.filter(pct => pct > 20).length;
-    const largeStakeRatio = largeStakeCount / betHistory.length;
-    
-    if (largeStakeRatio > 0.15) {
-      warnings.push({
-        id: 'large-stakes',
-        title: 'Large Stakes',
-        description: `${Math.round(largeStakeRatio * 100)}% of your bets exceed 20% of your bankroll. Large stakes increase your risk of significant losses.`,
-        severity: largeStakeRatio > 0.3 ? 'high' : largeStakeRatio > 0.2 ? 'medium' : 'low',
-        recommendation: 'Limit your bet sizes to 5-10% of your bankroll to ensure longevity and reduce the impact of losing streaks.'
-      });
-    }
-    
-    // Pattern 6: Tilting after wins (overconfidence)
-    let postWinRiskIncrease = 0;
-    for (let i = 1; i < sortedBets.length; i++) {
-      if (
-        sortedBets[i-1].outcome === 'win' && 
-        sortedBets[i].riskPercentage > sortedBets[i-1].riskPercentage * 1.3
-      ) {
-        postWinRiskIncrease++;
-      }
-    }
-    
-    const winCount = sortedBets.filter(bet => bet.outcome === 'win').length;
-    const postWinRiskRatio = winCount > 0 ? postWinRiskIncrease / winCount : 0;
-    
-    if (postWinRiskRatio > 0.3) {
-      warnings.push({
-        id: 'overconfidence',
-        title: 'Post-Win Overconfidence',
-        description: `You tend to take significantly higher risks after winning (${Math.round(postWinRiskRatio * 100)}% of the time). This can lead to giving back wins.`,
-        severity: postWinRiskRatio > 0.5 ? 'high' : postWinRiskRatio > 0.4 ? 'medium' : 'low',
-        recommendation: 'Maintain consistent risk levels regardless of previous outcomes. Consider taking some profits off the table after significant wins.'
-      });
-    }
-    
-    // Pattern 7: Loss streaks without breaks
-    const detectLossStreaks = () => {
-      let maxLossStreak = 0;
-      let currentLossStreak = 0;
-      
-      for (const bet of sortedBets) {
-        if (bet.outcome === 'loss') {
-          currentLossStreak++;
-          maxLossStreak = Math.max(maxLossStreak, currentLossStreak);
-        } else {
-          currentLossStreak = 0;
-        }
-      }
-      
-      return maxLossStreak;
-    };
-    
-    const maxLossStreak = detectLossStreaks();
-    if (maxLossStreak >= 4) {
-      warnings.push({
-        id: 'loss-streak',
-        title: 'Extended Loss Streak',
-        description: `You experienced a streak of ${maxLossStreak} consecutive losses without taking a break. This can lead to emotional decision-making.`,
-        severity: maxLossStreak >= 6 ? 'high' : maxLossStreak >= 5 ? 'medium' : 'low',
-        recommendation: 'Take a break after 3 consecutive losses to reset your mindset and prevent emotional decisions.'
-      });
-    }
-    
-    return warnings;
-  };
-
-  const patternWarnings = detectPatterns();
+  const patternWarnings = detectBettingPatterns(betHistory);
   const highSeverityWarnings = patternWarnings.filter(w => w.severity === 'high');
   const mediumSeverityWarnings = patternWarnings.filter(w => w.severity === 'medium');
   const lowSeverityWarnings = patternWarnings.filter(w => w.severity === 'low');
 
   // Function to get color classes based on severity
-  const getSeverityColors = (severity: 'low' | 'medium' | 'high') => {
+  const getSeverityColors = (severity: PatternSeverity) => {
     switch (severity) {
       case 'high':
         return {
@@ -7,6 +7,7 @@
  * 
  * Features:
  * - Monte Carlo simulation for future balance projections
+ * - Fan chart of the projected balance range with ruin and goal probabilities
  * - Value at Risk (VaR) calculations 
  * - Volatility analysis
  * - Risk breakdown visualization
@@ -14,10 +15,15 @@
  * 
  * @module components/analytics/PredictiveAnalytics
  */
-import React, { useState } from 'react';
-import { useGame, BetHistory } from '../../context/GameContext';
+import React from 'react';
+import { useGame } from '../../context/GameContext';
 import { useTheme } from '../../context/ThemeContext';
 import Tooltip from '../ui/Tooltip';
+import ProjectionFanChart from './ProjectionFanChart';
+import useProjection from '../../hooks/useProjection';
+import { calculateUserMetrics } from '../../utils/analytics';
+import { CONFIDENCE_LEVEL_OPTIONS, PROJECTION_PATH_OPTIONS } from '../../utils/projection';
+import { GOAL_AMOUNT } from '../../utils/constants';
 
 /**
  * Predictive Analytics Component
@@ -25,13 +31,26 @@ import Tooltip from '../ui/Tooltip';
  * @returns {JSX.Element} The rendered predictive analytics component
  */
 const PredictiveAnalytics: React.FC = () => {
-  const { betHistory, balance } = useGame();
+  const { betHistory, balance, seed } = useGame();
   const { theme } = useTheme();
   const isDarkMode = theme === 'dark';
-  const [projectionPeriod, setProjectionPeriod] = useState<'10' | '25' | '50'>('25');
+  const {
+    projectionPeriod,
+    setProjectionPeriod,
+    pathCount,
+    setPathCount,
+    confidenceLevel,
+    setConfidenceLevel,
+    projections,
+    monteCarlo,
+    hasEnoughData,
+    isSimulating,
+    progress,
+    workerError,
+  } = useProjection({ betHistory, balance, seed });
 
   // Skip rendering if not enough data
-  if (betHistory.length < 5) {
+  if (!hasEnoughData) {
     return (
       <div className={`rounded-lg p-6 ${isDarkMode ? 'bg-gray-800' : 'bg-white shadow-md'} mb-6`} id="predictive-analytics">
         <h2 className={`text-xl font-bold mb-4 ${isDarkMode ? 'text-white' : 'text-gray-800'}`}>
@@ -46,210 +65,19 @@ const PredictiveAnalytics: React.FC = () => {
     );
   }
 
-  /**
-   * Calculates key metrics from betting history
-   * 
-   * @returns {Object} Object containing metrics like win rate, average bet size, risk levels, and trends
-   */
-  const calculateMetrics = () => {
-    // Win rate
-    const wins = betHistory.filter(bet => bet.outcome === 'win').length;
-    const winRate = betHistory.length > 0 ? wins / betHistory.length : 0;
-    
-    // Average bet size
-    const avgBetSize = betHistory.reduce((sum, bet) => sum + bet.betAmount, 0) / betHistory.length;
-    
-    // Average risk level
-    const avgRiskLevel = betHistory.reduce((sum, bet) => sum + bet.riskPercentage, 0) / betHistory.length;
-    
-    // Recent trends (last 5 bets)
-    const recentBets = [...betHistory].sort((a, b) => 
-      new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
-    ).slice(0, 5);
-    
-    const recentWinRate = recentBets.filter(bet => bet.outcome === 'win').length / recentBets.length;
-    const recentAvgBetSize = recentBets.reduce((sum, bet) => sum + bet.betAmount, 0) / recentBets.length;
-    const recentRiskLevel = recentBets.reduce((sum, bet) => sum + bet.riskPercentage, 0) / recentBets.length;
-    
-    // Trend factors (weighted more towards recent behavior)
-    const winRateTrend = (recentWinRate - winRate) * 0.5;
-    const betSizeTrend = ((recentAvgBetSize - avgBetSize) / avgBetSize) * 0.3;
-    const riskTrend = ((recentRiskLevel - avgRiskLevel) / avgRiskLevel) * 0.2;
-    
-    // Calculate betting frequency (average days between bets)
-    let bettingFrequency = 0;
-    if (betHistory.length > 1) {
-      const sortedBets = [...betHistory].sort((a, b) => 
-        new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-      );
-      
-      const timeGaps = [];
-      for (let i = 1; i < sortedBets.length; i++) {
-        const gap = (new Date(sortedBets[i].timestamp).getTime() - new Date(sortedBets[i-1].timestamp).getTime()) / (1000 * 60 * 60 * 24); // in days
-        timeGaps.push(gap);
-      }
-      
-      bettingFrequency = timeGaps.reduce((sum, gap) => sum + gap, 0) / timeGaps.length;
-    }
-    
-    // Calculate bet sizing strategy (standard deviation of bet size relative to balance)
-    const betSizeRatios = betHistory.map(bet => bet.betAmount / bet.balanceAfter);
-    const avgBetSizeRatio = betSizeRatios.reduce((sum, ratio) => sum + ratio, 0) / betSizeRatios.length;
-    const betSizeStdDev = Math.sqrt(
-      betSizeRatios.reduce((sum, ratio) => sum + Math.pow(ratio - avgBetSizeRatio, 2), 0) / betSizeRatios.length
-    );
-    
-    return {
-      winRate,
-      avgBetSize,
-      avgRiskLevel,
-      winRateTrend,
-      betSizeTrend,
-      riskTrend,
-      recentWinRate,
-      bettingFrequency,
-      avgBetSizeRatio,
-      betSizeStdDev
-    };
-  };
-
-  /**
-   * Generates future projections using Monte Carlo simulation
-   * 
-   * This function simulates future betting outcomes based on:
-   * - Historical win rates with trend adjustments
-   * - Betting size patterns with random variations
-   * - Risk level trends
-   * 
-   * It calculates several risk metrics including:
-   * - Value at Risk (VaR)
-   * - Balance volatility
-   * - Bankruptcy risk scoring
-   * 
-   * @returns {Object} Comprehensive projection results and risk assessment
-   */
-  const generateProjections = () => {
-    const metrics = calculateMetrics();
-    const numBets = parseInt(projectionPeriod);
-    const projectedBets = [];
-    
-    let projectedBalance = balance;
-    let currentWinRate = metrics.winRate;
-    let currentBetSize = metrics.avgBetSize;
-    let currentRiskLevel = metrics.avgRiskLevel;
-    let totalWins = 0;
-    let balanceHistory = [projectedBalance];
-
-    // Apply small random variations to make projections more realistic
-    const randomVariation = () => (Math.random() * 0.2) - 0.1; // -10% to +10%
-    
-    for (let i = 0; i < numBets; i++) {
-      // Gradually adjust metrics based on trends
-      currentWinRate = Math.max(0.01, Math.min(0.95, currentWinRate + (metrics.winRateTrend / numBets) + randomVariation() * 0.05));
-      currentBetSize = Math.max(10, currentBetSize * (1 + (metrics.betSizeTrend / numBets) + randomVariation() * 0.1));
-      currentRiskLevel = Math.max(5, Math.min(95, currentRiskLevel + (metrics.riskTrend / numBets) + randomVariation()));
-      
-      // Determine bet outcome
-      const isWin = Math.random() < currentWinRate;
-      if (isWin) totalWins++;
-      
-      // Calculate average return based on risk level (higher risk = higher potential return)
-      const avgReturn = 1 + (currentRiskLevel / 100);
-      
-      // Update projectedBalance
-      if (isWin) {
-        projectedBalance += currentBetSize * avgReturn * 0.8; // 80% of theoretical return for realism
-      } else {
-        projectedBalance -= currentBetSize;
-      }
-      
-      // Don't allow balance to go below 0
-      projectedBalance = Math.max(0, projectedBalance);
-      balanceHistory.push(projectedBalance);
-      
-      projectedBets.push({
-        betNumber: i + 1,
-        outcome: isWin ? 'win' : 'loss',
-        balance: projectedBalance,
-        betSize: currentBetSize,
-        riskLevel: currentRiskLevel
-      });
-    }
-    
-    // Calculate standard deviation of balance
-    const avgBalance = balanceHistory.reduce((sum, bal) => sum + bal, 0) / balanceHistory.length;
-    const balanceStdDev = Math.sqrt(
-      balanceHistory.reduce((sum, bal) => sum + Math.pow(bal - avgBalance, 2), 0) / balanceHistory.length
+  // Still simulating the first projection
+  if (!projections) {
+    return (
+      <div className={`rounded-lg p-6 ${isDarkMode ? 'bg-gray-800' : 'bg-white shadow-md'} mb-6`} id="predictive-analytics">
+        <h2 className={`text-xl font-bold mb-4 ${isDarkMode ? 'text-white' : 'text-gray-800'}`}>Predictive Analytics</h2>
+        <p className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+          Simulating your next {projectionPeriod} bets… {Math.round(progress * 100)}%
+        </p>
+      </div>
     );
-    
-    // Calculate Value at Risk (VaR) - 95% confidence level
-    // Sort balance changes to find the 5th percentile
-    const balanceChanges = [];
-    for (let i = 1; i < balanceHistory.length; i++) {
-      balanceChanges.push(balanceHistory[i] - balanceHistory[i-1]);
-    }
-    balanceChanges.sort((a, b) => a - b);
-    const valueAtRisk = Math.abs(balanceChanges[Math.floor(balanceChanges.length * 0.05)]);
-    
-    // Calculate minimum projected balance
-    const minBalance = Math.min(...balanceHistory);
-    
-    // Calculate continuous risk score (0-100)
-    // Factors to consider:
-    // 1. Final balance ratio (30%)
-    const finalBalanceRatio = projectedBalance / balance;
-    const finalBalanceScore = Math.max(0, Math.min(30, 30 * (1 - finalBalanceRatio)));
-    
-    // 2. Minimum balance ratio (25%)
-    const minBalanceRatio = minBalance / balance;
-    const minBalanceScore = Math.max(0, Math.min(25, 25 * (1 - minBalanceRatio)));
-    
-    // 3. Volatility score (20%)
-    const volatilityRatio = balanceStdDev / avgBalance;
-    const volatilityScore = Math.min(20, 20 * volatilityRatio);
-    
-    // 4. VaR score (15%)
-    const varRatio = valueAtRisk / avgBalance;
-    const varScore = Math.min(15, 15 * varRatio);
-    
-    // 5. Bet sizing strategy (10%)
-    // Higher std dev in bet sizing indicates more erratic betting (higher risk)
-    const betSizingScore = Math.min(10, 10 * metrics.betSizeStdDev * 5);
-    
-    // Calculate total risk score (0-100)
-    const riskScore = finalBalanceScore + minBalanceScore + volatilityScore + varScore + betSizingScore;
-    
-    // Map continuous score to risk categories for display purposes
-    let bankruptcyRiskCategory;
-    if (riskScore < 20) bankruptcyRiskCategory = 'Very Low';
-    else if (riskScore < 40) bankruptcyRiskCategory = 'Low';
-    else if (riskScore < 60) bankruptcyRiskCategory = 'Medium';
-    else if (riskScore < 80) bankruptcyRiskCategory = 'High';
-    else bankruptcyRiskCategory = 'Very High';
-    
-    return {
-      finalBalance: projectedBalance,
-      projectedWinRate: totalWins / numBets,
-      maxBalance: Math.max(...balanceHistory),
-      minBalance: minBalance,
-      averageBetSize: projectedBets.reduce((sum, bet) => sum + bet.betSize, 0) / numBets,
-      averageRiskLevel: projectedBets.reduce((sum, bet) => sum + bet.riskLevel, 0) / numBets,
-      bankruptcyRiskScore: riskScore,
-      bankruptcyRiskCategory: bankruptcyRiskCategory,
-      balanceVolatility: balanceStdDev / avgBalance,
-      valueAtRisk: valueAtRisk,
-      profitPotential: projectedBalance > balance * 1.5 ? 'High' : projectedBalance > balance * 1.1 ? 'Medium' : 'Low',
-      riskBreakdown: {
-        finalBalanceContribution: finalBalanceScore,
-        minBalanceContribution: minBalanceScore,
-        volatilityContribution: volatilityScore,
-        varContribution: varScore,
-        betSizingContribution: betSizingScore
-      }
-    };
-  };
+  }
 
-  const projections = generateProjections();
+  const metrics = calculateUserMetrics(betHistory);
   const balanceChange = projections.finalBalance - balance;
   const balanceChangePercent = ((balanceChange / balance) * 100).toFixed(1);
   
@@ -274,6 +102,12 @@ const PredictiveAnalytics: React.FC = () => {
           Predictive Analytics
         </Tooltip>
       </h2>
+
+      {workerError && (
+        <p className={`text-sm mb-4 ${isDarkMode ? 'text-yellow-400' : 'text-yellow-700'}`}>
+          {workerError}. Projections are now simulated on the page, which may pause it briefly.
+        </p>
+      )}
       
       <div className="flex items-center justify-between mb-6">
         <p className={`${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
@@ -300,10 +134,41 @@ const PredictiveAnalytics: React.FC = () => {
         </div>
       </div>
       
+      <div className="flex flex-wrap items-center gap-4 mb-6 text-sm">
+        <label className={`flex items-center gap-2 ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+          <Tooltip content="More paths give steadier numbers but take longer to simulate.">
+            Paths
+          </Tooltip>
+          <select
+            value={pathCount}
+            onChange={e => setPathCount(parseInt(e.target.value, 10))}
+            className={`px-2 py-1 rounded border ${isDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-800'}`}
+          >
+            {PROJECTION_PATH_OPTIONS.map(option => (
+              <option key={option} value={option}>{option.toLocaleString()}</option>
+            ))}
+          </select>
+        </label>
+        <label className={`flex items-center gap-2 ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+          <Tooltip content="How sure the Value at Risk should be: at 99% only 1 bet in 100 is expected to lose more.">
+            VaR Confidence
+          </Tooltip>
+          <select
+            value={confidenceLevel}
+            onChange={e => setConfidenceLevel(parseFloat(e.target.value))}
+            className={`px-2 py-1 rounded border ${isDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-800'}`}
+          >
+            {CONFIDENCE_LEVEL_OPTIONS.map(option => (
+              <option key={option} value={option}>{Math.round(option * 100)}%</option>
+            ))}
+          </select>
+        </label>
+      </div>
+      
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
         <div className={`p-4 rounded-lg ${isDarkMode ? 'bg-gray-700' : 'bg-gray-100'}`}>
           <h3 className={`font-semibold mb-2 ${isDarkMode ? 'text-white' : 'text-gray-800'}`}>
-            <Tooltip content="Projected final balance after the selected number of bets, based on your current betting patterns.">
+            <Tooltip content="Median final balance across the simulated paths after the selected number of bets, based on your current betting patterns.">
               Projected Balance
             </Tooltip>
           </h3>
@@ -333,7 +198,7 @@ const PredictiveAnalytics: React.FC = () => {
             {(projections.projectedWinRate * 100).toFixed(1)}%
           </p>
           <p className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
-            Current: {(calculateMetrics().winRate * 100).toFixed(1)}%
+            Current: {(metrics.winRate * 100).toFixed(1)}%
           </p>
         </div>
         
@@ -352,6 +217,48 @@ const PredictiveAnalytics: React.FC = () => {
         </div>
       </div>
       
+      {monteCarlo && (
+        <div className={`p-4 rounded-lg ${isDarkMode ? 'bg-gray-700' : 'bg-gray-100'} mb-6`}>
+          <h3 className={`font-semibold mb-2 ${isDarkMode ? 'text-white' : 'text-gray-800'}`}>
+            <Tooltip content={`Your next ${projectionPeriod} bets played out ${monteCarlo.pathCount.toLocaleString()} times. The bands show where your balance lands in most of them, not a single guess.`}>
+              Range of Outcomes
+            </Tooltip>
+            {isSimulating && (
+              <span className={`ml-2 text-sm font-normal ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                Updating… {Math.round(progress * 100)}%
+              </span>
+            )}
+          </h3>
+          <ProjectionFanChart monteCarlo={monteCarlo} />
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-4">
+            <div>
+              <p className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>Chance of Going Broke</p>
+              <p className={`font-bold ${isDarkMode ? 'text-red-400' : 'text-red-600'}`}>
+                {(monteCarlo.ruinProbability * 100).toFixed(1)}%
+              </p>
+            </div>
+            <div>
+              <p className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>Chance of Reaching ${GOAL_AMOUNT.toLocaleString()}</p>
+              <p className={`font-bold ${isDarkMode ? 'text-green-400' : 'text-green-600'}`}>
+                {(monteCarlo.goalProbability * 100).toFixed(1)}%
+              </p>
+            </div>
+            <div>
+              <p className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>Median Final Balance</p>
+              <p className={`font-bold ${isDarkMode ? 'text-white' : 'text-gray-800'}`}>
+                ${Math.round(monteCarlo.finalBalance.p50).toLocaleString()}
+              </p>
+            </div>
+            <div>
+              <p className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>90% of Paths End Between</p>
+              <p className={`font-bold ${isDarkMode ? 'text-white' : 'text-gray-800'}`}>
+                ${Math.round(monteCarlo.finalBalance.p5).toLocaleString()} – ${Math.round(monteCarlo.finalBalance.p95).toLocaleString()}
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+      
       <div className={`p-4 rounded-lg ${isDarkMode ? 'bg-gray-700' : 'bg-gray-100'} mb-6`}>
         <h3 className={`font-semibold mb-2 ${isDarkMode ? 'text-white' : 'text-gray-800'}`}>
           <Tooltip content="A breakdown of what might happen if you continue your current betting patterns.">
@@ -399,7 +306,7 @@ const PredictiveAnalytics: React.FC = () => {
           {projections.riskBreakdown.betSizingContribution > 7 && (
             <li>Your bet sizing strategy is inconsistent. Consider using the 5% rule: never bet more than 5% of your bankroll on a single bet.</li>
           )}
-          {projections.averageBetSize > calculateMetrics().avgBetSize * 1.2 && (
+          {projections.averageBetSize > metrics.avgBetSize * 1.2 && (
             <li>Your bet sizes are projected to increase. Consider setting a maximum bet limit to maintain control.</li>
           )}
           {projections.bankruptcyRiskScore > 70 && (
@@ -499,7 +406,7 @@ const PredictiveAnalytics: React.FC = () => {
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           <div>
             <p className={`text-sm mb-1 ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
-              <Tooltip content="The lowest your balance is projected to reach during this simulation.">
+              <Tooltip content="The lowest your balance reaches in a typical simulated path.">
                 Minimum Projected Balance:
               </Tooltip>
             </p>
@@ -521,7 +428,7 @@ const PredictiveAnalytics: React.FC = () => {
           
           <div>
             <p className={`text-sm mb-1 ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
-              <Tooltip content="Value at Risk (VaR) - The maximum amount you might lose in a single bet with 95% confidence.">
+              <Tooltip content={`Value at Risk (VaR) - The maximum amount you might lose in a single bet with ${Math.round(confidenceLevel * 100)}% confidence.`}>
                 Value at Risk (VaR):
               </Tooltip>
             </p>
@@ -0,0 +1,89 @@
+/**
+ * ProjectionFanChart Component
+ *
+ * Draws the spread of simulated balances over the projection period: the
+ * outer band holds 90% of the paths (5th to 95th percentile), the inner
+ * band the middle half, and the line follows the median path.
+ *
+ * @module components/analytics/ProjectionFanChart
+ */
+import React from 'react';
+import { useTheme } from '../../context/ThemeContext';
+import type { MonteCarloProjection, PercentileBand } from '../../types';
+
+interface ProjectionFanChartProps {
+  /** Monte Carlo projection to draw */
+  monteCarlo: MonteCarloProjection;
+}
+
+/** Size of the drawing area in SVG units; the chart scales to its container */
+const WIDTH = 600;
+const HEIGHT = 220;
+const PADDING = { top: 10, right: 10, bottom: 24, left: 56 };
+
+/**
+ * Projection Fan Chart Component
+ *
+ * @returns {JSX.Element} The rendered fan chart
+ */
+const ProjectionFanChart: React.FC<ProjectionFanChartProps> = ({ monteCarlo }) => {
+  const { theme } = useTheme();
+  const isDarkMode = theme === 'dark';
+  const { bands } = monteCarlo;
+
+  const lastBet = bands[bands.length - 1].bet || 1;
+  const highest = bands.reduce((max, point) => Math.max(max, point.p95), 0) || 1;
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+
+  const x = (bet: number) => PADDING.left + (bet / lastBet) * plotWidth;
+  const y = (value: number) => PADDING.top + plotHeight - (value / highest) * plotHeight;
+
+  /**
+   * Builds a closed polygon between two percentiles
+   */
+  const area = (upper: keyof PercentileBand, lower: keyof PercentileBand) => [
+    ...bands.map(point => `${x(point.bet)},${y(point[upper])}`),
+    ...[...bands].reverse().map(point => `${x(point.bet)},${y(point[lower])}`),
+  ].join(' ');
+
+  const medianLine = bands.map(point => `${x(point.bet)},${y(point.p50)}`).join(' ');
+  const gridValues = [0, highest / 2, highest];
+  const textColor = isDarkMode ? '#9ca3af' : '#6b7280';
+  const gridColor = isDarkMode ? '#374151' : '#e5e7eb';
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Projected balance range">
+        {gridValues.map(value => (
+          <g key={value}>
+            <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(value)} y2={y(value)} stroke={gridColor} strokeWidth={1} />
+            <text x={PADDING.left - 6} y={y(value) + 4} textAnchor="end" fontSize={11} fill={textColor}>
+              ${Math.round(value).toLocaleString()}
+            </text>
+          </g>
+        ))}
+        <polygon points={area('p95', 'p5')} fill="#3b82f6" fillOpacity={0.15} />
+        <polygon points={area('p75', 'p25')} fill="#3b82f6" fillOpacity={0.3} />
+        <polyline points={medianLine} fill="none" stroke="#3b82f6" strokeWidth={2} />
+        <text x={x(0)} y={HEIGHT - 6} fontSize={11} fill={textColor}>Now</text>
+        <text x={x(lastBet)} y={HEIGHT - 6} textAnchor="end" fontSize={11} fill={textColor}>
+          Bet {lastBet}
+        </text>
+      </svg>
+      <div className={`flex flex-wrap gap-4 text-xs mt-2 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-3 h-0.5 bg-blue-500" /> Median
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-3 h-3 rounded-sm bg-blue-500 opacity-50" /> Middle 50% of paths
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-3 h-3 rounded-sm bg-blue-500 opacity-20" /> 90% of paths
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default ProjectionFanChart;
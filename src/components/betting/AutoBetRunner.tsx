@@ -0,0 +1,283 @@
+import React, { useState } from 'react';
+import { useGame } from '../../context/GameContext';
+import { useTheme } from '../../context/ThemeContext';
+import useAutoBet, { AutoBetStopReason } from '../../hooks/useAutoBet';
+import { getEventSelections, hasPayTable } from '../../utils/payTable';
+import { getStakingStrategy, STAKING_STRATEGIES, StakingStrategyId } from '../../utils/strategies';
+import Tooltip from '../ui/Tooltip';
+
+/**
+ * Form values for a run, kept as strings while the user types
+ */
+interface RunFormValues {
+  eventId: string;
+  selectionId: string;
+  strategyId: StakingStrategyId;
+  baseStake: string;
+  fraction: string;
+  rounds: string;
+  stopLoss: string;
+  takeProfit: string;
+}
+
+const stopReasonMessages: Record<AutoBetStopReason, string> = {
+  'rounds-complete': 'Played every round.',
+  'stop-loss': 'Hit the stop-loss.',
+  'take-profit': 'Reached the take-profit target.',
+  'stopped': 'Stopped by you.',
+  'insufficient-balance': 'The next stake was more than the balance left.',
+  'table-limit': "The next stake was over the event's maximum bet.",
+  'below-minimum': "The next stake was under the event's minimum bet.",
+  'no-edge': 'The Kelly stake is zero: the bet has no edge, so Kelly says not to bet.',
+  'game-over': 'The game ended or was reset.',
+  'bet-rejected': 'The game rejected the bet.',
+};
+
+/**
+ * Plays a staking strategy automatically so the user can watch how betting systems fare
+ */
+const AutoBetRunner: React.FC = () => {
+  const { betEvents, eventRegistry } = useGame();
+  const { theme } = useTheme();
+  const isDarkMode = theme === 'dark';
+  const { status, settings, roundsPlayed, netProfit, nextStake, summary, start, pause, resume, stop } = useAutoBet();
+  const [form, setForm] = useState<RunFormValues>({
+    eventId: betEvents[0]?.id || '',
+    selectionId: '',
+    strategyId: 'martingale',
+    baseStake: '10',
+    fraction: '5',
+    rounds: '50',
+    stopLoss: '500',
+    takeProfit: '500',
+  });
+  const [error, setError] = useState<string>('');
+
+  const isActive = status === 'running' || status === 'paused';
+  const strategy = getStakingStrategy(form.strategyId);
+  const event = eventRegistry.getEvent(form.eventId);
+  const selections = event && hasPayTable(event) ? getEventSelections(event) : [];
+
+  const updateField = (field: keyof RunFormValues) => (
+    e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>
+  ) => {
+    setForm({
+      ...form,
+      [field]: e.target.value,
+      // A different event has different selections
+      ...(field === 'eventId' && { selectionId: '' }),
+    });
+  };
+
+  const parseLimit = (value: string): number | null => {
+    return value.trim() === '' ? null : parseFloat(value);
+  };
+
+  const handleStart = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const baseStake = parseFloat(form.baseStake);
+    const fraction = parseFloat(form.fraction) / 100;
+    const rounds = parseInt(form.rounds, 10);
+    const stopLoss = parseLimit(form.stopLoss);
+    const takeProfit = parseLimit(form.takeProfit);
+
+    if (!event) {
+      setError('Pick an event to bet on');
+      return;
+    }
+    if (!strategy.usesFraction && (isNaN(baseStake) || baseStake < event.minBet)) {
+      setError(`The base stake must be at least the minimum bet of $${event.minBet}`);
+      return;
+    }
+    if (strategy.usesFraction && (isNaN(fraction) || fraction <= 0 || fraction > 1)) {
+      setError('The fraction must be between 0% and 100%');
+      return;
+    }
+    if (isNaN(rounds) || rounds < 1) {
+      setError('Play at least one round');
+      return;
+    }
+    if ((stopLoss !== null && (isNaN(stopLoss) || stopLoss <= 0)) || (takeProfit !== null && (isNaN(takeProfit) || takeProfit <= 0))) {
+      setError('Stop-loss and take-profit must be positive amounts, or left blank');
+      return;
+    }
+
+    setError('');
+    start({
+      eventId: event.id,
+      selectionId: form.selectionId || undefined,
+      strategyId: form.strategyId,
+      baseStake,
+      fraction,
+      rounds,
+      stopLoss,
+      takeProfit,
+    });
+  };
+
+  const inputClass = `w-full px-3 py-2 rounded border ${
+    isDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-800'
+  }`;
+  const labelClass = `block text-sm mb-1 ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`;
+  const mutedClass = isDarkMode ? 'text-gray-400' : 'text-gray-500';
+  const profitClass = (amount: number) => amount >= 0
+    ? isDarkMode ? 'text-green-400' : 'text-green-600'
+    : isDarkMode ? 'text-red-400' : 'text-red-600';
+  const formatSigned = (amount: number) => `${amount < 0 ? '-' : '+'}$${Math.abs(amount).toLocaleString()}`;
+
+  return (
+    <div className={`rounded-lg p-4 ${isDarkMode ? 'bg-gray-800 text-white' : 'bg-white shadow-md text-gray-800'}`}>
+      <div className="flex items-center gap-2 mb-4">
+        <h2 className="text-xl font-bold">Auto-Bet</h2>
+        <Tooltip content="Pick a betting system and let it play. Every system has to beat the same house edge, so watch what the progression does to your balance along the way.">
+          <span className={`text-sm ${mutedClass}`}>ⓘ</span>
+        </Tooltip>
+      </div>
+
+      <form onSubmit={handleStart} className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div className="md:col-span-2">
+          <label htmlFor="auto-event" className={labelClass}>Event</label>
+          <select id="auto-event" value={form.eventId} onChange={updateField('eventId')} className={inputClass} disabled={isActive}>
+            {betEvents.map(betEvent => (
+              <option key={betEvent.id} value={betEvent.id}>{betEvent.icon} {betEvent.name}</option>
+            ))}
+          </select>
+        </div>
+        <div className="md:col-span-2">
+          <label htmlFor="auto-strategy" className={labelClass}>Strategy</label>
+          <select id="auto-strategy" value={form.strategyId} onChange={updateField('strategyId')} className={inputClass} disabled={isActive}>
+            {STAKING_STRATEGIES.map(option => (
+              <option key={option.id} value={option.id}>{option.name}</option>
+            ))}
+          </select>
+        </div>
+        {selections.length > 1 && (
+          <div className="md:col-span-4">
+            <label htmlFor="auto-selection" className={labelClass}>Pick</label>
+            <select id="auto-selection" value={form.selectionId || selections[0].id} onChange={updateField('selectionId')} className={inputClass} disabled={isActive}>
+              {selections.map(selection => (
+                <option key={selection.id} value={selection.id}>{selection.label}</option>
+              ))}
+            </select>
+          </div>
+        )}
+        <p className={`md:col-span-4 text-sm ${mutedClass}`}>{strategy.description}</p>
+        <div>
+          {strategy.usesFraction ? (
+            <>
+              <label htmlFor="auto-fraction" className={labelClass}>
+                {form.strategyId === 'kelly' ? 'Share of Kelly (%)' : 'Share of Balance (%)'}
+              </label>
+              <input id="auto-fraction" type="number" min="0" max="100" step="0.5" value={form.fraction} onChange={updateField('fraction')} className={inputClass} disabled={isActive} />
+            </>
+          ) : (
+            <>
+              <label htmlFor="auto-base-stake" className={labelClass}>Base Stake ($)</label>
+              <input id="auto-base-stake" type="number" min="1" value={form.baseStake} onChange={updateField('baseStake')} className={inputClass} disabled={isActive} />
+            </>
+          )}
+        </div>
+        <div>
+          <label htmlFor="auto-rounds" className={labelClass}>Rounds</label>
+          <input id="auto-rounds" type="number" min="1" value={form.rounds} onChange={updateField('rounds')} className={inputClass} disabled={isActive} />
+        </div>
+        <div>
+          <label htmlFor="auto-stop-loss" className={labelClass}>Stop-Loss ($)</label>
+          <input id="auto-stop-loss" type="number" min="1" placeholder="None" value={form.stopLoss} onChange={updateField('stopLoss')} className={inputClass} disabled={isActive} />
+        </div>
+        <div>
+          <label htmlFor="auto-take-profit" className={labelClass}>Take-Profit ($)</label>
+          <input id="auto-take-profit" type="number" min="1" placeholder="None" value={form.takeProfit} onChange={updateField('takeProfit')} className={inputClass} disabled={isActive} />
+        </div>
+
+        <div className="md:col-span-4 flex gap-2">
+          {!isActive && (
+            <button type="submit" className="flex-1 py-2 px-4 rounded-lg font-medium text-white bg-purple-600 hover:bg-purple-700 transition">
+              Start
+            </button>
+          )}
+          {status === 'running' && (
+            <button type="button" onClick={pause} className="flex-1 py-2 px-4 rounded-lg font-medium text-white bg-yellow-600 hover:bg-yellow-700 transition">
+              Pause
+            </button>
+          )}
+          {status === 'paused' && (
+            <button type="button" onClick={resume} className="flex-1 py-2 px-4 rounded-lg font-medium text-white bg-green-600 hover:bg-green-700 transition">
+              Resume
+            </button>
+          )}
+          {isActive && (
+            <button type="button" onClick={stop} className="flex-1 py-2 px-4 rounded-lg font-medium text-white bg-red-600 hover:bg-red-700 transition">
+              Stop
+            </button>
+          )}
+        </div>
+      </form>
+
+      {error && <p className="mt-3 p-3 rounded bg-yellow-100 text-yellow-800 text-sm">{error}</p>}
+
+      {isActive && settings && (
+        <div className={`mt-4 p-3 rounded-lg grid grid-cols-3 gap-4 text-sm ${isDarkMode ? 'bg-gray-700' : 'bg-gray-100'}`}>
+          <div>
+            <p className={mutedClass}>Round</p>
+            <p className="font-semibold">{roundsPlayed} / {settings.rounds}{status === 'paused' ? ' (paused)' : ''}</p>
+          </div>
+          <div>
+            <p className={mutedClass}>Next Stake</p>
+            <p className="font-semibold">{nextStake !== null ? `$${nextStake.toLocaleString()}` : '—'}</p>
+          </div>
+          <div>
+            <p className={mutedClass}>Net</p>
+            <p className={`font-semibold ${profitClass(netProfit)}`}>{formatSigned(netProfit)}</p>
+          </div>
+        </div>
+      )}
+
+      {status === 'finished' && summary && settings && (
+        <div className={`mt-4 p-3 rounded-lg text-sm ${isDarkMode ? 'bg-gray-700' : 'bg-gray-100'}`}>
+          <h3 className="font-semibold mb-1">{getStakingStrategy(settings.strategyId).name} Summary</h3>
+          <p className={`mb-3 ${mutedClass}`}>{stopReasonMessages[summary.reason]}</p>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div>
+              <p className={mutedClass}>Result</p>
+              <p className={`font-semibold ${profitClass(summary.endBalance - summary.startBalance)}`}>
+                {formatSigned(summary.endBalance - summary.startBalance)}
+              </p>
+            </div>
+            <div>
+              <p className={mutedClass}>Rounds</p>
+              <p className="font-semibold">{summary.roundsPlayed}</p>
+            </div>
+            <div>
+              <p className={mutedClass}>Won / Lost / Push</p>
+              <p className="font-semibold">{summary.wins} / {summary.losses} / {summary.pushes}</p>
+            </div>
+            <div>
+              <p className={mutedClass}>Total Staked</p>
+              <p className="font-semibold">${summary.totalStaked.toLocaleString()}</p>
+            </div>
+            <div>
+              <p className={mutedClass}>Peak Balance</p>
+              <p className="font-semibold">${summary.peakBalance.toLocaleString()}</p>
+            </div>
+            <div>
+              <p className={mutedClass}>Lowest Balance</p>
+              <p className="font-semibold">${summary.lowestBalance.toLocaleString()}</p>
+            </div>
+            <div>
+              <p className={mutedClass}>Largest Stake</p>
+              <p className="font-semibold">${summary.largestStake.toLocaleString()}</p>
+            </div>
+            <div>
+              <p className={mutedClass}>End Balance</p>
+              <p className="font-semibold">${summary.endBalance.toLocaleString()}</p>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AutoBetRunner;
@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { BetEvent } from '../../context/GameContext';
 import { useGame } from '../../context/GameContext';
+import { getSelectionOdds } from '../../utils/payTable';
 
 interface BetCardProps {
   event: BetEvent;
@@ -20,6 +21,9 @@ const BetCard: React.FC<BetCardProps> = ({ event }) => {
   // Format win chance as percentage
   const winChancePercent = (event.winChance * 100).toFixed(1);
   
+  // Share of every bet the house keeps on average
+  const houseEdgePercent = ((getSelectionOdds(event)?.houseEdge ?? 0) * 100).toFixed(1);
+  
   // Handle bet submission
   const handlePlaceBet = () => {
     const amount = parseFloat(betAmount);
@@ -87,6 +91,10 @@ const BetCard: React.FC<BetCardProps> = ({ event }) => {
           <p className="text-gray-600">Multiplier</p>
           <p className="font-medium">{event.multiplier}x</p>
         </div>
+        <div>
+          <p className="text-gray-600">House Edge</p>
+          <p className="font-medium text-red-600">{houseEdgePercent}%</p>
+        </div>
         <div>
           <p className="text-gray-600">Min Bet</p>
           <p className="font-medium">${event.minBet}</p>
@@ -1,9 +1,12 @@
 import React, { useState, useEffect } from 'react';
-import { useGame } from '../../context/GameContext';
+import { useGame, BetEvent, SettlementOutcome } from '../../context/GameContext';
 import { useTheme } from '../../context/ThemeContext';
 import RiskMeter from '../ui/RiskMeter';
+import ChallengeOdds from './ChallengeOdds';
+import { calculateKellyStake, KELLY_ADVICE_FRACTION } from '../../utils/betting';
+import { calculateSelectionOdds, getEventOutcomes, getEventSelections, getSelection, hasPayTable } from '../../utils/payTable';
 
-// Funny comments based on outcome and bet type
+// Funny comments based on outcome; event-specific ones come from the event registry
 const funnyComments = {
   win: [
     "Ka-ching! Your wallet just got heavier! 💰",
@@ -28,60 +31,24 @@ const funnyComments = {
     "The spirit of bad luck says 'you're welcome'!",
     "At least you still have your charming personality!",
     "If losing was an Olympic sport, you'd have a gold medal right now! 🥇"
-  ],
-  betType: {
-    'coin-flip': [
-      "Heads you win, tails you... oh, never mind.",
-      "That coin had other plans for your money!",
-      "The coin has spoken! And it's kind of sassy today.",
-      "If only you could flip your financial decisions as easily!",
-      "This coin must be from the Treasury Department of Pain!"
-    ],
-    'dice-roll': [
-      "Those dice have a vendetta against your wallet!",
-      "The dice gods demand a sacrifice... of your balance!",
-      "Snake eyes? More like snake, why?!",
-      "Dice be rollin', your balance be fallin'!",
-      "The dice are loaded... with disappointment!"
-    ],
-    'bullseye': [
-      "Bullseye? More like bull-sigh today!",
-      "You missed the target but hit your wallet perfectly!",
-      "Your aim is almost as bad as your betting strategy!",
-      "The target was your money all along!",
-      "Dart throwing AND money throwing - you're multitalented!"
-    ],
-    'roulette': [
-      "Round and round the wheel goes, where your money stops, nobody knows!",
-      "The ball has betrayed you in spectacular fashion!",
-      "That roulette wheel is just a fancy money disposal!",
-      "You've been wheelie unlucky today!",
-      "At least in Vegas they'd give you a free drink with that loss!"
-    ],
-    'stock-market': [
-      "Buy high, sell low - you're doing great!",
-      "Your portfolio is more volatile than a TikTok trend!",
-      "Warren Buffett would like a word with you...",
-      "The invisible hand of the market just gave you a high five... to the face!",
-      "Breaking news: Your stock just crashed harder than a Windows 95 PC!"
-    ],
-    'lottery': [
-      "The odds were only 1 in 14 million. You were so close!",
-      "Think of all the losing tickets you saved money on!",
-      "Your lucky numbers are clearly taking a day off!",
-      "Your fortune cookie lied to you!",
-      "Maybe try using your birthday... from another life!"
-    ]
-  }
+  ]
+};
+
+// Result line for each way a bet can settle
+const outcomeMessages: Record<SettlementOutcome, string> = {
+  win: 'You won!',
+  push: 'Push: you got your stake back.',
+  partial: 'You got part of your stake back.',
+  loss: 'You lost. Try again!'
 };
 
 // Helper function to get a random comment
-const getRandomComment = (betType: string, isWin: boolean) => {
+const getRandomComment = (event: BetEvent, isWin: boolean) => {
   // Get outcome comments
   const outcomeComments = isWin ? funnyComments.win : funnyComments.loss;
   
   // Get bet type specific comments
-  const betTypeComments = funnyComments.betType[betType as keyof typeof funnyComments.betType] || [];
+  const betTypeComments = event.quips;
   
   // Combine all applicable comments and pick a random one
   const allComments = [...outcomeComments, ...betTypeComments];
@@ -93,13 +60,13 @@ interface BetFormProps {
 }
 
 const BetForm: React.FC<BetFormProps> = ({ selectedEventId }) => {
-  const { betEvents, balance, placeBet, calculateRisk, isProcessingBet, currentPersona } = useGame();
+  const { betEvents, eventRegistry, balance, placeBet, assessBetRisk, isProcessingBet, currentPersona, isReviewMode } = useGame();
   const { theme } = useTheme();
   const isDarkMode = theme === 'dark';
   const [selectedEvent, setSelectedEvent] = useState<string>(betEvents[0]?.id || '');
+  const [selectedSelection, setSelectedSelection] = useState<string | undefined>(undefined);
   const [betAmount, setBetAmount] = useState<string>('');
-  const [riskLevel, setRiskLevel] = useState<number>(0);
-  const [betResult, setBetResult] = useState<{success: boolean; message: string; comment?: string} | null>(null);
+  const [betResult, setBetResult] = useState<{success: boolean; outcome?: SettlementOutcome; message: string; comment?: string} | null>(null);
   
   // Update selected event when prop changes
   useEffect(() => {
@@ -108,122 +75,66 @@ const BetForm: React.FC<BetFormProps> = ({ selectedEventId }) => {
     }
   }, [selectedEventId, betEvents]);
   
+  // Back the default selection whenever the event changes
+  useEffect(() => {
+    setSelectedSelection(undefined);
+  }, [selectedEvent]);
+  
   // Get the current selected event details
   const currentEvent = betEvents.find((event: { id: string }) => event.id === selectedEvent) || betEvents[0];
+  const currentSelection = getSelection(currentEvent, selectedSelection) || getEventSelections(currentEvent)[0];
+  const currentOdds = calculateSelectionOdds(getEventOutcomes(currentEvent), currentSelection);
+  
+  // Kelly stakes for the current pick; both are 0 when the bet has no edge
+  const kellyStake = calculateKellyStake(balance, currentOdds.averagePayout, currentOdds.winChance);
+  const kellyAdvice = calculateKellyStake(balance, currentOdds.averagePayout, currentOdds.winChance, KELLY_ADVICE_FRACTION);
+  const enteredAmount = parseFloat(betAmount);
+  
+  // Risk of the bet on the slip, with the breakdown the risk meter explains
+  const riskAssessment = !isNaN(enteredAmount) ? assessBetRisk(currentEvent.id, enteredAmount, currentSelection.id) : null;
   
   // Quick bet button values
   const quickBets = [10, 20, 50, 100, 500];
   
-  // Update risk when event changes
-  useEffect(() => {
-    if (betAmount && selectedEvent) {
-      const amount = parseFloat(betAmount);
-      if (!isNaN(amount)) {
-        setRiskLevel(calculateRisk(selectedEvent, amount));
-      }
-    }
-  }, [selectedEvent, betAmount, calculateRisk]);
-  
   const handleAmountChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = e.target.value;
     setBetAmount(value);
-    
-    const amount = parseFloat(value);
-    if (!isNaN(amount) && selectedEvent) {
-      setRiskLevel(calculateRisk(selectedEvent, amount));
-    } else {
-      setRiskLevel(0);
-    }
   };
   
   const handleQuickBet = (amount: number) => {
     setBetAmount(amount.toString());
-    if (selectedEvent) {
-      setRiskLevel(calculateRisk(selectedEvent, amount));
-    }
   };
   
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!selectedEvent || !betAmount) {
-      setBetResult({
-        success: false,
-        message: 'Please select an event and enter a bet amount'
-      });
-      return;
-    }
-    
-    const amount = parseFloat(betAmount);
-    if (isNaN(amount) || amount <= 0) {
+    const result = placeBet(selectedEvent, parseFloat(betAmount), selectedSelection);
+    if (!result.ok) {
       setBetResult({
         success: false,
-        message: 'Please enter a valid bet amount'
+        message: result.rejection.message
       });
       return;
     }
     
-    const event = betEvents.find((e: { id: string }) => e.id === selectedEvent);
-    if (!event) {
-      setBetResult({
-        success: false,
-        message: 'Invalid event selected'
-      });
-      return;
-    }
-    
-    if (amount < event.minBet) {
-      setBetResult({
-        success: false,
-        message: `Minimum bet for ${event.name} is $${event.minBet}`
-      });
-      return;
-    }
-    
-    if (event.maxBet !== null && amount > event.maxBet) {
-      setBetResult({
-        success: false,
-        message: `Maximum bet for ${event.name} is $${event.maxBet}`
-      });
-      return;
-    }
-    
-    if (amount > balance) {
-      setBetResult({
-        success: false,
-        message: 'Not enough balance'
-      });
-      return;
-    }
-    
-    const result = placeBet(selectedEvent, amount);
-    
     // Generate a funny comment
+    const { bet } = result;
     const comment = getRandomComment(
-      selectedEvent,
-      result
+      eventRegistry.getEvent(bet.eventId) || currentEvent,
+      bet.outcome === 'win'
     );
     
     setBetResult({
       success: true,
-      message: result ? 'You won!' : 'You lost. Try again!',
+      outcome: bet.outcome,
+      message: outcomeMessages[bet.outcome],
       comment
     });
     
     // Reset bet amount
     setBetAmount('');
-    setRiskLevel(0);
   };
   
-  // Get color based on risk level
-  const getRiskColor = () => {
-    if (riskLevel < 30) return { bg: 'bg-green-500', text: 'text-green-500' };
-    if (riskLevel < 70) return { bg: 'bg-yellow-500', text: 'text-yellow-500' };
-    return { bg: 'bg-red-500', text: 'text-red-500' };
-  };
-  
-  const riskColor = getRiskColor();
-  
   return (
     <div>
       <div className="mb-4">
@@ -233,26 +144,57 @@ const BetForm: React.FC<BetFormProps> = ({ selectedEventId }) => {
           </h3>
           <div className="text-sm text-gray-400 mb-3">
             <div className="flex justify-between">
-              <span>Multiplier: {currentEvent.multiplier}x</span>
-              <span>Win Chance: {Math.round(currentEvent.winChance * 100)}%</span>
+              <span>
+                {currentOdds.maxPayout > currentOdds.averagePayout
+                  ? `Pays up to ${currentOdds.maxPayout}x`
+                  : `Multiplier: ${currentOdds.maxPayout}x`}
+              </span>
+              <span>Win Chance: {Math.round(currentOdds.winChance * 100)}%</span>
             </div>
             <div>Min Bet: ${currentEvent.minBet}{currentEvent.maxBet !== null ? `, Max: $${currentEvent.maxBet}` : ''}</div>
           </div>
         </div>
         
+        {hasPayTable(currentEvent) && getEventSelections(currentEvent).length > 1 && (
+          <div className="mb-3">
+            <label htmlFor="bet-selection" className="block text-sm text-gray-400 mb-1">Your Pick</label>
+            <select
+              id="bet-selection"
+              value={currentSelection.id}
+              onChange={(e) => setSelectedSelection(e.target.value)}
+              className="w-full p-2 bg-gray-800 rounded-lg text-white border border-gray-700 focus:border-primary-500 focus:outline-none"
+              disabled={isProcessingBet}
+            >
+              {getEventSelections(currentEvent).map(selection => (
+                <option key={selection.id} value={selection.id}>{selection.label}</option>
+              ))}
+            </select>
+          </div>
+        )}
+        
         <div className="relative">
           <input
             type="number"
             value={betAmount}
             onChange={handleAmountChange}
-            className="w-full p-3 pl-6 bg-gray-800 rounded-lg text-white text-lg border border-gray-700 focus:border-primary-500 focus:outline-none"
+            className="w-full p-3 pl-6 pr-28 bg-gray-800 rounded-lg text-white text-lg border border-gray-700 focus:border-primary-500 focus:outline-none"
             min="0"
             step="1"
             placeholder="Enter amount"
             disabled={isProcessingBet}
           />
           <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400">$</span>
+          <span className="absolute right-3 top-1/2 -translate-y-1/2 text-xs text-gray-400 pointer-events-none">
+            Kelly: ${kellyStake.toLocaleString()}
+          </span>
         </div>
+        <p className="mt-1 text-xs text-gray-400">
+          {kellyStake > 0
+            ? !isNaN(enteredAmount) && enteredAmount > kellyStake
+              ? `That's ${(enteredAmount / kellyStake).toFixed(1)}x the Kelly stake. Betting more than Kelly adds risk without adding long-run growth.`
+              : `The Kelly criterion stakes $${kellyStake.toLocaleString()} of your balance on this pick; half of that keeps most of the growth with much smaller swings.`
+            : 'Kelly says stake nothing: with the house edge, no stake grows your balance in the long run.'}
+        </p>
       </div>
       
       <div className="flex gap-2 mb-4 overflow-x-auto pb-2">
@@ -271,6 +213,19 @@ const BetForm: React.FC<BetFormProps> = ({ selectedEventId }) => {
             ${amount}
           </button>
         ))}
+        <button
+          type="button"
+          onClick={() => handleQuickBet(kellyAdvice)}
+          className={`px-3 py-1 border rounded-full text-sm whitespace-nowrap ${
+            kellyAdvice > 0 && betAmount === kellyAdvice.toString()
+              ? 'bg-green-600 text-white border-green-500'
+              : 'bg-gray-800 text-gray-300 border-gray-700 hover:bg-gray-700'
+          }`}
+          disabled={isProcessingBet || kellyAdvice < currentEvent.minBet}
+          title={kellyAdvice > 0 ? `Set to half the Kelly stake: $${kellyAdvice}` : 'This bet has no edge, so half Kelly is $0'}
+        >
+          ½ KELLY
+        </button>
         <button
           type="button"
           onClick={() => handleQuickBet(balance)}
@@ -285,37 +240,30 @@ const BetForm: React.FC<BetFormProps> = ({ selectedEventId }) => {
         </button>
       </div>
       
-      {riskLevel > 0 && (
-        <div className="mb-6">
-          <div className="flex justify-between text-sm mb-1">
-            <span className="text-white">Risk Level</span>
-            <span className={riskColor.text}>{riskLevel}%</span>
-          </div>
-          <div className="h-2 bg-gray-700 rounded-full overflow-hidden">
-            <div 
-              className={`h-full ${riskColor.bg} transition-all duration-300`} 
-              style={{ width: `${riskLevel}%` }}
-            />
-          </div>
-        </div>
+      {riskAssessment && riskAssessment.score > 0 && (
+        <RiskMeter assessment={riskAssessment} />
       )}
       
+      <ChallengeOdds event={currentEvent} selectionId={currentSelection.id} amount={parseFloat(betAmount)} />
+      
       <button
         onClick={handleSubmit}
         className={`w-full py-3 px-4 rounded-lg font-medium text-white bg-purple-600 hover:bg-purple-700 transition 
-          ${isProcessingBet ? 'opacity-50 cursor-not-allowed' : ''}`}
-        disabled={isProcessingBet || !betAmount || parseFloat(betAmount) <= 0}
+          ${isProcessingBet || isReviewMode ? 'opacity-50 cursor-not-allowed' : ''}`}
+        disabled={isProcessingBet || isReviewMode}
       >
-        {isProcessingBet ? 'Processing...' : 'PLACE BET'}
+        {isProcessingBet ? 'Processing...' : isReviewMode ? 'BETTING PAUSED FOR REVIEW' : 'PLACE BET'}
       </button>
       
       {betResult && (
         <div className="mt-4">
           <div className={`p-3 rounded text-center ${
             betResult.success 
-              ? betResult.message.includes('won') 
+              ? betResult.outcome === 'win' 
                 ? 'bg-green-100 text-green-800' 
-                : 'bg-red-100 text-red-800'
+                : betResult.outcome === 'loss'
+                  ? 'bg-red-100 text-red-800'
+                  : 'bg-blue-100 text-blue-800'
               : 'bg-yellow-100 text-yellow-800'
           }`}>
             {betResult.message}
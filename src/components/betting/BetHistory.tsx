@@ -1,11 +1,113 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { useGame, BetHistory as BetHistoryType } from '../../context/GameContext';
 import { useTheme } from '../../context/ThemeContext';
+import { verifyFairnessProof } from '../../utils/fairness';
+import { getEventOutcomes, getSelection, hasPayTable, resolveOutcome } from '../../utils/payTable';
+import Tooltip from '../ui/Tooltip';
+import HistoryExportMenu from '../common/HistoryExportMenu';
+
+/**
+ * Recomputes a bet's provably-fair roll locally and shows each check
+ */
+const FairnessVerificationPanel: React.FC<{ bet: BetHistoryType }> = ({ bet }) => {
+  const { eventRegistry } = useGame();
+  const { theme } = useTheme();
+  const isDarkMode = theme === 'dark';
+  
+  if (!bet.fairness) {
+    return (
+      <p className={`text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+        This bet was placed before provably-fair seeds were recorded, so it cannot be verified.
+      </p>
+    );
+  }
+  
+  const proof = bet.fairness;
+  const verification = verifyFairnessProof(proof);
+  const event = eventRegistry.getEvent(bet.eventId);
+  const checks: { label: string; passed: boolean | null }[] = [
+    { label: 'Server seed matches the commitment', passed: verification.hashMatches },
+    { label: 'Roll recomputed from the seeds', passed: verification.rollMatches },
+  ];
+  
+  if (proof.odds) {
+    // Land the recomputed roll on the odds recorded with the bet, so later edits to the event don't matter
+    const outcome = resolveOutcome(proof.odds.outcomes, verification.roll);
+    const payout = proof.odds.payouts[outcome.id] || 0;
+    checks.push({
+      label: `Roll ${verification.roll.toFixed(6)} lands on ${outcome.label}`,
+      passed: outcome.id === bet.outcomeId,
+    });
+    checks.push({
+      label: `${bet.selectionLabel ?? 'The bet'} pays ${payout}x on ${outcome.label}`,
+      passed: payout === bet.payoutMultiplier,
+    });
+  } else if (!event) {
+    checks.push({ label: 'Outcome check unavailable (event no longer exists)', passed: null });
+  } else if (bet.outcomeId) {
+    // Bets placed before their odds were recorded can only be checked against the event as it is now
+    const outcome = resolveOutcome(getEventOutcomes(event), verification.roll);
+    const selection = getSelection(event, bet.selectionId);
+    checks.push({
+      label: `Roll ${verification.roll.toFixed(6)} lands on ${outcome.label} (current odds)`,
+      passed: outcome.id === bet.outcomeId,
+    });
+    checks.push({
+      label: selection
+        ? `${selection.label} pays ${selection.payouts[outcome.id] || 0}x on ${outcome.label} (current odds)`
+        : 'Payout check unavailable (selection no longer exists)',
+      passed: selection ? (selection.payouts[outcome.id] || 0) === bet.payoutMultiplier : null,
+    });
+  } else if (!hasPayTable(event)) {
+    // Bets settled before outcomes were recorded only stored win or loss
+    const expectedOutcome = verification.roll < event.winChance ? 'win' : 'loss';
+    checks.push({
+      label: `Outcome matches roll ${verification.roll.toFixed(6)} against win chance ${event.winChance} (current odds)`,
+      passed: expectedOutcome === bet.outcome,
+    });
+  } else {
+    checks.push({ label: 'Outcome check unavailable (bet predates pay tables)', passed: null });
+  }
+  
+  const labelClass = isDarkMode ? 'text-gray-400' : 'text-gray-500';
+  
+  return (
+    <div className="text-xs space-y-2">
+      <dl className="grid grid-cols-1 md:grid-cols-[auto_1fr] gap-x-4 gap-y-1 font-mono break-all">
+        <dt className={labelClass}>Server seed hash</dt>
+        <dd>{proof.serverSeedHash}</dd>
+        <dt className={labelClass}>Server seed</dt>
+        <dd>{proof.serverSeed}</dd>
+        <dt className={labelClass}>Client seed</dt>
+        <dd>{proof.clientSeed}</dd>
+        <dt className={labelClass}>Nonce</dt>
+        <dd>{proof.nonce}</dd>
+      </dl>
+      <ul className="space-y-1">
+        {checks.map(check => (
+          <li 
+            key={check.label}
+            className={
+              check.passed === null
+                ? labelClass
+                : check.passed
+                  ? isDarkMode ? 'text-green-400' : 'text-green-700'
+                  : isDarkMode ? 'text-red-400' : 'text-red-700'
+            }
+          >
+            {check.passed === null ? '–' : check.passed ? '✓' : '✗'} {check.label}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
 
 const BetHistory: React.FC = () => {
-  const { betHistory } = useGame();
+  const { betHistory, serverSeedHash, clientSeed, setClientSeed, nonce, isReviewMode } = useGame();
   const { theme } = useTheme();
   const isDarkMode = theme === 'dark';
+  const [verifyingBetId, setVerifyingBetId] = useState<string | null>(null);
   
   // Function to get risk level colors
   const getRiskLevelStyle = (riskPercentage: number) => {
@@ -38,7 +140,37 @@ const BetHistory: React.FC = () => {
   
   return (
     <div className={`rounded-lg p-4 ${isDarkMode ? 'bg-gray-800' : 'bg-white shadow-md'}`}>
-      <h2 className={`text-xl font-bold mb-4 ${isDarkMode ? 'text-white' : 'text-gray-800'}`}>Bet History</h2>
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <h2 className={`text-xl font-bold ${isDarkMode ? 'text-white' : 'text-gray-800'}`}>Bet History</h2>
+        <HistoryExportMenu />
+      </div>
+      
+      <div className={`mb-4 p-3 rounded-lg text-xs ${isDarkMode ? 'bg-gray-700 text-gray-300' : 'bg-gray-100 text-gray-700'}`}>
+        <Tooltip 
+          content="Before each bet the game commits to a server seed, derived from the session seed, by showing its hash. The roll comes from HMAC-SHA256 of the server seed, your client seed and the nonce, and the server seed is revealed afterwards so you can check it."
+          width="wide"
+        >
+          <span className="font-semibold">Provably Fair</span>
+        </Tooltip>
+        <div className="mt-2 grid grid-cols-1 md:grid-cols-[auto_1fr] gap-x-4 gap-y-1 items-center">
+          <span>Next server seed hash</span>
+          <code className="font-mono break-all">{serverSeedHash}</code>
+          <label htmlFor="client-seed">Client seed</label>
+          <input
+            id="client-seed"
+            type="text"
+            value={clientSeed}
+            onChange={(e) => setClientSeed(e.target.value)}
+            disabled={isReviewMode}
+            className={`px-2 py-1 rounded font-mono border ${
+              isDarkMode ? 'bg-gray-800 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-800'
+            }`}
+          />
+          <span>Next nonce</span>
+          <span className="font-mono">{nonce}</span>
+        </div>
+      </div>
+      
       <div className="overflow-x-auto">
         <table className="w-full">
           <thead>
@@ -48,36 +180,72 @@ const BetHistory: React.FC = () => {
               <th className="pb-2">Amount</th>
               <th className="pb-2">Outcome</th>
               <th className="pb-2">Risk</th>
+              <th className="pb-2"></th>
             </tr>
           </thead>
           <tbody className={isDarkMode ? 'text-white' : 'text-gray-800'}>
             {betHistory.map((bet: BetHistoryType) => {
               const riskStyle = getRiskLevelStyle(bet.riskPercentage);
+              const isVerifying = verifyingBetId === bet.id;
               return (
-                <tr key={bet.id} className={`border-t ${isDarkMode ? 'border-gray-700' : 'border-gray-200'}`}>
-                  <td className="py-2 text-xs">
-                    {new Date(bet.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-                  </td>
-                  <td className="py-2">{bet.eventName}</td>
-                  <td className="py-2">${bet.betAmount.toLocaleString()}</td>
-                  <td className="py-2">
-                    <span className={`px-2 py-1 rounded-full text-xs ${
-                      bet.outcome === 'win' 
-                        ? isDarkMode ? 'bg-green-900/30 text-green-400' : 'bg-green-100 text-green-800'
-                        : isDarkMode ? 'bg-red-900/30 text-red-400' : 'bg-red-100 text-red-800'
-                    }`}>
-                      {bet.outcome === 'win' 
-                        ? `Won $${bet.winAmount.toLocaleString()}`
-                        : 'Lost'
-                      }
-                    </span>
-                  </td>
-                  <td className="py-2">
-                    <span className={`px-2 py-1 rounded-full text-xs ${riskStyle.bg} ${riskStyle.text}`}>
-                      {bet.riskPercentage}%
-                    </span>
-                  </td>
-                </tr>
+                <React.Fragment key={bet.id}>
+                  <tr className={`border-t ${isDarkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+                    <td className="py-2 text-xs">
+                      {new Date(bet.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                    </td>
+                    <td className="py-2">
+                      {bet.eventName}
+                      {bet.selectionLabel && (
+                        <div className={`text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>{bet.selectionLabel}</div>
+                      )}
+                    </td>
+                    <td className="py-2">${bet.betAmount.toLocaleString()}</td>
+                    <td className="py-2">
+                      <span className={`px-2 py-1 rounded-full text-xs ${
+                        bet.outcome === 'win' 
+                          ? isDarkMode ? 'bg-green-900/30 text-green-400' : 'bg-green-100 text-green-800'
+                          : bet.outcome === 'push'
+                            ? isDarkMode ? 'bg-gray-700 text-gray-300' : 'bg-gray-200 text-gray-700'
+                            : bet.outcome === 'partial'
+                              ? isDarkMode ? 'bg-yellow-900/30 text-yellow-400' : 'bg-yellow-100 text-yellow-800'
+                              : isDarkMode ? 'bg-red-900/30 text-red-400' : 'bg-red-100 text-red-800'
+                      }`}>
+                        {bet.outcome === 'win' 
+                          ? `Won $${bet.winAmount.toLocaleString()}`
+                          : bet.outcome === 'push'
+                            ? 'Push'
+                            : bet.outcome === 'partial'
+                              ? `Lost $${Math.abs(bet.winAmount).toLocaleString()}`
+                              : 'Lost'
+                        }
+                      </span>
+                      {bet.selectionId && bet.outcomeLabel && (
+                        <div className={`text-xs mt-1 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>Landed {bet.outcomeLabel}</div>
+                      )}
+                    </td>
+                    <td className="py-2">
+                      <span className={`px-2 py-1 rounded-full text-xs ${riskStyle.bg} ${riskStyle.text}`}>
+                        {bet.riskPercentage}%
+                      </span>
+                    </td>
+                    <td className="py-2 text-right">
+                      <button
+                        type="button"
+                        onClick={() => setVerifyingBetId(isVerifying ? null : bet.id)}
+                        className={`text-xs underline ${isDarkMode ? 'text-gray-400 hover:text-white' : 'text-gray-500 hover:text-gray-800'}`}
+                      >
+                        {isVerifying ? 'Hide' : 'Verify'}
+                      </button>
+                    </td>
+                  </tr>
+                  {isVerifying && (
+                    <tr className={isDarkMode ? 'bg-gray-900/40' : 'bg-gray-50'}>
+                      <td colSpan={6} className="p-3">
+                        <FairnessVerificationPanel bet={bet} />
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
               );
             })}
           </tbody>
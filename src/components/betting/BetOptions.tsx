@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { useGame, BetEvent } from '../../context/GameContext';
 import { useTheme } from '../../context/ThemeContext';
+import { calculateSelectionOdds, getEventOutcomes, getEventSelections, getSelectionOdds, hasPayTable } from '../../utils/payTable';
 
 interface BetOptionsProps {
   onSelectEvent?: (id: string) => void;
@@ -37,6 +38,11 @@ const BetOption: React.FC<{
   
   const riskClasses = getRiskClasses(event.riskLevel);
   
+  // Multi-outcome events list the odds of their default selection and the best payout on offer
+  const selections = getEventSelections(event);
+  const maxPayout = Math.max(...selections.map(selection => calculateSelectionOdds(getEventOutcomes(event), selection).maxPayout));
+  const houseEdge = getSelectionOdds(event)?.houseEdge ?? 0;
+  
   return (
     <div 
       className={`${isDarkMode ? 'bg-gray-800 hover:bg-gray-700' : 'bg-white hover:bg-gray-50'} rounded-lg p-4 cursor-pointer transition border-2 ${
@@ -56,6 +62,11 @@ const BetOption: React.FC<{
       
       <div className="mb-3">
         <p className={`text-sm ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`}>{event.description}</p>
+        {hasPayTable(event) && (
+          <p className={`text-xs mt-1 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+            {selections.length} {selections.length === 1 ? 'bet' : 'bets'} available, paying up to {maxPayout}x
+          </p>
+        )}
       </div>
       
       <div className="flex justify-between text-sm">
@@ -67,6 +78,10 @@ const BetOption: React.FC<{
           <p className={isDarkMode ? 'text-gray-400' : 'text-gray-500'}>Win Chance</p>
           <p className={`font-medium ${isDarkMode ? 'text-white' : 'text-gray-800'}`}>{Math.round(event.winChance * 100)}%</p>
         </div>
+        <div>
+          <p className={isDarkMode ? 'text-gray-400' : 'text-gray-500'}>House Edge</p>
+          <p className={`font-medium ${isDarkMode ? 'text-red-400' : 'text-red-600'}`}>{(houseEdge * 100).toFixed(1)}%</p>
+        </div>
         <div>
           <p className={isDarkMode ? 'text-gray-400' : 'text-gray-500'}>Min Bet</p>
           <p className={`font-medium ${isDarkMode ? 'text-white' : 'text-gray-800'}`}>${event.minBet}</p>
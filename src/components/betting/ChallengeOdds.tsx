@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { useGame, BetEvent } from '../../context/GameContext';
+import Tooltip from '../ui/Tooltip';
+import { GOAL_AMOUNT } from '../../utils/constants';
+import { calculateRiskOfRuin, getSelectionPayouts, StakePolicy } from '../../utils/riskOfRuin';
+
+interface ChallengeOddsProps {
+  /** Event the bet slip is on */
+  event: BetEvent;
+  /** Selection backed on the event */
+  selectionId?: string;
+  /** Stake entered on the bet slip */
+  amount: number;
+}
+
+/**
+ * Shows the odds of reaching the goal if the player kept making the bet on the slip
+ */
+const ChallengeOdds: React.FC<ChallengeOddsProps> = ({ event, selectionId, amount }) => {
+  const { balance } = useGame();
+  const [policyType, setPolicyType] = useState<StakePolicy['type']>('flat');
+
+  const fraction = balance > 0 ? amount / balance : 0;
+
+  // A fraction of the whole balance never stops betting it all, so it has no odds to show
+  if (!(amount > 0) || amount > balance || (policyType === 'fraction' && fraction >= 1)) {
+    return null;
+  }
+
+  const policy: StakePolicy = policyType === 'flat'
+    ? { type: 'flat', stake: amount }
+    : { type: 'fraction', fraction };
+  const odds = calculateRiskOfRuin({
+    balance,
+    goal: GOAL_AMOUNT,
+    payouts: getSelectionPayouts(event, selectionId),
+    policy,
+    minBet: event.minBet,
+  });
+
+  const formatChance = (chance: number) => {
+    if (chance > 0 && chance < 0.001) return '<0.1%';
+    if (chance < 1 && chance > 0.999) return '>99.9%';
+    return `${(chance * 100).toFixed(1)}%`;
+  };
+
+  return (
+    <div className="mb-4 p-3 rounded-lg bg-gray-800 border border-gray-700 text-sm">
+      <div className="flex items-center justify-between mb-2">
+        <Tooltip content={`If you kept making this bet until you reached $${GOAL_AMOUNT.toLocaleString()} or couldn't cover the stake. ${
+          odds.isExact
+            ? 'Worked out exactly with the gambler\'s ruin formula, not simulated.'
+            : 'Approximated with the gambler\'s ruin formula, not simulated: this bet can overshoot the goal or leave part of a stake, so the figures can be off by a few points.'
+        }`}>
+          <span className="text-white font-medium">
+            Your odds of finishing this challenge
+            {!odds.isExact && <span className="ml-1 text-xs font-normal text-gray-400">(approximate)</span>}
+          </span>
+        </Tooltip>
+        <div className="flex border border-gray-700 rounded-md overflow-hidden">
+          {(['flat', 'fraction'] as const).map(type => (
+            <button
+              key={type}
+              type="button"
+              onClick={() => setPolicyType(type)}
+              className={`px-2 py-0.5 text-xs ${
+                policyType === type ? 'bg-primary-600 text-white' : 'text-gray-300 hover:bg-gray-700'
+              }`}
+            >
+              {type === 'flat' ? `$${amount.toLocaleString()} each bet` : `${(fraction * 100).toFixed(1)}% each bet`}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="grid grid-cols-3 gap-2">
+        <div>
+          <p className="text-gray-400">Reach ${GOAL_AMOUNT.toLocaleString()}</p>
+          <p className="font-semibold text-green-400">{formatChance(odds.goalProbability)}</p>
+        </div>
+        <div>
+          <p className="text-gray-400">Go broke</p>
+          <p className="font-semibold text-red-400">{formatChance(odds.ruinProbability)}</p>
+        </div>
+        <div>
+          <p className="text-gray-400">Bets it takes</p>
+          <p className="font-semibold text-white">
+            {isFinite(odds.expectedBets) ? `~${Math.round(odds.expectedBets).toLocaleString()}` : '—'}
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ChallengeOdds;
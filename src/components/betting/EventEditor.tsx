@@ -0,0 +1,188 @@
+import React, { useState } from 'react';
+import { useGame, BetEvent } from '../../context/GameContext';
+import { useTheme } from '../../context/ThemeContext';
+import { calculateHouseEdge, calculateMultiplierFromRtp } from '../../utils/betting';
+import Tooltip from '../ui/Tooltip';
+
+/**
+ * Form values for a new event, kept as strings while the user types
+ */
+interface EventFormValues {
+  name: string;
+  icon: string;
+  description: string;
+  rtp: string;
+  winChance: string;
+  minBet: string;
+  maxBet: string;
+  riskLevel: BetEvent['riskLevel'];
+}
+
+const emptyForm: EventFormValues = {
+  name: '',
+  icon: '🎲',
+  description: '',
+  rtp: '95',
+  winChance: '45',
+  minBet: '10',
+  maxBet: '',
+  riskLevel: 'Medium',
+};
+
+/**
+ * Lets the user define their own betting events and manage the ones they created
+ */
+const EventEditor: React.FC = () => {
+  const { customEvents, addCustomEvent, removeCustomEvent } = useGame();
+  const { theme } = useTheme();
+  const isDarkMode = theme === 'dark';
+  const [form, setForm] = useState<EventFormValues>(emptyForm);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const rtp = parseFloat(form.rtp) / 100;
+  const winChance = parseFloat(form.winChance) / 100;
+
+  // The payout follows from the return to player; rounding it down to the cent can only add to the edge
+  const multiplier = calculateMultiplierFromRtp(rtp, winChance);
+  const houseEdge = calculateHouseEdge(multiplier, winChance);
+  const hasValidOdds = isFinite(multiplier) && isFinite(houseEdge);
+
+  const updateField = (field: keyof EventFormValues) => (
+    e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>
+  ) => {
+    setForm({ ...form, [field]: e.target.value });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const validationErrors = addCustomEvent({
+      name: form.name.trim(),
+      icon: form.icon.trim() || '🎲',
+      description: form.description.trim() || 'A custom event.',
+      rtp,
+      winChance,
+      minBet: parseFloat(form.minBet),
+      maxBet: form.maxBet.trim() === '' ? null : parseFloat(form.maxBet),
+      riskLevel: form.riskLevel,
+    });
+
+    setErrors(validationErrors);
+    if (validationErrors.length === 0) {
+      setForm(emptyForm);
+    }
+  };
+
+  const inputClass = `w-full px-3 py-2 rounded border ${
+    isDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-800'
+  }`;
+  const labelClass = `block text-sm mb-1 ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`;
+
+  return (
+    <div className={`rounded-lg p-4 ${isDarkMode ? 'bg-gray-800 text-white' : 'bg-white shadow-md text-gray-800'}`}>
+      <h2 className="text-xl font-bold mb-4">Create Your Own Event</h2>
+
+      <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div className="md:col-span-3">
+          <label htmlFor="event-name" className={labelClass}>Name</label>
+          <input id="event-name" type="text" value={form.name} onChange={updateField('name')} className={inputClass} />
+        </div>
+        <div>
+          <label htmlFor="event-icon" className={labelClass}>Icon</label>
+          <input id="event-icon" type="text" value={form.icon} onChange={updateField('icon')} className={inputClass} />
+        </div>
+        <div className="md:col-span-4">
+          <label htmlFor="event-description" className={labelClass}>Description</label>
+          <input id="event-description" type="text" value={form.description} onChange={updateField('description')} className={inputClass} />
+        </div>
+        <div>
+          <label htmlFor="event-rtp" className={labelClass}>Return to Player (%)</label>
+          <input id="event-rtp" type="number" step="0.1" min="0" max="200" value={form.rtp} onChange={updateField('rtp')} className={inputClass} />
+        </div>
+        <div>
+          <label htmlFor="event-win-chance" className={labelClass}>Win Chance (%)</label>
+          <input id="event-win-chance" type="number" step="0.1" min="0" max="100" value={form.winChance} onChange={updateField('winChance')} className={inputClass} />
+        </div>
+        <div>
+          <label htmlFor="event-min-bet" className={labelClass}>Min Bet ($)</label>
+          <input id="event-min-bet" type="number" min="1" value={form.minBet} onChange={updateField('minBet')} className={inputClass} />
+        </div>
+        <div>
+          <label htmlFor="event-max-bet" className={labelClass}>Max Bet ($)</label>
+          <input id="event-max-bet" type="number" min="1" placeholder="No limit" value={form.maxBet} onChange={updateField('maxBet')} className={inputClass} />
+        </div>
+        <div>
+          <label htmlFor="event-risk-level" className={labelClass}>Risk Level</label>
+          <select id="event-risk-level" value={form.riskLevel} onChange={updateField('riskLevel')} className={inputClass}>
+            <option value="Low">Low</option>
+            <option value="Medium">Medium</option>
+            <option value="High">High</option>
+          </select>
+        </div>
+        <div className="flex flex-col justify-end">
+          <span className={labelClass}>Pays</span>
+          <p className="text-lg font-bold">
+            {hasValidOdds ? `${multiplier.toFixed(2)}x` : '—'}
+          </p>
+        </div>
+        <div className="flex flex-col justify-end">
+          <Tooltip content="The share of every bet the house keeps on average: 1 minus win chance times multiplier. A negative edge means the player is favored.">
+            <span className={labelClass}>House Edge</span>
+          </Tooltip>
+          <p className={`text-lg font-bold ${
+            !hasValidOdds
+              ? isDarkMode ? 'text-gray-400' : 'text-gray-500'
+              : houseEdge > 0
+                ? isDarkMode ? 'text-red-400' : 'text-red-600'
+                : isDarkMode ? 'text-green-400' : 'text-green-600'
+          }`}>
+            {hasValidOdds ? `${(houseEdge * 100).toFixed(2)}%` : '—'}
+          </p>
+        </div>
+        <div className="flex items-end">
+          <button type="submit" className="w-full py-2 px-4 rounded-lg font-medium text-white bg-purple-600 hover:bg-purple-700 transition">
+            Add Event
+          </button>
+        </div>
+      </form>
+
+      {errors.length > 0 && (
+        <ul className="mt-4 p-3 rounded bg-yellow-100 text-yellow-800 text-sm list-disc list-inside">
+          {errors.map(error => <li key={error}>{error}</li>)}
+        </ul>
+      )}
+
+      {customEvents.length > 0 && (
+        <div className="mt-6">
+          <h3 className="font-semibold mb-2">Your Events</h3>
+          <ul className="space-y-2">
+            {customEvents.map(event => (
+              <li
+                key={event.id}
+                className={`flex justify-between items-center p-2 rounded ${isDarkMode ? 'bg-gray-700' : 'bg-gray-100'}`}
+              >
+                <span>
+                  {event.icon} {event.name}
+                  <span className={`ml-2 text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                    {event.multiplier}x at {(event.winChance * 100).toFixed(1)}%, {(calculateHouseEdge(event.multiplier, event.winChance) * 100).toFixed(2)}% edge
+                  </span>
+                </span>
+                <button
+                  type="button"
+                  onClick={() => removeCustomEvent(event.id)}
+                  className={`text-xs px-2 py-1 rounded ${
+                    isDarkMode ? 'bg-gray-600 hover:bg-gray-500' : 'bg-gray-200 hover:bg-gray-300'
+                  }`}
+                >
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EventEditor;
@@ -0,0 +1,62 @@
+import React from 'react';
+import { useGame } from '../../context/GameContext';
+import { useTheme } from '../../context/ThemeContext';
+import { loadGoals } from '../../utils/goals';
+import { createExportFilename, downloadFile, exportHistoryAsCsv, exportHistoryAsJson } from '../../utils/historyExport';
+import { buildHistoryReportHtml, createHistoryReport, printHistoryReport } from '../../utils/historyReport';
+
+/**
+ * Buttons that export the current session as CSV or JSON, or open it as a
+ * printable report
+ */
+const HistoryExportMenu: React.FC = () => {
+  const { currentSession, eventRegistry } = useGame();
+  const { theme } = useTheme();
+  const isDarkMode = theme === 'dark';
+
+  const hasBets = currentSession.bets.length > 0;
+
+  const exportCsv = () => {
+    downloadFile(exportHistoryAsCsv(currentSession), createExportFilename(currentSession, 'csv'), 'text/csv');
+  };
+
+  const exportJson = () => {
+    downloadFile(
+      exportHistoryAsJson(currentSession, new Date()),
+      createExportFilename(currentSession, 'json'),
+      'application/json'
+    );
+  };
+
+  const printReport = () => {
+    const html = buildHistoryReportHtml(
+      createHistoryReport(currentSession, loadGoals(), eventRegistry.getEvent, new Date())
+    );
+    if (!printHistoryReport(html)) {
+      // The browser blocked the report window; hand the report over as a file instead
+      console.warn('Report window was blocked, downloading the report instead');
+      downloadFile(html, createExportFilename(currentSession, 'html'), 'text/html');
+    }
+  };
+
+  const buttonClass = `px-3 py-1 rounded-md text-xs font-medium transition disabled:opacity-50 disabled:cursor-not-allowed ${
+    isDarkMode ? 'bg-gray-700 hover:bg-gray-600 text-gray-200' : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+  }`;
+  const title = hasBets ? undefined : 'Place a bet to export your history';
+
+  return (
+    <div className="flex flex-wrap items-center gap-2" role="group" aria-label="Export history">
+      <button type="button" onClick={exportCsv} disabled={!hasBets} title={title} className={buttonClass}>
+        Export CSV
+      </button>
+      <button type="button" onClick={exportJson} disabled={!hasBets} title={title} className={buttonClass}>
+        Export JSON
+      </button>
+      <button type="button" onClick={printReport} disabled={!hasBets} title={title} className={buttonClass}>
+        Print report
+      </button>
+    </div>
+  );
+};
+
+export default HistoryExportMenu;
@@ -1,11 +1,34 @@
-import React from 'react';
+import React, { useState, useEffect, useRef } from 'react';
+import { AnimatePresence, motion } from 'framer-motion';
 import { useGame } from '../../context/GameContext';
 import { useTheme } from '../../context/ThemeContext';
+import Tooltip from '../ui/Tooltip';
+import PersonaTimeline from './PersonaTimeline';
+
+// How long a persona change stays announced, in milliseconds
+const PERSONA_CHANGE_NOTICE_MS = 4000;
 
 const PersonaCard: React.FC = () => {
-  const { currentPersona, balance, currentRisk, resetGame, gameState } = useGame();
+  const { currentPersona, personas, personaHistory, behaviorProfile, balance, currentRisk, resetGame, gameState } = useGame();
   const { theme } = useTheme();
   const isDarkMode = theme === 'dark';
+  const [changeNotice, setChangeNotice] = useState<string | null>(null);
+  
+  // Announce persona changes that happen while the card is shown, not the ones already in the history
+  const announcedChanges = useRef(personaHistory.length);
+  const latestChange = personaHistory[personaHistory.length - 1];
+  useEffect(() => {
+    if (personaHistory.length <= announcedChanges.current) {
+      announcedChanges.current = personaHistory.length;
+      return;
+    }
+    announcedChanges.current = personaHistory.length;
+    
+    const from = personas.find(persona => persona.id === latestChange.fromPersonaId);
+    setChangeNotice(from ? `${from.name} → ${currentPersona.name}` : null);
+    const timer = setTimeout(() => setChangeNotice(null), PERSONA_CHANGE_NOTICE_MS);
+    return () => clearTimeout(timer);
+  }, [personaHistory.length, latestChange, personas, currentPersona.name]);
   
   // Map risk zones to their colors
   const getRiskZoneStyles = (zone: 'safe' | 'moderate' | 'danger') => {
@@ -45,7 +68,7 @@ const PersonaCard: React.FC = () => {
         <div className="flex items-center justify-between mb-2">
           <h2 className={`text-xl font-bold ${isDarkMode ? 'text-white' : 'text-gray-800'}`}>Your Profile</h2>
           <button 
-            onClick={resetGame}
+            onClick={() => resetGame()}
             className={`text-xs px-2 py-1 rounded ${
               isDarkMode ? 'bg-gray-700 text-gray-300 hover:bg-gray-600' : 
               'bg-gray-200 text-gray-700 hover:bg-gray-300'
@@ -54,16 +77,44 @@ const PersonaCard: React.FC = () => {
             Reset
           </button>
         </div>
-        <div className="flex items-center gap-3 mb-3">
-          <div className={`w-12 h-12 rounded-full flex items-center justify-center text-2xl
-            ${isDarkMode ? 'bg-gray-700' : 'bg-gray-100'}`}>
-            {currentPersona.icon}
-          </div>
-          <div>
-            <h3 className={`font-bold ${isDarkMode ? 'text-white' : 'text-gray-800'}`}>{currentPersona.name}</h3>
-            <p className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>{currentPersona.description}</p>
-          </div>
-        </div>
+        <AnimatePresence mode="wait" initial={false}>
+          <motion.div
+            key={currentPersona.id}
+            className="flex items-center gap-3 mb-3"
+            initial={{ opacity: 0, y: 8 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -8 }}
+            transition={{ duration: 0.25 }}
+          >
+            <motion.div
+              className={`w-12 h-12 rounded-full flex items-center justify-center text-2xl
+                ${isDarkMode ? 'bg-gray-700' : 'bg-gray-100'}`}
+              initial={{ scale: 0.6, rotate: -20 }}
+              animate={{ scale: 1, rotate: 0 }}
+              transition={{ type: 'spring', stiffness: 300, damping: 15 }}
+            >
+              {currentPersona.icon}
+            </motion.div>
+            <div>
+              <h3 className={`font-bold ${isDarkMode ? 'text-white' : 'text-gray-800'}`}>{currentPersona.name}</h3>
+              <p className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>{currentPersona.description}</p>
+            </div>
+          </motion.div>
+        </AnimatePresence>
+        <AnimatePresence>
+          {changeNotice && (
+            <motion.div
+              className={`mb-3 text-xs px-2 py-1 rounded ${
+                isDarkMode ? 'bg-primary-900/40 text-primary-300' : 'bg-primary-100 text-primary-800'
+              }`}
+              initial={{ opacity: 0, height: 0 }}
+              animate={{ opacity: 1, height: 'auto' }}
+              exit={{ opacity: 0, height: 0 }}
+            >
+              Your betting changed your persona: {changeNotice}
+            </motion.div>
+          )}
+        </AnimatePresence>
       </div>
       
       <div className="mb-4">
@@ -97,7 +148,15 @@ const PersonaCard: React.FC = () => {
       
       <div>
         <div className="flex justify-between items-center mb-1">
-          <span className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>Risk Level</span>
+          <Tooltip
+            content={
+              behaviorProfile.betCount > 0
+                ? `Over your last ${behaviorProfile.betCount} bets you staked ${Math.round(behaviorProfile.averageStakeFraction * 100)}% of your balance on average, went all-in on ${Math.round(behaviorProfile.allInShare * 100)}% of them, picked high-risk events for ${Math.round(behaviorProfile.longShotShare * 100)}% and raised your stake after ${Math.round(behaviorProfile.lossChaseRate * 100)}% of losses.`
+                : 'Measured from how you bet over your recent bets: stake sizes, all-ins, high-risk events and raising stakes after losses.'
+            }
+          >
+            <span className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>Risk Level</span>
+          </Tooltip>
           <span className={`text-sm px-2 py-0.5 rounded-full ${
             currentRisk < 30
               ? isDarkMode ? 'bg-green-900/30 text-green-400' : 'bg-green-100 text-green-800'
@@ -129,6 +188,10 @@ const PersonaCard: React.FC = () => {
             ))}
           </div>
         </div>
+        <div className="mt-3">
+          <span className={`block text-sm mb-1 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>Persona History</span>
+          <PersonaTimeline />
+        </div>
       </div>
     </div>
   );
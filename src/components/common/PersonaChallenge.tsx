@@ -0,0 +1,125 @@
+import React from 'react';
+import { useGame } from '../../context/GameContext';
+import { useTheme } from '../../context/ThemeContext';
+import { GOAL_AMOUNT, INITIAL_BALANCE } from '../../utils/constants';
+import { calculateMaxBet } from '../../utils/betting';
+import { summarizePersonaChallenge } from '../../utils/personaChallenge';
+
+/**
+ * Persona challenge panel: picks a persona before the first bet, shows the
+ * limit while the challenge runs and reports how it went when the game ends
+ */
+const PersonaChallenge: React.FC = () => {
+  const { personas, challengePersona, startPersonaChallenge, betHistory, balance, gameState, currentPersona, resetGame } = useGame();
+  const { theme } = useTheme();
+  const isDarkMode = theme === 'dark';
+
+  const cardClass = `rounded-lg p-4 mb-6 ${isDarkMode ? 'bg-gray-800 text-white' : 'bg-white shadow-md text-gray-800'}`;
+  const mutedClass = isDarkMode ? 'text-gray-400' : 'text-gray-600';
+  const formatMoney = (value: number) => `$${Math.round(value).toLocaleString()}`;
+
+  if (!challengePersona) {
+    // A challenge is committed to before the first bet
+    if (betHistory.length > 0 || gameState !== 'playing') return null;
+
+    return (
+      <div className={cardClass}>
+        <h2 className="text-lg font-bold mb-1">Persona Challenge</h2>
+        <p className={`text-sm mb-3 ${mutedClass}`}>
+          Commit to a persona and reach {formatMoney(GOAL_AMOUNT)} without ever betting more than it allows.
+        </p>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+          {personas.map(persona => (
+            <button
+              key={persona.id}
+              type="button"
+              onClick={() => startPersonaChallenge(persona.id)}
+              className={`p-3 rounded-lg border text-left transition ${
+                isDarkMode ? 'border-gray-700 hover:bg-gray-700' : 'border-gray-200 hover:bg-gray-50'
+              }`}
+            >
+              <span className="text-2xl">{persona.icon}</span>
+              <span className="block font-semibold">{persona.name}</span>
+              <span className={`block text-xs ${mutedClass}`}>
+                Max {Math.round(persona.maxBetPercentage * 100)}% of your balance per bet
+              </span>
+            </button>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  if (gameState === 'playing') {
+    return (
+      <div className={`${cardClass} flex items-center justify-between gap-3`}>
+        <div className="flex items-center gap-3">
+          <span className="text-2xl">{challengePersona.icon}</span>
+          <div>
+            <p className="font-semibold">Playing as {challengePersona.name}</p>
+            <p className={`text-sm ${mutedClass}`}>
+              Bets up to {formatMoney(Math.floor(calculateMaxBet(balance, challengePersona.maxBetPercentage)))} ({Math.round(challengePersona.maxBetPercentage * 100)}% of your balance),
+              or an event's minimum bet when that is higher
+            </p>
+          </div>
+        </div>
+        <span className={`text-xs px-2 py-1 rounded ${isDarkMode ? 'bg-gray-700 text-gray-300' : 'bg-gray-200 text-gray-700'}`}>
+          Challenge
+        </span>
+      </div>
+    );
+  }
+
+  const summary = summarizePersonaChallenge(challengePersona, betHistory, gameState);
+  const stats = [
+    { label: 'Bets placed', value: summary.betCount.toLocaleString() },
+    { label: 'Won', value: `${summary.wins} (${Math.round(summary.winRate * 100)}%)` },
+    { label: 'Peak balance', value: formatMoney(summary.peakBalance) },
+    { label: 'Total return', value: `${summary.totalReturn >= 0 ? '+' : ''}${Math.round(summary.totalReturn * 100)}%` },
+    { label: 'Average stake', value: `${(summary.averageStakeFraction * 100).toFixed(1)}% of balance` },
+    { label: 'Limit used', value: `${Math.round(summary.averageLimitUsage * 100)}% on average` },
+  ];
+
+  return (
+    <div className={cardClass}>
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-lg font-bold">
+          {challengePersona.icon} {challengePersona.name} challenge {summary.result === 'won' ? 'completed' : 'failed'}
+        </h2>
+        <button
+          type="button"
+          onClick={() => startPersonaChallenge(challengePersona.id)}
+          className="text-sm px-3 py-1 rounded bg-primary-600 hover:bg-primary-700 text-white"
+        >
+          Try again
+        </button>
+      </div>
+      <p className={`text-sm mb-3 ${mutedClass}`}>
+        {summary.result === 'won'
+          ? `${challengePersona.name} turned ${formatMoney(INITIAL_BALANCE)} into ${formatMoney(summary.finalBalance)} within the limit.`
+          : `${challengePersona.name} went broke after ${summary.betCount} bets.`}
+        {' '}
+        {currentPersona.id === challengePersona.id
+          ? `You played true to ${challengePersona.name}.`
+          : `By the end you were betting like ${currentPersona.name}.`}
+      </p>
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+        {stats.map(stat => (
+          <div key={stat.label}>
+            <p className={`text-xs ${mutedClass}`}>{stat.label}</p>
+            <p className="font-semibold">{stat.value}</p>
+          </div>
+        ))}
+      </div>
+      <button
+        type="button"
+        onClick={() => resetGame()}
+        className={`mt-3 text-xs underline ${mutedClass}`}
+      >
+        Play a regular game
+      </button>
+    </div>
+  );
+};
+
+export default PersonaChallenge;
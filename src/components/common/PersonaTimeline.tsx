@@ -0,0 +1,43 @@
+import React from 'react';
+import { useGame } from '../../context/GameContext';
+import { useTheme } from '../../context/ThemeContext';
+
+/**
+ * Timeline of the personas the player has had this session, oldest first
+ */
+const PersonaTimeline: React.FC = () => {
+  const { personas, personaHistory } = useGame();
+  const { theme } = useTheme();
+  const isDarkMode = theme === 'dark';
+
+  const getPersona = (personaId: string) => personas.find(persona => persona.id === personaId);
+
+  return (
+    <ol className="flex items-center gap-1 overflow-x-auto pb-1">
+      {personaHistory.map((change, index) => {
+        const persona = getPersona(change.toPersonaId);
+        if (!persona) return null;
+
+        return (
+          <li key={`${change.betCount}-${change.toPersonaId}`} className="flex items-center gap-1 shrink-0">
+            {index > 0 && (
+              <span className={`text-xs ${isDarkMode ? 'text-gray-500' : 'text-gray-400'}`}>→</span>
+            )}
+            <span
+              className={`text-xs px-1.5 py-0.5 rounded ${
+                isDarkMode ? 'bg-gray-700 text-gray-300' : 'bg-gray-200 text-gray-700'
+              }`}
+              title={change.fromPersonaId
+                ? `Became ${persona.name} after bet ${change.betCount} (behavior score ${change.score})`
+                : `Started as ${persona.name}`}
+            >
+              {persona.icon} {change.fromPersonaId ? `#${change.betCount}` : 'Start'}
+            </span>
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+export default PersonaTimeline;
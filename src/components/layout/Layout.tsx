@@ -1,59 +1,58 @@
-import React, { ReactNode } from 'react';
+import React, { Suspense } from 'react';
+import { Link, Outlet } from 'react-router-dom';
+import { useGame } from '../../context/GameContext';
 import { useTheme } from '../../context/ThemeContext';
-import { Link, useLocation } from 'react-router-dom';
+import { formatDate } from '../../utils/formatter';
+import Header from './Header';
 
-interface LayoutProps {
-  children: ReactNode;
-}
-
-const Layout: React.FC<LayoutProps> = ({ children }) => {
-  const { theme, toggleTheme } = useTheme();
+/**
+ * App shell shared by every route: header and navigation, the current page
+ * and the footer. Pages are loaded lazily, so the page area suspends while
+ * a page's bundle downloads and the header stays in place. While an imported
+ * history is under review, a banner under the header says so on every page
+ */
+const Layout: React.FC = () => {
+  const { theme } = useTheme();
   const isDarkMode = theme === 'dark';
-  const location = useLocation();
-  
+  const { isReviewMode, currentSession, exitReview } = useGame();
+
   return (
     <div className={`min-h-screen ${isDarkMode ? 'bg-gray-900 text-white' : 'bg-gray-100 text-gray-900'}`}>
-      <header className={`py-4 px-6 ${isDarkMode ? 'bg-gray-800' : 'bg-white shadow-md'}`}>
-        <div className="container mx-auto flex justify-between items-center">
-          <h1 className="text-xl font-bold">Virtual Bet Simulator</h1>
-          <div className="flex items-center space-x-4">
-            <nav className="flex space-x-4">
-              <Link 
-                to="/" 
-                className={`px-3 py-2 rounded-md transition ${
-                  location.pathname === '/' 
-                    ? isDarkMode ? 'bg-gray-700 text-white' : 'bg-gray-200 text-gray-900' 
-                    : isDarkMode ? 'text-gray-300 hover:bg-gray-700' : 'text-gray-700 hover:bg-gray-200'
-                }`}
-              >
-                Dashboard
-              </Link>
-              <Link 
-                to="/insights" 
-                className={`px-3 py-2 rounded-md transition ${
-                  location.pathname === '/insights' 
-                    ? isDarkMode ? 'bg-gray-700 text-white' : 'bg-gray-200 text-gray-900' 
-                    : isDarkMode ? 'text-gray-300 hover:bg-gray-700' : 'text-gray-700 hover:bg-gray-200'
-                }`}
-              >
-                Insights
-              </Link>
-            </nav>
-            <button
-              onClick={toggleTheme}
-              className={`p-2 rounded-full ${isDarkMode ? 'hover:bg-gray-700' : 'hover:bg-gray-200'} transition`}
-              aria-label="Toggle theme"
-            >
-              {isDarkMode ? '🌙' : '☀️'}
-            </button>
+      <Header />
+
+      {isReviewMode && (
+        <div
+          role="status"
+          className={`py-2 px-6 text-sm ${isDarkMode ? 'bg-amber-900/60 text-amber-100' : 'bg-amber-100 text-amber-900'}`}
+        >
+          <div className="container mx-auto flex flex-wrap items-center justify-between gap-2">
+            <p>
+              Reviewing an imported session from {formatDate(currentSession.startedAt, true)} ({currentSession.bets.length} bets).
+              Betting is paused; your own game is kept as it was.
+            </p>
+            <div className="flex items-center gap-3">
+              <Link to="/insights" className="underline">Insights</Link>
+              <Link to="/analytics" className="underline">Analytics</Link>
+              <button type="button" onClick={exitReview} className="font-semibold underline">
+                Exit review
+              </button>
+            </div>
           </div>
         </div>
-      </header>
-      
+      )}
+
       <div>
-        {children}
+        <Suspense
+          fallback={
+            <p className={`text-center py-16 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+              Loading…
+            </p>
+          }
+        >
+          <Outlet />
+        </Suspense>
       </div>
-      
+
       <footer className={`py-4 px-6 mt-12 ${isDarkMode ? 'bg-gray-800 text-gray-400' : 'bg-white text-gray-500 shadow-md'} text-sm`}>
         <div className="container mx-auto text-center">
           <p>© {new Date().getFullYear()} Virtual Bet Simulator. This is a simulation - no real money involved.</p>
@@ -63,4 +62,4 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
   );
 };
 
-export default Layout; 
\ No newline at end of file
+export default Layout;
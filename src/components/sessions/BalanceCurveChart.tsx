@@ -0,0 +1,94 @@
+/**
+ * BalanceCurveChart Component
+ *
+ * Overlays the balance of two sessions bet by bet, both starting from bet 0,
+ * so runs of different lengths can be compared on one scale.
+ *
+ * @module components/sessions/BalanceCurveChart
+ */
+import React from 'react';
+import { useTheme } from '../../context/ThemeContext';
+import type { Session } from '../../types';
+
+interface BalanceCurveChartProps {
+  /** First session, drawn in blue */
+  sessionA: Session;
+  /** Second session, drawn in amber */
+  sessionB: Session;
+  /** Legend label of the first session */
+  labelA: string;
+  /** Legend label of the second session */
+  labelB: string;
+}
+
+/** Size of the drawing area in SVG units; the chart scales to its container */
+const WIDTH = 600;
+const HEIGHT = 220;
+const PADDING = { top: 10, right: 10, bottom: 24, left: 56 };
+
+const COLOR_A = '#3b82f6';
+const COLOR_B = '#f59e0b';
+
+/**
+ * Balance before the first bet and after each bet
+ */
+const balanceCurve = (session: Session): number[] => [
+  session.startingBalance,
+  ...session.bets.map(bet => bet.balanceAfter),
+];
+
+/**
+ * Balance Curve Chart Component
+ *
+ * @returns {JSX.Element} The rendered chart
+ */
+const BalanceCurveChart: React.FC<BalanceCurveChartProps> = ({ sessionA, sessionB, labelA, labelB }) => {
+  const { theme } = useTheme();
+  const isDarkMode = theme === 'dark';
+
+  const curveA = balanceCurve(sessionA);
+  const curveB = balanceCurve(sessionB);
+  const lastBet = Math.max(curveA.length, curveB.length) - 1 || 1;
+  const highest = Math.max(...curveA, ...curveB) || 1;
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+
+  const x = (bet: number) => PADDING.left + (bet / lastBet) * plotWidth;
+  const y = (value: number) => PADDING.top + plotHeight - (value / highest) * plotHeight;
+  const line = (curve: number[]) => curve.map((value, bet) => `${x(bet)},${y(value)}`).join(' ');
+
+  const gridValues = [0, highest / 2, highest];
+  const textColor = isDarkMode ? '#9ca3af' : '#6b7280';
+  const gridColor = isDarkMode ? '#374151' : '#e5e7eb';
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Balance of both sessions by bet">
+        {gridValues.map(value => (
+          <g key={value}>
+            <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(value)} y2={y(value)} stroke={gridColor} strokeWidth={1} />
+            <text x={PADDING.left - 6} y={y(value) + 4} textAnchor="end" fontSize={11} fill={textColor}>
+              ${Math.round(value).toLocaleString()}
+            </text>
+          </g>
+        ))}
+        <polyline points={line(curveA)} fill="none" stroke={COLOR_A} strokeWidth={2} />
+        <polyline points={line(curveB)} fill="none" stroke={COLOR_B} strokeWidth={2} />
+        <text x={x(0)} y={HEIGHT - 6} fontSize={11} fill={textColor}>Start</text>
+        <text x={x(lastBet)} y={HEIGHT - 6} textAnchor="end" fontSize={11} fill={textColor}>
+          Bet {lastBet}
+        </text>
+      </svg>
+      <div className={`flex flex-wrap gap-4 text-xs mt-2 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-3 h-0.5 bg-blue-500" /> {labelA}
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-3 h-0.5 bg-amber-500" /> {labelB}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default BalanceCurveChart;
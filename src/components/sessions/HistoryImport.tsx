@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useGame } from '../../context/GameContext';
+import { useTheme } from '../../context/ThemeContext';
+import { HistoryImportIssue, importHistory } from '../../utils/historyImport';
+
+/** Issues listed before the rest are summarized */
+const MAX_LISTED_ISSUES = 10;
+
+/**
+ * Describes where an issue is
+ */
+const describeIssue = (issue: HistoryImportIssue): string =>
+  [issue.row !== null && `Row ${issue.row}`, issue.field, issue.message].filter(Boolean).join(' · ');
+
+/**
+ * Loads an exported history (JSON or CSV) and opens it for review. Files
+ * that don't validate are listed with every problem found
+ */
+const HistoryImport: React.FC = () => {
+  const { startReview } = useGame();
+  const { theme } = useTheme();
+  const isDarkMode = theme === 'dark';
+  const navigate = useNavigate();
+  const [fileName, setFileName] = useState<string>('');
+  const [issues, setIssues] = useState<HistoryImportIssue[]>([]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Clear the input so picking the same file again, once fixed, reads it again
+    e.target.value = '';
+    if (!file) return;
+
+    setFileName(file.name);
+    const result = importHistory(await file.text(), file.name);
+    if (!result.ok) {
+      setIssues(result.issues);
+      return;
+    }
+
+    setIssues([]);
+    startReview(result.session);
+    navigate('/insights');
+  };
+
+  const mutedClass = isDarkMode ? 'text-gray-400' : 'text-gray-500';
+
+  return (
+    <div className={`rounded-lg p-4 ${isDarkMode ? 'bg-gray-800' : 'bg-white shadow-md'}`}>
+      <p className={`text-sm mb-3 ${mutedClass}`}>
+        Load a history exported as JSON or CSV to walk through it on the analytics pages. Your own game is
+        kept as it was, and betting is paused until you exit the review.
+      </p>
+      <label className={`inline-block px-4 py-2 rounded-lg cursor-pointer transition-colors ${
+        isDarkMode ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-100 hover:bg-gray-200'
+      }`}>
+        Choose file…
+        <input type="file" accept=".json,.csv,application/json,text/csv" onChange={handleFileChange} className="sr-only" />
+      </label>
+
+      {issues.length > 0 && (
+        <div
+          role="alert"
+          className={`mt-4 p-3 rounded-lg text-sm ${isDarkMode ? 'bg-red-900/30 text-red-300' : 'bg-red-50 text-red-800'}`}
+        >
+          <p className="font-semibold mb-1">
+            {fileName} could not be imported ({issues.length} {issues.length === 1 ? 'problem' : 'problems'}):
+          </p>
+          <ul className="list-disc list-inside space-y-1">
+            {issues.slice(0, MAX_LISTED_ISSUES).map((issue, index) => (
+              <li key={index}>{describeIssue(issue)}</li>
+            ))}
+          </ul>
+          {issues.length > MAX_LISTED_ISSUES && (
+            <p className="mt-1">…and {issues.length - MAX_LISTED_ISSUES} more.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HistoryImport;
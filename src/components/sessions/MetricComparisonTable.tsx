@@ -0,0 +1,84 @@
+import React from 'react';
+import { useTheme } from '../../context/ThemeContext';
+
+/**
+ * One metric of the two sessions being compared
+ */
+export interface MetricComparisonRow {
+  /** Name of the metric */
+  label: string;
+  /** Value in the first session; null when it has too few bets */
+  a: number | null;
+  /** Value in the second session; null when it has too few bets */
+  b: number | null;
+  /** Formats a value, or the size of the change between the sessions */
+  format: (value: number) => string;
+  /** Which way is an improvement; changes are not colored without one */
+  better?: 'higher' | 'lower';
+}
+
+interface MetricComparisonTableProps {
+  /** Metrics to compare */
+  rows: MetricComparisonRow[];
+  /** Column heading of the first session */
+  labelA: string;
+  /** Column heading of the second session */
+  labelB: string;
+}
+
+/**
+ * Compares metrics of two sessions, with the change from the first to the
+ * second colored green when it is an improvement and red when it is not
+ */
+const MetricComparisonTable: React.FC<MetricComparisonTableProps> = ({ rows, labelA, labelB }) => {
+  const { theme } = useTheme();
+  const isDarkMode = theme === 'dark';
+  const mutedClass = isDarkMode ? 'text-gray-400' : 'text-gray-500';
+
+  // A change too small to show is no change
+  const isUnchanged = (row: MetricComparisonRow, delta: number) => row.format(Math.abs(delta)) === row.format(0);
+
+  const deltaClass = (row: MetricComparisonRow, delta: number) => {
+    if (!row.better || isUnchanged(row, delta)) return mutedClass;
+    const improved = row.better === 'higher' ? delta > 0 : delta < 0;
+    return improved
+      ? isDarkMode ? 'text-green-400' : 'text-green-600'
+      : isDarkMode ? 'text-red-400' : 'text-red-600';
+  };
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className={`text-left ${mutedClass}`}>
+            <th className="py-2 pr-4 font-medium">Metric</th>
+            <th className="py-2 pr-4 font-medium text-right">{labelA}</th>
+            <th className="py-2 pr-4 font-medium text-right">{labelB}</th>
+            <th className="py-2 font-medium text-right">Change</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(row => {
+            const delta = row.a !== null && row.b !== null ? row.b - row.a : null;
+            return (
+              <tr key={row.label} className={`border-t ${isDarkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+                <td className="py-2 pr-4">{row.label}</td>
+                <td className="py-2 pr-4 text-right">{row.a !== null ? row.format(row.a) : '—'}</td>
+                <td className="py-2 pr-4 text-right">{row.b !== null ? row.format(row.b) : '—'}</td>
+                <td className={`py-2 text-right font-semibold ${delta !== null ? deltaClass(row, delta) : mutedClass}`}>
+                  {delta === null
+                    ? '—'
+                    : isUnchanged(row, delta)
+                      ? row.format(0)
+                      : `${delta > 0 ? '+' : '-'}${row.format(Math.abs(delta))}`}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default MetricComparisonTable;
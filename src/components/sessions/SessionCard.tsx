@@ -0,0 +1,90 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { useGame } from '../../context/GameContext';
+import { useTheme } from '../../context/ThemeContext';
+import type { Session, SessionOutcome } from '../../types';
+import { formatCurrency, formatDate, formatDuration, formatPercentage } from '../../utils/formatter';
+import { formatSeed } from '../../utils/random';
+import { calculateSessionStats } from '../../utils/sessionStats';
+
+interface SessionCardProps {
+  /** Session to show */
+  session: Session;
+}
+
+const outcomeLabels: Record<SessionOutcome, string> = {
+  playing: 'In progress',
+  won: 'Won',
+  lost: 'Lost',
+  abandoned: 'Abandoned',
+};
+
+const outcomeClasses: Record<SessionOutcome, string> = {
+  playing: 'bg-blue-500 text-white',
+  won: 'bg-green-500 text-white',
+  lost: 'bg-red-500 text-white',
+  abandoned: 'bg-gray-500 text-white',
+};
+
+/**
+ * One game session with its result and statistics
+ */
+const SessionCard: React.FC<SessionCardProps> = ({ session }) => {
+  const { personas, currentSession } = useGame();
+  const { theme } = useTheme();
+  const isDarkMode = theme === 'dark';
+
+  const stats = calculateSessionStats(session);
+  const challengePersona = personas.find(persona => persona.id === session.challengePersonaId);
+  const mutedClass = isDarkMode ? 'text-gray-400' : 'text-gray-500';
+
+  const metrics = [
+    { label: 'Bets', value: stats.betCount.toLocaleString() },
+    { label: 'Win rate', value: formatPercentage(stats.winRate) },
+    { label: 'Balance', value: `${formatCurrency(session.startingBalance, '$', 0)} → ${formatCurrency(session.endingBalance, '$', 0)}` },
+    {
+      label: 'Net result',
+      value: `${stats.netResult >= 0 ? '+' : '-'}${formatCurrency(Math.abs(stats.netResult), '$', 0)}`,
+      className: stats.netResult >= 0 ? 'text-green-500' : 'text-red-500',
+    },
+    { label: 'Peak balance', value: formatCurrency(stats.peakBalance, '$', 0) },
+    { label: 'Max drawdown', value: formatPercentage(stats.maxDrawdown) },
+    { label: 'Average stake', value: formatCurrency(stats.averageStake) },
+    { label: 'Duration', value: formatDuration(stats.durationMs) },
+  ];
+
+  return (
+    <div className={`rounded-lg p-4 ${isDarkMode ? 'bg-gray-800 text-white' : 'bg-white shadow-md text-gray-800'}`}>
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <div>
+          <h2 className="font-bold">{formatDate(session.startedAt, true)}</h2>
+          <p className={`text-xs ${mutedClass}`}>
+            Seed <code className="font-mono">{formatSeed(session.seed)}</code>
+            {challengePersona && ` · ${challengePersona.icon} ${challengePersona.name} challenge`}
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          {session.id !== currentSession.id && (
+            <Link to={`/sessions/compare?a=${session.id}&b=${currentSession.id}`} className={`text-xs underline ${mutedClass}`}>
+              Compare with current
+            </Link>
+          )}
+          <span className={`text-xs font-medium px-2 py-1 rounded-full ${outcomeClasses[session.outcome]}`}>
+            {outcomeLabels[session.outcome]}
+          </span>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        {metrics.map(metric => (
+          <div key={metric.label}>
+            <p className={`text-xs ${mutedClass}`}>{metric.label}</p>
+            <p className={`font-semibold ${metric.className || ''}`}>{metric.value}</p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SessionCard;
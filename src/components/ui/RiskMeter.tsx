@@ -1,44 +1,69 @@
 import React from 'react';
-import { useGame } from '../../context/GameContext';
+import Tooltip from './Tooltip';
+import type { RiskAssessment } from '../../utils/riskModel';
 
 interface RiskMeterProps {
-  risk: number;
+  /** Risk assessment of the bet, shown as a bar with its breakdown in a tooltip */
+  assessment: RiskAssessment;
 }
 
-const RiskMeter: React.FC<RiskMeterProps> = ({ risk }) => {
-  const { currentPersona } = useGame();
-  
+const RiskMeter: React.FC<RiskMeterProps> = ({ assessment }) => {
+  const { score, components } = assessment;
+
   // Determine color based on risk level
   const getColor = () => {
-    if (risk <= 30) return 'bg-green-500';
-    if (risk <= 70) return 'bg-yellow-500';
-    return 'bg-red-500';
+    if (score < 30) return { bg: 'bg-green-500', text: 'text-green-500' };
+    if (score < 70) return { bg: 'bg-yellow-500', text: 'text-yellow-500' };
+    return { bg: 'bg-red-500', text: 'text-red-500' };
   };
 
+  const color = getColor();
+
+  const breakdown = (
+    <div>
+      <p className="font-medium mb-2">How this score adds up</p>
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="opacity-70">
+            <th className="text-left font-normal pb-1">Component</th>
+            <th className="text-right font-normal pb-1">Level</th>
+            <th className="text-right font-normal pb-1">Weight</th>
+            <th className="text-right font-normal pb-1">Points</th>
+          </tr>
+        </thead>
+        <tbody>
+          {components.map(component => (
+            <tr key={component.id} title={component.description}>
+              <td className="py-0.5">{component.label}</td>
+              <td className="text-right">{Math.round(component.value * 100)}%</td>
+              <td className="text-right">{Math.round(component.weight * 100)}%</td>
+              <td className="text-right font-medium">{component.contribution.toFixed(1)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="mt-2 text-xs opacity-70">
+        Each component is a level from 0-100%; the score is their weighted sum.
+      </p>
+    </div>
+  );
+
   return (
-    <div className="w-full mb-6">
-      <div className="flex justify-between items-center mb-2">
-        <h3 className="text-lg font-semibold">Risk Meter</h3>
-        <span className="font-bold text-xl">{risk}%</span>
-      </div>
-      
-      {/* Meter background */}
-      <div className="w-full h-6 bg-gray-200 rounded-full overflow-hidden">
-        {/* Meter fill */}
-        <div 
-          className={`h-full ${getColor()} transition-all duration-500 ease-in-out`}
-          style={{ width: `${risk}%` }}
-        ></div>
+    <div className="mb-6">
+      <div className="flex justify-between text-sm mb-1">
+        <Tooltip content={breakdown} width="wide">
+          <span className="text-white">Risk Level</span>
+        </Tooltip>
+        <span className={color.text}>{score}%</span>
       </div>
-      
-      {/* Current persona */}
-      <div className="mt-2 flex justify-between items-center">
-        <span className="text-sm font-medium">Current Persona:</span>
-        <span className="font-bold">{currentPersona.name}</span>
+      <div className="h-2 bg-gray-700 rounded-full overflow-hidden">
+        <div
+          className={`h-full ${color.bg} transition-all duration-300`}
+          style={{ width: `${score}%` }}
+        />
       </div>
-      <p className="text-sm text-gray-600 mt-1">{currentPersona.description}</p>
     </div>
   );
 };
 
-export default RiskMeter; 
\ No newline at end of file
+export default RiskMeter;
@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { useGame } from '../../context/GameContext';
+import { useTheme } from '../../context/ThemeContext';
+import { formatSeed, parseSeed } from '../../utils/random';
+import Tooltip from './Tooltip';
+
+/**
+ * Shows the session seed and lets the user restart the game from a given seed
+ */
+const SeedBadge: React.FC = () => {
+  const { seed, resetGame } = useGame();
+  const { theme } = useTheme();
+  const isDarkMode = theme === 'dark';
+  const [isReplaying, setIsReplaying] = useState<boolean>(false);
+  const [seedInput, setSeedInput] = useState<string>('');
+  const [error, setError] = useState<string>('');
+
+  const handleReplay = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const nextSeed = parseSeed(seedInput);
+    if (nextSeed === null) {
+      setError('Seeds are up to 8 hex characters');
+      return;
+    }
+
+    if (window.confirm(`Restart the game with seed ${formatSeed(nextSeed)}? The current session will be moved to your session archive.`)) {
+      resetGame(nextSeed);
+      setIsReplaying(false);
+      setSeedInput('');
+      setError('');
+    }
+  };
+
+  return (
+    <div className={`inline-flex flex-col items-center text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+      <div className="flex items-center gap-2">
+        <Tooltip content="Identifies the session. The server seed of every bet and the starting client seed come from it, so replaying a seed with the same client seed replays the same rolls.">
+          <span>Seed</span>
+        </Tooltip>
+        <code className={`px-2 py-0.5 rounded font-mono ${isDarkMode ? 'bg-gray-800 text-gray-200' : 'bg-gray-200 text-gray-800'}`}>
+          {formatSeed(seed)}
+        </code>
+        <button
+          type="button"
+          onClick={() => setIsReplaying(prev => !prev)}
+          className={`underline ${isDarkMode ? 'hover:text-white' : 'hover:text-gray-800'}`}
+        >
+          {isReplaying ? 'Cancel' : 'Replay a seed'}
+        </button>
+      </div>
+
+      {isReplaying && (
+        <form onSubmit={handleReplay} className="flex items-center gap-2 mt-2">
+          <input
+            type="text"
+            value={seedInput}
+            onChange={(e) => setSeedInput(e.target.value)}
+            placeholder="e.g. 1A2B3C4D"
+            maxLength={8}
+            className={`px-2 py-1 rounded font-mono border ${
+              isDarkMode ? 'bg-gray-800 border-gray-700 text-white' : 'bg-white border-gray-300 text-gray-800'
+            }`}
+          />
+          <button
+            type="submit"
+            className="px-2 py-1 rounded bg-primary-600 hover:bg-primary-700 text-white"
+          >
+            Restart
+          </button>
+        </form>
+      )}
+
+      {error && <p className="mt-1 text-red-500">{error}</p>}
+    </div>
+  );
+};
+
+export default SeedBadge;
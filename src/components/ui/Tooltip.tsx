@@ -2,7 +2,7 @@ import React, { useState, ReactNode } from 'react';
 import { useTheme } from '../../context/ThemeContext';
 
 interface TooltipProps {
-  content: string;
+  content: ReactNode;
   children: ReactNode;
   position?: 'top' | 'bottom' | 'left' | 'right';
   width?: 'narrow' | 'medium' | 'wide';
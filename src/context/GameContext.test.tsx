@@ -0,0 +1,87 @@
+import React, { ReactNode } from 'react';
+import { act, renderHook } from '@testing-library/react';
+import { GameProvider, PlaceBetResult, useGame } from './GameContext';
+
+const wrapper = ({ children }: { children: ReactNode }) => <GameProvider seed={42}>{children}</GameProvider>;
+
+describe('GameProvider', () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+  });
+
+  it('returns the bet that was stored', () => {
+    const { result } = renderHook(() => useGame(), { wrapper });
+    let placed: PlaceBetResult | undefined;
+
+    act(() => {
+      placed = result.current.placeBet('coin-flip', 100);
+    });
+
+    expect(placed?.ok).toBe(true);
+    if (!placed?.ok) return;
+
+    expect(result.current.betHistory).toEqual([placed.bet]);
+    expect(result.current.balance).toBe(placed.bet.balanceAfter);
+  });
+
+  it('places one bet when two are placed in the same tick', () => {
+    const { result } = renderHook(() => useGame(), { wrapper });
+    let results: PlaceBetResult[] = [];
+
+    act(() => {
+      // Both calls go through the same render's placeBet, as a double click would
+      const { placeBet } = result.current;
+      results = [placeBet('coin-flip', 100), placeBet('coin-flip', 100)];
+    });
+
+    const [first, second] = results;
+    expect(first.ok).toBe(true);
+    expect(second).toMatchObject({ ok: false, rejection: { code: 'bet-pending' } });
+    if (!first.ok) return;
+
+    expect(result.current.betHistory).toEqual([first.bet]);
+  });
+
+  it('checks the next bet against the balance the last one left', () => {
+    const { result } = renderHook(() => useGame(), { wrapper });
+    let first: PlaceBetResult | undefined;
+    let second: PlaceBetResult | undefined;
+
+    act(() => {
+      first = result.current.placeBet('coin-flip', 1000);
+    });
+    act(() => {
+      second = result.current.placeBet('coin-flip', 1000);
+    });
+
+    expect(first?.ok).toBe(true);
+    if (!first?.ok || !second) return;
+    expect(second.ok).toBe(first.bet.balanceAfter >= 1000);
+    expect(result.current.betHistory).toHaveLength(second.ok ? 2 : 1);
+  });
+
+  it('leaves the game alone while an imported session is reviewed', () => {
+    const { result } = renderHook(() => useGame(), { wrapper });
+    act(() => {
+      result.current.placeBet('coin-flip', 100);
+    });
+    const { currentSession, clientSeed } = result.current;
+
+    act(() => {
+      result.current.startReview({ ...currentSession, id: 'imported', seed: 7 });
+    });
+    act(() => {
+      result.current.setClientSeed('lucky');
+      result.current.resetGame(1);
+      result.current.startPersonaChallenge('baby-betsy', 2);
+    });
+    expect(result.current.placeBet('coin-flip', 100)).toMatchObject({ ok: false, rejection: { code: 'read-only' } });
+
+    act(() => {
+      result.current.exitReview();
+    });
+    expect(result.current.currentSession).toEqual(currentSession);
+    expect(result.current.clientSeed).toBe(clientSeed);
+    expect(result.current.sessionArchive).toEqual([]);
+  });
+});
@@ -1,4 +1,67 @@
-import React, { createContext, useContext, useState, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useMemo, useReducer, ReactNode } from 'react';
+import {
+  loadGameSnapshot,
+  saveGameSnapshot,
+  clearGameSnapshot,
+  loadSessionArchive,
+  saveSessionArchive,
+} from '../utils/persistence';
+import { createSeededRandom, generateSeed, RandomGeneratorFactory } from '../utils/random';
+import { commitServerSeed, FairnessProof } from '../utils/fairness';
+import {
+  DEFAULT_BET_EVENTS,
+  createEventRegistry,
+  createCustomEventId,
+  defineBetEvent,
+  mergeEventCatalogs,
+  validateEventCatalog,
+  EventRegistry,
+  BetEventDefinition,
+} from '../utils/eventRegistry';
+import { getSelection } from '../utils/payTable';
+import { getSelectionPayouts } from '../utils/riskOfRuin';
+import { assessRisk, DEFAULT_RISK_WEIGHTS, RiskAssessment, RiskModelWeights } from '../utils/riskModel';
+import { classifyPersona, BehaviorProfile, PersonaChange } from '../utils/personaEngine';
+import type { BetRejection } from '../utils/validation';
+import { STORAGE_KEYS } from '../utils/constants';
+import {
+  applyPlaceBet,
+  createGameReducer,
+  createInitialGameState,
+  GameAction,
+  GameEngineState,
+  GameEnvironment,
+  getCurrentSession,
+  PERSONAS,
+  Session,
+} from '../engine';
+import useLocalStorage from '../hooks/useLocalStorage';
+
+/**
+ * One way a multi-outcome event can land, e.g. a roulette number or a reel symbol
+ * @interface BetOutcome
+ */
+export interface BetOutcome {
+  /** Unique identifier within the event */
+  id: string;
+  /** Display label */
+  label: string;
+  /** Probability of the outcome (0-1); an event's outcomes sum to 1 */
+  probability: number;
+}
+
+/**
+ * Something the player can back on a multi-outcome event, with its pay table
+ * @interface BetSelection
+ */
+export interface BetSelection {
+  /** Unique identifier within the event */
+  id: string;
+  /** Display label */
+  label: string;
+  /** Total return per unit staked for each paying outcome ID; unlisted outcomes lose the stake */
+  payouts: Record<string, number>;
+}
 
 /**
  * Represents a betting event in the game
@@ -9,10 +72,12 @@ export interface BetEvent {
   id: string;
   /** Display name of the bet event */
   name: string;
-  /** Payout multiplier for a winning bet */
+  /** Payout multiplier for a winning bet, derived from the return to player (default selection on multi-outcome events) */
   multiplier: number;
   /** Probability of winning (0-1) */
   winChance: number;
+  /** Return to player: the share of each stake paid back on average (e.g. 0.97) */
+  rtp: number;
   /** Minimum bet amount required */
   minBet: number;
   /** Maximum bet amount allowed, null for no limit */
@@ -23,6 +88,14 @@ export interface BetEvent {
   icon: string;
   /** Description of the bet event */
   description: string;
+  /** Event-specific comments shown after a bet settles */
+  quips: string[];
+  /** Whether the event was defined by the user */
+  isCustom?: boolean;
+  /** Outcomes of a multi-outcome event, in roll order; binary events omit them */
+  outcomes?: BetOutcome[];
+  /** Selections the player can back on a multi-outcome event; the first is the default */
+  selections?: BetSelection[];
 }
 
 /**
@@ -53,6 +126,16 @@ export interface Persona {
   traits: string[];
 }
 
+/**
+ * How a settled bet turned out
+ * - win: returned more than the stake
+ * - push: returned exactly the stake
+ * - partial: returned part of the stake
+ * - loss: returned nothing
+ * @typedef {('win'|'loss'|'push'|'partial')} SettlementOutcome
+ */
+export type SettlementOutcome = 'win' | 'loss' | 'push' | 'partial';
+
 /**
  * Represents a historical bet
  * @interface BetHistory
@@ -67,8 +150,8 @@ export interface BetHistory {
   /** Amount wagered */
   betAmount: number;
   /** Outcome of the bet */
-  outcome: 'win' | 'loss';
-  /** Amount won (positive) or lost (negative) */
+  outcome: SettlementOutcome;
+  /** Net amount won (positive) or lost (negative); zero for a push */
   winAmount: number;
   /** Balance after the bet was settled */
   balanceAfter: number;
@@ -76,6 +159,22 @@ export interface BetHistory {
   riskPercentage: number;
   /** Timestamp when the bet was placed */
   timestamp: Date;
+  /** Selection backed on a multi-outcome event */
+  selectionId?: string;
+  /** Display label of the selection */
+  selectionLabel?: string;
+  /** Outcome the roll landed on */
+  outcomeId?: string;
+  /** Display label of the outcome */
+  outcomeLabel?: string;
+  /** Total return per unit staked that the outcome paid, 0 for a loss */
+  payoutMultiplier?: number;
+  /** House edge of the event when the bet was placed */
+  houseEdge?: number;
+  /** Full Kelly stake for the bet when it was placed, 0 when the bet had no edge */
+  kellyStake?: number;
+  /** Provably-fair seeds and roll the outcome was derived from */
+  fairness?: FairnessProof;
 }
 
 /**
@@ -84,6 +183,14 @@ export interface BetHistory {
  */
 export type GameState = 'playing' | 'won' | 'lost';
 
+/**
+ * Result of placing a bet: the settled bet, or why it was rejected
+ * @typedef {Object} PlaceBetResult
+ */
+export type PlaceBetResult =
+  | { ok: true; bet: BetHistory }
+  | { ok: false; rejection: BetRejection };
+
 /**
  * Game context interface
  * @interface GameContextType
@@ -91,311 +198,360 @@ export type GameState = 'playing' | 'won' | 'lost';
 interface GameContextType {
   /** Current player balance */
   balance: number;
-  /** Function to update the balance */
-  setBalance: React.Dispatch<React.SetStateAction<number>>;
-  /** Current risk level (0-100) */
+  /** Current risk level (0-100): the behavior score of the recent bets */
   currentRisk: number;
-  /** Function to update the risk level */
-  setCurrentRisk: React.Dispatch<React.SetStateAction<number>>;
   /** Available betting events */
   betEvents: BetEvent[];
+  /** Registry the betting events come from, for lookups by ID */
+  eventRegistry: EventRegistry;
+  /** Events defined by the user */
+  customEvents: BetEvent[];
+  /** Function to add a user-defined event; returns validation errors, empty on success */
+  addCustomEvent: (event: Omit<BetEventDefinition, 'id' | 'quips' | 'isCustom'>) => string[];
+  /** Function to remove a user-defined event */
+  removeCustomEvent: (eventId: string) => void;
   /** Available personas */
   personas: Persona[];
-  /** Current active persona based on risk level */
+  /** Current active persona based on recent betting behavior */
   currentPersona: Persona;
+  /** How the player has been betting over the recent bets */
+  behaviorProfile: BehaviorProfile;
+  /** Every persona the player has had this session, oldest first */
+  personaHistory: PersonaChange[];
+  /** Persona committed to in a persona challenge, null in a regular game */
+  challengePersona: Persona | null;
+  /** Function to start a new game as a persona challenge, optionally replaying a specific seed; does nothing during a review */
+  startPersonaChallenge: (personaId: string, seed?: number) => void;
   /** History of all bets placed */
   betHistory: BetHistory[];
   /** Current state of the game */
   gameState: GameState;
-  /** Function to place a bet */
-  placeBet: (eventId: string, amount: number) => boolean;
+  /** Function to place a bet, optionally backing a selection on a multi-outcome event */
+  placeBet: (eventId: string, amount: number, selectionId?: string) => PlaceBetResult;
   /** Function to calculate risk for a potential bet */
-  calculateRisk: (eventId: string, amount: number) => number;
-  /** Function to reset the game */
-  resetGame: () => void;
+  calculateRisk: (eventId: string, amount: number, selectionId?: string) => number;
+  /** Function to assess a potential bet's risk with a breakdown of its components; null for an unknown bet */
+  assessBetRisk: (eventId: string, amount: number, selectionId?: string) => RiskAssessment | null;
+  /** The session in progress */
+  currentSession: Session;
+  /** Sessions played before the current one, oldest first; kept when the game is reset */
+  sessionArchive: Session[];
+  /** Number of the oldest archived sessions that didn't fit in storage and won't survive a reload */
+  unsavedSessionCount: number;
+  /** Function to reset the game, optionally replaying a specific seed; does nothing during a review */
+  resetGame: (seed?: number) => void;
+  /** Seed of the current session's random generator */
+  seed: number;
+  /** Hash of the server seed committed to for the next bet */
+  serverSeedHash: string;
+  /** Client seed used for the next bet */
+  clientSeed: string;
+  /** Function to change the client seed; does nothing during a review */
+  setClientSeed: (clientSeed: string) => void;
+  /** Nonce of the next bet */
+  nonce: number;
   /** Whether a bet is currently being processed */
   isProcessingBet: boolean;
+  /** Whether an imported session is being reviewed; the game is read-only while it is */
+  isReviewMode: boolean;
+  /** Function to show an imported session in place of the game, read-only */
+  startReview: (session: Session) => void;
+  /** Function to leave the review and return to the game */
+  exitReview: () => void;
 }
 
-/**
- * Available betting events in the game
- * @const {BetEvent[]} betEvents
- */
-const betEvents: BetEvent[] = [
-  {
-    id: 'coin-flip',
-    name: 'Coin Flip',
-    multiplier: 2.0,
-    winChance: 0.5,
-    minBet: 10,
-    maxBet: null,
-    riskLevel: 'Low',
-    icon: '🪙',
-    description: 'Heads or tails? Classic 50/50 chance to double your money.',
-  },
-  {
-    id: 'dice-roll',
-    name: 'Dice Roll',
-    multiplier: 6.0,
-    winChance: 0.166,
-    minBet: 50,
-    maxBet: 2000,
-    riskLevel: 'Medium',
-    icon: '🎲',
-    description: 'Roll a six to win big! Can you beat the odds?',
-  },
-  {
-    id: 'bullseye',
-    name: 'Bullseye',
-    multiplier: 3.0,
-    winChance: 0.33,
-    minBet: 30,
-    maxBet: 1500,
-    riskLevel: 'Low',
-    icon: '🎯',
-    description: 'Hit the target and triple your bet. Steady hands win.',
-  },
-  {
-    id: 'roulette',
-    name: 'Roulette',
-    multiplier: 35.0,
-    winChance: 0.027,
-    minBet: 100,
-    maxBet: 1000,
-    riskLevel: 'High',
-    icon: '🎰',
-    description: 'Hit your number and win 35x your bet! High risk, high reward.',
-  },
-  {
-    id: 'sports-match',
-    name: 'Sports Match',
-    multiplier: 3.5,
-    winChance: 0.3,
-    minBet: 25,
-    maxBet: 5000,
-    riskLevel: 'Medium',
-    icon: '⚽',
-    description: 'Bet on the underdog team and get 3.5x your money if they win.',
-  },
-  {
-    id: 'mega-jackpot',
-    name: 'Mega Jackpot',
-    multiplier: 20.0,
-    winChance: 0.05,
-    minBet: 200,
-    maxBet: 2000,
-    riskLevel: 'High',
-    icon: '💰',
-    description: 'Go for the mega jackpot! Low chance but massive rewards await.',
-  }
-];
-
-/**
- * Available betting personas
- * @const {Persona[]} personas
- */
-const personas: Persona[] = [
-  {
-    id: 'baby-betsy',
-    name: 'Baby Betsy',
-    description: 'Safe bets, max 10% bankroll',
-    maxBetPercentage: 0.1,
-    riskRange: {
-      min: 0,
-      max: 30,
-    },
-    icon: '👶',
-    color: 'text-green-500',
-    traits: ['Cautious', 'Smart', 'Patient'],
-  },
-  {
-    id: 'midlife-crisis-mike',
-    name: 'Midlife Crisis Mike',
-    description: 'Moderate risk, max 30% bankroll',
-    maxBetPercentage: 0.3,
-    riskRange: {
-      min: 31,
-      max: 70,
-    },
-    icon: '👨‍💼',
-    color: 'text-yellow-500',
-    traits: ['Impulsive', 'Calculated', 'Strategic'],
-  },
-  {
-    id: 'yolo-yolanda',
-    name: 'YOLO Yolanda',
-    description: 'High risk, often all-in',
-    maxBetPercentage: 1.0,
-    riskRange: {
-      min: 71,
-      max: 100,
-    },
-    icon: '🤪',
-    color: 'text-red-500',
-    traits: ['Reckless', 'Daring', 'All or Nothing'],
-  },
-];
-
 /**
  * Game context with default values
  * @const {React.Context<GameContextType | undefined>} GameContext
  */
 const GameContext = createContext<GameContextType | undefined>(undefined);
 
+/**
+ * Game provider props
+ * @interface GameProviderProps
+ */
+interface GameProviderProps {
+  /** Child components */
+  children: ReactNode;
+  /** Seed for a new session; ignored when a saved session is restored */
+  seed?: number;
+  /** Factory for the random generator that draws the starting client seed */
+  createRandom?: RandomGeneratorFactory;
+  /** Weights of the risk model's components */
+  riskWeights?: RiskModelWeights;
+}
+
 /**
  * Game provider component
  * @component
- * @param {Object} props - Component props
- * @param {ReactNode} props.children - Child components
+ * @param {GameProviderProps} props - Component props
  * @returns {JSX.Element} Game provider component
  */
-export const GameProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
-  // State variables
-  const [balance, setBalance] = useState<number>(1000);
-  const [currentRisk, setCurrentRisk] = useState<number>(15); // Default to low risk
-  const [betHistory, setBetHistory] = useState<BetHistory[]>([]);
-  const [gameState, setGameState] = useState<GameState>('playing');
+export const GameProvider: React.FC<GameProviderProps> = ({
+  children,
+  seed: initialSeed,
+  createRandom = createSeededRandom,
+  riskWeights = DEFAULT_RISK_WEIGHTS,
+}) => {
+  // Restore the previous session, if one was saved
+  const [savedGame] = useState(loadGameSnapshot);
+  const [savedArchive] = useState(loadSessionArchive);
   const [isProcessingBet, setIsProcessingBet] = useState<boolean>(false);
+  // An imported session under review is shown in place of the game, which stays saved as it was
+  const [reviewSession, setReviewSession] = useState<Session | null>(null);
+  const [unsavedSessionCount, setUnsavedSessionCount] = useState<number>(0);
+  
+  // User-defined events are stored separately so they survive a game reset
+  const [customEvents, setCustomEvents] = useLocalStorage<BetEvent[]>(STORAGE_KEYS.CUSTOM_EVENTS, []);
+  const eventRegistry = useMemo(
+    () => createEventRegistry(mergeEventCatalogs(
+      DEFAULT_BET_EVENTS,
+      // Events saved before the return to player was recorded keep the return their payout implied
+      customEvents.map(event => event.rtp === undefined ? { ...event, rtp: event.multiplier * event.winChance } : event)
+    )),
+    [customEvents]
+  );
+  
+  // The rules live in the engine; this provider only holds its state
+  const environment = useMemo<GameEnvironment>(
+    () => ({ getEvent: eventRegistry.getEvent, createRandom, riskWeights, personas: PERSONAS }),
+    [eventRegistry, createRandom, riskWeights]
+  );
+  const gameReducer = useMemo(() => createGameReducer(environment), [environment]);
+  const [state, dispatch] = useReducer(gameReducer, savedGame, (saved): GameEngineState => {
+    if (!saved) {
+      return {
+        ...createInitialGameState(initialSeed ?? generateSeed(), new Date(), createRandom),
+        archive: savedArchive,
+      };
+    }
+    // The saved risk level is derived from the bets, so it isn't part of the engine state. The
+    // server seed isn't saved either; it follows from the seed and the nonce
+    const { currentRisk, ...restored } = saved;
+    return { ...restored, fairness: commitServerSeed(restored.fairness, restored.seed), archive: savedArchive };
+  });
+  // placeBet works out the bet it returns from this render's state, which only holds for the
+  // first bet placed through it; any other is rejected until the next render
+  let isBetPending = false;
+  const { fairness, archive } = state;
+  const liveSession = useMemo(() => getCurrentSession(state), [state]);
+  const isReviewMode = reviewSession !== null;
+  const currentSession = reviewSession ?? liveSession;
+  const { bets: betHistory, seed, challengePersonaId } = currentSession;
+  const balance = reviewSession ? reviewSession.endingBalance : state.balance;
+  // An abandoned session ended without being won or lost
+  const gameState: GameState = reviewSession
+    ? reviewSession.outcome === 'abandoned' ? 'playing' : reviewSession.outcome
+    : state.gameState;
+  
+  // Classify the player from how they have been betting, replaying the whole history
+  const personaClassification = useMemo(
+    () => classifyPersona(betHistory, PERSONAS, eventRegistry.getEvent),
+    [betHistory, eventRegistry]
+  );
+  const currentPersona = PERSONAS.find(p => p.id === personaClassification.personaId) || PERSONAS[0];
+  const currentRisk = personaClassification.profile.score;
+  const challengePersona = PERSONAS.find(p => p.id === challengePersonaId) || null;
   
+  // Persist the session whenever the game changes; the archive is saved on its own
+  useEffect(() => {
+    // The risk level shown during a review is the imported session's, not the game's
+    if (isReviewMode) return;
+    const { archive: archivedSessions, ...snapshot } = state;
+    saveGameSnapshot({ ...snapshot, currentRisk });
+  }, [state, currentRisk, isReviewMode]);
+
+  useEffect(() => {
+    setUnsavedSessionCount(archive.length - saveSessionArchive(archive));
+  }, [archive]);
+
   /**
-   * Determines the current persona based on risk level
-   * @returns {Persona} The matching persona or default
+   * Assesses the risk of a potential bet with the risk model
+   * @param {string} eventId - ID of the bet event
+   * @param {number} betAmount - Amount to be bet
+   * @param {string} [selectionId] - Selection on a multi-outcome event, defaults to the first
+   * @returns {RiskAssessment | null} Risk score and breakdown, or null for an unknown event or selection
    */
-  const getCurrentPersona = (): Persona => {
-    const persona = personas.find(
-      (p) => currentRisk >= p.riskRange.min && currentRisk <= p.riskRange.max
-    );
-    return persona || personas[0]; // Default to Baby Betsy if no match
+  const assessBetRisk = (eventId: string, betAmount: number, selectionId?: string): RiskAssessment | null => {
+    const event = eventRegistry.getEvent(eventId);
+    if (!event || !getSelection(event, selectionId)) return null;
+
+    return assessRisk({
+      stake: betAmount,
+      balance,
+      payouts: getSelectionPayouts(event, selectionId),
+      minBet: event.minBet,
+    }, riskWeights);
   };
-  
-  // Get current persona based on risk level
-  const currentPersona = getCurrentPersona();
 
   /**
    * Calculates risk percentage for a potential bet
    * @param {string} eventId - ID of the bet event
    * @param {number} betAmount - Amount to be bet
+   * @param {string} [selectionId] - Selection on a multi-outcome event, defaults to the first
    * @returns {number} Risk percentage (0-100)
    */
-  const calculateRisk = (eventId: string, betAmount: number): number => {
-    const event = betEvents.find((e) => e.id === eventId);
-    if (!event || balance <= 0) return 0;
-
-    // Bet Size Factor (50%)
-    const betSizeFactor = Math.min(betAmount / balance, 1);
-    
-    // Event Probability Factor (30%)
-    const eventProbabilityFactor = 1 - event.winChance;
-    
-    // Loss Impact Factor (20%)
-    const potentialLoss = betAmount;
-    const lossImpactFactor = Math.min(potentialLoss / balance, 1);
-    
-    // Calculate total risk
-    const riskPercentage = (betSizeFactor * 50) + 
-                          (eventProbabilityFactor * 30) + 
-                          (lossImpactFactor * 20);
-    
-    return Math.min(Math.round(riskPercentage), 100);
+  const calculateRisk = (eventId: string, betAmount: number, selectionId?: string): number => {
+    return assessBetRisk(eventId, betAmount, selectionId)?.score ?? 0;
   };
 
   /**
    * Places a bet and determines the outcome
    * @param {string} eventId - ID of the bet event
    * @param {number} amount - Amount to be bet
-   * @returns {boolean} Whether the bet was successfully placed
+   * @param {string} [selectionId] - Selection on a multi-outcome event, defaults to the first
+   * @returns {PlaceBetResult} The settled bet, or the reason it was rejected
    */
-  const placeBet = (eventId: string, amount: number): boolean => {
-    const event = betEvents.find((e) => e.id === eventId);
-    if (!event || gameState !== 'playing') return false;
-    
-    // Validate bet amount against event limits
-    if (amount < event.minBet || (event.maxBet !== null && amount > event.maxBet)) {
-      console.log(`Invalid bet amount. Min: $${event.minBet}${event.maxBet ? `, Max: $${event.maxBet}` : ''}`);
-      return false;
+  const placeBet = (eventId: string, amount: number, selectionId?: string): PlaceBetResult => {
+    if (isReviewMode) {
+      return { ok: false, rejection: { code: 'read-only', message: 'Bets cannot be placed while reviewing an imported history' } };
     }
-    
-    // Check if player has enough balance
-    if (amount > balance) {
-      console.log('Not enough balance');
-      return false;
+    if (isBetPending) {
+      return { ok: false, rejection: { code: 'bet-pending', message: 'The previous bet is still being placed' } };
     }
     
-    // Calculate risk before placing bet
-    const riskPercentage = calculateRisk(eventId, amount);
-    
-    // Start processing animation
-    setIsProcessingBet(true);
-    
-    // Determine outcome randomly based on probability
-    const randomValue = Math.random();
-    const isWin = randomValue < event.winChance;
-    
-    // Calculate win/loss amount
-    const winAmount = isWin ? amount * (event.multiplier - 1) : -amount;
-    
-    // Update balance
-    const newBalance = balance + winAmount;
-    setBalance(newBalance);
-    
-    // Generate a unique ID for this bet
-    const betId = `bet-${Date.now()}-${Math.floor(Math.random() * 1000)}`;
-    
-    // Record bet in history
-    const betRecord: BetHistory = {
-      id: betId,
+    const action: GameAction = {
+      type: 'placeBet',
       eventId,
-      eventName: event.name,
-      betAmount: amount,
-      outcome: isWin ? 'win' : 'loss',
-      winAmount,
-      balanceAfter: newBalance,
-      riskPercentage,
+      amount,
+      selectionId,
       timestamp: new Date(),
     };
     
-    setBetHistory([...betHistory, betRecord]);
+    // The reducer settles the same action on the same state, so it stores the bet returned here
+    const { result } = applyPlaceBet(state, action, environment);
+    if (!result.ok) return result;
     
-    // Check game state after bet
-    if (newBalance >= 10000) {
-      setGameState('won');
-    } else if (newBalance <= 0) {
-      setGameState('lost');
-    }
+    isBetPending = true;
+    dispatch(action);
     
-    // Finish processing animation after a delay
+    // Start processing animation, and finish it after a delay
+    setIsProcessingBet(true);
     setTimeout(() => {
       setIsProcessingBet(false);
     }, 1000);
     
-    return true;
+    return result;
+  };
+  
+  /**
+   * Adds a user-defined event to the catalog
+   * @param {Omit<BetEventDefinition, 'id' | 'quips' | 'isCustom'>} definition - The event to add
+   * @returns {string[]} Validation errors, empty if the event was added
+   */
+  const addCustomEvent = (definition: Omit<BetEventDefinition, 'id' | 'quips' | 'isCustom'>): string[] => {
+    const event = defineBetEvent({
+      ...definition,
+      id: createCustomEventId(definition.name, eventRegistry.events.map(e => e.id)),
+      quips: [],
+      isCustom: true,
+    });
+    
+    const errors = validateEventCatalog([...eventRegistry.events, event]);
+    if (errors.length === 0) {
+      setCustomEvents([...customEvents, event]);
+    }
+    return errors;
+  };
+  
+  /**
+   * Removes a user-defined event from the catalog
+   * @param {string} eventId - ID of the event to remove
+   */
+  const removeCustomEvent = (eventId: string) => {
+    setCustomEvents(customEvents.filter(event => event.id !== eventId));
+  };
+  
+  /**
+   * Changes the client seed used for the following bets; the game is left alone during a review
+   * @param {string} clientSeed - New client seed
+   */
+  const setClientSeed = (clientSeed: string) => {
+    if (isReviewMode) return;
+    dispatch({ type: 'setClientSeed', clientSeed });
+  };
+  
+  /**
+   * Resets the game to its initial state, archiving the session that was in progress; the game
+   * is left alone during a review
+   * @param {number} [nextSeed] - Seed to replay; a fresh seed is generated if omitted
+   */
+  const resetGame = (nextSeed: number = generateSeed()) => {
+    if (isReviewMode) return;
+    clearGameSnapshot();
+    dispatch({ type: 'reset', seed: nextSeed, timestamp: new Date() });
+  };
+  
+  /**
+   * Starts a new game in which the player has to stay within a persona's bet limit; the game is
+   * left alone during a review
+   * @param {string} personaId - ID of the persona to commit to
+   * @param {number} [nextSeed] - Seed to replay; a fresh seed is generated if omitted
+   * @throws {Error} If there is no persona with the ID
+   */
+  const startPersonaChallenge = (personaId: string, nextSeed: number = generateSeed()) => {
+    if (!PERSONAS.some(p => p.id === personaId)) {
+      throw new Error(`Unknown persona "${personaId}"`);
+    }
+    if (isReviewMode) return;
+    clearGameSnapshot();
+    dispatch({
+      type: 'reset',
+      seed: nextSeed,
+      challengePersonaId: personaId,
+      timestamp: new Date(),
+    });
+  };
+  
+  /**
+   * Shows an imported session in place of the game; betting is disabled until the review ends
+   * @param {Session} session - Session to review
+   */
+  const startReview = (session: Session) => {
+    setReviewSession(session);
   };
   
   /**
-   * Resets the game to its initial state
+   * Ends the review and returns to the game as it was left
    */
-  const resetGame = () => {
-    setBalance(1000);
-    setCurrentRisk(15);
-    setBetHistory([]);
-    setGameState('playing');
+  const exitReview = () => {
+    setReviewSession(null);
   };
   
   // Context value
   const value: GameContextType = {
     balance,
-    setBalance,
     currentRisk,
-    setCurrentRisk,
-    betEvents,
-    personas,
+    betEvents: eventRegistry.events,
+    eventRegistry,
+    customEvents,
+    addCustomEvent,
+    removeCustomEvent,
+    personas: PERSONAS,
     currentPersona,
+    behaviorProfile: personaClassification.profile,
+    personaHistory: personaClassification.history,
+    challengePersona,
+    startPersonaChallenge,
     betHistory,
     gameState,
     placeBet,
     calculateRisk,
+    assessBetRisk,
+    currentSession,
+    // The archive belongs to the game, not to the session under review
+    sessionArchive: isReviewMode ? [] : archive,
+    unsavedSessionCount: isReviewMode ? 0 : unsavedSessionCount,
     resetGame,
+    seed,
+    serverSeedHash: fairness.serverSeedHash,
+    clientSeed: fairness.clientSeed,
+    setClientSeed,
+    nonce: fairness.nonce,
     isProcessingBet,
+    isReviewMode,
+    startReview,
+    exitReview,
   };
   
   return <GameContext.Provider value={value}>{children}</GameContext.Provider>;
@@ -0,0 +1,297 @@
+import type { BetEvent } from '../types';
+import { createEventRegistry, DEFAULT_BET_EVENTS } from '../utils/eventRegistry';
+import { deriveServerSeed, hashServerSeed, verifyFairnessProof } from '../utils/fairness';
+import { resolveOutcome } from '../utils/payTable';
+import {
+  applyPlaceBet,
+  createGameReducer,
+  createInitialGameState,
+  reduce,
+  resolveGameState,
+} from './gameEngine';
+import { getCurrentSession, MAX_ARCHIVED_SESSIONS } from './sessions';
+import type { GameAction, GameEngineState, GameEnvironment } from './types';
+
+const makeEvent = (id: string, winChance: number): BetEvent => ({
+  id,
+  name: id,
+  multiplier: 2,
+  winChance,
+  rtp: winChance * 2,
+  minBet: 10,
+  maxBet: 500,
+  riskLevel: 'Low',
+  icon: '',
+  description: '',
+  quips: [],
+});
+
+const sureWin = makeEvent('sure-win', 1);
+const sureLoss = makeEvent('sure-loss', 0);
+// Events with a certain outcome, kept out of the registry since it only accepts playable odds
+const registry = createEventRegistry(DEFAULT_BET_EVENTS);
+const testEvents: Record<string, BetEvent> = { [sureWin.id]: sureWin, [sureLoss.id]: sureLoss };
+const environment: GameEnvironment = { getEvent: id => testEvents[id] || registry.getEvent(id) };
+const startedAt = new Date('2023-12-31T23:00:00Z');
+const timestamp = new Date('2024-01-01T00:00:00Z');
+
+const newGame = (seed: number) => createInitialGameState(seed, startedAt);
+
+type PlaceBetAction = Extract<GameAction, { type: 'placeBet' }>;
+
+const bet = (eventId: string, amount: number, selectionId?: string): PlaceBetAction =>
+  ({ type: 'placeBet', eventId, amount, selectionId, timestamp });
+
+const withBalance = (balance: number, overrides: Partial<GameEngineState> = {}): GameEngineState =>
+  ({ ...newGame(42), balance, ...overrides });
+
+describe('createInitialGameState', () => {
+  it('starts a playing session with the starting balance', () => {
+    const state = newGame(42);
+
+    expect(state.balance).toBe(1000);
+    expect(state.betHistory).toEqual([]);
+    expect(state.gameState).toBe('playing');
+    expect(state.fairness.nonce).toBe(0);
+    expect(state.challengePersonaId).toBeNull();
+  });
+
+  it('is the same for the same seeds', () => {
+    expect(newGame(42)).toEqual(newGame(42));
+    expect(newGame(42).fairness.clientSeed).not.toBe(newGame(43).fairness.clientSeed);
+  });
+
+  it('commits to the server seed derived from the session seed', () => {
+    const state = newGame(42);
+
+    expect(state.fairness.serverSeed).toBe(deriveServerSeed(42, 0));
+    expect(state.fairness.serverSeedHash).toBe(hashServerSeed(deriveServerSeed(42, 0)));
+  });
+});
+
+describe('placing a bet', () => {
+  it('settles a win and records it', () => {
+    const state = reduce(newGame(42), bet('sure-win', 100), environment);
+
+    expect(state.balance).toBe(1100);
+    expect(state.betHistory).toHaveLength(1);
+    expect(state.betHistory[0]).toMatchObject({
+      eventId: 'sure-win',
+      betAmount: 100,
+      outcome: 'win',
+      winAmount: 100,
+      balanceAfter: 1100,
+      timestamp,
+    });
+  });
+
+  it('settles a loss', () => {
+    const state = reduce(newGame(42), bet('sure-loss', 100), environment);
+
+    expect(state.balance).toBe(900);
+    expect(state.betHistory[0]).toMatchObject({ outcome: 'loss', winAmount: -100 });
+  });
+
+  it('reveals the server seed and commits to the next one', () => {
+    const initial = newGame(42);
+    const state = reduce(initial, bet('coin-flip', 10), environment);
+    const proof = state.betHistory[0].fairness!;
+
+    expect(proof.serverSeed).toBe(initial.fairness.serverSeed);
+    expect(verifyFairnessProof(proof)).toMatchObject({ hashMatches: true, rollMatches: true });
+    expect(state.fairness.nonce).toBe(1);
+    expect(state.fairness.serverSeed).toBe(deriveServerSeed(42, 1));
+    expect(state.fairness.serverSeedHash).toBe(hashServerSeed(deriveServerSeed(42, 1)));
+  });
+
+  it('replays the same rolls from the same seed', () => {
+    const play = (state: GameEngineState) =>
+      [10, 20, 30].reduce((current, amount) => reduce(current, bet('coin-flip', amount), environment), state);
+    const rolls = (state: GameEngineState) => state.betHistory.map(recorded => recorded.fairness?.roll);
+
+    const first = play(newGame(42));
+    const replayed = play(reduce(first, { type: 'reset', seed: 42, timestamp }, environment));
+
+    expect(rolls(replayed)).toEqual(rolls(first));
+    expect(replayed.betHistory.map(recorded => recorded.outcome)).toEqual(first.betHistory.map(recorded => recorded.outcome));
+  });
+
+  it('records the odds the bet was settled with in its proof', () => {
+    const state = reduce(newGame(42), bet('dice-roll', 60, 'over'), environment);
+    const recorded = state.betHistory[0];
+    const dice = registry.getEvent('dice-roll')!;
+
+    expect(recorded.fairness?.odds).toEqual({
+      outcomes: dice.outcomes,
+      payouts: dice.selections!.find(selection => selection.id === 'over')!.payouts,
+    });
+    expect(resolveOutcome(recorded.fairness!.odds!.outcomes, recorded.fairness!.roll).id).toBe(recorded.outcomeId);
+  });
+
+  it('gives the same results for the same seed and bets', () => {
+    const play = () => [bet('coin-flip', 50), bet('dice-roll', 60, 'over'), bet('roulette', 20)]
+      .reduce((state, action) => reduce(state, action, environment), newGame(7));
+
+    expect(play()).toEqual(play());
+  });
+
+  it('does not change the state it was given', () => {
+    const initial = newGame(42);
+    const snapshot = JSON.stringify(initial);
+
+    reduce(initial, bet('sure-win', 100), environment);
+
+    expect(JSON.stringify(initial)).toBe(snapshot);
+  });
+
+  it('returns the settled bet as the result', () => {
+    const { state, result } = applyPlaceBet(newGame(42), bet('sure-win', 100), environment);
+
+    expect(result).toEqual({ ok: true, bet: state.betHistory[0] });
+  });
+});
+
+describe('rejected bets', () => {
+  it.each([
+    ['an unknown event', withBalance(1000), bet('no-such-event', 100), 'unknown-event'],
+    ['an unknown selection', withBalance(1000), bet('dice-roll', 100, 'seven'), 'unknown-selection'],
+    ['a stake that is not a number', withBalance(1000), bet('sure-win', NaN), 'invalid-amount'],
+    ['a stake below the minimum', withBalance(1000), bet('sure-win', 5), 'below-min-bet'],
+    ['a stake above the maximum', withBalance(1000), bet('sure-win', 600), 'above-max-bet'],
+    ['a stake above the balance', withBalance(50), bet('sure-win', 100), 'insufficient-balance'],
+    ['a finished game', withBalance(0, { gameState: 'lost' }), bet('sure-win', 10), 'game-over'],
+    ['a stake above the challenge persona\'s limit', withBalance(1000, { challengePersonaId: 'baby-betsy' }), bet('sure-win', 200), 'persona-limit'],
+  ])('rejects %s', (_, state, action, code) => {
+    const { state: next, result } = applyPlaceBet(state, action, environment);
+
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.rejection.code).toBe(code);
+    expect(next).toBe(state);
+  });
+
+  it('allows a stake within the challenge persona\'s limit', () => {
+    const state = withBalance(1000, { challengePersonaId: 'baby-betsy' });
+
+    expect(applyPlaceBet(state, bet('sure-win', 100), environment).result.ok).toBe(true);
+  });
+});
+
+describe('win and loss transitions', () => {
+  it('resolves the game state from the balance', () => {
+    expect(resolveGameState(500)).toBe('playing');
+    expect(resolveGameState(10000)).toBe('won');
+    expect(resolveGameState(0)).toBe('lost');
+  });
+
+  it('wins the game once the balance reaches the goal', () => {
+    const state = reduce(withBalance(9900), bet('sure-win', 100), environment);
+
+    expect(state.balance).toBe(10000);
+    expect(state.gameState).toBe('won');
+  });
+
+  it('loses the game when the balance runs out', () => {
+    const state = reduce(withBalance(100), bet('sure-loss', 100), environment);
+
+    expect(state.balance).toBe(0);
+    expect(state.gameState).toBe('lost');
+  });
+});
+
+describe('other actions', () => {
+  it('resets to a new session, optionally as a persona challenge', () => {
+    const played = reduce(newGame(42), bet('sure-win', 100), environment);
+    const state = reduce(played, { type: 'reset', seed: 99, challengePersonaId: 'yolo-yolanda', timestamp }, environment);
+
+    expect({ ...state, archive: [] }).toEqual(createInitialGameState(99, timestamp, undefined, 'yolo-yolanda'));
+  });
+
+  it('refuses to reset into a challenge with an unknown persona', () => {
+    expect(() => reduce(newGame(42), { type: 'reset', seed: 1, challengePersonaId: 'nobody', timestamp }, environment))
+      .toThrow('Unknown persona "nobody"');
+  });
+
+  it('changes the client seed for the following bets', () => {
+    const state = reduce(newGame(42), { type: 'setClientSeed', clientSeed: 'lucky' }, environment);
+
+    expect(state.fairness.clientSeed).toBe('lucky');
+    expect(reduce(state, bet('coin-flip', 10), environment).betHistory[0].fairness?.clientSeed).toBe('lucky');
+  });
+
+  it('binds an environment into a reducer', () => {
+    const reducer = createGameReducer(environment);
+    const initial = newGame(42);
+
+    expect(reducer(initial, bet('sure-win', 100))).toEqual(reduce(initial, bet('sure-win', 100), environment));
+  });
+});
+
+describe('sessions', () => {
+  const resetAt = new Date('2024-01-01T01:00:00Z');
+  const reset: GameAction = { type: 'reset', seed: 5, timestamp: resetAt };
+
+  it('describes the session in progress', () => {
+    const state = reduce(newGame(42), bet('sure-win', 100), environment);
+
+    expect(getCurrentSession(state)).toEqual({
+      id: state.sessionId,
+      startedAt,
+      endedAt: null,
+      startingBalance: 1000,
+      endingBalance: 1100,
+      seed: 42,
+      outcome: 'playing',
+      challengePersonaId: null,
+      bets: state.betHistory,
+    });
+  });
+
+  it('ends the session with the bet that wins or loses the game', () => {
+    const state = reduce(withBalance(100), bet('sure-loss', 100), environment);
+
+    expect(getCurrentSession(state)).toMatchObject({ outcome: 'lost', endedAt: timestamp });
+  });
+
+  it('archives the session when the game is reset', () => {
+    const played = reduce(newGame(42), bet('sure-win', 100), environment);
+    const state = reduce(played, reset, environment);
+
+    expect(state.archive).toEqual([{ ...getCurrentSession(played), outcome: 'abandoned', endedAt: timestamp }]);
+    expect(state.startedAt).toBe(resetAt);
+    expect(state.sessionId).not.toBe(played.sessionId);
+    expect(state.betHistory).toEqual([]);
+  });
+
+  it('gives sessions reset in the same millisecond different IDs', () => {
+    let state = reduce(newGame(42), bet('sure-win', 100), environment);
+    state = reduce(state, reset, environment);
+    state = reduce(state, bet('sure-win', 100), environment);
+    state = reduce(state, reset, environment);
+    state = reduce(state, reset, environment);
+
+    const ids = [...state.archive.map(session => session.id), state.sessionId];
+    expect(ids).toHaveLength(3);
+    expect(new Set(ids).size).toBe(3);
+  });
+
+  it('keeps how a finished session ended', () => {
+    const lost = reduce(withBalance(100), bet('sure-loss', 100), environment);
+
+    expect(reduce(lost, reset, environment).archive[0].outcome).toBe('lost');
+  });
+
+  it('does not archive a session without bets', () => {
+    expect(reduce(newGame(42), reset, environment).archive).toEqual([]);
+  });
+
+  it('keeps the archive through later resets, dropping the oldest sessions beyond the limit', () => {
+    let state = newGame(42);
+    for (let i = 0; i <= MAX_ARCHIVED_SESSIONS; i++) {
+      state = reduce(state, bet('sure-win', 10), environment);
+      state = reduce(state, { type: 'reset', seed: i, timestamp: new Date(resetAt.getTime() + i) }, environment);
+    }
+
+    expect(state.archive).toHaveLength(MAX_ARCHIVED_SESSIONS);
+    expect(state.archive[0].seed).toBe(0);
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * Game engine
+ *
+ * The rules of a game session as pure functions of the game state, with no
+ * dependency on React: `reduce(state, action, environment)` returns the next
+ * state and never touches the state it was given. Anything outside the
+ * rules, such as the current time or a fresh seed, arrives in the action,
+ * so the same state and action always give the same result. That makes the
+ * engine usable from a component, a worker, a script or a test alike.
+ */
+
+import type { BetEvent, BetHistory, BetSelection, GameState, PlaceBetResult } from '../types';
+import { GOAL_AMOUNT, INITIAL_BALANCE } from '../utils/constants';
+import { commitServerSeed, computeRoll, createFairnessState } from '../utils/fairness';
+import { calculateSelectionOdds, getEventOutcomes, getSelection, hasPayTable, resolveOutcome } from '../utils/payTable';
+import { createSeededRandom, RandomGeneratorFactory } from '../utils/random';
+import { settleBet } from '../utils/settlement';
+import { calculateKellyStake } from '../utils/betting';
+import { assessRisk, DEFAULT_RISK_WEIGHTS } from '../utils/riskModel';
+import { getSelectionPayouts } from '../utils/riskOfRuin';
+import { validateBet } from '../utils/validation';
+import { PERSONAS } from './personas';
+import { archiveSession, createSessionId, endSession } from './sessions';
+import type { GameAction, GameEngineState, GameEnvironment } from './types';
+
+/**
+ * Create the state of a new session
+ * @param seed - Seed of the session's random generator
+ * @param startedAt - When the session starts
+ * @param createRandom - Factory for the random generator that draws the starting client seed
+ * @param challengePersonaId - Persona to commit to, null for a regular game
+ * @returns The initial state, with an empty session archive
+ */
+export const createInitialGameState = (
+  seed: number,
+  startedAt: Date,
+  createRandom: RandomGeneratorFactory = createSeededRandom,
+  challengePersonaId: string | null = null
+): GameEngineState => {
+  const fairness = createFairnessState(seed, createRandom(seed));
+
+  return {
+    balance: INITIAL_BALANCE,
+    betHistory: [],
+    gameState: 'playing',
+    seed,
+    fairness,
+    challengePersonaId,
+    sessionId: createSessionId(startedAt),
+    startedAt,
+    archive: [],
+  };
+};
+
+/**
+ * Work out whether a balance ends the game
+ * @param balance - Balance after a bet
+ * @param goal - Balance at which the game is won
+ * @returns The game state the balance leads to
+ */
+export const resolveGameState = (balance: number, goal: number = GOAL_AMOUNT): GameState => {
+  if (balance >= goal) return 'won';
+  if (balance <= 0) return 'lost';
+  return 'playing';
+};
+
+/**
+ * Settle a validated bet: roll it, pay it out and record it
+ * @param state - State before the bet
+ * @param event - Event the bet is on
+ * @param selection - Selection backed
+ * @param action - The bet
+ * @param environment - Risk weights
+ * @returns The state after the bet and the bet's record
+ */
+export const settlePlacedBet = (
+  state: GameEngineState,
+  event: BetEvent,
+  selection: BetSelection,
+  action: Extract<GameAction, { type: 'placeBet' }>,
+  environment: GameEnvironment
+): { state: GameEngineState; bet: BetHistory } => {
+  const { riskWeights = DEFAULT_RISK_WEIGHTS } = environment;
+  const { amount, timestamp } = action;
+
+  // Derive the roll from the committed server seed, client seed and nonce
+  const { serverSeed, serverSeedHash, clientSeed, nonce } = state.fairness;
+  const roll = computeRoll(serverSeed, clientSeed, nonce);
+
+  // Land the roll on an outcome and look up what the selection pays for it
+  const outcomes = getEventOutcomes(event);
+  const outcome = resolveOutcome(outcomes, roll);
+  const payoutMultiplier = selection.payouts[outcome.id] || 0;
+  const selectionOdds = calculateSelectionOdds(outcomes, selection);
+
+  // Settle the bet: a win, a push, a partial refund or a loss
+  const { outcome: settlementOutcome, winAmount } = settleBet(amount, payoutMultiplier);
+  const balanceAfter = state.balance + winAmount;
+
+  const risk = assessRisk({
+    stake: amount,
+    balance: state.balance,
+    payouts: getSelectionPayouts(event, selection.id),
+    minBet: event.minBet,
+  }, riskWeights);
+
+  const bet: BetHistory = {
+    id: `bet-${timestamp.getTime()}-${state.betHistory.length + 1}`,
+    eventId: event.id,
+    eventName: event.name,
+    betAmount: amount,
+    outcome: settlementOutcome,
+    winAmount,
+    balanceAfter,
+    riskPercentage: risk.score,
+    timestamp,
+    ...(hasPayTable(event) && { selectionId: selection.id, selectionLabel: selection.label }),
+    outcomeId: outcome.id,
+    outcomeLabel: outcome.label,
+    payoutMultiplier,
+    houseEdge: selectionOdds.houseEdge,
+    kellyStake: calculateKellyStake(state.balance, selectionOdds.averagePayout, selectionOdds.winChance),
+    fairness: { serverSeed, serverSeedHash, clientSeed, nonce, roll, odds: { outcomes, payouts: selection.payouts } },
+  };
+
+  return {
+    state: {
+      ...state,
+      balance: balanceAfter,
+      betHistory: [...state.betHistory, bet],
+      gameState: resolveGameState(balanceAfter),
+      // Reveal this server seed and commit to the next one
+      fairness: commitServerSeed({ clientSeed, nonce: nonce + 1 }, state.seed),
+    },
+    bet,
+  };
+};
+
+/**
+ * Place a bet: validate it and, if it is allowed, settle it
+ * @param state - State before the bet
+ * @param action - The bet
+ * @param environment - Event lookup, personas, random generator factory and risk weights
+ * @returns The state after the bet, unchanged for a rejected bet, and the result of placing it
+ */
+export const applyPlaceBet = (
+  state: GameEngineState,
+  action: Extract<GameAction, { type: 'placeBet' }>,
+  environment: GameEnvironment
+): { state: GameEngineState; result: PlaceBetResult } => {
+  const { personas = PERSONAS } = environment;
+  const event = environment.getEvent(action.eventId);
+  const selection = event && getSelection(event, action.selectionId);
+
+  // Check the game, the event's limits, the balance and any challenge persona's limit
+  const rejection = validateBet({
+    event,
+    selection,
+    amount: action.amount,
+    balance: state.balance,
+    gameState: state.gameState,
+    challengePersona: personas.find(persona => persona.id === state.challengePersonaId) || null,
+  });
+  if (rejection) return { state, result: { ok: false, rejection } };
+  if (!event || !selection) {
+    throw new Error('Bet validation passed without an event and a selection');
+  }
+
+  const settled = settlePlacedBet(state, event, selection, action, environment);
+  return { state: settled.state, result: { ok: true, bet: settled.bet } };
+};
+
+/**
+ * Apply an action to the game
+ * @param state - Current state
+ * @param action - What happens
+ * @param environment - Event lookup, personas, random generator factory and risk weights
+ * @returns The next state
+ * @throws {Error} If a reset commits to an unknown persona
+ */
+export const reduce = (state: GameEngineState, action: GameAction, environment: GameEnvironment): GameEngineState => {
+  switch (action.type) {
+    case 'placeBet':
+      return applyPlaceBet(state, action, environment).state;
+
+    case 'reset': {
+      const { createRandom = createSeededRandom, personas = PERSONAS } = environment;
+      const challengePersonaId = action.challengePersonaId ?? null;
+      if (challengePersonaId !== null && !personas.some(persona => persona.id === challengePersonaId)) {
+        throw new Error(`Unknown persona "${challengePersonaId}"`);
+      }
+      // A session without bets isn't worth keeping
+      const archive = state.betHistory.length > 0 ? archiveSession(state.archive, endSession(state)) : state.archive;
+      return {
+        ...createInitialGameState(action.seed, action.timestamp, createRandom, challengePersonaId),
+        // Two resets in the same millisecond would otherwise start sessions with the same ID
+        sessionId: createSessionId(action.timestamp, [state.sessionId, ...archive.map(session => session.id)]),
+        archive,
+      };
+    }
+
+    case 'setClientSeed':
+      return { ...state, fairness: { ...state.fairness, clientSeed: action.clientSeed } };
+
+    default:
+      return state;
+  }
+};
+
+/**
+ * Bind the engine to an environment, for use with a reducer hook
+ * @param environment - Event lookup, personas, random generator factory and risk weights
+ * @returns A reducer of the game state
+ */
+export const createGameReducer = (environment: GameEnvironment) =>
+  (state: GameEngineState, action: GameAction): GameEngineState => reduce(state, action, environment);
@@ -0,0 +1,10 @@
+/**
+ * Central export point for the game engine
+ *
+ * The engine holds the rules of the game and depends on nothing from React.
+ */
+
+export * from './types';
+export * from './personas';
+export * from './gameEngine';
+export * from './sessions';
@@ -0,0 +1,52 @@
+/**
+ * Betting personas
+ *
+ * The first persona is the one every session starts as.
+ */
+
+import type { Persona } from '../types';
+
+/**
+ * Available betting personas, from the most cautious to the most reckless
+ */
+export const PERSONAS: Persona[] = [
+  {
+    id: 'baby-betsy',
+    name: 'Baby Betsy',
+    description: 'Safe bets, max 10% bankroll',
+    maxBetPercentage: 0.1,
+    riskRange: {
+      min: 0,
+      max: 30,
+    },
+    icon: '👶',
+    color: 'text-green-500',
+    traits: ['Cautious', 'Smart', 'Patient'],
+  },
+  {
+    id: 'midlife-crisis-mike',
+    name: 'Midlife Crisis Mike',
+    description: 'Moderate risk, max 30% bankroll',
+    maxBetPercentage: 0.3,
+    riskRange: {
+      min: 31,
+      max: 70,
+    },
+    icon: '👨‍💼',
+    color: 'text-yellow-500',
+    traits: ['Impulsive', 'Calculated', 'Strategic'],
+  },
+  {
+    id: 'yolo-yolanda',
+    name: 'YOLO Yolanda',
+    description: 'High risk, often all-in',
+    maxBetPercentage: 1.0,
+    riskRange: {
+      min: 71,
+      max: 100,
+    },
+    icon: '🤪',
+    color: 'text-red-500',
+    traits: ['Reckless', 'Daring', 'All or Nothing'],
+  },
+];
@@ -0,0 +1,82 @@
+/**
+ * Game sessions
+ *
+ * A session runs from a new game to a win, a loss or a reset. The engine
+ * state holds the session in progress; when the game is reset the session
+ * is ended and moved into the archive, which the reset keeps.
+ */
+
+import { INITIAL_BALANCE } from '../utils/constants';
+import type { GameEngineState, Session } from './types';
+
+/**
+ * Number of past sessions the archive keeps; older ones are dropped first
+ */
+export const MAX_ARCHIVED_SESSIONS = 50;
+
+/**
+ * Create the ID of a session
+ * @param startedAt - When the session started
+ * @param takenIds - IDs already in use; a session started in the same millisecond as one of
+ * them gets a numbered suffix
+ * @returns The session ID
+ */
+export const createSessionId = (startedAt: Date, takenIds: string[] = []): string => {
+  const baseId = `session-${startedAt.getTime()}`;
+  let id = baseId;
+  for (let count = 2; takenIds.includes(id); count++) {
+    id = `${baseId}-${count}`;
+  }
+  return id;
+};
+
+/**
+ * Describe the session in progress
+ * @param state - Game state
+ * @returns The current session; it has an end time once the game is won or lost
+ */
+export const getCurrentSession = (state: GameEngineState): Session => {
+  const lastBet = state.betHistory[state.betHistory.length - 1];
+
+  return {
+    id: state.sessionId,
+    startedAt: state.startedAt,
+    endedAt: state.gameState !== 'playing' && lastBet ? lastBet.timestamp : null,
+    startingBalance: INITIAL_BALANCE,
+    endingBalance: state.balance,
+    seed: state.seed,
+    outcome: state.gameState,
+    challengePersonaId: state.challengePersonaId,
+    bets: state.betHistory,
+  };
+};
+
+/**
+ * End the session in progress, as when the game is reset
+ * @param state - Game state
+ * @returns The session, abandoned if the game was still being played; it
+ * ends with its last bet, so idle time before a reset doesn't count
+ */
+export const endSession = (state: GameEngineState): Session => {
+  const session = getCurrentSession(state);
+  const lastBet = state.betHistory[state.betHistory.length - 1];
+
+  return {
+    ...session,
+    endedAt: lastBet ? lastBet.timestamp : session.startedAt,
+    outcome: session.outcome === 'playing' ? 'abandoned' : session.outcome,
+  };
+};
+
+/**
+ * Add a session to the archive
+ * @param archive - Archived sessions, oldest first
+ * @param session - Session to add
+ * @param limit - Most sessions to keep
+ * @returns The archive with the session added and the oldest sessions beyond the limit dropped
+ */
+export const archiveSession = (
+  archive: Session[],
+  session: Session,
+  limit: number = MAX_ARCHIVED_SESSIONS
+): Session[] => [...archive, session].slice(-limit);
@@ -0,0 +1,111 @@
+/**
+ * Types of the game engine
+ */
+
+import type { BetEvent, BetHistory, GameState, Persona } from '../types';
+import type { FairnessState } from '../utils/fairness';
+import type { RandomGeneratorFactory } from '../utils/random';
+import type { RiskModelWeights } from '../utils/riskModel';
+
+/**
+ * How a session ended
+ * - playing: the session is still in progress
+ * - won / lost: the balance reached the goal or ran out
+ * - abandoned: a new session was started before this one ended
+ */
+export type SessionOutcome = GameState | 'abandoned';
+
+/**
+ * One game session, from its start to a win, a loss or a reset
+ */
+export interface Session {
+  /** Unique identifier */
+  id: string;
+  /** When the session started */
+  startedAt: Date;
+  /** When the last bet of a session that has ended was placed, null while it is in progress */
+  endedAt: Date | null;
+  /** Balance the session started with */
+  startingBalance: number;
+  /** Balance after the last bet */
+  endingBalance: number;
+  /** Seed the session's random generator was created with */
+  seed: number;
+  /** How the session ended */
+  outcome: SessionOutcome;
+  /** ID of the persona committed to in a persona challenge, null in a regular game */
+  challengePersonaId: string | null;
+  /** Bets placed, oldest first */
+  bets: BetHistory[];
+}
+
+/**
+ * Everything the rules of a game session depend on
+ */
+export interface GameEngineState {
+  /** Current player balance */
+  balance: number;
+  /** History of all bets placed, oldest first */
+  betHistory: BetHistory[];
+  /** Current state of the game */
+  gameState: GameState;
+  /** Seed the session's random generator was created with */
+  seed: number;
+  /** Provably-fair seeds for the next bet */
+  fairness: FairnessState;
+  /** ID of the persona committed to in a persona challenge, null in a regular game */
+  challengePersonaId: string | null;
+  /** ID of the current session */
+  sessionId: string;
+  /** When the current session started */
+  startedAt: Date;
+  /** Sessions played before the current one, oldest first */
+  archive: Session[];
+}
+
+/**
+ * Something that happens to the game
+ * - placeBet: stake an amount on an event; rejected bets leave the state unchanged
+ * - reset: archive the current session and start a new one from a seed, optionally as a persona challenge
+ * - setClientSeed: change the client seed used for the following bets
+ */
+export type GameAction =
+  | {
+      type: 'placeBet';
+      /** ID of the event to bet on */
+      eventId: string;
+      /** Amount to stake */
+      amount: number;
+      /** Selection on a multi-outcome event, defaults to the first */
+      selectionId?: string;
+      /** When the bet is placed; part of the action so the engine stays pure */
+      timestamp: Date;
+    }
+  | {
+      type: 'reset';
+      /** Seed of the new session */
+      seed: number;
+      /** Persona to commit to, null or omitted for a regular game */
+      challengePersonaId?: string | null;
+      /** When the new session starts */
+      timestamp: Date;
+    }
+  | {
+      type: 'setClientSeed';
+      /** New client seed */
+      clientSeed: string;
+    };
+
+/**
+ * What the engine needs from outside the game state
+ */
+export interface GameEnvironment {
+  /** Looks up an event by ID */
+  getEvent: (eventId: string) => BetEvent | undefined;
+  /** Factory for the session's random generator, defaults to createSeededRandom */
+  createRandom?: RandomGeneratorFactory;
+  /** Weights of the risk model, defaults to DEFAULT_RISK_WEIGHTS */
+  riskWeights?: RiskModelWeights;
+  /** Available personas, defaults to PERSONAS */
+  personas?: Persona[];
+}
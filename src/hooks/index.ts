@@ -3,4 +3,5 @@
  */
 
 export { default as useLocalStorage } from './useLocalStorage';
-export { default as useProjection } from './useProjection'; 
\ No newline at end of file
+export { default as useProjection } from './useProjection';
+export { default as useAutoBet } from './useAutoBet';
@@ -0,0 +1,247 @@
+/**
+ * Custom hook for running a staking strategy automatically
+ *
+ * The runner places one bet at a time through the game's placeBet, waiting
+ * for each bet to finish processing before sizing the next one from the
+ * outcomes so far.
+ */
+
+import { useState, useEffect, useRef } from 'react';
+import { useGame } from '../context/GameContext';
+import type { BetHistory } from '../types';
+import { getSelectionOdds } from '../utils/payTable';
+import { isLosingOutcome } from '../utils/settlement';
+import {
+  calculateNextStake,
+  checkStake,
+  replayStakingProgress,
+  StakeRejection,
+  StakingConfig,
+} from '../utils/strategies';
+
+/** Pause between one bet finishing and the next being placed, in milliseconds */
+const ROUND_DELAY_MS = 250;
+
+/**
+ * Settings of an auto-bet run
+ */
+export interface AutoBetSettings extends StakingConfig {
+  /** Event to bet on */
+  eventId: string;
+  /** Selection to back on a multi-outcome event, omitted for the default one */
+  selectionId?: string;
+  /** Maximum number of bets to place */
+  rounds: number;
+  /** Stop once the run has lost this much, null for no limit */
+  stopLoss: number | null;
+  /** Stop once the run has won this much, null for no limit */
+  takeProfit: number | null;
+}
+
+/**
+ * State of the runner
+ */
+export type AutoBetStatus = 'idle' | 'running' | 'paused' | 'finished';
+
+/**
+ * Why a run ended; a stake rejection ends it the same way it ends a backtest session
+ */
+export type AutoBetStopReason =
+  | 'rounds-complete'
+  | 'stop-loss'
+  | 'take-profit'
+  | 'stopped'
+  | StakeRejection
+  | 'game-over'
+  | 'bet-rejected';
+
+/**
+ * Results of a finished run
+ */
+export interface AutoBetSummary {
+  /** Why the run ended */
+  reason: AutoBetStopReason;
+  /** Number of bets placed */
+  roundsPlayed: number;
+  /** Balance when the run started */
+  startBalance: number;
+  /** Balance when the run ended */
+  endBalance: number;
+  /** Highest balance during the run */
+  peakBalance: number;
+  /** Lowest balance during the run */
+  lowestBalance: number;
+  /** Largest single stake */
+  largestStake: number;
+  /** Total amount staked */
+  totalStaked: number;
+  /** Number of winning bets */
+  wins: number;
+  /** Number of losing bets, partial refunds included */
+  losses: number;
+  /** Number of pushes */
+  pushes: number;
+}
+
+/**
+ * Hook return value
+ */
+interface UseAutoBetReturn {
+  /** State of the runner */
+  status: AutoBetStatus;
+  /** Settings of the current or last run */
+  settings: AutoBetSettings | null;
+  /** Bets placed so far in the current run */
+  roundsPlayed: number;
+  /** Profit or loss of the current run so far */
+  netProfit: number;
+  /** Stake the strategy will place next, null when no run is active */
+  nextStake: number | null;
+  /** Results of the last finished run */
+  summary: AutoBetSummary | null;
+  /** Starts a new run */
+  start: (settings: AutoBetSettings) => void;
+  /** Pauses the current run */
+  pause: () => void;
+  /** Resumes a paused run */
+  resume: () => void;
+  /** Ends the current run */
+  stop: () => void;
+}
+
+/**
+ * A run in progress
+ */
+interface ActiveRun {
+  settings: AutoBetSettings;
+  /** Length of the bet history when the run started */
+  startIndex: number;
+  startBalance: number;
+}
+
+/**
+ * Summarizes the bets placed by a run
+ *
+ * @param bets - Bets placed by the run, oldest first
+ * @param startBalance - Balance when the run started
+ * @param reason - Why the run ended
+ * @returns The run summary
+ */
+const summarizeRun = (bets: BetHistory[], startBalance: number, reason: AutoBetStopReason): AutoBetSummary => {
+  const balances = [startBalance, ...bets.map(bet => bet.balanceAfter)];
+
+  return {
+    reason,
+    roundsPlayed: bets.length,
+    startBalance,
+    endBalance: balances[balances.length - 1],
+    peakBalance: Math.max(...balances),
+    lowestBalance: Math.min(...balances),
+    largestStake: bets.reduce((max, bet) => Math.max(max, bet.betAmount), 0),
+    totalStaked: bets.reduce((sum, bet) => sum + bet.betAmount, 0),
+    wins: bets.filter(bet => bet.outcome === 'win').length,
+    losses: bets.filter(bet => isLosingOutcome(bet.outcome)).length,
+    pushes: bets.filter(bet => bet.outcome === 'push').length,
+  };
+};
+
+/**
+ * Custom hook that plays a staking strategy against the game
+ *
+ * @returns Runner state and controls
+ */
+function useAutoBet(): UseAutoBetReturn {
+  const { betHistory, balance, gameState, eventRegistry, placeBet, isProcessingBet } = useGame();
+  const [status, setStatus] = useState<AutoBetStatus>('idle');
+  const [run, setRun] = useState<ActiveRun | null>(null);
+  const [summary, setSummary] = useState<AutoBetSummary | null>(null);
+
+  const isActive = run !== null && (status === 'running' || status === 'paused');
+  const runBets = run ? betHistory.slice(run.startIndex) : [];
+
+  // Size the next bet from the outcomes the run has had so far
+  const event = run ? eventRegistry.getEvent(run.settings.eventId) : undefined;
+  const odds = event && run ? getSelectionOdds(event, run.settings.selectionId) : undefined;
+  const nextStake = isActive && run && odds
+    ? calculateNextStake(
+        run.settings,
+        replayStakingProgress(run.settings, runBets.map(bet => bet.outcome)),
+        balance,
+        { winChance: odds.winChance, payout: odds.averagePayout }
+      )
+    : null;
+
+  const finish = (reason: AutoBetStopReason) => {
+    if (run) {
+      setSummary(summarizeRun(runBets, run.startBalance, reason));
+    }
+    setStatus('finished');
+  };
+
+  /**
+   * Checks the stop conditions and places the next bet
+   */
+  const playRound = () => {
+    if (!run || status !== 'running') return;
+
+    const { settings, startBalance } = run;
+    const netProfit = balance - startBalance;
+
+    if (gameState !== 'playing' || betHistory.length < run.startIndex) return finish('game-over');
+    if (runBets.length >= settings.rounds) return finish('rounds-complete');
+    if (settings.stopLoss !== null && netProfit <= -settings.stopLoss) return finish('stop-loss');
+    if (settings.takeProfit !== null && netProfit >= settings.takeProfit) return finish('take-profit');
+    if (!event || nextStake === null) return finish('bet-rejected');
+
+    const check = checkStake(settings, nextStake, balance, event);
+    if (!check.ok) return finish(check.reason);
+
+    if (!placeBet(event.id, check.stake, settings.selectionId).ok) {
+      finish('bet-rejected');
+    }
+  };
+
+  // The scheduled round always runs the latest playRound, so it sees the current balance and history
+  const playRoundRef = useRef(playRound);
+  playRoundRef.current = playRound;
+
+  useEffect(() => {
+    if (status !== 'running' || isProcessingBet) return;
+
+    const timer = setTimeout(() => playRoundRef.current(), ROUND_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [status, isProcessingBet, betHistory.length]);
+
+  const start = (settings: AutoBetSettings) => {
+    setRun({ settings, startIndex: betHistory.length, startBalance: balance });
+    setSummary(null);
+    setStatus('running');
+  };
+
+  const pause = () => {
+    if (status === 'running') setStatus('paused');
+  };
+
+  const resume = () => {
+    if (status === 'paused') setStatus('running');
+  };
+
+  const stop = () => {
+    if (isActive) finish('stopped');
+  };
+
+  return {
+    status,
+    settings: run ? run.settings : null,
+    roundsPlayed: runBets.length,
+    netProfit: run && isActive ? balance - run.startBalance : 0,
+    nextStake,
+    summary,
+    start,
+    pause,
+    resume,
+    stop,
+  };
+}
+
+export default useAutoBet;
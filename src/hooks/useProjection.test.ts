@@ -0,0 +1,131 @@
+import { act, renderHook } from '@testing-library/react';
+import type { BetHistory } from '../types';
+import { calculateUserMetrics } from '../utils/analytics';
+import { DEFAULT_CONFIDENCE_LEVEL, DEFAULT_PROJECTION_PATHS, runMonteCarloProjection } from '../utils/projection';
+import { createSeededRandom } from '../utils/random';
+import type { ProjectionWorkerRequest, ProjectionWorkerResponse } from '../workers/projectionProtocol';
+import { isProjectionWorkerSupported, loadProjectionWorker } from '../workers/projectionWorkerClient';
+import useProjection from './useProjection';
+
+jest.mock('../workers/projectionWorkerClient', () => ({
+  isProjectionWorkerSupported: jest.fn(),
+  loadProjectionWorker: jest.fn(),
+}));
+
+/**
+ * Stands in for the worker, recording what the page sends it
+ */
+interface FakeWorker {
+  posted: ProjectionWorkerRequest[];
+  postMessage: (request: ProjectionWorkerRequest) => void;
+  terminate: () => void;
+  onmessage: ((event: { data: ProjectionWorkerResponse }) => void) | null;
+  onerror: ((event: { message: string }) => void) | null;
+}
+
+const createFakeWorker = (): FakeWorker => {
+  const worker: FakeWorker = {
+    posted: [],
+    postMessage: request => { worker.posted.push(request); },
+    terminate: jest.fn(),
+    onmessage: null,
+    onerror: null,
+  };
+  return worker;
+};
+
+const bets: BetHistory[] = Array.from({ length: 6 }, (_, i) => ({
+  id: `bet-${i}`,
+  eventId: 'coin-flip',
+  eventName: 'Coin Flip',
+  betAmount: 100,
+  outcome: i % 2 === 0 ? 'win' : 'loss',
+  winAmount: i % 2 === 0 ? 94 : -100,
+  balanceAfter: 1000 - 3 * i,
+  riskPercentage: 10,
+  timestamp: new Date(Date.UTC(2024, 0, 1, 10, i)),
+}));
+
+/**
+ * What the hook computes for a history on the main thread
+ */
+const expectedResult = (history: BetHistory[], seed: number) => runMonteCarloProjection({
+  metrics: calculateUserMetrics(history),
+  balance: 1000,
+  numBets: 25,
+  paths: DEFAULT_PROJECTION_PATHS,
+  confidenceLevel: DEFAULT_CONFIDENCE_LEVEL,
+}, createSeededRandom(seed + history.length));
+
+/**
+ * Lets the worker promise resolve and the requests reach the fake worker
+ */
+const flush = () => act(() => Promise.resolve());
+
+describe('useProjection', () => {
+  const supported = isProjectionWorkerSupported as jest.Mock;
+  const load = loadProjectionWorker as jest.Mock;
+  let worker: FakeWorker;
+
+  beforeEach(() => {
+    worker = createFakeWorker();
+    supported.mockReturnValue(true);
+    load.mockResolvedValue(worker);
+  });
+
+  it('simulates on the main thread where there are no workers', () => {
+    supported.mockReturnValue(false);
+    const { result } = renderHook(() => useProjection({ betHistory: bets.slice(0, 5), balance: 1000, seed: 3 }));
+
+    expect(load).not.toHaveBeenCalled();
+    expect(result.current.isSimulating).toBe(false);
+    expect(result.current.monteCarlo).toEqual(expectedResult(bets.slice(0, 5), 3).monteCarlo);
+  });
+
+  it('cancels a stale run and ignores what it sends back', async () => {
+    const { result, rerender } = renderHook(
+      ({ betHistory }) => useProjection({ betHistory, balance: 1000, seed: 3 }),
+      { initialProps: { betHistory: bets.slice(0, 5) } }
+    );
+    await flush();
+    rerender({ betHistory: bets });
+    await flush();
+
+    expect(worker.posted.map(({ type, requestId }) => ({ type, requestId }))).toEqual([
+      { type: 'run', requestId: 1 },
+      { type: 'cancel', requestId: 1 },
+      { type: 'run', requestId: 2 },
+    ]);
+
+    const stale = expectedResult(bets.slice(0, 5), 3);
+    const current = expectedResult(bets, 3);
+    act(() => worker.onmessage?.({ data: { type: 'result', requestId: 1, result: stale } }));
+    expect(result.current.monteCarlo).toBeNull();
+    expect(result.current.isSimulating).toBe(true);
+
+    act(() => worker.onmessage?.({ data: { type: 'result', requestId: 2, result: current } }));
+    expect(result.current.monteCarlo).toEqual(current.monteCarlo);
+    expect(result.current.isSimulating).toBe(false);
+  });
+
+  it('reports a failed run and falls back to the main thread', async () => {
+    const { result } = renderHook(() => useProjection({ betHistory: bets, balance: 1000, seed: 3 }));
+    await flush();
+
+    act(() => worker.onmessage?.({ data: { type: 'error', requestId: 1, message: 'out of memory' } }));
+
+    expect(result.current.workerError).toBe('The projection failed: out of memory');
+    expect(result.current.isSimulating).toBe(false);
+    expect(result.current.monteCarlo).toEqual(expectedResult(bets, 3).monteCarlo);
+  });
+
+  it('reports a worker that could not be loaded', async () => {
+    load.mockRejectedValue(new Error('chunk failed'));
+    const { result } = renderHook(() => useProjection({ betHistory: bets, balance: 1000, seed: 3 }));
+    await flush();
+    await flush();
+
+    expect(result.current.workerError).toBe('The projection worker could not be loaded: chunk failed');
+    expect(result.current.monteCarlo).toEqual(expectedResult(bets, 3).monteCarlo);
+  });
+});
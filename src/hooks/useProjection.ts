@@ -1,18 +1,28 @@
 /**
  * Custom hook for generating betting projections
- * 
+ *
  * This hook provides functionality to generate projection metrics
- * based on betting history and current balance.
+ * based on betting history and current balance, by simulating many
+ * paths of future bets and summarizing their spread.
+ *
+ * Simulations run in a Web Worker so thousands of paths don't freeze the
+ * page. Where workers aren't available, as in Jest, or when a custom
+ * random generator is passed, they run synchronously instead.
  */
 
-import { useState, useMemo } from 'react';
-import type { BetHistory, ProjectionPeriod, ProjectionMetrics } from '../types';
-import { 
-  calculateUserMetrics, 
-  calculateValueAtRisk,
-  calculateStandardDeviation,
-  calculateBankruptcyRiskScore
-} from '../utils/analytics';
+import { useState, useMemo, useEffect, useRef } from 'react';
+import type { BetHistory, ProjectionPeriod, ProjectionMetrics, MonteCarloProjection } from '../types';
+import { calculateUserMetrics } from '../utils/analytics';
+import { createSeededRandom, RandomGeneratorFactory } from '../utils/random';
+import {
+  DEFAULT_CONFIDENCE_LEVEL,
+  DEFAULT_PROJECTION_PATHS,
+  runMonteCarloProjection,
+  ProjectionConfig,
+  ProjectionResult,
+} from '../utils/projection';
+import type { ProjectionWorkerRequest, ProjectionWorkerResponse } from '../workers/projectionProtocol';
+import { isProjectionWorkerSupported, loadProjectionWorker } from '../workers/projectionWorkerClient';
 
 /**
  * Hook parameters
@@ -24,6 +34,14 @@ interface UseProjectionParams {
   balance: number;
   /** Default projection period */
   defaultPeriod?: ProjectionPeriod;
+  /** Seed for the simulation; the same seed and history always give the same projection */
+  seed?: number;
+  /** Default number of paths to simulate */
+  defaultPaths?: number;
+  /** Default confidence level of the Value at Risk (0-1) */
+  defaultConfidenceLevel?: number;
+  /** Factory for the random generator used by the simulation; a custom one runs on the main thread */
+  createRandom?: RandomGeneratorFactory;
 }
 
 /**
@@ -34,142 +52,159 @@ interface UseProjectionReturn {
   projectionPeriod: ProjectionPeriod;
   /** Function to set projection period */
   setProjectionPeriod: (period: ProjectionPeriod) => void;
-  /** Generated projection metrics */
+  /** Current number of simulated paths */
+  pathCount: number;
+  /** Function to set the number of simulated paths */
+  setPathCount: (paths: number) => void;
+  /** Current confidence level of the Value at Risk (0-1) */
+  confidenceLevel: number;
+  /** Function to set the confidence level */
+  setConfidenceLevel: (level: number) => void;
+  /** Typical path metrics across the simulated paths */
   projections: ProjectionMetrics | null;
+  /** Percentile bands, ruin and goal probabilities across the simulated paths */
+  monteCarlo: MonteCarloProjection | null;
   /** Whether there is enough data to generate projections */
   hasEnoughData: boolean;
+  /** Whether a simulation is running; the previous projection stays available meanwhile */
+  isSimulating: boolean;
+  /** Share of the running simulation's paths done so far (0-1) */
+  progress: number;
+  /** Why the worker failed, null if it didn't; projections are simulated on the main thread after a failure */
+  workerError: string | null;
 }
 
 /**
  * Custom hook that generates betting projections
- * 
+ *
  * @param params - Hook parameters
  * @returns Projection data and controls
  */
-function useProjection({ 
-  betHistory, 
+function useProjection({
+  betHistory,
   balance,
-  defaultPeriod = '25'
+  defaultPeriod = '25',
+  seed = 0,
+  defaultPaths = DEFAULT_PROJECTION_PATHS,
+  defaultConfidenceLevel = DEFAULT_CONFIDENCE_LEVEL,
+  createRandom = createSeededRandom
 }: UseProjectionParams): UseProjectionReturn {
   const [projectionPeriod, setProjectionPeriod] = useState<ProjectionPeriod>(defaultPeriod);
-  
+  const [pathCount, setPathCount] = useState<number>(defaultPaths);
+  const [confidenceLevel, setConfidenceLevel] = useState<number>(defaultConfidenceLevel);
+  const [workerResult, setWorkerResult] = useState<ProjectionResult | null>(null);
+  const [isSimulating, setIsSimulating] = useState<boolean>(false);
+  const [progress, setProgress] = useState<number>(0);
+  const [workerError, setWorkerError] = useState<string | null>(null);
+  const workerRef = useRef<Promise<Worker> | null>(null);
+  const requestIdRef = useRef<number>(0);
+
   // Check if we have enough data to generate projections
   const hasEnoughData = betHistory.length >= 5;
-  
-  // Generate projections when betting history changes
-  const projections = useMemo(() => {
+
+  // The worker always uses the default generator, so a custom one has to run here
+  const runInWorker = workerError === null && createRandom === createSeededRandom && isProjectionWorkerSupported();
+
+  const config = useMemo<ProjectionConfig | null>(() => {
     if (!hasEnoughData) return null;
-    
-    // Get user metrics from betting history
-    const metrics = calculateUserMetrics(betHistory);
-    const numBets = parseInt(projectionPeriod);
-    
-    // Prepare for simulation
-    const projectedBets = [];
-    let projectedBalance = balance;
-    let currentWinRate = metrics.winRate;
-    let currentBetSize = metrics.avgBetSize;
-    let currentRiskLevel = metrics.avgRiskLevel;
-    let totalWins = 0;
-    let balanceHistory = [projectedBalance];
-
-    // Random variation helper
-    const randomVariation = () => (Math.random() * 0.2) - 0.1; // -10% to +10%
-    
-    // Monte Carlo simulation
-    for (let i = 0; i < numBets; i++) {
-      // Adjust metrics with trends and random variations
-      currentWinRate = Math.max(0.01, Math.min(0.95, 
-        currentWinRate + (metrics.winRateTrend / numBets) + randomVariation() * 0.05
-      ));
-      
-      currentBetSize = Math.max(10, 
-        currentBetSize * (1 + (metrics.betSizeTrend / numBets) + randomVariation() * 0.1)
-      );
-      
-      currentRiskLevel = Math.max(5, Math.min(95, 
-        currentRiskLevel + (metrics.riskTrend / numBets) + randomVariation()
-      ));
-      
-      // Determine bet outcome
-      const isWin = Math.random() < currentWinRate;
-      if (isWin) totalWins++;
-      
-      // Calculate average return based on risk level
-      const avgReturn = 1 + (currentRiskLevel / 100);
-      
-      // Update projected balance
-      if (isWin) {
-        projectedBalance += currentBetSize * avgReturn * 0.8; // 80% of theoretical return
-      } else {
-        projectedBalance -= currentBetSize;
-      }
-      
-      // Don't allow balance to go below 0
-      projectedBalance = Math.max(0, projectedBalance);
-      balanceHistory.push(projectedBalance);
-      
-      projectedBets.push({
-        betNumber: i + 1,
-        outcome: isWin ? 'win' : 'loss',
-        balance: projectedBalance,
-        betSize: currentBetSize,
-        riskLevel: currentRiskLevel
+
+    return {
+      metrics: calculateUserMetrics(betHistory),
+      balance,
+      numBets: parseInt(projectionPeriod),
+      paths: pathCount,
+      confidenceLevel,
+    };
+  }, [betHistory, balance, projectionPeriod, hasEnoughData, pathCount, confidenceLevel]);
+
+  // Seed per history length so a new bet gives a new, but reproducible, projection
+  const runSeed = (seed + betHistory.length) >>> 0;
+
+  // Synchronous fallback
+  const syncResult = useMemo(() => {
+    if (runInWorker || !config) return null;
+    return runMonteCarloProjection(config, createRandom(runSeed));
+  }, [runInWorker, config, runSeed, createRandom]);
+
+  // Send each new projection to the worker, cancelling the one it replaces
+  useEffect(() => {
+    if (!runInWorker || !config) return;
+
+    const requestId = ++requestIdRef.current;
+    setIsSimulating(true);
+    setProgress(0);
+
+    /**
+     * Gives up on the worker, so projections are simulated here from then on
+     */
+    const failWorker = (reason: string) => {
+      setWorkerError(reason);
+      setIsSimulating(false);
+    };
+
+    if (!workerRef.current) {
+      workerRef.current = loadProjectionWorker().then(worker => {
+        worker.onmessage = (event: MessageEvent<ProjectionWorkerResponse>) => {
+          const message = event.data;
+          // Ignore messages from runs that have since been replaced
+          if (message.requestId !== requestIdRef.current) return;
+
+          switch (message.type) {
+            case 'progress':
+              setProgress(message.completedPaths / message.totalPaths);
+              break;
+            case 'result':
+              setWorkerResult(message.result);
+              setProgress(1);
+              setIsSimulating(false);
+              break;
+            case 'error':
+              failWorker(`The projection failed: ${message.message}`);
+              break;
+          }
+        };
+        worker.onerror = (event: ErrorEvent) => {
+          failWorker(`The projection worker crashed: ${event.message}`);
+        };
+        return worker;
       });
     }
-    
-    // Calculate statistics from simulation
-    const avgBalance = balanceHistory.reduce((sum, bal) => sum + bal, 0) / balanceHistory.length;
-    const balanceStdDev = calculateStandardDeviation(balanceHistory);
-    
-    // Calculate balance changes for VaR
-    const balanceChanges = [];
-    for (let i = 1; i < balanceHistory.length; i++) {
-      balanceChanges.push(balanceHistory[i] - balanceHistory[i-1]);
-    }
-    
-    // Calculate Value at Risk (95% confidence)
-    const valueAtRisk = calculateValueAtRisk(balanceChanges);
-    
-    // Calculate minimum projected balance
-    const minBalance = Math.min(...balanceHistory);
-    const maxBalance = Math.max(...balanceHistory);
-    
-    // Calculate bankruptcy risk score
-    const riskAssessment = calculateBankruptcyRiskScore(
-      projectedBalance,
-      minBalance,
-      balance,
-      balanceStdDev / avgBalance, // Balance volatility
-      valueAtRisk,
-      avgBalance,
-      metrics.betSizeStdDev
-    );
-    
-    // Return projection metrics
-    return {
-      finalBalance: projectedBalance,
-      projectedWinRate: totalWins / numBets,
-      maxBalance,
-      minBalance,
-      averageBetSize: projectedBets.reduce((sum, bet) => sum + bet.betSize, 0) / numBets,
-      averageRiskLevel: projectedBets.reduce((sum, bet) => sum + bet.riskLevel, 0) / numBets,
-      bankruptcyRiskScore: riskAssessment.riskScore,
-      bankruptcyRiskCategory: riskAssessment.riskCategory,
-      balanceVolatility: balanceStdDev / avgBalance,
-      valueAtRisk,
-      profitPotential: projectedBalance > balance * 1.5 ? 'High' : 
-                       projectedBalance > balance * 1.1 ? 'Medium' : 'Low' as 'High' | 'Medium' | 'Low',
-      riskBreakdown: riskAssessment.breakdown
+
+    const post = (request: ProjectionWorkerRequest) => {
+      workerRef.current?.then(worker => worker.postMessage(request)).catch(error => {
+        failWorker(`The projection worker could not be loaded: ${error instanceof Error ? error.message : String(error)}`);
+      });
     };
-  }, [betHistory, balance, projectionPeriod, hasEnoughData]);
-  
+
+    post({ type: 'run', requestId, config, seed: runSeed });
+
+    return () => post({ type: 'cancel', requestId });
+  }, [runInWorker, config, runSeed]);
+
+  // Stop the worker when the component using the hook unmounts
+  useEffect(() => {
+    return () => {
+      workerRef.current?.then(worker => worker.terminate()).catch(() => undefined);
+      workerRef.current = null;
+    };
+  }, []);
+
+  const result = !config ? null : runInWorker ? workerResult : syncResult;
+
   return {
     projectionPeriod,
     setProjectionPeriod,
-    projections,
-    hasEnoughData
+    pathCount,
+    setPathCount,
+    confidenceLevel,
+    setConfidenceLevel,
+    projections: result ? result.projections : null,
+    monteCarlo: result ? result.monteCarlo : null,
+    hasEnoughData,
+    isSimulating: runInWorker && !!config && isSimulating,
+    progress,
+    workerError
   };
 }
 
-export default useProjection; 
\ No newline at end of file
+export default useProjection;
@@ -0,0 +1,281 @@
+import React, { useState } from 'react';
+import { useGame } from '../context/GameContext';
+import { useTheme } from '../context/ThemeContext';
+import Tooltip from '../components/ui/Tooltip';
+import { INITIAL_BALANCE, GOAL_AMOUNT } from '../utils/constants';
+import { formatCurrency, formatPercentage } from '../utils/formatter';
+import { formatSeed, generateSeed, parseSeed } from '../utils/random';
+import { getEventSelections, hasPayTable } from '../utils/payTable';
+import { getStakingStrategy, STAKING_STRATEGIES, StakingStrategyId } from '../utils/strategies';
+import { BacktestResult, runBacktest, SessionEnd } from '../utils/backtest';
+
+/**
+ * Form values for a backtest, kept as strings while the user types
+ */
+interface BacktestFormValues {
+  eventId: string;
+  selectionId: string;
+  strategyId: StakingStrategyId;
+  baseStake: string;
+  fraction: string;
+  sessions: string;
+  maxBets: string;
+  seed: string;
+}
+
+/** Most sessions a single backtest may simulate, so the page stays responsive */
+const MAX_SESSIONS = 20000;
+
+const sessionEndLabels: Record<SessionEnd, string> = {
+  goal: 'Reached the goal',
+  ruin: 'Went broke',
+  stalled: 'Stake could not be placed',
+  'max-bets': 'Ran out of bets',
+};
+
+/**
+ * Simulates thousands of sessions of a staking strategy to show how often it reaches the goal
+ */
+const Backtest: React.FC = () => {
+  const { betEvents, eventRegistry } = useGame();
+  const { theme } = useTheme();
+  const isDarkMode = theme === 'dark';
+  const [form, setForm] = useState<BacktestFormValues>({
+    eventId: betEvents[0]?.id || '',
+    selectionId: '',
+    strategyId: 'flat',
+    baseStake: '10',
+    fraction: '5',
+    sessions: '2000',
+    maxBets: '1000',
+    seed: formatSeed(generateSeed()),
+  });
+  const [result, setResult] = useState<BacktestResult | null>(null);
+  const [isRunning, setIsRunning] = useState<boolean>(false);
+  const [error, setError] = useState<string>('');
+
+  const strategy = getStakingStrategy(form.strategyId);
+  const event = eventRegistry.getEvent(form.eventId);
+  const selections = event && hasPayTable(event) ? getEventSelections(event) : [];
+
+  const updateField = (field: keyof BacktestFormValues) => (
+    e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>
+  ) => {
+    setForm({
+      ...form,
+      [field]: e.target.value,
+      // A different event has different selections
+      ...(field === 'eventId' && { selectionId: '' }),
+    });
+  };
+
+  const handleRun = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const baseStake = parseFloat(form.baseStake);
+    const fraction = parseFloat(form.fraction) / 100;
+    const sessions = parseInt(form.sessions, 10);
+    const maxBets = parseInt(form.maxBets, 10);
+    const seed = parseSeed(form.seed);
+
+    if (!event) {
+      setError('Pick an event to bet on');
+      return;
+    }
+    if (!strategy.usesFraction && (isNaN(baseStake) || baseStake < event.minBet)) {
+      setError(`The base stake must be at least the minimum bet of $${event.minBet}`);
+      return;
+    }
+    if (strategy.usesFraction && (isNaN(fraction) || fraction <= 0 || fraction > 1)) {
+      setError('The fraction must be between 0% and 100%');
+      return;
+    }
+    if (isNaN(sessions) || sessions < 1 || sessions > MAX_SESSIONS) {
+      setError(`Simulate between 1 and ${MAX_SESSIONS.toLocaleString()} sessions`);
+      return;
+    }
+    if (isNaN(maxBets) || maxBets < 1) {
+      setError('Allow at least one bet per session');
+      return;
+    }
+    if (seed === null) {
+      setError('The seed must be up to 8 hex digits');
+      return;
+    }
+
+    setError('');
+    setIsRunning(true);
+
+    // Let the running state render before the simulation blocks the page
+    setTimeout(() => {
+      try {
+        setResult(runBacktest({
+          event,
+          selectionId: form.selectionId || undefined,
+          staking: { strategyId: form.strategyId, baseStake, fraction },
+          sessions,
+          maxBetsPerSession: maxBets,
+          seed,
+        }));
+      } catch (err) {
+        setError(`The backtest could not be run with these settings: ${err instanceof Error ? err.message : String(err)}`);
+      }
+      setIsRunning(false);
+    }, 0);
+  };
+
+  const inputClass = `w-full px-3 py-2 rounded border ${
+    isDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-800'
+  }`;
+  const labelClass = `block text-sm mb-1 ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`;
+  const mutedClass = isDarkMode ? 'text-gray-400' : 'text-gray-500';
+  const cardClass = `rounded-lg p-4 ${isDarkMode ? 'bg-gray-800 text-white' : 'bg-white shadow-md text-gray-800'}`;
+  const largestBin = result ? Math.max(1, ...result.finalBalanceDistribution.map(bin => bin.count)) : 1;
+
+  return (
+    <main className="container mx-auto p-4 max-w-4xl">
+      <div className="text-center mb-8 pt-4">
+        <h1 className="text-3xl font-bold mb-1">Strategy Backtester</h1>
+        <p className="text-gray-500">
+          How often does a system turn {formatCurrency(INITIAL_BALANCE, '$', 0)} into {formatCurrency(GOAL_AMOUNT, '$', 0)}? Play it thousands of times and see.
+        </p>
+      </div>
+
+      <div className={`${cardClass} mb-6`}>
+        <form onSubmit={handleRun} className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="md:col-span-2">
+            <label htmlFor="backtest-event" className={labelClass}>Event</label>
+            <select id="backtest-event" value={form.eventId} onChange={updateField('eventId')} className={inputClass}>
+              {betEvents.map(betEvent => (
+                <option key={betEvent.id} value={betEvent.id}>{betEvent.icon} {betEvent.name}</option>
+              ))}
+            </select>
+          </div>
+          <div className="md:col-span-2">
+            <label htmlFor="backtest-strategy" className={labelClass}>Strategy</label>
+            <select id="backtest-strategy" value={form.strategyId} onChange={updateField('strategyId')} className={inputClass}>
+              {STAKING_STRATEGIES.map(option => (
+                <option key={option.id} value={option.id}>{option.name}</option>
+              ))}
+            </select>
+          </div>
+          {selections.length > 1 && (
+            <div className="md:col-span-4">
+              <label htmlFor="backtest-selection" className={labelClass}>Pick</label>
+              <select id="backtest-selection" value={form.selectionId || selections[0].id} onChange={updateField('selectionId')} className={inputClass}>
+                {selections.map(selection => (
+                  <option key={selection.id} value={selection.id}>{selection.label}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          <p className={`md:col-span-4 text-sm ${mutedClass}`}>{strategy.description}</p>
+          <div>
+            {strategy.usesFraction ? (
+              <>
+                <label htmlFor="backtest-fraction" className={labelClass}>
+                  {form.strategyId === 'kelly' ? 'Share of Kelly (%)' : 'Share of Balance (%)'}
+                </label>
+                <input id="backtest-fraction" type="number" min="0" max="100" step="0.5" value={form.fraction} onChange={updateField('fraction')} className={inputClass} />
+              </>
+            ) : (
+              <>
+                <label htmlFor="backtest-base-stake" className={labelClass}>Base Stake ($)</label>
+                <input id="backtest-base-stake" type="number" min="1" value={form.baseStake} onChange={updateField('baseStake')} className={inputClass} />
+              </>
+            )}
+          </div>
+          <div>
+            <label htmlFor="backtest-sessions" className={labelClass}>Sessions</label>
+            <input id="backtest-sessions" type="number" min="1" max={MAX_SESSIONS} value={form.sessions} onChange={updateField('sessions')} className={inputClass} />
+          </div>
+          <div>
+            <label htmlFor="backtest-max-bets" className={labelClass}>Bets per Session</label>
+            <input id="backtest-max-bets" type="number" min="1" value={form.maxBets} onChange={updateField('maxBets')} className={inputClass} />
+          </div>
+          <div>
+            <label htmlFor="backtest-seed" className={labelClass}>Seed</label>
+            <input id="backtest-seed" type="text" maxLength={8} value={form.seed} onChange={updateField('seed')} className={`${inputClass} font-mono`} />
+          </div>
+
+          <button
+            type="submit"
+            disabled={isRunning}
+            className={`md:col-span-4 py-2 px-4 rounded-lg font-medium text-white transition ${
+              isRunning ? 'bg-gray-500 cursor-not-allowed' : 'bg-purple-600 hover:bg-purple-700'
+            }`}
+          >
+            {isRunning ? 'Running…' : 'Run Backtest'}
+          </button>
+        </form>
+
+        {error && <p className="mt-3 p-3 rounded bg-yellow-100 text-yellow-800 text-sm">{error}</p>}
+      </div>
+
+      {result && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+            <div className={cardClass}>
+              <p className={`text-sm ${mutedClass}`}>Reached the Goal</p>
+              <p className="text-2xl font-bold text-green-500">{formatPercentage(result.goalProbability)}</p>
+            </div>
+            <div className={cardClass}>
+              <p className={`text-sm ${mutedClass}`}>Went Broke</p>
+              <p className="text-2xl font-bold text-red-500">{formatPercentage(result.ruinProbability)}</p>
+            </div>
+            <div className={cardClass}>
+              <div className="flex items-center gap-1">
+                <p className={`text-sm ${mutedClass}`}>Median Bets to Finish</p>
+                <Tooltip content="Counts only sessions that reached the goal or went broke.">
+                  <span className={`text-sm ${mutedClass}`}>ⓘ</span>
+                </Tooltip>
+              </div>
+              <p className="text-2xl font-bold">{result.medianBetsToFinish !== null ? result.medianBetsToFinish.toLocaleString() : '—'}</p>
+            </div>
+            <div className={cardClass}>
+              <p className={`text-sm ${mutedClass}`}>Median Final Balance</p>
+              <p className="text-2xl font-bold">{formatCurrency(result.medianFinalBalance, '$', 0)}</p>
+            </div>
+          </div>
+
+          <div className={`${cardClass} mb-6`}>
+            <h2 className="text-xl font-bold mb-1">Final Balances</h2>
+            <p className={`text-sm mb-4 ${mutedClass}`}>
+              {result.sessions.toLocaleString()} sessions, averaging {formatCurrency(result.averageFinalBalance, '$', 0)} at the end.
+            </p>
+            <div className="space-y-2">
+              {result.finalBalanceDistribution.map(bin => (
+                <div key={bin.min} className="flex items-center gap-3 text-sm">
+                  <span className={`w-40 shrink-0 text-right ${mutedClass}`}>
+                    {formatCurrency(bin.min, '$', 0)} – {formatCurrency(bin.max, '$', 0)}
+                  </span>
+                  <div className={`flex-1 h-4 rounded ${isDarkMode ? 'bg-gray-700' : 'bg-gray-100'}`}>
+                    <div
+                      className="h-4 rounded bg-purple-500"
+                      style={{ width: `${(bin.count / largestBin) * 100}%` }}
+                    />
+                  </div>
+                  <span className="w-16 shrink-0">{formatPercentage(bin.count / result.sessions)}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className={cardClass}>
+            <h2 className="text-xl font-bold mb-3">How Sessions Ended</h2>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+              {(Object.keys(sessionEndLabels) as SessionEnd[]).map(end => (
+                <div key={end}>
+                  <p className={mutedClass}>{sessionEndLabels[end]}</p>
+                  <p className="font-semibold">{result.endCounts[end].toLocaleString()}</p>
+                </div>
+              ))}
+            </div>
+          </div>
+        </>
+      )}
+    </main>
+  );
+};
+
+export default Backtest;
@@ -1,15 +1,19 @@
 import React, { useState } from 'react';
+import { NavLink, useParams } from 'react-router-dom';
 import { useGame } from '../context/GameContext';
 import { useTheme } from '../context/ThemeContext';
-import Layout from '../components/layout/Layout';
 import BehavioralAnalysis from '../components/analytics/BehavioralAnalysis';
 import FinancialMetrics from '../components/analytics/FinancialMetrics';
 import BettingPatterns from '../components/analytics/BettingPatterns';
 import PatternRecognition from '../components/analytics/PatternRecognition';
 import ComparativeAnalytics from '../components/analytics/ComparativeAnalytics';
 import PredictiveAnalytics from '../components/analytics/PredictiveAnalytics';
+import HistoryExportMenu from '../components/common/HistoryExportMenu';
+import { calculateWinRate, isLosingOutcome } from '../utils/settlement';
+import NotFound from './NotFound';
 
 const Insights: React.FC = () => {
+  const { section } = useParams<{ section?: string }>();
   const { betHistory } = useGame();
   const { theme } = useTheme();
   const isDarkMode = theme === 'dark';
@@ -23,7 +27,8 @@ const Insights: React.FC = () => {
     }
 
     const totalBets = betHistory.length;
-    const winRate = (betHistory.filter(bet => bet.outcome === 'win').length / totalBets) * 100;
+    // Pushes hand the stake back, so they count as neither a win nor a loss
+    const winRate = calculateWinRate(betHistory) * 100;
     const avgRisk = betHistory.reduce((sum, bet) => sum + bet.riskPercentage, 0) / totalBets;
 
     switch (stage) {
@@ -33,7 +38,8 @@ const Insights: React.FC = () => {
         }.`;
       case 1:
         const totalWon = betHistory.filter(bet => bet.outcome === 'win').reduce((sum, bet) => sum + bet.winAmount, 0);
-        const totalLost = betHistory.filter(bet => bet.outcome === 'loss').reduce((sum, bet) => sum + bet.betAmount, 0);
+        // A partial refund loses part of the stake
+        const totalLost = betHistory.filter(bet => isLosingOutcome(bet.outcome)).reduce((sum, bet) => sum - bet.winAmount, 0);
         return `Your financial journey shows ${
           totalWon > totalLost ? "positive growth" : "some challenges"
         }. Keep analyzing your patterns to improve your results.`;
@@ -54,35 +60,65 @@ const Insights: React.FC = () => {
     }
   };
 
-  // Journey stages that combine narrative and analytics
-  const stages = [
+  // Sections of the page, each linkable as /insights/<id>. The first five are
+  // journey stages that pair a narrative with their analytics
+  const sections = [
     {
+      id: 'behavior',
+      label: 'Behavior',
       title: "Your Betting Origins",
       narrative: "The Beginning of Your Journey",
       analyticsComponent: <BehavioralAnalysis />,
     },
     {
+      id: 'financial',
+      label: 'Financial',
       title: "Financial Evolution",
       narrative: "Your Path to Mastery",
       analyticsComponent: <FinancialMetrics />,
     },
     {
+      id: 'patterns',
+      label: 'Patterns',
       title: "Pattern Discovery",
       narrative: "Understanding Your Style",
       analyticsComponent: <BettingPatterns />,
     },
     {
+      id: 'risk',
+      label: 'Risk',
       title: "Risk & Reward",
       narrative: "Your Strategic Approach",
       analyticsComponent: <PatternRecognition />,
     },
     {
+      id: 'predictive',
+      label: 'Predictive',
       title: "Future Horizons",
       narrative: "What Lies Ahead",
       analyticsComponent: <PredictiveAnalytics />,
+    },
+    {
+      id: 'comparative',
+      label: 'Comparison',
+      analyticsComponent: <ComparativeAnalytics />,
     }
   ];
 
+  const selectedSection = section ? sections.find(candidate => candidate.id === section) : undefined;
+  if (section && !selectedSection) return <NotFound />;
+
+  const visibleSections = selectedSection ? [selectedSection] : sections;
+  const stages = visibleSections.filter(stage => stage.narrative);
+  // A section without a narrative has no story to tell, so it is always shown as analytics
+  const showStory = view === 'story' && stages.length > 0;
+
+  const sectionLinkClass = ({ isActive }: { isActive: boolean }) => `px-3 py-1 rounded-full text-sm transition-colors ${
+    isActive
+      ? 'bg-primary-600 text-white'
+      : isDarkMode ? 'bg-gray-800 text-gray-300 hover:bg-gray-700' : 'bg-white text-gray-700 shadow-sm hover:bg-gray-200'
+  }`;
+
   const handleViewToggle = () => {
     setIsTransitioning(true);
     setTimeout(() => {
@@ -92,10 +128,11 @@ const Insights: React.FC = () => {
   };
 
   return (
-    <Layout>
-      <main className="container mx-auto p-4 max-w-6xl">
-        <div className="flex justify-between items-center mb-8">
-          <h1 className="text-3xl font-bold">Your Betting Journey</h1>
+    <main className="container mx-auto p-4 max-w-6xl">
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+        <h1 className="text-3xl font-bold">Your Betting Journey</h1>
+        <div className="flex flex-wrap items-center gap-4">
+          <HistoryExportMenu />
           <button
             onClick={handleViewToggle}
             className={`px-4 py-2 rounded-lg transition-colors ${
@@ -107,43 +144,49 @@ const Insights: React.FC = () => {
             View as {view === 'story' ? 'Analytics' : 'Story'}
           </button>
         </div>
+      </div>
+
+      <nav className="flex flex-wrap gap-2 mb-8" aria-label="Insights sections">
+        <NavLink to="/insights" end className={sectionLinkClass}>All</NavLink>
+        {sections.map(item => (
+          <NavLink key={item.id} to={`/insights/${item.id}`} className={sectionLinkClass}>
+            {item.label}
+          </NavLink>
+        ))}
+      </nav>
 
-        <div className={`transition-opacity duration-300 ${isTransitioning ? 'opacity-0' : 'opacity-100'}`}>
-          {view === 'story' ? (
-            <div className="space-y-8">
-              {stages.map((stage, index) => (
-                <div 
-                  key={index}
-                  className={`p-6 rounded-lg ${
-                    isDarkMode ? 'bg-gray-800' : 'bg-white shadow-md'
-                  }`}
-                >
-                  <h2 className="text-2xl font-bold mb-4">{stage.title}</h2>
-                  <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-                    <div className="prose dark:prose-invert">
-                      <h3 className="text-xl mb-4">{stage.narrative}</h3>
-                      <p className="text-lg">{generateNarrative(index)}</p>
-                    </div>
-                    <div className="transition-transform hover:scale-105">
-                      {stage.analyticsComponent}
-                    </div>
+      <div className={`transition-opacity duration-300 ${isTransitioning ? 'opacity-0' : 'opacity-100'}`}>
+        {showStory ? (
+          <div className="space-y-8">
+            {stages.map(stage => (
+              <div 
+                key={stage.id}
+                className={`p-6 rounded-lg ${
+                  isDarkMode ? 'bg-gray-800' : 'bg-white shadow-md'
+                }`}
+              >
+                <h2 className="text-2xl font-bold mb-4">{stage.title}</h2>
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                  <div className="prose dark:prose-invert">
+                    <h3 className="text-xl mb-4">{stage.narrative}</h3>
+                    <p className="text-lg">{generateNarrative(sections.indexOf(stage))}</p>
+                  </div>
+                  <div className="transition-transform hover:scale-105">
+                    {stage.analyticsComponent}
                   </div>
                 </div>
-              ))}
-            </div>
-          ) : (
-            <div className="space-y-6">
-              <BehavioralAnalysis />
-              <FinancialMetrics />
-              <BettingPatterns />
-              <PatternRecognition />
-              <PredictiveAnalytics />
-              <ComparativeAnalytics />
-            </div>
-          )}
-        </div>
-      </main>
-    </Layout>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {visibleSections.map(item => (
+              <React.Fragment key={item.id}>{item.analyticsComponent}</React.Fragment>
+            ))}
+          </div>
+        )}
+      </div>
+    </main>
   );
 };
 
@@ -1,6 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { useGame } from '../context/GameContext';
-import Layout from '../components/layout/Layout';
+import { useGame, SettlementOutcome } from '../context/GameContext';
 import confetti from 'canvas-confetti';
 
 // Define journey stages with more immersive chapter titles
@@ -91,7 +90,7 @@ interface Bet {
   eventId: string;
   eventName: string;
   betAmount: number;
-  outcome: 'win' | 'loss';
+  outcome: SettlementOutcome;
   winAmount: number;
   balanceAfter: number;
   riskPercentage: number;
@@ -207,16 +206,14 @@ const Journey: React.FC = () => {
     
     // Sort bets by impact (win/loss amount)
     const sortedBets = [...betHistory].sort((a, b) => {
-      const aImpact = a.outcome === 'win' ? a.winAmount : -a.betAmount;
-      const bImpact = b.outcome === 'win' ? b.winAmount : -b.betAmount;
-      return Math.abs(bImpact) - Math.abs(aImpact);
+      return Math.abs(b.winAmount) - Math.abs(a.winAmount);
     }).reverse().slice(0, 5);
     
     // Format key moments with more narrative flair
     const moments = sortedBets.map((bet: Bet) => {
       const risk = bet.riskPercentage;
       const event = bet.eventName || 'Unknown Event';
-      const impact = bet.outcome === 'win' ? bet.winAmount : -bet.betAmount;
+      const impact = bet.winAmount;
       
       // Determine emoji based on outcome and risk
       let emoji = '📊';
@@ -237,7 +234,7 @@ const Journey: React.FC = () => {
         emoji,
         description: bet.outcome === 'win' 
           ? `Your ${risk > 70 ? 'heart-stopping' : risk > 40 ? 'bold' : 'calculated'} bet on ${event} paid off ${risk > 70 ? 'SPECTACULARLY' : 'nicely'}, netting you $${bet.winAmount.toFixed(2)}! ${risk > 60 ? 'The casino still talks about this one!' : ''}`
-          : `Your ${risk > 70 ? 'audacious' : risk > 40 ? 'risky' : 'cautious'} approach on ${event} didn't pan out, resulting in a $${bet.betAmount.toFixed(2)} loss. ${risk > 70 ? 'A moment of silence for this epic gamble.' : ''}`
+          : `Your ${risk > 70 ? 'audacious' : risk > 40 ? 'risky' : 'cautious'} approach on ${event} didn't pan out, resulting in a $${Math.abs(bet.winAmount).toFixed(2)} loss. ${risk > 70 ? 'A moment of silence for this epic gamble.' : ''}`
       };
     });
     
@@ -394,394 +391,392 @@ const Journey: React.FC = () => {
   
   // Render character journey with narrative elements
   return (
-    <Layout>
-      <div className="container mx-auto px-4 py-8">
-        {/* Achievement Popup */}
-        {activeAchievement && (
-          <div className="fixed top-20 right-5 bg-gradient-to-r from-yellow-300 to-amber-500 text-black p-4 rounded-lg shadow-lg z-50 animate-bounce-once max-w-xs">
-            <div className="flex items-center space-x-3">
-              <div className="text-3xl">{activeAchievement.icon}</div>
-              <div>
-                <h3 className="font-bold">Achievement Unlocked!</h3>
-                <p className="text-sm font-medium">{activeAchievement.title}</p>
-                <p className="text-xs opacity-75">{activeAchievement.description}</p>
-              </div>
-            </div>
-          </div>
-        )}
-
-        {/* Chapter Header - More dramatic title */}
-        <div className={`bg-gradient-to-r ${currentStage.color} rounded-xl p-6 mb-10 text-white shadow-lg transform transition-all duration-500 hover:scale-[1.02]`}>
-          <div className="flex items-center space-x-4">
-            <div className="text-5xl">{currentStage.icon}</div>
+    <div className="container mx-auto px-4 py-8">
+      {/* Achievement Popup */}
+      {activeAchievement && (
+        <div className="fixed top-20 right-5 bg-gradient-to-r from-yellow-300 to-amber-500 text-black p-4 rounded-lg shadow-lg z-50 animate-bounce-once max-w-xs">
+          <div className="flex items-center space-x-3">
+            <div className="text-3xl">{activeAchievement.icon}</div>
             <div>
-              <h1 className="text-4xl font-bold mb-2">{currentStage.title}</h1>
-              <p className="text-xl opacity-90 italic">{currentStage.subtitle}</p>
+              <h3 className="font-bold">Achievement Unlocked!</h3>
+              <p className="text-sm font-medium">{activeAchievement.title}</p>
+              <p className="text-xs opacity-75">{activeAchievement.description}</p>
             </div>
           </div>
-          <div className="w-full bg-white/30 h-4 rounded-full mt-6 overflow-hidden">
-            <div 
-              className="bg-white h-4 rounded-full transition-all duration-1000 ease-in-out"
-              style={{ width: `${Math.min(100, (betHistory.length / journeyStages[journeyStages.length - 1].thresholdBets) * 100)}%` }}
-            ></div>
-          </div>
-          <div className="flex justify-between text-xs mt-2 px-1 text-white/80">
-            <span>Chapter 1</span>
-            <span>Chapter 5</span>
+        </div>
+      )}
+
+      {/* Chapter Header - More dramatic title */}
+      <div className={`bg-gradient-to-r ${currentStage.color} rounded-xl p-6 mb-10 text-white shadow-lg transform transition-all duration-500 hover:scale-[1.02]`}>
+        <div className="flex items-center space-x-4">
+          <div className="text-5xl">{currentStage.icon}</div>
+          <div>
+            <h1 className="text-4xl font-bold mb-2">{currentStage.title}</h1>
+            <p className="text-xl opacity-90 italic">{currentStage.subtitle}</p>
           </div>
         </div>
+        <div className="w-full bg-white/30 h-4 rounded-full mt-6 overflow-hidden">
+          <div 
+            className="bg-white h-4 rounded-full transition-all duration-1000 ease-in-out"
+            style={{ width: `${Math.min(100, (betHistory.length / journeyStages[journeyStages.length - 1].thresholdBets) * 100)}%` }}
+          ></div>
+        </div>
+        <div className="flex justify-between text-xs mt-2 px-1 text-white/80">
+          <span>Chapter 1</span>
+          <span>Chapter 5</span>
+        </div>
+      </div>
 
-        {/* Story Navigation */}
-        <div className="flex flex-wrap md:flex-nowrap gap-4 mb-10">
-          <button 
-            onClick={() => setShowStoryboard(!showStoryboard)}
-            className="flex-1 bg-gradient-to-r from-purple-600 to-indigo-600 p-4 rounded-xl text-white font-bold text-center shadow-md hover:shadow-lg transition-all"
-          >
-            {showStoryboard ? "Return to Journey" : "View Your Storyboard"}
-          </button>
-          
-          <div className="flex-1 bg-gradient-to-r from-gray-800 to-gray-900 p-4 rounded-xl text-white shadow-md">
-            <div className="flex items-center justify-between">
-              <div>
-                <h3 className="text-sm uppercase tracking-wider opacity-75">Current Balance</h3>
-                <p className="text-2xl font-bold">${balance.toFixed(2)}</p>
-              </div>
-              <div className="text-4xl">💰</div>
+      {/* Story Navigation */}
+      <div className="flex flex-wrap md:flex-nowrap gap-4 mb-10">
+        <button 
+          onClick={() => setShowStoryboard(!showStoryboard)}
+          className="flex-1 bg-gradient-to-r from-purple-600 to-indigo-600 p-4 rounded-xl text-white font-bold text-center shadow-md hover:shadow-lg transition-all"
+        >
+          {showStoryboard ? "Return to Journey" : "View Your Storyboard"}
+        </button>
+        
+        <div className="flex-1 bg-gradient-to-r from-gray-800 to-gray-900 p-4 rounded-xl text-white shadow-md">
+          <div className="flex items-center justify-between">
+            <div>
+              <h3 className="text-sm uppercase tracking-wider opacity-75">Current Balance</h3>
+              <p className="text-2xl font-bold">${balance.toFixed(2)}</p>
             </div>
+            <div className="text-4xl">💰</div>
           </div>
-          
-          <div className="flex-1 bg-gradient-to-r from-blue-800 to-blue-900 p-4 rounded-xl text-white shadow-md">
-            <div className="flex items-center justify-between">
-              <div>
-                <h3 className="text-sm uppercase tracking-wider opacity-75">Total Bets Placed</h3>
-                <p className="text-2xl font-bold">{betHistory.length}</p>
-              </div>
-              <div className="text-4xl">🎲</div>
+        </div>
+        
+        <div className="flex-1 bg-gradient-to-r from-blue-800 to-blue-900 p-4 rounded-xl text-white shadow-md">
+          <div className="flex items-center justify-between">
+            <div>
+              <h3 className="text-sm uppercase tracking-wider opacity-75">Total Bets Placed</h3>
+              <p className="text-2xl font-bold">{betHistory.length}</p>
             </div>
+            <div className="text-4xl">🎲</div>
           </div>
         </div>
+      </div>
 
-        {showStoryboard ? (
-          /* Storyboard View - Show narrative chapters and path */
-          <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 mb-10">
-            <h2 className="text-3xl font-bold mb-6 text-center">Your Betting Story</h2>
+      {showStoryboard ? (
+        /* Storyboard View - Show narrative chapters and path */
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 mb-10">
+          <h2 className="text-3xl font-bold mb-6 text-center">Your Betting Story</h2>
+          
+          <div className="relative">
+            {/* Vertical timeline line */}
+            <div className="absolute left-1/2 transform -translate-x-1/2 h-full w-1 bg-blue-500"></div>
             
-            <div className="relative">
-              {/* Vertical timeline line */}
-              <div className="absolute left-1/2 transform -translate-x-1/2 h-full w-1 bg-blue-500"></div>
-              
-              {/* Timeline events */}
-              {journeyPath.map((point, index) => (
-                <div key={point.id} className={`flex items-center mb-10 ${index % 2 === 0 ? 'flex-row' : 'flex-row-reverse'}`}>
-                  <div className={`w-5/12 ${index % 2 === 0 ? 'text-right pr-8' : 'text-left pl-8'}`}>
-                    <h3 className="text-xl font-bold">{point.event}</h3>
-                    <p className={`text-lg font-medium ${point.win ? 'text-green-500' : 'text-red-500'}`}>
-                      {point.win ? `+$${point.winAmount.toFixed(2)}` : `-$${point.amount.toFixed(2)}`}
-                    </p>
-                    <p className="text-gray-600 dark:text-gray-400">Risk Level: {point.risk}%</p>
-                  </div>
-                  
-                  <div className="relative z-10">
-                    <div className={`w-12 h-12 rounded-full flex items-center justify-center text-xl ${point.win ? 'bg-green-500' : 'bg-red-500'} text-white`}>
-                      {point.win ? '✓' : '✗'}
-                    </div>
+            {/* Timeline events */}
+            {journeyPath.map((point, index) => (
+              <div key={point.id} className={`flex items-center mb-10 ${index % 2 === 0 ? 'flex-row' : 'flex-row-reverse'}`}>
+                <div className={`w-5/12 ${index % 2 === 0 ? 'text-right pr-8' : 'text-left pl-8'}`}>
+                  <h3 className="text-xl font-bold">{point.event}</h3>
+                  <p className={`text-lg font-medium ${point.win ? 'text-green-500' : 'text-red-500'}`}>
+                    {point.win ? `+$${point.winAmount.toFixed(2)}` : `-$${point.amount.toFixed(2)}`}
+                  </p>
+                  <p className="text-gray-600 dark:text-gray-400">Risk Level: {point.risk}%</p>
+                </div>
+                
+                <div className="relative z-10">
+                  <div className={`w-12 h-12 rounded-full flex items-center justify-center text-xl ${point.win ? 'bg-green-500' : 'bg-red-500'} text-white`}>
+                    {point.win ? '✓' : '✗'}
                   </div>
-                  
-                  <div className={`w-5/12 ${index % 2 === 0 ? 'text-left pl-8' : 'text-right pr-8'}`}>
-                    <p className="text-gray-600 dark:text-gray-400">Balance: ${point.balance.toFixed(2)}</p>
-                    <div className="mt-2 text-sm text-gray-500 dark:text-gray-400">
-                      {point.win 
-                        ? `Your confidence grew after this win.`
-                        : `This loss taught you valuable lessons.`}
-                    </div>
+                </div>
+                
+                <div className={`w-5/12 ${index % 2 === 0 ? 'text-left pl-8' : 'text-right pr-8'}`}>
+                  <p className="text-gray-600 dark:text-gray-400">Balance: ${point.balance.toFixed(2)}</p>
+                  <div className="mt-2 text-sm text-gray-500 dark:text-gray-400">
+                    {point.win 
+                      ? `Your confidence grew after this win.`
+                      : `This loss taught you valuable lessons.`}
                   </div>
                 </div>
-              ))}
-            </div>
+              </div>
+            ))}
           </div>
-        ) : (
-          /* Main Journey View */
-          <>
-            {/* Biography Card - More visually engaging */}
-            <div className="bg-white dark:bg-gray-800 rounded-xl shadow-xl p-6 mb-8 border-t-4 border-blue-600 transform transition-all duration-500 hover:shadow-2xl">
-              <div className="flex items-start space-x-6">
-                <div className="bg-gradient-to-br from-blue-500 to-purple-600 rounded-full p-5 text-4xl text-white shadow-lg">
-                  {archetype.icon}
-                </div>
-                <div>
-                  <h3 className="text-2xl font-bold mb-2 text-blue-600 dark:text-blue-400">Your Gambling Biography</h3>
-                  <p className="text-gray-700 dark:text-gray-300 leading-relaxed text-lg">
-                    {generateBiography()}
-                  </p>
-                </div>
+        </div>
+      ) : (
+        /* Main Journey View */
+        <>
+          {/* Biography Card - More visually engaging */}
+          <div className="bg-white dark:bg-gray-800 rounded-xl shadow-xl p-6 mb-8 border-t-4 border-blue-600 transform transition-all duration-500 hover:shadow-2xl">
+            <div className="flex items-start space-x-6">
+              <div className="bg-gradient-to-br from-blue-500 to-purple-600 rounded-full p-5 text-4xl text-white shadow-lg">
+                {archetype.icon}
+              </div>
+              <div>
+                <h3 className="text-2xl font-bold mb-2 text-blue-600 dark:text-blue-400">Your Gambling Biography</h3>
+                <p className="text-gray-700 dark:text-gray-300 leading-relaxed text-lg">
+                  {generateBiography()}
+                </p>
               </div>
             </div>
-            
-            {/* Character Archetype - More game-like presentation */}
-            <div className="mb-10">
-              <h2 className="text-3xl font-bold mb-6 pl-2 border-l-4 border-blue-600">Your Gambling Identity</h2>
-              <div className="bg-gradient-to-r from-gray-50 to-gray-100 dark:from-gray-800 dark:to-gray-900 rounded-xl shadow-lg p-6 mb-8 transform transition-all duration-500 hover:shadow-2xl">
-                <div className="md:flex items-start space-y-6 md:space-y-0 md:space-x-6">
-                  {/* Left side - avatar */}
-                  <div className="md:w-1/3">
-                    <div className="bg-gradient-to-br from-blue-500 to-purple-600 rounded-xl p-8 text-center text-white">
-                      <div className="text-8xl mb-4 mx-auto">{archetype.icon}</div>
-                      <h3 className="text-2xl font-bold mb-2">{archetype.title}</h3>
-                      <div className="flex justify-center space-x-2 mb-4">
-                        {archetype.traits.map((trait: string, index: number) => (
-                          <span key={index} className="px-2 py-1 bg-white/20 rounded-full text-sm">{trait}</span>
-                        ))}
-                      </div>
-                      <p className="italic text-sm">"{archetype.quote}"</p>
+          </div>
+          
+          {/* Character Archetype - More game-like presentation */}
+          <div className="mb-10">
+            <h2 className="text-3xl font-bold mb-6 pl-2 border-l-4 border-blue-600">Your Gambling Identity</h2>
+            <div className="bg-gradient-to-r from-gray-50 to-gray-100 dark:from-gray-800 dark:to-gray-900 rounded-xl shadow-lg p-6 mb-8 transform transition-all duration-500 hover:shadow-2xl">
+              <div className="md:flex items-start space-y-6 md:space-y-0 md:space-x-6">
+                {/* Left side - avatar */}
+                <div className="md:w-1/3">
+                  <div className="bg-gradient-to-br from-blue-500 to-purple-600 rounded-xl p-8 text-center text-white">
+                    <div className="text-8xl mb-4 mx-auto">{archetype.icon}</div>
+                    <h3 className="text-2xl font-bold mb-2">{archetype.title}</h3>
+                    <div className="flex justify-center space-x-2 mb-4">
+                      {archetype.traits.map((trait: string, index: number) => (
+                        <span key={index} className="px-2 py-1 bg-white/20 rounded-full text-sm">{trait}</span>
+                      ))}
                     </div>
+                    <p className="italic text-sm">"{archetype.quote}"</p>
                   </div>
+                </div>
+                
+                {/* Right side - stats */}
+                <div className="md:w-2/3">
+                  <p className="text-gray-700 dark:text-gray-300 mb-6 text-lg">{archetype.description}</p>
                   
-                  {/* Right side - stats */}
-                  <div className="md:w-2/3">
-                    <p className="text-gray-700 dark:text-gray-300 mb-6 text-lg">{archetype.description}</p>
-                    
-                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
-                      <div className="bg-white dark:bg-gray-700 p-4 rounded-lg text-center shadow transform transition-transform hover:scale-105">
-                        <h4 className="font-semibold mb-2 text-gray-500 dark:text-gray-400">Risk Tolerance</h4>
-                        <div className="text-3xl font-bold text-blue-600 dark:text-blue-400">
-                          {betHistory.length > 0 ? 
-                            Math.round(betHistory.reduce((sum: number, bet: Bet) => sum + bet.riskPercentage, 0) / betHistory.length) 
-                            : 0}%
-                        </div>
-                      </div>
-                      
-                      <div className="bg-white dark:bg-gray-700 p-4 rounded-lg text-center shadow transform transition-transform hover:scale-105">
-                        <h4 className="font-semibold mb-2 text-gray-500 dark:text-gray-400">Win Rate</h4>
-                        <div className="text-3xl font-bold text-green-600 dark:text-green-400">
-                          {betHistory.length > 0 ? 
-                            Math.round((betHistory.filter((b: Bet) => b.outcome === 'win').length / betHistory.length) * 100) 
-                            : 0}%
-                        </div>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+                    <div className="bg-white dark:bg-gray-700 p-4 rounded-lg text-center shadow transform transition-transform hover:scale-105">
+                      <h4 className="font-semibold mb-2 text-gray-500 dark:text-gray-400">Risk Tolerance</h4>
+                      <div className="text-3xl font-bold text-blue-600 dark:text-blue-400">
+                        {betHistory.length > 0 ? 
+                          Math.round(betHistory.reduce((sum: number, bet: Bet) => sum + bet.riskPercentage, 0) / betHistory.length) 
+                          : 0}%
                       </div>
-                      
-                      <div className="bg-white dark:bg-gray-700 p-4 rounded-lg text-center shadow transform transition-transform hover:scale-105">
-                        <h4 className="font-semibold mb-2 text-gray-500 dark:text-gray-400">Total Bets</h4>
-                        <div className="text-3xl font-bold text-purple-600 dark:text-purple-400">{betHistory.length}</div>
+                    </div>
+                    
+                    <div className="bg-white dark:bg-gray-700 p-4 rounded-lg text-center shadow transform transition-transform hover:scale-105">
+                      <h4 className="font-semibold mb-2 text-gray-500 dark:text-gray-400">Win Rate</h4>
+                      <div className="text-3xl font-bold text-green-600 dark:text-green-400">
+                        {betHistory.length > 0 ? 
+                          Math.round((betHistory.filter((b: Bet) => b.outcome === 'win').length / betHistory.length) * 100) 
+                          : 0}%
                       </div>
                     </div>
                     
-                    {/* Achievements */}
-                    <h4 className="font-semibold mb-3 text-lg">Achievements Unlocked</h4>
-                    <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
-                      {achievements.map((achievement) => (
-                        <div 
-                          key={achievement.id}
-                          className={`p-2 rounded text-center ${achievement.unlocked 
-                            ? 'bg-gradient-to-r from-yellow-300 to-amber-500 text-gray-900 shadow-md' 
-                            : 'bg-gray-200 dark:bg-gray-700 text-gray-400 dark:text-gray-500'}`}
-                        >
-                          <div className="text-2xl mb-1">{achievement.icon}</div>
-                          <div className={`text-xs font-medium ${achievement.unlocked ? '' : 'opacity-50'}`}>{achievement.title}</div>
-                        </div>
-                      ))}
+                    <div className="bg-white dark:bg-gray-700 p-4 rounded-lg text-center shadow transform transition-transform hover:scale-105">
+                      <h4 className="font-semibold mb-2 text-gray-500 dark:text-gray-400">Total Bets</h4>
+                      <div className="text-3xl font-bold text-purple-600 dark:text-purple-400">{betHistory.length}</div>
                     </div>
                   </div>
+                  
+                  {/* Achievements */}
+                  <h4 className="font-semibold mb-3 text-lg">Achievements Unlocked</h4>
+                  <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+                    {achievements.map((achievement) => (
+                      <div 
+                        key={achievement.id}
+                        className={`p-2 rounded text-center ${achievement.unlocked 
+                          ? 'bg-gradient-to-r from-yellow-300 to-amber-500 text-gray-900 shadow-md' 
+                          : 'bg-gray-200 dark:bg-gray-700 text-gray-400 dark:text-gray-500'}`}
+                      >
+                        <div className="text-2xl mb-1">{achievement.icon}</div>
+                        <div className={`text-xs font-medium ${achievement.unlocked ? '' : 'opacity-50'}`}>{achievement.title}</div>
+                      </div>
+                    ))}
+                  </div>
                 </div>
               </div>
             </div>
-            
-            {/* Key Moments - More cinematic presentation */}
-            {keyMoments.length > 0 && (
-              <div className="mb-10">
-                <h2 className="text-3xl font-bold mb-6 pl-2 border-l-4 border-blue-600">Defining Moments</h2>
-                <div className="space-y-4">
-                  {keyMoments.map((moment) => (
-                    <div 
-                      key={moment.id} 
-                      className={`bg-white dark:bg-gray-800 rounded-xl shadow-md p-6 border-l-4 transform transition-all duration-500 hover:shadow-xl ${moment.impact > 0 ? 'border-green-500' : 'border-red-500'}`}
-                    >
-                      <div className="flex items-start space-x-4">
-                        <div className={`text-5xl ${moment.impact > 0 ? 'text-green-500' : 'text-red-500'}`}>
-                          {moment.emoji}
-                        </div>
-                        <div>
-                          <h3 className={`text-xl font-bold mb-2 ${moment.impact > 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
-                            {moment.title}
-                          </h3>
-                          <p className="text-gray-700 dark:text-gray-300 mb-4 text-lg">
-                            {moment.description}
-                          </p>
-                          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
-                            <div className="bg-gray-100 dark:bg-gray-700 p-2 rounded">
-                              <span className="text-gray-500 dark:text-gray-400">Event:</span> {moment.event}
-                            </div>
-                            <div className="bg-gray-100 dark:bg-gray-700 p-2 rounded">
-                              <span className="text-gray-500 dark:text-gray-400">Risk Level:</span> {moment.risk}%
-                            </div>
-                            <div className="bg-gray-100 dark:bg-gray-700 p-2 rounded">
-                              <span className="text-gray-500 dark:text-gray-400">Impact:</span>{' '}
-                              <span className={moment.impact > 0 ? 'text-green-500' : 'text-red-500'}>
-                                {moment.impact > 0 ? '+' : ''}{moment.impact.toFixed(2)}
-                              </span>
-                            </div>
+          </div>
+          
+          {/* Key Moments - More cinematic presentation */}
+          {keyMoments.length > 0 && (
+            <div className="mb-10">
+              <h2 className="text-3xl font-bold mb-6 pl-2 border-l-4 border-blue-600">Defining Moments</h2>
+              <div className="space-y-4">
+                {keyMoments.map((moment) => (
+                  <div 
+                    key={moment.id} 
+                    className={`bg-white dark:bg-gray-800 rounded-xl shadow-md p-6 border-l-4 transform transition-all duration-500 hover:shadow-xl ${moment.impact > 0 ? 'border-green-500' : 'border-red-500'}`}
+                  >
+                    <div className="flex items-start space-x-4">
+                      <div className={`text-5xl ${moment.impact > 0 ? 'text-green-500' : 'text-red-500'}`}>
+                        {moment.emoji}
+                      </div>
+                      <div>
+                        <h3 className={`text-xl font-bold mb-2 ${moment.impact > 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                          {moment.title}
+                        </h3>
+                        <p className="text-gray-700 dark:text-gray-300 mb-4 text-lg">
+                          {moment.description}
+                        </p>
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+                          <div className="bg-gray-100 dark:bg-gray-700 p-2 rounded">
+                            <span className="text-gray-500 dark:text-gray-400">Event:</span> {moment.event}
+                          </div>
+                          <div className="bg-gray-100 dark:bg-gray-700 p-2 rounded">
+                            <span className="text-gray-500 dark:text-gray-400">Risk Level:</span> {moment.risk}%
+                          </div>
+                          <div className="bg-gray-100 dark:bg-gray-700 p-2 rounded">
+                            <span className="text-gray-500 dark:text-gray-400">Impact:</span>{' '}
+                            <span className={moment.impact > 0 ? 'text-green-500' : 'text-red-500'}>
+                              {moment.impact > 0 ? '+' : ''}{moment.impact.toFixed(2)}
+                            </span>
                           </div>
                         </div>
                       </div>
                     </div>
-                  ))}
-                </div>
+                  </div>
+                ))}
               </div>
-            )}
-            
-            {/* Character Growth - More visually styled */}
-            {characterGrowth.length > 0 && (
-              <div className="mb-10">
-                <h2 className="text-3xl font-bold mb-6 pl-2 border-l-4 border-blue-600">Your Character Evolution</h2>
-                <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6">
-                  <h3 className="text-xl font-semibold mb-6 text-center">The Eras of Your Gambling Legend</h3>
-                  <div className="space-y-8">
-                    {characterGrowth.map((period, index) => (
-                      <div key={index} className="relative">
-                        {/* Era connector line */}
-                        {index < characterGrowth.length - 1 && (
-                          <div className="absolute left-1/2 transform -translate-x-1/2 h-8 w-0.5 bg-blue-500 top-full"></div>
-                        )}
+            </div>
+          )}
+          
+          {/* Character Growth - More visually styled */}
+          {characterGrowth.length > 0 && (
+            <div className="mb-10">
+              <h2 className="text-3xl font-bold mb-6 pl-2 border-l-4 border-blue-600">Your Character Evolution</h2>
+              <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6">
+                <h3 className="text-xl font-semibold mb-6 text-center">The Eras of Your Gambling Legend</h3>
+                <div className="space-y-8">
+                  {characterGrowth.map((period, index) => (
+                    <div key={index} className="relative">
+                      {/* Era connector line */}
+                      {index < characterGrowth.length - 1 && (
+                        <div className="absolute left-1/2 transform -translate-x-1/2 h-8 w-0.5 bg-blue-500 top-full"></div>
+                      )}
+                      
+                      <div className="bg-gradient-to-r from-gray-50 to-gray-100 dark:from-gray-800 dark:to-gray-900 rounded-xl p-6 border border-gray-200 dark:border-gray-700 transform transition-all duration-500 hover:shadow-xl">
+                        <div className="flex items-center justify-center space-x-3 mb-4">
+                          <div className="text-3xl">{period.eraTheme.icon}</div>
+                          <h4 className="text-xl font-bold">{period.era}</h4>
+                        </div>
+                        
+                        <p className="text-center text-gray-600 dark:text-gray-400 mb-6 italic">
+                          {period.eraTheme.description}
+                        </p>
                         
-                        <div className="bg-gradient-to-r from-gray-50 to-gray-100 dark:from-gray-800 dark:to-gray-900 rounded-xl p-6 border border-gray-200 dark:border-gray-700 transform transition-all duration-500 hover:shadow-xl">
-                          <div className="flex items-center justify-center space-x-3 mb-4">
-                            <div className="text-3xl">{period.eraTheme.icon}</div>
-                            <h4 className="text-xl font-bold">{period.era}</h4>
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                          <div className="bg-white dark:bg-gray-700 p-3 rounded text-center shadow">
+                            <div className="text-sm text-gray-500 dark:text-gray-400 mb-1">Average Risk</div>
+                            <div className="text-lg font-semibold">{Math.round(period.avgRisk)}%</div>
                           </div>
-                          
-                          <p className="text-center text-gray-600 dark:text-gray-400 mb-6 italic">
-                            {period.eraTheme.description}
-                          </p>
-                          
-                          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-                            <div className="bg-white dark:bg-gray-700 p-3 rounded text-center shadow">
-                              <div className="text-sm text-gray-500 dark:text-gray-400 mb-1">Average Risk</div>
-                              <div className="text-lg font-semibold">{Math.round(period.avgRisk)}%</div>
-                            </div>
-                            <div className="bg-white dark:bg-gray-700 p-3 rounded text-center shadow">
-                              <div className="text-sm text-gray-500 dark:text-gray-400 mb-1">Win Rate</div>
-                              <div className="text-lg font-semibold">{Math.round(period.winRate)}%</div>
-                            </div>
-                            <div className="bg-white dark:bg-gray-700 p-3 rounded text-center shadow">
-                              <div className="text-sm text-gray-500 dark:text-gray-400 mb-1">Growth</div>
-                              <div className={`text-lg font-semibold ${period.growthRate >= 0 ? 'text-green-500' : 'text-red-500'}`}>
-                                {period.growthRate >= 0 ? '+' : ''}{Math.round(period.growthRate)}%
-                              </div>
+                          <div className="bg-white dark:bg-gray-700 p-3 rounded text-center shadow">
+                            <div className="text-sm text-gray-500 dark:text-gray-400 mb-1">Win Rate</div>
+                            <div className="text-lg font-semibold">{Math.round(period.winRate)}%</div>
+                          </div>
+                          <div className="bg-white dark:bg-gray-700 p-3 rounded text-center shadow">
+                            <div className="text-sm text-gray-500 dark:text-gray-400 mb-1">Growth</div>
+                            <div className={`text-lg font-semibold ${period.growthRate >= 0 ? 'text-green-500' : 'text-red-500'}`}>
+                              {period.growthRate >= 0 ? '+' : ''}{Math.round(period.growthRate)}%
                             </div>
-                            <div className="bg-white dark:bg-gray-700 p-3 rounded text-center shadow">
-                              <div className="text-sm text-gray-500 dark:text-gray-400 mb-1">Balance Change</div>
-                              <div className="text-lg font-semibold">
-                                ${period.startBalance.toFixed(0)} → ${period.endBalance.toFixed(0)}
-                              </div>
+                          </div>
+                          <div className="bg-white dark:bg-gray-700 p-3 rounded text-center shadow">
+                            <div className="text-sm text-gray-500 dark:text-gray-400 mb-1">Balance Change</div>
+                            <div className="text-lg font-semibold">
+                              ${period.startBalance.toFixed(0)} → ${period.endBalance.toFixed(0)}
                             </div>
                           </div>
                         </div>
                       </div>
-                    ))}
-                  </div>
+                    </div>
+                  ))}
                 </div>
               </div>
-            )}
-            
-            {/* Alternative Timelines - More engaging presentation */}
-            <div className="mb-10">
-              <h2 className="text-3xl font-bold mb-6 pl-2 border-l-4 border-blue-600">Alternate Realities</h2>
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                <div className="bg-gradient-to-r from-blue-50 to-cyan-50 dark:from-blue-900/30 dark:to-cyan-900/30 rounded-xl shadow-lg p-6 border border-blue-100 dark:border-blue-800 transform transition-all duration-500 hover:shadow-2xl">
-                  <div className="flex items-center space-x-3 mb-4">
-                    <div className="bg-blue-200 dark:bg-blue-800 rounded-full p-3 text-3xl">🛡️</div>
-                    <h3 className="text-xl font-bold text-blue-800 dark:text-blue-300">The Cautious Timeline</h3>
-                  </div>
-                  <p className="text-gray-700 dark:text-gray-300 mb-6">
-                    In a parallel universe where you took only low-risk bets (below 30%), your story would be different:
-                  </p>
-                  <div className="bg-white/60 dark:bg-gray-800/60 rounded-lg p-4 mb-4">
-                    <div className="text-center">
-                      <div className="text-sm text-gray-500 dark:text-gray-400 mb-1">Estimated Balance</div>
-                      <div className="text-3xl font-bold text-blue-600 dark:text-blue-400">
-                        ${Math.round(1000 * (1 + (betHistory.length * 0.05)))}
-                      </div>
+            </div>
+          )}
+          
+          {/* Alternative Timelines - More engaging presentation */}
+          <div className="mb-10">
+            <h2 className="text-3xl font-bold mb-6 pl-2 border-l-4 border-blue-600">Alternate Realities</h2>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div className="bg-gradient-to-r from-blue-50 to-cyan-50 dark:from-blue-900/30 dark:to-cyan-900/30 rounded-xl shadow-lg p-6 border border-blue-100 dark:border-blue-800 transform transition-all duration-500 hover:shadow-2xl">
+                <div className="flex items-center space-x-3 mb-4">
+                  <div className="bg-blue-200 dark:bg-blue-800 rounded-full p-3 text-3xl">🛡️</div>
+                  <h3 className="text-xl font-bold text-blue-800 dark:text-blue-300">The Cautious Timeline</h3>
+                </div>
+                <p className="text-gray-700 dark:text-gray-300 mb-6">
+                  In a parallel universe where you took only low-risk bets (below 30%), your story would be different:
+                </p>
+                <div className="bg-white/60 dark:bg-gray-800/60 rounded-lg p-4 mb-4">
+                  <div className="text-center">
+                    <div className="text-sm text-gray-500 dark:text-gray-400 mb-1">Estimated Balance</div>
+                    <div className="text-3xl font-bold text-blue-600 dark:text-blue-400">
+                      ${Math.round(1000 * (1 + (betHistory.length * 0.05)))}
                     </div>
                   </div>
-                  <p className="text-sm text-gray-600 dark:text-gray-400 italic text-center">
-                    "The path of caution led to steady growth, but fewer stories to tell..."
-                  </p>
                 </div>
-                
-                <div className="bg-gradient-to-r from-red-50 to-orange-50 dark:from-red-900/30 dark:to-orange-900/30 rounded-xl shadow-lg p-6 border border-red-100 dark:border-red-800 transform transition-all duration-500 hover:shadow-2xl">
-                  <div className="flex items-center space-x-3 mb-4">
-                    <div className="bg-red-200 dark:bg-red-800 rounded-full p-3 text-3xl">🔥</div>
-                    <h3 className="text-xl font-bold text-red-800 dark:text-red-300">The Daredevil Timeline</h3>
-                  </div>
-                  <p className="text-gray-700 dark:text-gray-300 mb-6">
-                    In a reality where you embraced maximum risk (above 70%), your fate would be:
-                  </p>
-                  <div className="bg-white/60 dark:bg-gray-800/60 rounded-lg p-4 mb-4">
-                    <div className="text-center">
-                      <div className="text-sm text-gray-500 dark:text-gray-400 mb-1">Estimated Balance</div>
-                      <div className="text-3xl font-bold text-red-600 dark:text-red-400">
-                        ${Math.round(Math.max(0, 1000 * (1 + (betHistory.length * 0.2 * (Math.random() > 0.6 ? 1 : -1)))))}
-                      </div>
+                <p className="text-sm text-gray-600 dark:text-gray-400 italic text-center">
+                  "The path of caution led to steady growth, but fewer stories to tell..."
+                </p>
+              </div>
+              
+              <div className="bg-gradient-to-r from-red-50 to-orange-50 dark:from-red-900/30 dark:to-orange-900/30 rounded-xl shadow-lg p-6 border border-red-100 dark:border-red-800 transform transition-all duration-500 hover:shadow-2xl">
+                <div className="flex items-center space-x-3 mb-4">
+                  <div className="bg-red-200 dark:bg-red-800 rounded-full p-3 text-3xl">🔥</div>
+                  <h3 className="text-xl font-bold text-red-800 dark:text-red-300">The Daredevil Timeline</h3>
+                </div>
+                <p className="text-gray-700 dark:text-gray-300 mb-6">
+                  In a reality where you embraced maximum risk (above 70%), your fate would be:
+                </p>
+                <div className="bg-white/60 dark:bg-gray-800/60 rounded-lg p-4 mb-4">
+                  <div className="text-center">
+                    <div className="text-sm text-gray-500 dark:text-gray-400 mb-1">Estimated Balance</div>
+                    <div className="text-3xl font-bold text-red-600 dark:text-red-400">
+                      ${Math.round(Math.max(0, 1000 * (1 + (betHistory.length * 0.2 * (Math.random() > 0.6 ? 1 : -1)))))}
                     </div>
                   </div>
-                  <p className="text-sm text-gray-600 dark:text-gray-400 italic text-center">
-                    "Live by the risk, die by the risk. Your legend would be short but spectacular..."
-                  </p>
                 </div>
+                <p className="text-sm text-gray-600 dark:text-gray-400 italic text-center">
+                  "Live by the risk, die by the risk. Your legend would be short but spectacular..."
+                </p>
               </div>
             </div>
-            
-            {/* Journey Next Chapter - More epic presentation */}
-            <div className="mb-10">
-              <h2 className="text-3xl font-bold mb-6 pl-2 border-l-4 border-blue-600">The Next Chapter</h2>
-              <div className="bg-gradient-to-r from-purple-400 to-indigo-600 rounded-xl shadow-xl p-8 text-white">
-                <h3 className="text-3xl font-bold mb-6 text-center">Your Quest Continues...</h3>
+          </div>
+          
+          {/* Journey Next Chapter - More epic presentation */}
+          <div className="mb-10">
+            <h2 className="text-3xl font-bold mb-6 pl-2 border-l-4 border-blue-600">The Next Chapter</h2>
+            <div className="bg-gradient-to-r from-purple-400 to-indigo-600 rounded-xl shadow-xl p-8 text-white">
+              <h3 className="text-3xl font-bold mb-6 text-center">Your Quest Continues...</h3>
+              
+              <div className="max-w-2xl mx-auto">
+                <p className="text-xl mb-8 text-center">
+                  {balance > 1000 
+                    ? "Your path to becoming a gambling legend lies before you. Each bet brings you closer to eternal glory." 
+                    : balance < 500 
+                      ? "Every hero must face their darkest hour. This is yours. But remember, the greatest comeback stories begin at the bottom." 
+                      : "You stand at the crossroads of fate. Your next decisions will define your legacy."}
+                </p>
                 
-                <div className="max-w-2xl mx-auto">
-                  <p className="text-xl mb-8 text-center">
+                <div className="bg-white/20 rounded-lg p-6 backdrop-blur-sm">
+                  <div className="text-2xl font-semibold mb-4 text-center">
                     {balance > 1000 
-                      ? "Your path to becoming a gambling legend lies before you. Each bet brings you closer to eternal glory." 
+                      ? "The Road to Mastery" 
                       : balance < 500 
-                        ? "Every hero must face their darkest hour. This is yours. But remember, the greatest comeback stories begin at the bottom." 
-                        : "You stand at the crossroads of fate. Your next decisions will define your legacy."}
+                        ? "The Phoenix Rises" 
+                        : "Finding Your Destiny"}
+                  </div>
+                  
+                  <p className="text-lg mb-6 text-center">
+                    {balance > 1000 
+                      ? "Your successful approach has put you on a path to gambling mastery. The next chapter of your journey will test your ability to maintain discipline even as stakes rise." 
+                      : balance < 500 
+                        ? "From the ashes of defeat, legends are born. Your journey now enters a rebuilding phase, where careful strategy and resilience will determine your comeback."
+                        : "You stand at a crossroads. Your next decisions will determine whether your story becomes one of triumph or caution."}
                   </p>
                   
-                  <div className="bg-white/20 rounded-lg p-6 backdrop-blur-sm">
-                    <div className="text-2xl font-semibold mb-4 text-center">
-                      {balance > 1000 
-                        ? "The Road to Mastery" 
-                        : balance < 500 
-                          ? "The Phoenix Rises" 
-                          : "Finding Your Destiny"}
-                    </div>
-                    
-                    <p className="text-lg mb-6 text-center">
-                      {balance > 1000 
-                        ? "Your successful approach has put you on a path to gambling mastery. The next chapter of your journey will test your ability to maintain discipline even as stakes rise." 
-                        : balance < 500 
-                          ? "From the ashes of defeat, legends are born. Your journey now enters a rebuilding phase, where careful strategy and resilience will determine your comeback."
-                          : "You stand at a crossroads. Your next decisions will determine whether your story becomes one of triumph or caution."}
-                    </p>
-                    
-                    <div className="text-center mb-2">
-                      <span className="text-lg font-medium">Goal Progress: ${balance.toFixed(2)} / $10,000</span>
-                    </div>
-                    <div className="w-full bg-white/30 h-6 rounded-full mb-2">
-                      <div 
-                        className="bg-white h-6 rounded-full transition-all duration-1000 ease-in-out"
-                        style={{ width: `${Math.min(100, (balance / 10000) * 100)}%` }}
-                      ></div>
-                    </div>
-                    <div className="text-center text-sm opacity-75">
-                      {Math.round((balance / 10000) * 100)}% of the way to legendary status
-                    </div>
+                  <div className="text-center mb-2">
+                    <span className="text-lg font-medium">Goal Progress: ${balance.toFixed(2)} / $10,000</span>
+                  </div>
+                  <div className="w-full bg-white/30 h-6 rounded-full mb-2">
+                    <div 
+                      className="bg-white h-6 rounded-full transition-all duration-1000 ease-in-out"
+                      style={{ width: `${Math.min(100, (balance / 10000) * 100)}%` }}
+                    ></div>
+                  </div>
+                  <div className="text-center text-sm opacity-75">
+                    {Math.round((balance / 10000) * 100)}% of the way to legendary status
                   </div>
                 </div>
               </div>
             </div>
-          </>
-        )}
-      </div>
-    </Layout>
+          </div>
+        </>
+      )}
+    </div>
   );
 };
 
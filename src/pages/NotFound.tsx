@@ -0,0 +1,33 @@
+import React from 'react';
+import { Link, useLocation } from 'react-router-dom';
+import { useTheme } from '../context/ThemeContext';
+
+const NotFound: React.FC = () => {
+  const { theme } = useTheme();
+  const isDarkMode = theme === 'dark';
+  const location = useLocation();
+
+  return (
+    <main className="container mx-auto p-4 max-w-4xl">
+      <div className={`rounded-lg p-8 mt-8 text-center ${isDarkMode ? 'bg-gray-800' : 'bg-white shadow-md'}`}>
+        <p className="text-5xl mb-4">🎲</p>
+        <h1 className="text-3xl font-bold mb-2">Page Not Found</h1>
+        <p className={`mb-6 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+          The dice rolled off the table: there is nothing at <code>{location.pathname}</code>.
+        </p>
+        <Link
+          to="/"
+          className={`inline-block px-6 py-3 rounded-lg ${
+            isDarkMode
+              ? 'bg-blue-600 hover:bg-blue-700 text-white'
+              : 'bg-blue-500 hover:bg-blue-600 text-white'
+          } transition-colors`}
+        >
+          Go to Dashboard
+        </Link>
+      </div>
+    </main>
+  );
+};
+
+export default NotFound;
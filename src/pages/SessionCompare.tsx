@@ -0,0 +1,279 @@
+import React from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { useGame } from '../context/GameContext';
+import { useTheme } from '../context/ThemeContext';
+import BalanceCurveChart from '../components/sessions/BalanceCurveChart';
+import MetricComparisonTable, { MetricComparisonRow } from '../components/sessions/MetricComparisonTable';
+import type { Session } from '../types';
+import {
+  BENCHMARK_MIN_BETS,
+  BenchmarkComparison,
+  BenchmarkId,
+  calculateBenchmarkMetrics,
+  calculateResponsibleGamblingScore,
+  compareWithBenchmarks,
+} from '../utils/benchmarks';
+import { calculateFinancialMetrics, FINANCIAL_METRICS_MIN_BETS, FinancialMetricsSummary } from '../utils/financialMetrics';
+import { formatCurrency, formatDate, formatPercentage } from '../utils/formatter';
+import { detectBettingPatterns, PATTERN_DETECTION_MIN_BETS, PatternSeverity, PatternWarning } from '../utils/patternDetection';
+
+/**
+ * Scored benchmarks, in the order Comparative Analytics lists them; win rate
+ * is left out because it is not scored
+ */
+const benchmarkLabels: { id: BenchmarkId, label: string }[] = [
+  { id: 'riskLevel', label: 'Average Risk Level' },
+  { id: 'betSize', label: 'Max Bet Size' },
+  { id: 'sessionDuration', label: 'Session Duration' },
+  { id: 'breakFrequency', label: 'Bets Between Breaks' },
+  { id: 'diversification', label: 'Game Diversification' },
+  { id: 'chaseLosses', label: 'Loss Chasing' },
+];
+
+const severityRank: Record<PatternSeverity, number> = { low: 1, medium: 2, high: 3 };
+
+const severityClasses: Record<PatternSeverity, string> = {
+  low: 'bg-yellow-500 text-white',
+  medium: 'bg-orange-500 text-white',
+  high: 'bg-red-500 text-white',
+};
+
+/**
+ * Everything compared for one session; each part is null while the session
+ * has too few bets for it
+ */
+interface SessionAnalysis {
+  financial: FinancialMetricsSummary | null;
+  benchmarks: Record<BenchmarkId, BenchmarkComparison> | null;
+  score: number | null;
+  patterns: PatternWarning[] | null;
+}
+
+const formatPlain = (decimals: number) => (value: number) => value.toFixed(decimals);
+const formatPercent = (value: number) => `${value.toFixed(2)}%`;
+const formatMoney = (value: number) => formatCurrency(value);
+
+/**
+ * Compares two sessions side by side: balance curves, financial metrics,
+ * responsible gambling scores and problem patterns. The sessions are picked
+ * with the `a` and `b` query parameters, so a comparison can be linked to
+ */
+const SessionCompare: React.FC = () => {
+  const { currentSession, sessionArchive, eventRegistry } = useGame();
+  const { theme } = useTheme();
+  const isDarkMode = theme === 'dark';
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const mutedClass = isDarkMode ? 'text-gray-400' : 'text-gray-500';
+  const cardClass = `rounded-lg p-6 mb-6 ${isDarkMode ? 'bg-gray-800' : 'bg-white shadow-md'}`;
+
+  // The session in progress first, then the archive newest first
+  const sessions = [currentSession, ...[...sessionArchive].reverse()];
+  const findSession = (id: string | null) => sessions.find(session => session.id === id);
+  const sessionLabel = (session: Session) =>
+    `${formatDate(session.startedAt, true)}${session.id === currentSession.id ? ' (current)' : ''}`;
+
+  if (sessionArchive.length === 0) {
+    return (
+      <main className="container mx-auto p-4 max-w-4xl">
+        <h1 className="text-3xl font-bold text-center mb-8 pt-4">Compare Sessions</h1>
+        <p className={`rounded-lg p-4 ${isDarkMode ? 'bg-gray-800 text-gray-400' : 'bg-white shadow-md text-gray-500'}`}>
+          There is nothing to compare yet. Finish or reset a game to archive it, then compare it with your next
+          one. <Link to="/sessions" className="underline">Back to sessions</Link>
+        </p>
+      </main>
+    );
+  }
+
+  // By default, the latest archived session against the one in progress
+  const sessionA = findSession(searchParams.get('a')) || sessionArchive[sessionArchive.length - 1];
+  const sessionB = findSession(searchParams.get('b')) || currentSession;
+
+  const selectSession = (param: 'a' | 'b', id: string) => {
+    setSearchParams({ a: sessionA.id, b: sessionB.id, [param]: id }, { replace: true });
+  };
+
+  const analyze = (session: Session): SessionAnalysis => {
+    const betCount = session.bets.length;
+    const benchmarks = betCount >= BENCHMARK_MIN_BETS
+      ? compareWithBenchmarks(calculateBenchmarkMetrics(session.bets, [session]))
+      : null;
+
+    return {
+      financial: betCount >= FINANCIAL_METRICS_MIN_BETS
+        ? calculateFinancialMetrics(session.bets, eventRegistry.getEvent)
+        : null,
+      benchmarks,
+      score: benchmarks && calculateResponsibleGamblingScore(benchmarks),
+      patterns: betCount >= PATTERN_DETECTION_MIN_BETS ? detectBettingPatterns(session.bets) : null,
+    };
+  };
+
+  const analysisA = analyze(sessionA);
+  const analysisB = analyze(sessionB);
+
+  const financialRow = (
+    label: string,
+    pick: (metrics: FinancialMetricsSummary) => number,
+    format: (value: number) => string,
+    better?: MetricComparisonRow['better']
+  ): MetricComparisonRow => ({
+    label,
+    a: analysisA.financial && pick(analysisA.financial),
+    b: analysisB.financial && pick(analysisB.financial),
+    format,
+    better,
+  });
+
+  const financialRows: MetricComparisonRow[] = [
+    financialRow('Net profit', metrics => metrics.netProfit, formatMoney, 'higher'),
+    financialRow('Return on investment', metrics => metrics.roi, formatPercent, 'higher'),
+    financialRow('Win rate', metrics => metrics.winRate, value => formatPercentage(value), 'higher'),
+    financialRow('Win/loss ratio', metrics => metrics.winLossRatio, formatPlain(2), 'higher'),
+    financialRow('Total staked', metrics => metrics.totalInvested, formatMoney),
+    financialRow('Expected loss (house edge)', metrics => metrics.expectedLoss, formatMoney),
+    financialRow('Average stake of bankroll', metrics => metrics.avgStakePercentage, formatPercent, 'lower'),
+    financialRow('Largest stake of bankroll', metrics => metrics.maxStakePercentage, formatPercent, 'lower'),
+    financialRow('Bets above the Kelly stake', metrics => metrics.kelly.overBets, formatPlain(0), 'lower'),
+    financialRow('Maximum drawdown', metrics => metrics.maxDrawdown, formatPercent, 'lower'),
+    financialRow('Longest win streak', metrics => metrics.maxWinStreak, formatPlain(0)),
+    financialRow('Longest loss streak', metrics => metrics.maxLossStreak, formatPlain(0)),
+  ];
+
+  const benchmarkRows: MetricComparisonRow[] = [
+    { label: 'Responsible Gambling Score', a: analysisA.score, b: analysisB.score, format: formatPlain(0), better: 'higher' },
+    ...benchmarkLabels.map(({ id, label }): MetricComparisonRow => ({
+      label,
+      a: analysisA.benchmarks && Math.round(analysisA.benchmarks[id].score),
+      b: analysisB.benchmarks && Math.round(analysisB.benchmarks[id].score),
+      format: formatPlain(0),
+      better: 'higher',
+    })),
+  ];
+
+  // Every pattern found in either session, with how it changed
+  const patternIds: string[] = [];
+  [...(analysisA.patterns || []), ...(analysisB.patterns || [])].forEach(pattern => {
+    if (!patternIds.includes(pattern.id)) patternIds.push(pattern.id);
+  });
+  const patternChanges = patternIds.map(id => {
+    const before = analysisA.patterns?.find(pattern => pattern.id === id);
+    const after = analysisB.patterns?.find(pattern => pattern.id === id);
+    const change = !before ? 'New'
+      : !after ? 'Resolved'
+      : severityRank[after.severity] > severityRank[before.severity] ? 'Worse'
+      : severityRank[after.severity] < severityRank[before.severity] ? 'Better'
+      : 'Unchanged';
+    return { id, title: (before || after)!.title, before, after, change };
+  });
+  const changeClasses: Record<string, string> = {
+    New: isDarkMode ? 'text-red-400' : 'text-red-600',
+    Worse: isDarkMode ? 'text-red-400' : 'text-red-600',
+    Resolved: isDarkMode ? 'text-green-400' : 'text-green-600',
+    Better: isDarkMode ? 'text-green-400' : 'text-green-600',
+    Unchanged: mutedClass,
+  };
+
+  const severityBadge = (pattern: PatternWarning | undefined) => pattern ? (
+    <span className={`text-xs font-medium px-2 py-1 rounded-full capitalize ${severityClasses[pattern.severity]}`}>
+      {pattern.severity}
+    </span>
+  ) : (
+    <span className={mutedClass}>—</span>
+  );
+
+  const selectClass = `w-full p-2 rounded-md border ${
+    isDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-800'
+  }`;
+  const labelA = 'Session A';
+  const labelB = 'Session B';
+
+  return (
+    <main className="container mx-auto p-4 max-w-4xl">
+      <div className="text-center mb-8 pt-4">
+        <h1 className="text-3xl font-bold mb-1">Compare Sessions</h1>
+        <p className={mutedClass}>
+          See whether your habits changed from one game to the next. Changes are shown from A to B.
+        </p>
+      </div>
+
+      <div className={`grid grid-cols-1 sm:grid-cols-2 gap-4 ${cardClass}`}>
+        {([['a', labelA, sessionA], ['b', labelB, sessionB]] as const).map(([param, label, session]) => (
+          <label key={param} className="block">
+            <span className={`block text-sm mb-1 ${mutedClass}`}>{label}</span>
+            <select value={session.id} onChange={event => selectSession(param, event.target.value)} className={selectClass}>
+              {sessions.map(option => (
+                <option key={option.id} value={option.id}>
+                  {sessionLabel(option)} · {option.bets.length} bets
+                </option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+
+      <section className={cardClass}>
+        <h2 className="text-xl font-bold mb-4">Balance</h2>
+        <BalanceCurveChart
+          sessionA={sessionA}
+          sessionB={sessionB}
+          labelA={`${labelA}: ${sessionLabel(sessionA)}`}
+          labelB={`${labelB}: ${sessionLabel(sessionB)}`}
+        />
+      </section>
+
+      <section className={cardClass}>
+        <h2 className="text-xl font-bold mb-1">Financial Metrics</h2>
+        <p className={`text-sm mb-4 ${mutedClass}`}>Shown for sessions with at least {FINANCIAL_METRICS_MIN_BETS} bets.</p>
+        <MetricComparisonTable rows={financialRows} labelA={labelA} labelB={labelB} />
+      </section>
+
+      <section className={cardClass}>
+        <h2 className="text-xl font-bold mb-1">Responsible Gambling Benchmarks</h2>
+        <p className={`text-sm mb-4 ${mutedClass}`}>
+          Scores out of 100, shown for sessions with at least {BENCHMARK_MIN_BETS} bets.
+        </p>
+        <MetricComparisonTable rows={benchmarkRows} labelA={labelA} labelB={labelB} />
+      </section>
+
+      <section className={cardClass}>
+        <h2 className="text-xl font-bold mb-1">Problem Patterns</h2>
+        <p className={`text-sm mb-4 ${mutedClass}`}>Detected in sessions with at least {PATTERN_DETECTION_MIN_BETS} bets.</p>
+        {!analysisA.patterns || !analysisB.patterns ? (
+          <p className={`text-sm ${mutedClass}`}>Both sessions need more bets before their patterns can be compared.</p>
+        ) : patternChanges.length === 0 ? (
+          <p className={`text-sm ${isDarkMode ? 'text-green-400' : 'text-green-600'}`}>No problematic patterns in either session.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className={`text-left ${mutedClass}`}>
+                  <th className="py-2 pr-4 font-medium">Pattern</th>
+                  <th className="py-2 pr-4 font-medium text-center">{labelA}</th>
+                  <th className="py-2 pr-4 font-medium text-center">{labelB}</th>
+                  <th className="py-2 font-medium text-right">Change</th>
+                </tr>
+              </thead>
+              <tbody>
+                {patternChanges.map(pattern => (
+                  <tr key={pattern.id} className={`border-t ${isDarkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+                    <td className="py-2 pr-4">{pattern.title}</td>
+                    <td className="py-2 pr-4 text-center">{severityBadge(pattern.before)}</td>
+                    <td className="py-2 pr-4 text-center">{severityBadge(pattern.after)}</td>
+                    <td className={`py-2 text-right font-semibold ${changeClasses[pattern.change]}`}>{pattern.change}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+
+      <p className="text-center">
+        <Link to="/sessions" className="underline">Back to sessions</Link>
+      </p>
+    </main>
+  );
+};
+
+export default SessionCompare;
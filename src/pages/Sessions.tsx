@@ -0,0 +1,86 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { useGame } from '../context/GameContext';
+import { useTheme } from '../context/ThemeContext';
+import HistoryImport from '../components/sessions/HistoryImport';
+import SessionCard from '../components/sessions/SessionCard';
+import type { SessionOutcome } from '../types';
+
+/**
+ * Lists the session in progress and every archived session, newest first
+ */
+const Sessions: React.FC = () => {
+  const { currentSession, sessionArchive, unsavedSessionCount } = useGame();
+  const { theme } = useTheme();
+  const isDarkMode = theme === 'dark';
+
+  const pastSessions = [...sessionArchive].reverse();
+  const countOutcome = (outcome: SessionOutcome) => sessionArchive.filter(session => session.outcome === outcome).length;
+  const totals = [
+    { label: 'Past sessions', value: sessionArchive.length },
+    { label: 'Won', value: countOutcome('won') },
+    { label: 'Lost', value: countOutcome('lost') },
+    { label: 'Abandoned', value: countOutcome('abandoned') },
+  ];
+
+  return (
+    <main className="container mx-auto p-4 max-w-4xl">
+      <div className="text-center mb-8 pt-4">
+        <h1 className="text-3xl font-bold mb-1">Sessions</h1>
+        <p className={isDarkMode ? 'text-gray-400' : 'text-gray-500'}>
+          Every game you have played, from the first bet to the goal, ruin or a reset
+        </p>
+      </div>
+
+      <div className={`grid grid-cols-2 md:grid-cols-4 gap-4 rounded-lg p-4 mb-6 ${isDarkMode ? 'bg-gray-800' : 'bg-white shadow-md'}`}>
+        {totals.map(total => (
+          <div key={total.label} className="text-center">
+            <p className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>{total.label}</p>
+            <p className="text-2xl font-bold">{total.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <h2 className="text-xl font-bold mb-3">Current Session</h2>
+      {currentSession.bets.length > 0 ? (
+        <SessionCard session={currentSession} />
+      ) : (
+        <p className={`rounded-lg p-4 ${isDarkMode ? 'bg-gray-800 text-gray-400' : 'bg-white shadow-md text-gray-500'}`}>
+          No bets yet. <Link to="/" className="underline">Place your first bet</Link> to start the session.
+        </p>
+      )}
+
+      <div className="flex items-center justify-between mt-8 mb-3">
+        <h2 className="text-xl font-bold">Past Sessions</h2>
+        {pastSessions.length > 0 && (
+          <Link to="/sessions/compare" className="text-sm underline">Compare sessions</Link>
+        )}
+      </div>
+      {unsavedSessionCount > 0 && (
+        <div
+          role="alert"
+          className={`mb-4 p-3 rounded-lg text-sm ${isDarkMode ? 'bg-yellow-900/30 text-yellow-300' : 'bg-yellow-50 text-yellow-800'}`}
+        >
+          Your browser's storage is full, so the {unsavedSessionCount === 1 ? 'oldest session' : `${unsavedSessionCount} oldest sessions`} below
+          couldn't be saved and will be gone after a reload.
+        </div>
+      )}
+      {pastSessions.length > 0 ? (
+        <div className="space-y-4">
+          {pastSessions.map(session => (
+            <SessionCard key={session.id} session={session} />
+          ))}
+        </div>
+      ) : (
+        <p className={`rounded-lg p-4 ${isDarkMode ? 'bg-gray-800 text-gray-400' : 'bg-white shadow-md text-gray-500'}`}>
+          Sessions are archived here when you reset the game or start a new one.
+        </p>
+      )}
+
+      <h2 className="text-xl font-bold mt-8 mb-3">Review an Exported History</h2>
+      <HistoryImport />
+    </main>
+  );
+};
+
+export default Sessions;
@@ -8,9 +8,10 @@
  * @module types
  */
 
-import type { BetEvent, BetHistory, Persona, GameState } from '../context/GameContext';
+import type { BetEvent, BetOutcome, BetSelection, BetHistory, SettlementOutcome, Persona, GameState, PlaceBetResult } from '../context/GameContext';
 
-export type { BetEvent, BetHistory, Persona, GameState };
+export type { BetEvent, BetOutcome, BetSelection, BetHistory, SettlementOutcome, Persona, GameState, PlaceBetResult };
+export type { Session, SessionOutcome } from '../engine';
 
 /**
  * Available theme options
@@ -68,6 +69,41 @@ export interface ProjectionMetrics {
   };
 }
 
+/**
+ * Balances at the 5th, 25th, 50th, 75th and 95th percentiles of the simulated paths
+ */
+export interface PercentileBand {
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+}
+
+/**
+ * Percentile band of the simulated balances after a number of bets
+ */
+export interface ProjectionBandPoint extends PercentileBand {
+  /** Bets placed, 0 for the current balance */
+  bet: number;
+}
+
+/**
+ * Distribution of outcomes across all simulated paths
+ */
+export interface MonteCarloProjection {
+  /** Number of paths simulated */
+  pathCount: number;
+  /** Percentile band after each bet, starting from the current balance */
+  bands: ProjectionBandPoint[];
+  /** Percentiles of the final balance */
+  finalBalance: PercentileBand;
+  /** Share of paths that went broke (0-1) */
+  ruinProbability: number;
+  /** Share of paths that reached the goal (0-1) */
+  goalProbability: number;
+}
+
 /**
  * User metrics calculated from betting history
  */
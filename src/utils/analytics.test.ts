@@ -0,0 +1,38 @@
+import type { BetHistory } from '../types';
+import { calculateKellyDiscipline } from './analytics';
+
+/**
+ * A bet with the Kelly stake recorded when it was placed
+ */
+const betOf = (betAmount: number, kellyStake?: number): BetHistory => ({
+  id: `bet-${betAmount}`,
+  eventId: 'coin-flip',
+  eventName: 'Coin Flip',
+  betAmount,
+  outcome: 'loss',
+  winAmount: -betAmount,
+  balanceAfter: 1000,
+  riskPercentage: 10,
+  timestamp: new Date('2024-01-01T10:00:00Z'),
+  kellyStake,
+});
+
+describe('calculateKellyDiscipline', () => {
+  it('counts stakes above the full Kelly stake and what they staked beyond it', () => {
+    expect(calculateKellyDiscipline([betOf(150, 100), betOf(50, 100), betOf(100, 100)])).toEqual({
+      betsCompared: 3,
+      overBets: 1,
+      noEdgeBets: 0,
+      excessStaked: 50,
+    });
+  });
+
+  it('counts a bet placed without an edge as over the Kelly stake', () => {
+    expect(calculateKellyDiscipline([betOf(10, 0)])).toEqual({ betsCompared: 1, overBets: 1, noEdgeBets: 1, excessStaked: 10 });
+  });
+
+  it('skips bets placed before Kelly stakes were recorded', () => {
+    expect(calculateKellyDiscipline([betOf(150), betOf(150, 100)])).toMatchObject({ betsCompared: 1, excessStaked: 50 });
+    expect(calculateKellyDiscipline([])).toEqual({ betsCompared: 0, overBets: 0, noEdgeBets: 0, excessStaked: 0 });
+  });
+});
@@ -6,6 +6,7 @@
  */
 
 import type { BetHistory, RiskLevel, ProjectionMetrics } from '../types';
+import { calculateWinRate } from './settlement';
 
 /**
  * Calculates Value at Risk (VaR) from a set of balance changes
@@ -87,9 +88,8 @@ export const calculateUserMetrics = (betHistory: BetHistory[]) => {
     };
   }
   
-  // Win rate
-  const wins = betHistory.filter(bet => bet.outcome === 'win').length;
-  const winRate = wins / betHistory.length;
+  // Win rate over decided bets; pushes return the stake
+  const winRate = calculateWinRate(betHistory);
   
   // Average bet size
   const avgBetSize = betHistory.reduce((sum, bet) => sum + bet.betAmount, 0) / betHistory.length;
@@ -102,7 +102,7 @@ export const calculateUserMetrics = (betHistory: BetHistory[]) => {
     .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
     .slice(0, Math.min(5, betHistory.length));
   
-  const recentWinRate = recentBets.filter(bet => bet.outcome === 'win').length / recentBets.length;
+  const recentWinRate = calculateWinRate(recentBets);
   const recentAvgBetSize = recentBets.reduce((sum, bet) => sum + bet.betAmount, 0) / recentBets.length;
   const recentRiskLevel = recentBets.reduce((sum, bet) => sum + bet.riskPercentage, 0) / recentBets.length;
   
@@ -200,4 +200,37 @@ export const calculateBankruptcyRiskScore = (
       betSizingContribution: betSizingScore
     }
   };
-}; 
\ No newline at end of file
+}; 
+/**
+ * How the stakes of bets compared with the Kelly stake
+ */
+export interface KellyDiscipline {
+  /** Bets that recorded a Kelly stake */
+  betsCompared: number;
+  /** Bets staked above the full Kelly stake */
+  overBets: number;
+  /** Bets placed when Kelly said not to bet at all */
+  noEdgeBets: number;
+  /** Total staked beyond the full Kelly stake */
+  excessStaked: number;
+}
+
+/**
+ * Compare each bet's stake with the Kelly stake recorded when it was placed
+ * 
+ * @param betHistory - Array of historical bets
+ * @returns Over-betting summary; bets placed before Kelly stakes were recorded are skipped
+ */
+export const calculateKellyDiscipline = (betHistory: BetHistory[]): KellyDiscipline => {
+  return betHistory.reduce<KellyDiscipline>((summary, bet) => {
+    if (bet.kellyStake === undefined) return summary;
+
+    const excess = Math.max(0, bet.betAmount - bet.kellyStake);
+    return {
+      betsCompared: summary.betsCompared + 1,
+      overBets: summary.overBets + (excess > 0 ? 1 : 0),
+      noEdgeBets: summary.noEdgeBets + (bet.kellyStake === 0 ? 1 : 0),
+      excessStaked: summary.excessStaked + excess,
+    };
+  }, { betsCompared: 0, overBets: 0, noEdgeBets: 0, excessStaked: 0 });
+};
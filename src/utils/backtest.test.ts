@@ -0,0 +1,154 @@
+import {
+  buildHistogram,
+  calculateMedian,
+  runBacktest,
+  SessionResult,
+  simulateSession,
+  summarizeSessions,
+} from './backtest';
+import { eventRegistry } from './eventRegistry';
+import { createSeededRandom, RandomGenerator } from './random';
+import { checkStake, StakingConfig } from './strategies';
+
+const coinFlip = eventRegistry.getEvent('coin-flip')!;
+const flat: StakingConfig = { strategyId: 'flat', baseStake: 100, fraction: 0.1 };
+const martingale: StakingConfig = { ...flat, strategyId: 'martingale' };
+
+// Rolls at the top of the range land on the last outcome, which loses on heads
+const alwaysLose: RandomGenerator = { next: () => 0.99, getState: () => 0 };
+
+describe('calculateMedian', () => {
+  it('is NaN for an empty list', () => {
+    expect(calculateMedian([])).toBeNaN();
+  });
+
+  it('takes the middle value of an odd count', () => {
+    expect(calculateMedian([7])).toBe(7);
+    expect(calculateMedian([9, 1, 5])).toBe(5);
+  });
+
+  it('averages the middle values of an even count', () => {
+    expect(calculateMedian([4, 1, 3, 2])).toBe(2.5);
+  });
+
+  it('leaves the list it is given in order', () => {
+    const values = [3, 1, 2];
+    calculateMedian(values);
+
+    expect(values).toEqual([3, 1, 2]);
+  });
+});
+
+describe('buildHistogram', () => {
+  it('splits the range into equal-width bins', () => {
+    expect(buildHistogram([0, 4, 5, 9], 0, 10, 2)).toEqual([
+      { min: 0, max: 5, count: 2 },
+      { min: 5, max: 10, count: 2 },
+    ]);
+  });
+
+  it('counts the upper bound in the last bin', () => {
+    expect(buildHistogram([10], 0, 10, 2).map(bin => bin.count)).toEqual([0, 1]);
+  });
+
+  it('puts values outside the bounds into the first or last bin', () => {
+    expect(buildHistogram([-5, 25], 0, 10, 2).map(bin => bin.count)).toEqual([1, 1]);
+  });
+
+  it('still builds bins for an empty range', () => {
+    expect(buildHistogram([3, 3], 3, 3, 2)).toEqual([
+      { min: 3, max: 4, count: 2 },
+      { min: 4, max: 5, count: 0 },
+    ]);
+  });
+});
+
+describe('simulateSession', () => {
+  const rng = () => createSeededRandom(7);
+
+  it('ends in ruin once the balance falls below the minimum bet', () => {
+    const result = simulateSession({ event: coinFlip, staking: flat, sessions: 1, seed: 7, startingBalance: 5 }, rng());
+
+    expect(result).toEqual({ end: 'ruin', finalBalance: 5, bets: 0 });
+  });
+
+  it('ends at the goal', () => {
+    expect(simulateSession({ event: coinFlip, staking: flat, sessions: 1, seed: 7, goal: 1000 }, rng()).end).toBe('goal');
+  });
+
+  it('stalls when the strategy stops staking', () => {
+    const kelly: StakingConfig = { strategyId: 'kelly', baseStake: 10, fraction: 1 };
+
+    expect(simulateSession({ event: coinFlip, staking: kelly, sessions: 1, seed: 7 }, rng()).end).toBe('stalled');
+  });
+
+  it('stops where auto-bet would when the balance cannot cover the stake', () => {
+    // 100, 200 and 400 are lost, leaving 300 for a stake of 800
+    const result = simulateSession({ event: coinFlip, staking: martingale, sessions: 1, seed: 7 }, alwaysLose);
+
+    expect(result).toEqual({ end: 'stalled', finalBalance: 300, bets: 3, stakeRejection: 'insufficient-balance' });
+    expect(checkStake(martingale, 800, 300, coinFlip)).toEqual({ ok: false, reason: result.stakeRejection });
+  });
+
+  it('stops where auto-bet would at the table limit instead of lowering the stake', () => {
+    const capped = { ...coinFlip, maxBet: 150 };
+    const result = simulateSession({ event: capped, staking: martingale, sessions: 1, seed: 7 }, alwaysLose);
+
+    expect(result).toEqual({ end: 'stalled', finalBalance: 900, bets: 1, stakeRejection: 'table-limit' });
+    expect(checkStake(martingale, 200, 900, capped)).toEqual({ ok: false, reason: result.stakeRejection });
+  });
+
+  it('stops at the bet limit', () => {
+    const tiny: StakingConfig = { ...flat, baseStake: 10 };
+
+    expect(simulateSession({ event: coinFlip, staking: tiny, sessions: 1, seed: 7, maxBetsPerSession: 3 }, rng())).toEqual(
+      expect.objectContaining({ end: 'max-bets', bets: 3 })
+    );
+  });
+
+  it('rejects a selection the event does not have', () => {
+    expect(() => simulateSession({ event: coinFlip, staking: flat, sessions: 1, seed: 7, selectionId: 'edge' }, rng())).toThrow(
+      'Event "coin-flip" has no selection "edge"'
+    );
+  });
+});
+
+describe('runBacktest', () => {
+  const config = { event: coinFlip, staking: flat, sessions: 200, seed: 2024 };
+
+  it('gives the same result for the same seed', () => {
+    expect(runBacktest(config)).toEqual(runBacktest(config));
+  });
+
+  it('accounts for every session', () => {
+    const result = runBacktest(config);
+    const ended = Object.values(result.endCounts).reduce((sum, count) => sum + count, 0);
+
+    expect(ended).toBe(200);
+    expect(result.goalProbability + result.ruinProbability).toBeCloseTo((result.endCounts.goal + result.endCounts.ruin) / 200, 10);
+    expect(result.finalBalanceDistribution.reduce((sum, bin) => sum + bin.count, 0)).toBe(200);
+  });
+});
+
+describe('summarizeSessions', () => {
+  it('summarizes no sessions without dividing by zero', () => {
+    expect(summarizeSessions([], 10000)).toEqual(expect.objectContaining({
+      sessions: 0,
+      goalProbability: 0,
+      ruinProbability: 0,
+      medianBetsToFinish: null,
+      averageFinalBalance: 0,
+      medianFinalBalance: 0,
+    }));
+  });
+
+  it('takes the median bets of sessions that finished only', () => {
+    const results: SessionResult[] = [
+      { end: 'goal', finalBalance: 10000, bets: 10 },
+      { end: 'ruin', finalBalance: 0, bets: 30 },
+      { end: 'max-bets', finalBalance: 900, bets: 1000 },
+    ];
+
+    expect(summarizeSessions(results, 10000).medianBetsToFinish).toBe(20);
+  });
+});
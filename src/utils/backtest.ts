@@ -0,0 +1,243 @@
+/**
+ * Strategy backtesting
+ *
+ * Plays a staking strategy through many independent simulated sessions,
+ * each starting from the same bankroll and ending when it reaches the goal,
+ * goes broke or runs out of bets. Nothing here touches the live game: the
+ * sessions use their own seeded random generator and the same pay tables
+ * and settlement rules as real bets.
+ */
+
+import type { BetEvent } from '../types';
+import { INITIAL_BALANCE, GOAL_AMOUNT } from './constants';
+import { createSeededRandom, RandomGenerator, RandomGeneratorFactory } from './random';
+import { calculateSelectionOdds, getEventOutcomes, getSelection, resolveOutcome } from './payTable';
+import { settleBet } from './settlement';
+import {
+  advanceStakingProgress,
+  calculateNextStake,
+  checkStake,
+  INITIAL_STAKING_PROGRESS,
+  StakeRejection,
+  StakingConfig,
+} from './strategies';
+
+/**
+ * How a simulated session ended
+ * - goal: the balance reached the goal
+ * - ruin: the balance fell below the event's minimum bet
+ * - stalled: the strategy's stake couldn't be placed, e.g. Kelly on a bet with no edge
+ *   or a Martingale past the balance, where the auto-bet runner would stop too
+ * - max-bets: the session hit the bet limit first
+ */
+export type SessionEnd = 'goal' | 'ruin' | 'stalled' | 'max-bets';
+
+/**
+ * Settings of a backtest
+ */
+export interface BacktestConfig {
+  /** Event every bet is placed on */
+  event: BetEvent;
+  /** Selection to back on a multi-outcome event, omitted for the default one */
+  selectionId?: string;
+  /** Staking strategy to follow */
+  staking: StakingConfig;
+  /** Number of independent sessions to simulate */
+  sessions: number;
+  /** Balance every session starts with */
+  startingBalance?: number;
+  /** Balance at which a session counts as won */
+  goal?: number;
+  /** Most bets a single session may place */
+  maxBetsPerSession?: number;
+  /** Seed of the random generator; the same seed and settings give the same result */
+  seed: number;
+  /** Factory for the random generator */
+  createRandom?: RandomGeneratorFactory;
+}
+
+/**
+ * Result of one simulated session
+ */
+export interface SessionResult {
+  /** How the session ended */
+  end: SessionEnd;
+  /** Balance when the session ended */
+  finalBalance: number;
+  /** Number of bets placed */
+  bets: number;
+  /** Why the stake couldn't be placed, for a stalled session */
+  stakeRejection?: StakeRejection;
+}
+
+/**
+ * One bar of a histogram
+ */
+export interface HistogramBin {
+  /** Lower bound, inclusive */
+  min: number;
+  /** Upper bound, exclusive except for the last bin */
+  max: number;
+  /** Number of values in the bin */
+  count: number;
+}
+
+/**
+ * Aggregate results of a backtest
+ */
+export interface BacktestResult {
+  /** Number of sessions simulated */
+  sessions: number;
+  /** Share of sessions that reached the goal (0-1) */
+  goalProbability: number;
+  /** Share of sessions that went broke (0-1) */
+  ruinProbability: number;
+  /** Number of sessions ending each way */
+  endCounts: Record<SessionEnd, number>;
+  /** Median number of bets in sessions that reached the goal or went broke, null if none did */
+  medianBetsToFinish: number | null;
+  /** Mean final balance */
+  averageFinalBalance: number;
+  /** Median final balance */
+  medianFinalBalance: number;
+  /** Distribution of final balances */
+  finalBalanceDistribution: HistogramBin[];
+}
+
+/** Default cap on bets per session, so strategies that never finish still end */
+export const DEFAULT_MAX_BETS_PER_SESSION = 1000;
+
+/** Number of bars in the final balance histogram */
+const HISTOGRAM_BINS = 10;
+
+/**
+ * Calculate the median of some numbers
+ * @param values - The numbers
+ * @returns The median, or NaN for an empty list
+ */
+export const calculateMedian = (values: number[]): number => {
+  if (values.length === 0) return NaN;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+/**
+ * Group values into equal-width bins
+ * @param values - Values to group
+ * @param min - Lower bound of the first bin
+ * @param max - Upper bound of the last bin
+ * @param binCount - Number of bins
+ * @returns The bins; values outside the bounds go into the first or last bin
+ */
+export const buildHistogram = (values: number[], min: number, max: number, binCount: number): HistogramBin[] => {
+  const width = (max - min) / binCount || 1;
+  const bins: HistogramBin[] = [];
+
+  for (let i = 0; i < binCount; i++) {
+    bins.push({ min: min + i * width, max: min + (i + 1) * width, count: 0 });
+  }
+
+  values.forEach(value => {
+    const index = Math.min(Math.max(Math.floor((value - min) / width), 0), binCount - 1);
+    bins[index].count++;
+  });
+
+  return bins;
+};
+
+/**
+ * Simulate one session
+ * @param config - Backtest settings
+ * @param rng - Random generator for the session's rolls
+ * @returns How the session ended
+ * @throws {Error} If the event has no such selection
+ */
+export const simulateSession = (config: BacktestConfig, rng: RandomGenerator): SessionResult => {
+  const {
+    event,
+    staking,
+    startingBalance = INITIAL_BALANCE,
+    goal = GOAL_AMOUNT,
+    maxBetsPerSession = DEFAULT_MAX_BETS_PER_SESSION,
+  } = config;
+
+  const selection = getSelection(event, config.selectionId);
+  if (!selection) {
+    throw new Error(`Event "${event.id}" has no selection "${config.selectionId}"`);
+  }
+
+  const outcomes = getEventOutcomes(event);
+  const odds = calculateSelectionOdds(outcomes, selection);
+  const stakingOdds = { winChance: odds.winChance, payout: odds.averagePayout };
+
+  let balance = startingBalance;
+  let progress = INITIAL_STAKING_PROGRESS;
+  let bets = 0;
+
+  while (true) {
+    if (balance >= goal) return { end: 'goal', finalBalance: balance, bets };
+    if (balance < event.minBet) return { end: 'ruin', finalBalance: balance, bets };
+    if (bets >= maxBetsPerSession) return { end: 'max-bets', finalBalance: balance, bets };
+
+    const check = checkStake(staking, calculateNextStake(staking, progress, balance, stakingOdds), balance, event);
+    if (!check.ok) return { end: 'stalled', finalBalance: balance, bets, stakeRejection: check.reason };
+    const { stake } = check;
+
+    const outcome = resolveOutcome(outcomes, rng.next());
+    const settlement = settleBet(stake, selection.payouts[outcome.id] || 0);
+
+    balance += settlement.winAmount;
+    progress = advanceStakingProgress(staking, progress, settlement.outcome);
+    bets++;
+  }
+};
+
+/**
+ * Simulate many independent sessions and aggregate the results
+ * @param config - Backtest settings
+ * @returns Aggregate results
+ */
+export const runBacktest = (config: BacktestConfig): BacktestResult => {
+  const { sessions, goal = GOAL_AMOUNT, seed, createRandom = createSeededRandom } = config;
+  const rng = createRandom(seed);
+  const results: SessionResult[] = [];
+
+  for (let i = 0; i < sessions; i++) {
+    results.push(simulateSession(config, rng));
+  }
+
+  return summarizeSessions(results, goal);
+};
+
+/**
+ * Aggregate the results of simulated sessions
+ * @param results - Results of each session
+ * @param goal - Goal balance, used as the upper bound of the histogram
+ * @returns Aggregate results
+ */
+export const summarizeSessions = (results: SessionResult[], goal: number): BacktestResult => {
+  const endCounts: Record<SessionEnd, number> = { goal: 0, ruin: 0, stalled: 0, 'max-bets': 0 };
+  results.forEach(result => {
+    endCounts[result.end]++;
+  });
+
+  const finalBalances = results.map(result => result.finalBalance);
+  const finishedBets = results
+    .filter(result => result.end === 'goal' || result.end === 'ruin')
+    .map(result => result.bets);
+  const count = results.length;
+  const highestBalance = finalBalances.reduce((max, value) => Math.max(max, value), goal);
+
+  return {
+    sessions: count,
+    goalProbability: count > 0 ? endCounts.goal / count : 0,
+    ruinProbability: count > 0 ? endCounts.ruin / count : 0,
+    endCounts,
+    medianBetsToFinish: finishedBets.length > 0 ? calculateMedian(finishedBets) : null,
+    averageFinalBalance: count > 0 ? finalBalances.reduce((sum, value) => sum + value, 0) / count : 0,
+    medianFinalBalance: count > 0 ? calculateMedian(finalBalances) : 0,
+    finalBalanceDistribution: buildHistogram(finalBalances, 0, highestBalance, HISTOGRAM_BINS),
+  };
+};
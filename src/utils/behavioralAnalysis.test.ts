@@ -0,0 +1,64 @@
+import type { BetHistory, SettlementOutcome } from '../types';
+import { analyzeBettingBehavior, describeRiskConsistency } from './behavioralAnalysis';
+
+/**
+ * Bets placed the given number of seconds apart
+ */
+const series = (secondsApart: number, bets: [SettlementOutcome, number, number][]): BetHistory[] =>
+  bets.map(([outcome, betAmount, riskPercentage], i) => ({
+    id: `bet-${i}`,
+    eventId: 'coin-flip',
+    eventName: 'Coin Flip',
+    betAmount,
+    outcome,
+    winAmount: outcome === 'win' ? betAmount : -betAmount,
+    balanceAfter: 1000,
+    riskPercentage,
+    timestamp: new Date(Date.UTC(2024, 0, 1, 10, 0, i * secondsApart)),
+  }));
+
+describe('describeRiskConsistency', () => {
+  it.each([
+    [0, 'Very Consistent'],
+    [10, 'Somewhat Consistent'],
+    [20, 'Variable'],
+    [30, 'Highly Variable'],
+  ])('describes a deviation of %i as %s', (deviation, description) => {
+    expect(describeRiskConsistency(deviation)).toBe(description);
+  });
+});
+
+describe('analyzeBettingBehavior', () => {
+  it('spots quick bets that grow after each loss', () => {
+    const profile = analyzeBettingBehavior(series(10, [['loss', 10, 20], ['loss', 20, 20], ['loss', 40, 20], ['win', 80, 20]]));
+
+    expect(profile.avgBettingInterval).toBe(10);
+    expect(profile.lossReactions).toEqual({ accelerated: 3, cautious: 0, unchanged: 0 });
+    expect(profile.riskDeviation).toBe(0);
+    expect(profile.traits).toEqual(['Rapid Bettor', 'Loss Chaser', 'Risk Consistent']);
+  });
+
+  it('spots slow bets that shrink after losses but take more risk', () => {
+    const profile = analyzeBettingBehavior(series(300, [['loss', 100, 10], ['loss', 50, 60], ['win', 25, 60]]));
+
+    expect(profile.lossReactions).toEqual({ accelerated: 0, cautious: 2, unchanged: 0 });
+    expect(profile.avgPostLossRisk).toBe(60);
+    expect(profile.avgPostWinRisk).toBe(0);
+    expect(profile.traits).toEqual(['Methodical Bettor', 'Loss Avoider', 'Aggressive After Losses']);
+  });
+
+  it('spots risk that jumps after wins', () => {
+    const profile = analyzeBettingBehavior(series(60, [['win', 50, 0], ['win', 50, 80], ['win', 50, 80]]));
+
+    expect(profile.avgRisk).toBeCloseTo(160 / 3, 10);
+    expect(profile.avgPostWinRisk).toBe(80);
+    expect(profile.traits).toEqual(['Risk Explorer', 'Confidence After Wins']);
+  });
+
+  it('measures the time between bets in time order', () => {
+    const bets = series(45, [['win', 50, 20], ['loss', 50, 20], ['win', 50, 20]]);
+
+    expect(analyzeBettingBehavior([...bets].reverse()).avgBettingInterval).toBe(45);
+    expect(analyzeBettingBehavior(bets.slice(0, 1)).avgBettingInterval).toBe(0);
+  });
+});
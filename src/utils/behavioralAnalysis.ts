@@ -0,0 +1,167 @@
+/**
+ * Behavioral analysis of a betting history
+ *
+ * How often bets are placed, how stakes react to losses, how consistent the
+ * risk level is and how it shifts after wins and losses, summed up as a set
+ * of behavioral traits.
+ */
+
+import type { BetHistory } from '../types';
+
+/**
+ * Fewest bets the behavior is analyzed from
+ */
+export const BEHAVIORAL_ANALYSIS_MIN_BETS = 3;
+
+/**
+ * How the stake changed on the bet after each loss
+ */
+export interface LossReactions {
+  /** Stake raised by more than 20% */
+  accelerated: number;
+  /** Stake cut by more than 20% */
+  cautious: number;
+  /** Stake within 20% of the losing bet */
+  unchanged: number;
+}
+
+/**
+ * Betting behavior found in a betting history
+ */
+export interface BehavioralProfile {
+  /** Average time between bets, in whole seconds */
+  avgBettingInterval: number;
+  /** How stakes changed after losses */
+  lossReactions: LossReactions;
+  /** Average risk level (0-100) */
+  avgRisk: number;
+  /** Standard deviation of the risk level */
+  riskDeviation: number;
+  /** Average risk level of bets placed after a win */
+  avgPostWinRisk: number;
+  /** Average risk level of bets placed after a loss */
+  avgPostLossRisk: number;
+  /** Traits the behavior adds up to, such as "Loss Chaser" */
+  traits: string[];
+}
+
+/**
+ * Describe how consistent the risk level is
+ * @param deviation - Standard deviation of the risk level
+ * @returns Description from "Very Consistent" to "Highly Variable"
+ */
+export const describeRiskConsistency = (deviation: number): string => {
+  if (deviation < 10) return "Very Consistent";
+  if (deviation < 20) return "Somewhat Consistent";
+  if (deviation < 30) return "Variable";
+  return "Highly Variable";
+};
+
+/**
+ * Analyze the behavior behind a betting history
+ * @param betHistory - Bets to analyze, in the order they were placed
+ * @returns The behavioral profile
+ */
+export const analyzeBettingBehavior = (betHistory: BetHistory[]): BehavioralProfile => {
+  // Calculate time between bets to analyze betting frequency
+  const bettingIntervals: number[] = [];
+  const sortedBets = [...betHistory].sort((a, b) =>
+    new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+  );
+
+  for (let i = 1; i < sortedBets.length; i++) {
+    const timeGap = new Date(sortedBets[i].timestamp).getTime() -
+                    new Date(sortedBets[i-1].timestamp).getTime();
+    bettingIntervals.push(timeGap);
+  }
+
+  const avgBettingInterval = bettingIntervals.length > 0 ?
+    Math.floor(bettingIntervals.reduce((sum, interval) => sum + interval, 0) / bettingIntervals.length / 1000) : 0;
+
+  // Analyze reaction to losses
+  const lossReactions: LossReactions = {
+    accelerated: 0,
+    cautious: 0,
+    unchanged: 0
+  };
+
+  for (let i = 1; i < betHistory.length; i++) {
+    if (betHistory[i-1].outcome === 'loss') {
+      const prevBet = betHistory[i-1].betAmount;
+      const currentBet = betHistory[i].betAmount;
+
+      if (currentBet > prevBet * 1.2) {
+        lossReactions.accelerated++;
+      } else if (currentBet < prevBet * 0.8) {
+        lossReactions.cautious++;
+      } else {
+        lossReactions.unchanged++;
+      }
+    }
+  }
+
+  // Calculate risk appetite consistency
+  const riskValues = betHistory.map(bet => bet.riskPercentage);
+  const avgRisk = riskValues.reduce((sum, risk) => sum + risk, 0) / riskValues.length;
+  const riskDeviation = Math.sqrt(
+    riskValues.reduce((sum, risk) => sum + Math.pow(risk - avgRisk, 2), 0) / riskValues.length
+  );
+
+  // Calculate decision making under emotion (wins/losses)
+  const postWinBets = betHistory.filter((bet, index) =>
+    index > 0 && betHistory[index-1].outcome === 'win'
+  );
+
+  const postLossBets = betHistory.filter((bet, index) =>
+    index > 0 && betHistory[index-1].outcome === 'loss'
+  );
+
+  const avgPostWinRisk = postWinBets.length > 0 ?
+    postWinBets.reduce((sum, bet) => sum + bet.riskPercentage, 0) / postWinBets.length : 0;
+
+  const avgPostLossRisk = postLossBets.length > 0 ?
+    postLossBets.reduce((sum, bet) => sum + bet.riskPercentage, 0) / postLossBets.length : 0;
+
+  // Determine behavioral traits based on analysis
+  const traits: string[] = [];
+
+  // Frequency trait
+  if (avgBettingInterval < 30) {
+    traits.push("Rapid Bettor");
+  } else if (avgBettingInterval > 120) {
+    traits.push("Methodical Bettor");
+  }
+
+  // Loss reaction trait
+  if (lossReactions.accelerated > lossReactions.cautious && lossReactions.accelerated > lossReactions.unchanged) {
+    traits.push("Loss Chaser");
+  } else if (lossReactions.cautious > lossReactions.accelerated && lossReactions.cautious > lossReactions.unchanged) {
+    traits.push("Loss Avoider");
+  }
+
+  // Risk consistency trait
+  if (riskDeviation < 15) {
+    traits.push("Risk Consistent");
+  } else if (riskDeviation > 25) {
+    traits.push("Risk Explorer");
+  }
+
+  // Emotional betting trait
+  if (avgPostWinRisk > avgRisk + 10) {
+    traits.push("Confidence After Wins");
+  } else if (avgPostLossRisk > avgRisk + 10) {
+    traits.push("Aggressive After Losses");
+  } else if (avgPostLossRisk < avgRisk - 10) {
+    traits.push("Conservative After Losses");
+  }
+
+  return {
+    avgBettingInterval,
+    lossReactions,
+    avgRisk,
+    riskDeviation,
+    avgPostWinRisk,
+    avgPostLossRisk,
+    traits,
+  };
+};
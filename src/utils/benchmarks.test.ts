@@ -0,0 +1,111 @@
+import type { BetHistory, SettlementOutcome, Session } from '../types';
+import {
+  BenchmarkComparison,
+  BenchmarkId,
+  calculateBenchmarkMetrics,
+  calculateGiniCoefficient,
+  calculateResponsibleGamblingScore,
+  compareWithBenchmarks,
+} from './benchmarks';
+
+const startedAt = new Date('2024-01-01T10:00:00Z');
+
+/**
+ * A bet placed the given number of minutes into the session
+ */
+const betOf = (minute: number, eventId: string, outcome: SettlementOutcome, betAmount: number, balanceAfter: number, riskPercentage: number): BetHistory => ({
+  id: `bet-${minute}`,
+  eventId,
+  eventName: eventId,
+  betAmount,
+  outcome,
+  winAmount: outcome === 'win' ? betAmount : -betAmount,
+  balanceAfter,
+  riskPercentage,
+  timestamp: new Date(startedAt.getTime() + minute * 60000),
+});
+
+const bets = [
+  betOf(1, 'coin-flip', 'loss', 100, 900, 20),
+  // Raised by half after a loss: chasing it
+  betOf(2, 'coin-flip', 'loss', 150, 750, 40),
+  betOf(3, 'dice-roll', 'win', 100, 850, 30),
+  betOf(4, 'dice-roll', 'loss', 50, 800, 10),
+];
+
+const sessionOf = (sessionBets: BetHistory[]): Session => ({
+  id: `session-${sessionBets.length}`,
+  startedAt,
+  endedAt: null,
+  startingBalance: 1000,
+  endingBalance: 800,
+  seed: 42,
+  outcome: 'playing',
+  challengePersonaId: null,
+  bets: sessionBets,
+});
+
+describe('calculateGiniCoefficient', () => {
+  it('is 0 for no values, an even spread or nothing to spread', () => {
+    expect(calculateGiniCoefficient([])).toBe(0);
+    expect(calculateGiniCoefficient([0.25, 0.25, 0.25, 0.25])).toBe(0);
+    expect(calculateGiniCoefficient([0, 0])).toBe(0);
+  });
+
+  it('grows as the values concentrate', () => {
+    expect(calculateGiniCoefficient([0, 0, 0, 1])).toBeCloseTo(0.75, 10);
+    expect(calculateGiniCoefficient([0.1, 0.9])).toBeCloseTo(0.4, 10);
+  });
+});
+
+describe('calculateBenchmarkMetrics', () => {
+  it('measures the habits of the bets', () => {
+    const metrics = calculateBenchmarkMetrics(bets, [sessionOf(bets)]);
+
+    expect(metrics.avgRiskLevel).toBe(25);
+    expect(metrics.maxBankrollPercentage).toBe(20);
+    expect(metrics.winRate).toBe(0.25);
+    expect(metrics.diversificationIndex).toBe(1);
+    expect(metrics.chaseFrequency).toBeCloseTo(1 / 3, 10);
+  });
+
+  it('measures session length and breaks over sessions with bets only', () => {
+    const metrics = calculateBenchmarkMetrics(bets, [sessionOf(bets), sessionOf([])]);
+
+    expect(metrics.avgSessionDuration).toBe(4);
+    expect(metrics.breakFrequency).toBe(4);
+  });
+});
+
+describe('compareWithBenchmarks', () => {
+  const comparisons = compareWithBenchmarks(calculateBenchmarkMetrics(bets, [sessionOf(bets)]));
+
+  it('scores a habit within its benchmark by the room left', () => {
+    expect(comparisons.riskLevel).toEqual({ user: 25, benchmark: 40, score: 37.5, better: true });
+  });
+
+  it('scores a habit past its benchmark 0', () => {
+    expect(comparisons.betSize).toEqual({ user: 20, benchmark: 10, score: 0, better: false });
+  });
+
+  it('leaves the win rate unscored', () => {
+    expect(comparisons.winRate).toEqual({ user: 0.25, benchmark: 0.45, score: 100, better: false });
+  });
+});
+
+describe('calculateResponsibleGamblingScore', () => {
+  it('averages every score but the win rate', () => {
+    const comparison = (score: number): BenchmarkComparison => ({ user: 0, benchmark: 0, score, better: true });
+    const comparisons: Record<BenchmarkId, BenchmarkComparison> = {
+      riskLevel: comparison(0),
+      betSize: comparison(10),
+      sessionDuration: comparison(20),
+      breakFrequency: comparison(30),
+      winRate: comparison(0),
+      diversification: comparison(40),
+      chaseLosses: comparison(50),
+    };
+
+    expect(calculateResponsibleGamblingScore(comparisons)).toBe(25);
+  });
+});
@@ -0,0 +1,235 @@
+/**
+ * Responsible gambling benchmarks
+ *
+ * Compares betting habits with responsible gambling guidelines: risk level,
+ * bet size, session length, breaks, game diversification and loss chasing.
+ * Each comparison is scored from 0 to 100, and the scores are averaged
+ * into an overall responsible gambling score.
+ */
+
+import type { BetHistory, Session } from '../types';
+import { calculateSessionStats } from './sessionStats';
+
+/**
+ * Fewest bets the comparisons are made from
+ */
+export const BENCHMARK_MIN_BETS = 5;
+
+/**
+ * Responsible gambling benchmarks
+ */
+export const RESPONSIBLE_BENCHMARKS = {
+  maxSessionDuration: 60, // minutes
+  maxBankrollPercentage: 10, // percent per bet
+  maxRiskLevel: 40, // percent
+  minBreakFrequency: 4, // bets before taking a break
+  minDaysPerWeek: 3, // days without betting per week
+  winRateExpectation: 0.45, // expected win rate (slightly below 0.5 due to house edge)
+  riskDiversification: 0.3, // minimum distribution across different game types
+  chaseFrequency: 0.15, // maximum percentage of bets that chase losses
+};
+
+/**
+ * Betting habits measured against the benchmarks
+ */
+export interface BenchmarkMetrics {
+  /** Average risk level of the bets (0-100) */
+  avgRiskLevel: number;
+  /** Largest stake as a share of the balance after the bet, in percent */
+  maxBankrollPercentage: number;
+  /** Average session length, in minutes */
+  avgSessionDuration: number;
+  /** Average number of bets before a session ends */
+  breakFrequency: number;
+  /** Share of bets won (0-1) */
+  winRate: number;
+  /** How evenly bets are spread across events (0-1) */
+  diversificationIndex: number;
+  /** Share of bets that raised the stake after a loss (0-1) */
+  chaseFrequency: number;
+}
+
+/**
+ * Identifier of a benchmark comparison
+ */
+export type BenchmarkId =
+  | 'riskLevel'
+  | 'betSize'
+  | 'sessionDuration'
+  | 'breakFrequency'
+  | 'winRate'
+  | 'diversification'
+  | 'chaseLosses';
+
+/**
+ * One habit compared with its benchmark
+ */
+export interface BenchmarkComparison {
+  /** The player's value */
+  user: number;
+  /** The benchmark value */
+  benchmark: number;
+  /** How well the value meets the benchmark, 100 or more when it does */
+  score: number;
+  /** Whether the value meets the benchmark */
+  better: boolean;
+}
+
+/**
+ * Calculate the Gini coefficient of a set of values
+ *
+ * A standard economic measure of inequality, used here to measure how
+ * evenly spread bets are.
+ *
+ * @param values - Shares to measure
+ * @returns Coefficient from 0 (even) towards 1 (concentrated)
+ */
+export const calculateGiniCoefficient = (values: number[]): number => {
+  if (values.length === 0) return 0;
+
+  const sortedValues = [...values].sort((a, b) => a - b);
+  const n = sortedValues.length;
+
+  let sumNumerator = 0;
+  for (let i = 0; i < n; i++) {
+    sumNumerator += sortedValues[i] * (i + 1);
+  }
+
+  const sumDenominator = sortedValues.reduce((sum, val) => sum + val, 0);
+
+  if (sumDenominator === 0) return 0;
+
+  return (2 * sumNumerator) / (n * sumDenominator) - (n + 1) / n;
+};
+
+/**
+ * Measure betting habits for comparison with the benchmarks
+ * @param betHistory - Bets to analyze
+ * @param sessions - Sessions to measure session length and breaks over
+ * @returns The measured habits
+ */
+export const calculateBenchmarkMetrics = (betHistory: BetHistory[], sessions: Session[]): BenchmarkMetrics => {
+  // Sort bets by timestamp
+  const sortedBets = [...betHistory].sort((a, b) =>
+    new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+  );
+
+  // Average risk level
+  const avgRiskLevel = betHistory.reduce((sum, bet) => sum + bet.riskPercentage, 0) / betHistory.length;
+
+  // Maximum bet size as percentage of bankroll
+  const maxBankrollPercentage = Math.max(...betHistory.map(bet => (bet.betAmount / bet.balanceAfter) * 100));
+
+  // Only sessions with bets say anything about session length and breaks
+  const sessionStats = sessions.filter(session => session.bets.length > 0).map(calculateSessionStats);
+  const sessionCount = Math.max(sessionStats.length, 1);
+
+  // Average session length, in minutes
+  const avgSessionDuration = sessionStats.reduce((sum, stats) => sum + stats.durationMs, 0) / sessionCount / (1000 * 60);
+
+  // Break frequency (average number of bets before a session ends)
+  const breakFrequency = sessionStats.reduce((sum, stats) => sum + stats.betCount, 0) / sessionCount;
+
+  // Win rate
+  const winRate = betHistory.filter(bet => bet.outcome === 'win').length / betHistory.length;
+
+  // Game diversification (how evenly spread are bets across game types)
+  const gameCounts: Record<string, number> = {};
+  betHistory.forEach(bet => {
+    gameCounts[bet.eventId] = (gameCounts[bet.eventId] || 0) + 1;
+  });
+
+  const gamePercentages = Object.values(gameCounts).map(count => count / betHistory.length);
+  const diversificationIndex = 1 - calculateGiniCoefficient(gamePercentages); // Higher means more diversified
+
+  // Chase frequency (percentage of bets that chase losses)
+  let chaseCount = 0;
+  for (let i = 1; i < sortedBets.length; i++) {
+    if (
+      sortedBets[i-1].outcome === 'loss' &&
+      sortedBets[i].betAmount > sortedBets[i-1].betAmount * 1.2
+    ) {
+      chaseCount++;
+    }
+  }
+  const chaseFrequency = chaseCount / (sortedBets.length - 1);
+
+  return {
+    avgRiskLevel,
+    maxBankrollPercentage,
+    avgSessionDuration,
+    breakFrequency,
+    winRate,
+    diversificationIndex,
+    chaseFrequency,
+  };
+};
+
+/**
+ * Compare betting habits with the benchmarks
+ * @param metrics - The measured habits
+ * @returns Each habit compared with its benchmark
+ */
+export const compareWithBenchmarks = (metrics: BenchmarkMetrics): Record<BenchmarkId, BenchmarkComparison> => ({
+  riskLevel: {
+    user: metrics.avgRiskLevel,
+    benchmark: RESPONSIBLE_BENCHMARKS.maxRiskLevel,
+    score: Math.max(0, 100 - (metrics.avgRiskLevel / RESPONSIBLE_BENCHMARKS.maxRiskLevel) * 100),
+    better: metrics.avgRiskLevel <= RESPONSIBLE_BENCHMARKS.maxRiskLevel
+  },
+  betSize: {
+    user: metrics.maxBankrollPercentage,
+    benchmark: RESPONSIBLE_BENCHMARKS.maxBankrollPercentage,
+    score: Math.max(0, 100 - (metrics.maxBankrollPercentage / RESPONSIBLE_BENCHMARKS.maxBankrollPercentage) * 100),
+    better: metrics.maxBankrollPercentage <= RESPONSIBLE_BENCHMARKS.maxBankrollPercentage
+  },
+  sessionDuration: {
+    user: metrics.avgSessionDuration,
+    benchmark: RESPONSIBLE_BENCHMARKS.maxSessionDuration,
+    score: Math.max(0, 100 - (metrics.avgSessionDuration / RESPONSIBLE_BENCHMARKS.maxSessionDuration) * 100),
+    better: metrics.avgSessionDuration <= RESPONSIBLE_BENCHMARKS.maxSessionDuration
+  },
+  breakFrequency: {
+    user: metrics.breakFrequency,
+    benchmark: RESPONSIBLE_BENCHMARKS.minBreakFrequency,
+    score: Math.max(0, 100 - (metrics.breakFrequency / RESPONSIBLE_BENCHMARKS.minBreakFrequency) * 100),
+    better: metrics.breakFrequency <= RESPONSIBLE_BENCHMARKS.minBreakFrequency
+  },
+  winRate: {
+    user: metrics.winRate,
+    benchmark: RESPONSIBLE_BENCHMARKS.winRateExpectation,
+    score: 100, // Not scored since win rate is not directly controllable
+    better: metrics.winRate >= RESPONSIBLE_BENCHMARKS.winRateExpectation
+  },
+  diversification: {
+    user: metrics.diversificationIndex,
+    benchmark: RESPONSIBLE_BENCHMARKS.riskDiversification,
+    score: (metrics.diversificationIndex / RESPONSIBLE_BENCHMARKS.riskDiversification) * 100,
+    better: metrics.diversificationIndex >= RESPONSIBLE_BENCHMARKS.riskDiversification
+  },
+  chaseLosses: {
+    user: metrics.chaseFrequency,
+    benchmark: RESPONSIBLE_BENCHMARKS.chaseFrequency,
+    score: Math.max(0, 100 - (metrics.chaseFrequency / RESPONSIBLE_BENCHMARKS.chaseFrequency) * 100),
+    better: metrics.chaseFrequency <= RESPONSIBLE_BENCHMARKS.chaseFrequency
+  },
+});
+
+/**
+ * Calculate the overall responsible gambling score
+ * @param comparisons - Habits compared with their benchmarks
+ * @returns Average score of the habits the player controls, rounded (0-100 and above)
+ */
+export const calculateResponsibleGamblingScore = (comparisons: Record<BenchmarkId, BenchmarkComparison>): number => {
+  // Win rate is left out: luck decides it
+  const scored = [
+    comparisons.riskLevel,
+    comparisons.betSize,
+    comparisons.sessionDuration,
+    comparisons.breakFrequency,
+    comparisons.diversification,
+    comparisons.chaseLosses,
+  ];
+
+  return Math.round(scored.reduce((sum, comparison) => sum + comparison.score, 0) / scored.length);
+};
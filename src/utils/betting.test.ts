@@ -0,0 +1,96 @@
+import {
+  calculateHouseEdge,
+  calculateKellyFraction,
+  calculateKellyStake,
+  calculateMultiplierFromRtp,
+  KELLY_ADVICE_FRACTION,
+} from './betting';
+
+describe('calculateMultiplierFromRtp', () => {
+  it('pays the return to player over the win chance', () => {
+    expect(calculateMultiplierFromRtp(0.97, 0.5)).toBe(1.94);
+    expect(calculateMultiplierFromRtp(36 / 37, 1 / 37)).toBe(36);
+  });
+
+  it('rounds down to the cent', () => {
+    // 0.95 / 0.3 is 3.1666...
+    expect(calculateMultiplierFromRtp(0.95, 0.3)).toBe(3.16);
+  });
+
+  it('pays back exactly the odds at an RTP of 1', () => {
+    expect(calculateMultiplierFromRtp(1, 0.5)).toBe(2);
+    expect(calculateMultiplierFromRtp(1, 0.25)).toBe(4);
+  });
+
+  it('has no finite payout for a bet that cannot win', () => {
+    expect(calculateMultiplierFromRtp(0.97, 0)).toBe(Infinity);
+  });
+});
+
+describe('calculateHouseEdge', () => {
+  it.each([
+    [0.97, 0.5],
+    [0.95, 0.25],
+    [36 / 37, 1 / 37],
+  ])('round-trips an RTP of %p at a %p chance', (rtp, probability) => {
+    const multiplier = calculateMultiplierFromRtp(rtp, probability);
+
+    expect(calculateHouseEdge(multiplier, probability)).toBeCloseTo(1 - rtp, 10);
+    expect(1 - calculateHouseEdge(multiplier, probability)).toBeCloseTo(multiplier * probability, 10);
+  });
+
+  it('is 0 at an RTP of 1', () => {
+    expect(calculateHouseEdge(calculateMultiplierFromRtp(1, 0.5), 0.5)).toBeCloseTo(0, 10);
+  });
+
+  it('is negative when the player is favored', () => {
+    expect(calculateHouseEdge(2, 0.6)).toBeCloseTo(-0.2, 10);
+  });
+
+  it('keeps the whole stake of a bet that cannot win', () => {
+    expect(calculateHouseEdge(2, 0)).toBe(1);
+  });
+});
+
+describe('calculateKellyFraction', () => {
+  it('stakes the edge over the net odds', () => {
+    // (0.75 * 2 - 1) / (2 - 1)
+    expect(calculateKellyFraction(2, 0.75)).toBe(0.5);
+    expect(calculateKellyFraction(3, 0.5)).toBeCloseTo(0.25, 10);
+  });
+
+  it.each([
+    ['an even bet', 2, 0.5],
+    ['a negative edge', 1.94, 0.5],
+    ['a multiplier that returns no profit', 1, 0.9],
+    ['a bet that cannot win', 2, 0],
+  ])('stakes nothing on %s', (_, multiplier, probability) => {
+    expect(calculateKellyFraction(multiplier, probability)).toBe(0);
+  });
+
+  it('never stakes more than the whole bankroll', () => {
+    expect(calculateKellyFraction(2, 1)).toBe(1);
+  });
+});
+
+describe('calculateKellyStake', () => {
+  it('stakes the Kelly fraction of the balance', () => {
+    expect(calculateKellyStake(1000, 2, 0.75)).toBe(500);
+  });
+
+  it('scales the stake by the fractional Kelly multiplier', () => {
+    expect(calculateKellyStake(1000, 2, 0.75, KELLY_ADVICE_FRACTION)).toBe(250);
+    expect(calculateKellyStake(1000, 2, 0.75, 0.1)).toBe(50);
+  });
+
+  it('rounds down to whole dollars of the balance', () => {
+    expect(calculateKellyStake(999, 2, 0.75)).toBe(499);
+    expect(calculateKellyStake(999, 2, 0.75, KELLY_ADVICE_FRACTION)).toBe(249);
+  });
+
+  it('stakes nothing without an edge or a balance', () => {
+    expect(calculateKellyStake(1000, 1.94, 0.5)).toBe(0);
+    expect(calculateKellyStake(0, 2, 0.75)).toBe(0);
+    expect(calculateKellyStake(-100, 2, 0.75)).toBe(0);
+  });
+});
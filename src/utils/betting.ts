@@ -2,36 +2,6 @@
  * Utility functions for betting calculations
  */
 
-/**
- * Calculate the risk percentage for a bet
- * @param betAmount - The amount being bet
- * @param balance - Current balance
- * @param eventProbability - Win probability of the event (0-1)
- * @returns Risk percentage (0-100)
- */
-export const calculateRiskPercentage = (
-  betAmount: number,
-  balance: number,
-  eventProbability: number
-): number => {
-  // Bet size factor: how much of your bankroll you're risking
-  const betSizeFactor = betAmount / balance;
-  
-  // Event probability factor: higher for lower probability events
-  const eventProbabilityFactor = 1 - eventProbability;
-  
-  // Loss impact factor: impact of losing this bet on your bankroll
-  const lossImpactFactor = betAmount / balance;
-  
-  // Weighted calculation
-  const risk = (betSizeFactor * 50) + 
-               (eventProbabilityFactor * 30) + 
-               (lossImpactFactor * 20);
-  
-  // Clamp between 0-100
-  return Math.min(100, Math.max(0, risk * 100));
-};
-
 /**
  * Determine persona based on risk level
  * @param riskPercentage - The risk percentage (0-100)
@@ -48,22 +18,13 @@ export const determinePersona = (riskPercentage: number): string => {
 };
 
 /**
- * Calculate the maximum bet amount based on persona/risk level
+ * Calculate the maximum bet amount a persona allows
  * @param balance - Current balance
- * @param riskPercentage - The risk percentage (0-100)
+ * @param maxBetPercentage - Largest share of the balance the persona bets (0-1), e.g. 0.1 for Baby Betsy
  * @returns Maximum bet amount
  */
-export const calculateMaxBet = (balance: number, riskPercentage: number): number => {
-  if (riskPercentage <= 30) {
-    // Baby Betsy: max 10% of bankroll
-    return balance * 0.1;
-  } else if (riskPercentage <= 70) {
-    // Midlife Crisis Mike: max 30% of bankroll
-    return balance * 0.3;
-  } else {
-    // YOLO Yolanda: max 100% of bankroll
-    return balance;
-  }
+export const calculateMaxBet = (balance: number, maxBetPercentage: number): number => {
+  return Math.max(0, balance) * Math.min(Math.max(maxBetPercentage, 0), 1);
 };
 
 /**
@@ -81,4 +42,59 @@ export const calculateExpectedValue = (
   // EV = (probability of winning × amount won) - (probability of losing × amount lost)
   const winAmount = betAmount * (multiplier - 1);
   return (probability * winAmount) - ((1 - probability) * betAmount);
-}; 
\ No newline at end of file
+};
+
+/**
+ * Calculate the house edge of a bet
+ * @param multiplier - The win multiplier
+ * @param probability - Win probability (0-1)
+ * @returns House edge as a fraction of the stake (negative when the player is favored)
+ */
+export const calculateHouseEdge = (multiplier: number, probability: number): number => {
+  return -calculateExpectedValue(1, multiplier, probability);
+};
+
+/**
+ * Derive the payout multiplier that gives a bet its return to player
+ * @param rtp - Return to player as a fraction of the stake (e.g. 0.97)
+ * @param probability - Win probability (0-1)
+ * @returns Multiplier rounded down to the cent, so rounding never favors the player
+ */
+export const calculateMultiplierFromRtp = (rtp: number, probability: number): number => {
+  // The small epsilon stops exact ratios like (36/37) / (1/37) from flooring to 35.99
+  return Math.floor((rtp / probability) * 100 + 1e-9) / 100;
+};
+
+/**
+ * Calculate the Kelly criterion stake for a win/lose bet
+ * @param multiplier - Payout multiplier on a win
+ * @param probability - Win probability (0-1)
+ * @returns Fraction of the bankroll to stake (0-1), 0 when the bet has no edge
+ */
+export const calculateKellyFraction = (multiplier: number, probability: number): number => {
+  if (multiplier <= 1 || probability <= 0) return 0;
+
+  // f* = (bp - q) / b with net odds b = multiplier - 1, which simplifies to (p * multiplier - 1) / b
+  const fraction = (probability * multiplier - 1) / (multiplier - 1);
+  return Math.min(Math.max(fraction, 0), 1);
+};
+
+/** Share of the full Kelly stake the bet slip suggests; half Kelly gives up little growth for far smaller swings */
+export const KELLY_ADVICE_FRACTION = 0.5;
+
+/**
+ * Calculate the Kelly stake for a bet in dollars
+ * @param balance - Current balance
+ * @param multiplier - Average payout multiplier on a win
+ * @param probability - Win probability (0-1)
+ * @param fraction - Share of the full Kelly stake (0-1), defaults to full Kelly
+ * @returns Stake in whole dollars, 0 when the bet has no edge
+ */
+export const calculateKellyStake = (
+  balance: number,
+  multiplier: number,
+  probability: number,
+  fraction: number = 1
+): number => {
+  return Math.floor(Math.max(balance, 0) * calculateKellyFraction(multiplier, probability) * fraction);
+};
@@ -0,0 +1,94 @@
+import type { BetEvent } from '../types';
+import {
+  createCustomEventId,
+  createEventRegistry,
+  DEFAULT_BET_EVENTS,
+  defineBetEvent,
+  eventRegistry,
+  mergeEventCatalogs,
+  validateBetEvent,
+  validateEventCatalog,
+} from './eventRegistry';
+
+const custom: BetEvent = defineBetEvent({
+  id: 'custom-payday',
+  name: 'Payday',
+  winChance: 0.25,
+  rtp: 0.9,
+  minBet: 10,
+  maxBet: 500,
+  riskLevel: 'Medium',
+  icon: '💸',
+  description: 'Pays 3.6x a quarter of the time.',
+  quips: [],
+});
+
+describe('default catalog', () => {
+  it('is valid', () => {
+    expect(validateEventCatalog(DEFAULT_BET_EVENTS)).toEqual([]);
+  });
+
+  it('looks events up by ID', () => {
+    expect(eventRegistry.getEvent('coin-flip')?.name).toBe('Coin Flip');
+    expect(eventRegistry.getEvent('poker')).toBeUndefined();
+  });
+});
+
+describe('defineBetEvent', () => {
+  it('derives the multiplier from the return to player', () => {
+    expect(custom.multiplier).toBeCloseTo(3.6, 10);
+  });
+});
+
+describe('validateBetEvent', () => {
+  it('reports every problem with the event', () => {
+    expect(validateBetEvent({ ...custom, name: ' ', winChance: 1, minBet: 0, maxBet: -1, riskLevel: 'Extreme' as BetEvent['riskLevel'] })).toEqual([
+      'Event "custom-payday": name is required',
+      'Event "custom-payday": win chance must be between 0 and 1',
+      'Event "custom-payday": minimum bet must be greater than zero',
+      'Event "custom-payday": maximum bet must be at least the minimum bet',
+      'Event "custom-payday": risk level must be one of Low, Medium, High',
+    ]);
+  });
+
+  it('reports a multiplier that can never win', () => {
+    expect(validateBetEvent(defineBetEvent({ ...custom, winChance: 0.9, rtp: 0.85 }))).toEqual([
+      'Event "custom-payday": multiplier must be greater than 1, raise the return to player or lower the win chance',
+    ]);
+  });
+
+  it('reports a pay table missing its selections', () => {
+    expect(validateBetEvent({ ...custom, outcomes: [] })).toEqual(['Event "custom-payday": outcomes and selections must be given together']);
+  });
+});
+
+describe('createEventRegistry', () => {
+  it('rejects a repeated ID', () => {
+    expect(() => createEventRegistry([custom, custom])).toThrow('Event "custom-payday": ID is already in use');
+  });
+});
+
+describe('mergeEventCatalogs', () => {
+  it('adds valid events and skips invalid or clashing ones', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const broken = { ...custom, id: 'custom-broken', minBet: 0 };
+    const clash = { ...custom, id: 'coin-flip' };
+
+    const merged = mergeEventCatalogs(DEFAULT_BET_EVENTS, [custom, broken, clash]);
+
+    expect(merged).toEqual([...DEFAULT_BET_EVENTS, custom]);
+    expect(warn).toHaveBeenCalledTimes(2);
+    warn.mockRestore();
+  });
+});
+
+describe('createCustomEventId', () => {
+  it('slugs the name', () => {
+    expect(createCustomEventId('  Payday, Again!  ', [])).toBe('custom-payday-again');
+    expect(createCustomEventId('💸', [])).toBe('custom-event');
+  });
+
+  it('numbers IDs that are taken', () => {
+    expect(createCustomEventId('Payday', ['custom-payday', 'custom-payday-2'])).toBe('custom-payday-3');
+  });
+});
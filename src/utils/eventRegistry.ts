@@ -0,0 +1,420 @@
+/**
+ * Betting event registry
+ *
+ * Single source of truth for the events a player can bet on. The game,
+ * the bet slip commentary and the analytics all read events from a
+ * registry, so adding an event is one entry in DEFAULT_BET_EVENTS.
+ */
+
+import type { BetEvent, BetOutcome, BetSelection } from '../types';
+import { calculateMultiplierFromRtp } from './betting';
+import { calculateSelectionOdds, hasPayTable, validatePayTable } from './payTable';
+
+/**
+ * Betting event as authored: the payout multiplier is derived from the return to player
+ */
+export type BetEventDefinition = Omit<BetEvent, 'multiplier' | 'outcomes' | 'selections'>;
+
+/**
+ * Multi-outcome event as authored: the headline odds are derived from its default selection
+ */
+export type PayTableEventDefinition = Omit<BetEvent, 'multiplier' | 'winChance' | 'rtp' | 'outcomes' | 'selections'> & {
+  outcomes: BetOutcome[];
+  selections: BetSelection[];
+};
+
+/**
+ * Read-only catalog of validated betting events
+ */
+export interface EventRegistry {
+  /** All events in display order */
+  events: BetEvent[];
+  /** Looks up an event by ID */
+  getEvent: (id: string) => BetEvent | undefined;
+}
+
+const RISK_LEVELS: BetEvent['riskLevel'][] = ['Low', 'Medium', 'High'];
+
+/**
+ * Validate a single betting event
+ * @param event - The event to validate
+ * @returns Error messages, empty if the event is valid
+ */
+export const validateBetEvent = (event: BetEvent): string[] => {
+  const errors: string[] = [];
+  const label = event.id ? `Event "${event.id}"` : 'Event';
+
+  if (!event.id || event.id.trim() === '') {
+    errors.push('Event ID is required');
+  }
+
+  if (!event.name || event.name.trim() === '') {
+    errors.push(`${label}: name is required`);
+  }
+
+  if (isNaN(event.winChance) || event.winChance <= 0 || event.winChance >= 1) {
+    errors.push(`${label}: win chance must be between 0 and 1`);
+  }
+
+  if (isNaN(event.rtp) || event.rtp <= 0 || event.rtp > 2) {
+    errors.push(`${label}: return to player must be between 0% and 200%`);
+  }
+
+  if (isNaN(event.multiplier) || event.multiplier <= 1) {
+    errors.push(`${label}: multiplier must be greater than 1, raise the return to player or lower the win chance`);
+  }
+
+  if (isNaN(event.minBet) || event.minBet <= 0) {
+    errors.push(`${label}: minimum bet must be greater than zero`);
+  }
+
+  if (event.maxBet !== null && (isNaN(event.maxBet) || event.maxBet < event.minBet)) {
+    errors.push(`${label}: maximum bet must be at least the minimum bet`);
+  }
+
+  if (!RISK_LEVELS.includes(event.riskLevel)) {
+    errors.push(`${label}: risk level must be one of ${RISK_LEVELS.join(', ')}`);
+  }
+
+  if (!Array.isArray(event.quips)) {
+    errors.push(`${label}: quips must be a list`);
+  }
+
+  if (event.outcomes !== undefined || event.selections !== undefined) {
+    if (!hasPayTable(event)) {
+      errors.push(`${label}: outcomes and selections must be given together`);
+    } else {
+      validatePayTable(event.outcomes as BetOutcome[], event.selections as BetSelection[])
+        .forEach(error => errors.push(`${label}: ${error}`));
+    }
+  }
+
+  return errors;
+};
+
+/**
+ * Validate a catalog of betting events
+ * @param events - The events to validate
+ * @returns Error messages, empty if every event is valid and IDs are unique
+ */
+export const validateEventCatalog = (events: BetEvent[]): string[] => {
+  const errors: string[] = [];
+  const seenIds: Record<string, boolean> = {};
+
+  events.forEach(event => {
+    errors.push(...validateBetEvent(event));
+
+    if (seenIds[event.id]) {
+      errors.push(`Event "${event.id}": ID is already in use`);
+    }
+    seenIds[event.id] = true;
+  });
+
+  return errors;
+};
+
+/**
+ * Create a registry from a list of events
+ * @param events - The events to register
+ * @returns The event registry
+ * @throws {Error} If any event is invalid or an ID is repeated
+ */
+export const createEventRegistry = (events: BetEvent[]): EventRegistry => {
+  const errors = validateEventCatalog(events);
+  if (errors.length > 0) {
+    throw new Error(`Invalid betting event catalog:\n${errors.join('\n')}`);
+  }
+
+  const byId: Record<string, BetEvent> = {};
+  events.forEach(event => {
+    byId[event.id] = event;
+  });
+
+  return {
+    events,
+    getEvent: (id: string) => byId[id],
+  };
+};
+
+/**
+ * Build an event from its definition, deriving the payout from the return to player
+ * @param definition - The event as authored
+ * @returns The playable event
+ */
+export const defineBetEvent = (definition: BetEventDefinition): BetEvent => ({
+  ...definition,
+  multiplier: calculateMultiplierFromRtp(definition.rtp, definition.winChance),
+});
+
+/**
+ * Build a multi-outcome event, taking its headline odds from the default selection
+ * @param definition - The event as authored
+ * @returns The playable event
+ */
+export const definePayTableEvent = (definition: PayTableEventDefinition): BetEvent => {
+  const odds = calculateSelectionOdds(definition.outcomes, definition.selections[0]);
+
+  return {
+    ...definition,
+    winChance: odds.winChance,
+    rtp: odds.rtp,
+    // Only the winning outcomes count toward the headline multiplier; refunds are part of the return to player
+    multiplier: calculateMultiplierFromRtp(odds.averagePayout * odds.winChance, odds.winChance),
+  };
+};
+
+/**
+ * Append extra events to a catalog, skipping any that are invalid or reuse an ID
+ * @param base - The catalog to extend
+ * @param extra - Events to add, e.g. user-defined events read from storage
+ * @returns The merged catalog
+ */
+export const mergeEventCatalogs = (base: BetEvent[], extra: BetEvent[]): BetEvent[] => {
+  const merged = [...base];
+
+  extra.forEach(event => {
+    const errors = validateEventCatalog([...merged, event]);
+    if (errors.length > 0) {
+      console.warn(`Skipping invalid betting event "${event.id}":`, errors);
+      return;
+    }
+    merged.push(event);
+  });
+
+  return merged;
+};
+
+/**
+ * Create a unique ID for a user-defined event
+ * @param name - Display name of the event
+ * @param existingIds - IDs already in the catalog
+ * @returns An ID that does not clash with existing ones
+ */
+export const createCustomEventId = (name: string, existingIds: string[]): string => {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'event';
+  let id = `custom-${slug}`;
+  let suffix = 2;
+
+  while (existingIds.includes(id)) {
+    id = `custom-${slug}-${suffix}`;
+    suffix++;
+  }
+
+  return id;
+};
+
+/** Red numbers on a single-zero roulette wheel */
+const ROULETTE_RED_NUMBERS = [1, 3, 5, 7, 9, 12, 14, 16, 18, 19, 21, 23, 25, 27, 30, 32, 34, 36];
+
+/**
+ * Pockets of a single-zero roulette wheel
+ */
+const createRouletteOutcomes = (): BetOutcome[] => {
+  const outcomes: BetOutcome[] = [];
+  for (let number = 0; number <= 36; number++) {
+    const color = number === 0 ? 'Green' : ROULETTE_RED_NUMBERS.includes(number) ? 'Red' : 'Black';
+    outcomes.push({ id: String(number), label: `${number} ${color}`, probability: 1 / 37 });
+  }
+  return outcomes;
+};
+
+/**
+ * Builds a selection that pays the same return on each of the given numbers
+ */
+const createNumbersSelection = (id: string, label: string, numbers: number[], payout: number): BetSelection => {
+  const payouts: Record<string, number> = {};
+  numbers.forEach(number => {
+    payouts[String(number)] = payout;
+  });
+  return { id, label, payouts };
+};
+
+/**
+ * Roulette bets: colors and dozens, then a straight-up bet on every number
+ */
+const createRouletteSelections = (): BetSelection[] => {
+  const numbers: number[] = [];
+  for (let number = 1; number <= 36; number++) {
+    numbers.push(number);
+  }
+
+  const selections = [
+    createNumbersSelection('red', 'Red (2x)', ROULETTE_RED_NUMBERS, 2),
+    createNumbersSelection('black', 'Black (2x)', numbers.filter(n => !ROULETTE_RED_NUMBERS.includes(n)), 2),
+    createNumbersSelection('dozen-1', '1st Dozen: 1-12 (3x)', numbers.slice(0, 12), 3),
+    createNumbersSelection('dozen-2', '2nd Dozen: 13-24 (3x)', numbers.slice(12, 24), 3),
+    createNumbersSelection('dozen-3', '3rd Dozen: 25-36 (3x)', numbers.slice(24), 3),
+  ];
+
+  for (let number = 0; number <= 36; number++) {
+    selections.push(createNumbersSelection(`straight-${number}`, `Straight Up ${number} (36x)`, [number], 36));
+  }
+
+  return selections;
+};
+
+/**
+ * Faces of a six-sided die
+ */
+const DIE_OUTCOMES: BetOutcome[] = [1, 2, 3, 4, 5, 6].map(face => ({
+  id: String(face),
+  label: String(face),
+  probability: 1 / 6,
+}));
+
+/**
+ * Built-in betting events
+ */
+export const DEFAULT_BET_EVENTS: BetEvent[] = [
+  defineBetEvent({
+    id: 'coin-flip',
+    name: 'Coin Flip',
+    winChance: 0.5,
+    rtp: 0.97,
+    minBet: 10,
+    maxBet: null,
+    riskLevel: 'Low',
+    icon: '🪙',
+    description: "Heads or tails? A 50/50 chance that pays 1.94x - the missing 6 cents is the house's cut.",
+    quips: [
+      "Heads you win, tails you... oh, never mind.",
+      "That coin had other plans for your money!",
+      "The coin has spoken! And it's kind of sassy today.",
+      "If only you could flip your financial decisions as easily!",
+      "This coin must be from the Treasury Department of Pain!"
+    ],
+  }),
+  definePayTableEvent({
+    id: 'dice-roll',
+    name: 'Dice Roll',
+    minBet: 50,
+    maxBet: 2000,
+    riskLevel: 'Medium',
+    icon: '🎲',
+    description: 'Roll a six to win 5.76x, or call over or under 3.5 for 1.92x. Can you beat the odds?',
+    outcomes: DIE_OUTCOMES,
+    selections: [
+      { id: 'six', label: 'Six (5.76x)', payouts: { '6': 5.76 } },
+      { id: 'over', label: 'Over 3.5 (1.92x)', payouts: { '4': 1.92, '5': 1.92, '6': 1.92 } },
+      { id: 'under', label: 'Under 3.5 (1.92x)', payouts: { '1': 1.92, '2': 1.92, '3': 1.92 } },
+    ],
+    quips: [
+      "Those dice have a vendetta against your wallet!",
+      "The dice gods demand a sacrifice... of your balance!",
+      "Snake eyes? More like snake, why?!",
+      "Dice be rollin', your balance be fallin'!",
+      "The dice are loaded... with disappointment!"
+    ],
+  }),
+  defineBetEvent({
+    id: 'bullseye',
+    name: 'Bullseye',
+    winChance: 0.33,
+    rtp: 0.95,
+    minBet: 30,
+    maxBet: 1500,
+    riskLevel: 'Low',
+    icon: '🎯',
+    description: 'Hit the target and nearly triple your bet. Steady hands win.',
+    quips: [
+      "Bullseye? More like bull-sigh today!",
+      "You missed the target but hit your wallet perfectly!",
+      "Your aim is almost as bad as your betting strategy!",
+      "The target was your money all along!",
+      "Dart throwing AND money throwing - you're multitalented!"
+    ],
+  }),
+  definePayTableEvent({
+    id: 'roulette',
+    name: 'Roulette',
+    minBet: 100,
+    maxBet: 1000,
+    riskLevel: 'High',
+    icon: '🎰',
+    description: 'Back red or black, a dozen, or a single number paid 35 to 1. The green zero is the house edge.',
+    outcomes: createRouletteOutcomes(),
+    selections: createRouletteSelections(),
+    quips: [
+      "Round and round the wheel goes, where your money stops, nobody knows!",
+      "The ball has betrayed you in spectacular fashion!",
+      "That roulette wheel is just a fancy money disposal!",
+      "You've been wheelie unlucky today!",
+      "At least in Vegas they'd give you a free drink with that loss!"
+    ],
+  }),
+  definePayTableEvent({
+    id: 'sports-match',
+    name: 'Sports Match',
+    minBet: 25,
+    maxBet: 5000,
+    riskLevel: 'Medium',
+    icon: '⚽',
+    description: 'Bet on the underdog team and get 3.1x your money if they win, or play draw no bet to get your stake back on a draw.',
+    outcomes: [
+      { id: 'underdog', label: 'Underdog wins', probability: 0.3 },
+      { id: 'draw', label: 'Draw', probability: 0.25 },
+      { id: 'favorite', label: 'Favorite wins', probability: 0.45 },
+    ],
+    selections: [
+      { id: 'underdog', label: 'Underdog (3.1x)', payouts: { underdog: 3.1 } },
+      { id: 'draw-no-bet', label: 'Underdog, Draw No Bet (2.26x)', payouts: { underdog: 2.26, draw: 1 } },
+    ],
+    quips: [
+      "The underdog stayed under. Who could have guessed?",
+      "Your team played like they had money on the other side!",
+      "Offside! Specifically, your wallet.",
+      "That's why they call them the underdogs!",
+      "The ref saw everything... except your bet."
+    ],
+  }),
+  defineBetEvent({
+    id: 'mega-jackpot',
+    name: 'Mega Jackpot',
+    winChance: 0.05,
+    rtp: 0.9,
+    minBet: 200,
+    maxBet: 2000,
+    riskLevel: 'High',
+    icon: '💰',
+    description: 'Go for the mega jackpot! Low chance but 18x rewards await.',
+    quips: [
+      "The jackpot is mega. Your odds, less so.",
+      "Somebody wins the jackpot eventually. Statistically, not you.",
+      "Your lucky numbers are clearly taking a day off!",
+      "Think of all the losing spins you're saving for later!",
+      "Your fortune cookie lied to you!"
+    ],
+  }),
+  definePayTableEvent({
+    id: 'lucky-reel',
+    name: 'Lucky Reel',
+    minBet: 20,
+    maxBet: 1000,
+    riskLevel: 'Medium',
+    icon: '🍒',
+    description: 'Spin a weighted reel: cherries are common and pay 1.3x, lemons hand back half your stake and a lucky seven pays 10x.',
+    outcomes: [
+      { id: 'blank', label: 'Blank', probability: 0.47 },
+      { id: 'lemon', label: '🍋 Lemon', probability: 0.1 },
+      { id: 'cherry', label: '🍒 Cherry', probability: 0.28 },
+      { id: 'bar', label: '🟫 Bar', probability: 0.1 },
+      { id: 'bell', label: '🔔 Bell', probability: 0.04 },
+      { id: 'seven', label: '7️⃣ Seven', probability: 0.01 },
+    ],
+    selections: [
+      { id: 'spin', label: 'Spin', payouts: { lemon: 0.5, cherry: 1.3, bar: 2.5, bell: 4, seven: 10 } },
+    ],
+    quips: [
+      "The reel giveth, and the reel mostly taketh away.",
+      "So many blanks, so little balance!",
+      "That seven is out there somewhere. Just not here.",
+      "Cherries are nice, but they don't pay the rent!",
+      "Spin to win? More like spin to spin again!"
+    ],
+  }),
+];
+
+/**
+ * Registry of the built-in betting events
+ */
+export const eventRegistry = createEventRegistry(DEFAULT_BET_EVENTS);
@@ -0,0 +1,67 @@
+import {
+  computeRoll,
+  createFairnessState,
+  deriveServerSeed,
+  hashServerSeed,
+  verifyFairnessProof,
+} from './fairness';
+import { createSeededRandom } from './random';
+
+describe('server seeds', () => {
+  it('are 256-bit hex strings', () => {
+    expect(deriveServerSeed(42, 0)).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('are the same for the same session seed and nonce', () => {
+    expect(deriveServerSeed(42, 3)).toBe(deriveServerSeed(42, 3));
+    expect(createFairnessState(42, createSeededRandom(42))).toEqual(createFairnessState(42, createSeededRandom(42)));
+  });
+
+  it('differ for another nonce or session seed', () => {
+    expect(deriveServerSeed(42, 4)).not.toBe(deriveServerSeed(42, 3));
+    expect(deriveServerSeed(43, 3)).not.toBe(deriveServerSeed(42, 3));
+  });
+
+  it('are committed to by the fairness state', () => {
+    const fairness = createFairnessState(42, createSeededRandom(42), 5);
+
+    expect(fairness.nonce).toBe(5);
+    expect(fairness.serverSeed).toBe(deriveServerSeed(42, 5));
+    expect(fairness.serverSeedHash).toBe(hashServerSeed(fairness.serverSeed));
+  });
+});
+
+describe('verifyFairnessProof', () => {
+  const serverSeed = 'ab'.repeat(32);
+  const proof = {
+    serverSeed,
+    serverSeedHash: hashServerSeed(serverSeed),
+    clientSeed: 'lucky',
+    nonce: 3,
+    roll: computeRoll(serverSeed, 'lucky', 3),
+  };
+
+  it('accepts a proof that was recorded honestly', () => {
+    expect(verifyFairnessProof(proof)).toEqual({ hashMatches: true, rollMatches: true, roll: proof.roll });
+  });
+
+  it('spots a server seed that was swapped after the commitment', () => {
+    const swapped = 'cd'.repeat(32);
+
+    expect(verifyFairnessProof({ ...proof, serverSeed: swapped, roll: computeRoll(swapped, 'lucky', 3) }).hashMatches).toBe(false);
+  });
+
+  it('spots a roll that does not follow from the seeds', () => {
+    expect(verifyFairnessProof({ ...proof, roll: 0.5 }).rollMatches).toBe(false);
+  });
+
+  it('rolls in the range [0, 1) and differently for each nonce', () => {
+    const rolls = [0, 1, 2, 3, 4].map(nonce => computeRoll(serverSeed, 'lucky', nonce));
+
+    rolls.forEach(roll => {
+      expect(roll).toBeGreaterThanOrEqual(0);
+      expect(roll).toBeLessThan(1);
+    });
+    expect(new Set(rolls).size).toBe(rolls.length);
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Provably-fair outcome derivation
+ *
+ * Before a bet, the game commits to a secret server seed by publishing its
+ * SHA-256 hash. The bet's roll is derived from
+ * HMAC-SHA256(serverSeed, `${clientSeed}:${nonce}`), and the server seed is
+ * revealed once the bet settles, so anyone can recompute the roll and check
+ * that it matches both the commitment and the recorded outcome.
+ *
+ * Each server seed is derived from the session seed and the bet's nonce, so
+ * replaying a session seed with the same client seed replays the same rolls.
+ * The commitment shows the roll was fixed before the bet; since the session
+ * seed is on screen, it doesn't keep the player from working a roll out.
+ */
+
+import type { BetOutcome } from '../types';
+import { formatSeed, RandomGenerator } from './random';
+import { sha256Hex, hmacSha256Hex } from './hash';
+
+/**
+ * Odds a bet was settled with, kept so the bet can still be verified after
+ * its event is edited or deleted
+ */
+export interface RecordedOdds {
+  /** Outcomes of the event, in roll order */
+  outcomes: BetOutcome[];
+  /** Total return per unit staked the backed selection paid for each outcome */
+  payouts: Record<string, number>;
+}
+
+/**
+ * Everything needed to verify a settled bet
+ */
+export interface FairnessProof {
+  /** Server seed, revealed after the bet settled */
+  serverSeed: string;
+  /** SHA-256 hash of the server seed, committed before the bet */
+  serverSeedHash: string;
+  /** Client seed chosen by the player */
+  clientSeed: string;
+  /** Number of bets placed before this one in the session */
+  nonce: number;
+  /** Roll derived from the seeds, in the range [0, 1) */
+  roll: number;
+  /** Odds the bet was settled with; absent on bets placed before they were recorded */
+  odds?: RecordedOdds;
+}
+
+/**
+ * Result of re-checking a fairness proof
+ */
+export interface FairnessVerification {
+  /** Whether the revealed server seed hashes to the committed hash */
+  hashMatches: boolean;
+  /** Whether the recomputed roll equals the recorded roll */
+  rollMatches: boolean;
+  /** Roll recomputed from the seeds */
+  roll: number;
+}
+
+/** Number of hex characters of the HMAC used for the roll (52 bits, exact in a double) */
+const ROLL_HEX_LENGTH = 13;
+
+/**
+ * Derives the server seed of a bet from the session seed
+ *
+ * @param sessionSeed - Seed of the session
+ * @param nonce - Nonce of the bet
+ * @returns Server seed as a 64 character hex string
+ */
+export const deriveServerSeed = (sessionSeed: number, nonce: number): string =>
+  hmacSha256Hex(`server-seed:${formatSeed(sessionSeed)}`, String(nonce));
+
+/**
+ * Generates a default client seed
+ *
+ * The client seed is public, so it is drawn from the session's random
+ * generator and a replayed seed starts with the same client seed.
+ *
+ * @param rng - Random generator to draw from
+ * @returns Client seed as a 16 character hex string
+ */
+export const generateClientSeed = (rng: RandomGenerator): string => {
+  let seed = '';
+  for (let i = 0; i < 2; i++) {
+    seed += Math.floor(rng.next() * 4294967296).toString(16).padStart(8, '0');
+  }
+  return seed;
+};
+
+/**
+ * Hashes a server seed for the pre-bet commitment
+ *
+ * @param serverSeed - Server seed to commit to
+ * @returns SHA-256 hash as hex
+ */
+export const hashServerSeed = (serverSeed: string): string => sha256Hex(serverSeed);
+
+/**
+ * Derives a bet's roll from its seeds
+ *
+ * @param serverSeed - Server seed
+ * @param clientSeed - Client seed
+ * @param nonce - Bet nonce
+ * @returns Roll in the range [0, 1)
+ */
+export const computeRoll = (serverSeed: string, clientSeed: string, nonce: number): number => {
+  const mac = hmacSha256Hex(serverSeed, `${clientSeed}:${nonce}`);
+  return parseInt(mac.slice(0, ROLL_HEX_LENGTH), 16) / Math.pow(16, ROLL_HEX_LENGTH);
+};
+
+/**
+ * Recomputes a proof from its revealed seeds
+ *
+ * @param proof - Proof recorded on a bet
+ * @returns Which parts of the proof check out
+ */
+export const verifyFairnessProof = (proof: FairnessProof): FairnessVerification => {
+  const roll = computeRoll(proof.serverSeed, proof.clientSeed, proof.nonce);
+
+  return {
+    hashMatches: hashServerSeed(proof.serverSeed) === proof.serverSeedHash,
+    rollMatches: roll === proof.roll,
+    roll,
+  };
+};
+
+/**
+ * Provably-fair state carried between bets in a session
+ */
+export interface FairnessState {
+  /** Server seed for the next bet, derived from the session seed and nonce */
+  serverSeed: string;
+  /** SHA-256 hash of the server seed, the commitment shown before the bet */
+  serverSeedHash: string;
+  /** Client seed for the next bet */
+  clientSeed: string;
+  /** Nonce for the next bet */
+  nonce: number;
+}
+
+/**
+ * Commits to the server seed of the next bet
+ *
+ * @param fairness - Client seed and nonce of the next bet
+ * @param sessionSeed - Seed of the session the server seed is derived from
+ * @returns The fairness state with the server seed and its hash
+ */
+export const commitServerSeed = (fairness: Omit<FairnessState, 'serverSeed' | 'serverSeedHash'>, sessionSeed: number): FairnessState => {
+  const serverSeed = deriveServerSeed(sessionSeed, fairness.nonce);
+  return { ...fairness, serverSeed, serverSeedHash: hashServerSeed(serverSeed) };
+};
+
+/**
+ * Creates the provably-fair state for a new session
+ *
+ * @param sessionSeed - Seed of the session
+ * @param rng - Session random generator, for the default client seed
+ * @param nonce - Nonce of the next bet
+ * @returns Fresh fairness state
+ */
+export const createFairnessState = (sessionSeed: number, rng: RandomGenerator, nonce: number = 0): FairnessState =>
+  commitServerSeed({ clientSeed: generateClientSeed(rng), nonce }, sessionSeed);
@@ -0,0 +1,81 @@
+import type { BetHistory, SettlementOutcome } from '../types';
+import { eventRegistry } from './eventRegistry';
+import { calculateFinancialMetrics } from './financialMetrics';
+
+const noEvent = () => undefined;
+
+/**
+ * A $100 coin flip with a 3% house edge, placed a minute after the previous one
+ */
+const betOf = (minute: number, outcome: SettlementOutcome, winAmount: number, balanceAfter: number): BetHistory => ({
+  id: `bet-${minute}`,
+  eventId: 'coin-flip',
+  eventName: 'Coin Flip',
+  betAmount: 100,
+  outcome,
+  winAmount,
+  balanceAfter,
+  riskPercentage: 10,
+  houseEdge: 0.03,
+  timestamp: new Date(Date.UTC(2024, 0, 1, 10, minute)),
+});
+
+const history = [
+  betOf(1, 'win', 100, 1100),
+  betOf(2, 'loss', -100, 1000),
+  betOf(3, 'push', 0, 1000),
+  betOf(4, 'partial', -50, 950),
+  betOf(5, 'win', 100, 1050),
+];
+
+describe('calculateFinancialMetrics', () => {
+  it('counts partial refunds as losses and leaves pushes out of the win rate', () => {
+    const metrics = calculateFinancialMetrics(history, noEvent);
+
+    expect(metrics).toMatchObject({ wins: 2, losses: 2, pushes: 1, partials: 1, winLossRatio: 1, winRate: 0.5 });
+  });
+
+  it('adds up the money won, lost and staked', () => {
+    const metrics = calculateFinancialMetrics(history, noEvent);
+
+    expect(metrics).toMatchObject({ totalWon: 200, totalLost: 150, totalInvested: 500, netProfit: 50, roi: 10, actualLoss: -50 });
+    expect(metrics.expectedLoss).toBeCloseTo(15, 10);
+    expect(metrics.averageHouseEdge).toBeCloseTo(3, 10);
+  });
+
+  it('falls back to the event\'s house edge for bets saved without one', () => {
+    const { houseEdge, ...withoutEdge } = history[0];
+    const coinFlipEdge = 1 - eventRegistry.getEvent('coin-flip')!.rtp;
+
+    expect(calculateFinancialMetrics([withoutEdge], eventRegistry.getEvent).expectedLoss).toBeCloseTo(100 * coinFlipEdge, 10);
+    expect(calculateFinancialMetrics([withoutEdge], noEvent).expectedLoss).toBe(0);
+  });
+
+  it('measures stakes against the balance and the drawdown from the peak', () => {
+    const metrics = calculateFinancialMetrics(history, noEvent);
+
+    expect(metrics.maxStakePercentage).toBeCloseTo(100 / 950 * 100, 10);
+    expect(metrics.maxDrawdown).toBeCloseTo(150 / 1100 * 100, 10);
+  });
+
+  it('follows streaks in time order, skipping pushes', () => {
+    const metrics = calculateFinancialMetrics([...history].reverse(), noEvent);
+
+    expect(metrics).toMatchObject({ maxWinStreak: 1, maxLossStreak: 2, currentStreak: 1 });
+    // Of the two losses followed by another decided bet, one was followed by a win
+    expect(metrics.recoveryRate).toBe(50);
+  });
+
+  it('reports zeros for an empty history', () => {
+    expect(calculateFinancialMetrics([], noEvent)).toMatchObject({
+      wins: 0,
+      winRate: 0,
+      roi: 0,
+      averageHouseEdge: 0,
+      avgStakePercentage: 0,
+      maxStakePercentage: 0,
+      maxDrawdown: 0,
+      recoveryRate: 0,
+    });
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Financial metrics of a betting history
+ *
+ * Win/loss record, profit and return, stake sizing, drawdown, streaks and
+ * the loss the house edge predicts. Pushes return the stake and count as
+ * neither a win nor a loss; partial refunds count as losses.
+ */
+
+import type { BetEvent, BetHistory } from '../types';
+import { calculateKellyDiscipline, KellyDiscipline } from './analytics';
+import { getSelectionOdds } from './payTable';
+import { calculateWinRate, isDecidedOutcome, isLosingOutcome } from './settlement';
+
+/**
+ * Fewest bets the financial metrics are reported for
+ */
+export const FINANCIAL_METRICS_MIN_BETS = 3;
+
+/**
+ * Financial metrics of a betting history
+ */
+export interface FinancialMetricsSummary {
+  /** Number of bets won */
+  wins: number;
+  /** Number of bets lost, including partial refunds */
+  losses: number;
+  /** Number of pushes */
+  pushes: number;
+  /** Number of partial refunds */
+  partials: number;
+  /** Wins per loss; the number of wins when there is no loss */
+  winLossRatio: number;
+  /** Share of decided bets that were won (0-1) */
+  winRate: number;
+  /** Total won on winning bets */
+  totalWon: number;
+  /** Total lost on losing bets and partial refunds */
+  totalLost: number;
+  /** Total amount staked */
+  totalInvested: number;
+  /** Total won minus total lost */
+  netProfit: number;
+  /** Net profit per unit staked, in percent */
+  roi: number;
+  /** Loss the house edge predicts on the amount staked */
+  expectedLoss: number;
+  /** House edge weighted by stake, in percent */
+  averageHouseEdge: number;
+  /** Loss actually made; negative for a profit */
+  actualLoss: number;
+  /** Stakes compared with the Kelly stake */
+  kelly: KellyDiscipline;
+  /** Average stake as a share of the balance after the bet, in percent */
+  avgStakePercentage: number;
+  /** Largest stake as a share of the balance after the bet, in percent */
+  maxStakePercentage: number;
+  /** Largest fall from a peak balance, in percent */
+  maxDrawdown: number;
+  /** Longest run of wins */
+  maxWinStreak: number;
+  /** Longest run of losses */
+  maxLossStreak: number;
+  /** Current run: positive for wins, negative for losses */
+  currentStreak: number;
+  /** Share of losses followed by a win, in percent */
+  recoveryRate: number;
+}
+
+/**
+ * Calculate the financial metrics of a betting history
+ * @param betHistory - Bets to analyze
+ * @param getEvent - Looks up an event, for bets saved before house edges were recorded
+ * @returns The financial metrics
+ */
+export const calculateFinancialMetrics = (
+  betHistory: BetHistory[],
+  getEvent: (eventId: string) => BetEvent | undefined
+): FinancialMetricsSummary => {
+  // Sort bets by timestamp
+  const sortedBets = [...betHistory].sort((a, b) =>
+    new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+  );
+
+  // Win/loss record; pushes return the stake and count as neither
+  const wins = betHistory.filter(bet => bet.outcome === 'win').length;
+  const losses = betHistory.filter(bet => isLosingOutcome(bet.outcome)).length;
+  const pushes = betHistory.filter(bet => bet.outcome === 'push').length;
+  const partials = betHistory.filter(bet => bet.outcome === 'partial').length;
+
+  // Total won/lost; partial refunds only lose the part of the stake that was kept
+  const totalWon = betHistory
+    .filter(bet => bet.outcome === 'win')
+    .reduce((sum, bet) => sum + bet.winAmount, 0);
+  const totalLost = betHistory
+    .filter(bet => isLosingOutcome(bet.outcome))
+    .reduce((sum, bet) => sum + Math.abs(bet.winAmount), 0);
+
+  const totalInvested = betHistory.reduce((sum, bet) => sum + bet.betAmount, 0);
+  const netProfit = totalWon - totalLost;
+
+  // Expected loss from the house edge; bets saved before edges were recorded fall back to the current event
+  const expectedLoss = betHistory.reduce((sum, bet) => {
+    const event = getEvent(bet.eventId);
+    const houseEdge = bet.houseEdge ?? (event && getSelectionOdds(event, bet.selectionId)?.houseEdge) ?? 0;
+    return sum + bet.betAmount * houseEdge;
+  }, 0);
+
+  // Stake sizing relative to the bankroll
+  const stakePercentages = betHistory.map(bet => (bet.betAmount / bet.balanceAfter) * 100);
+
+  // Maximum drawdown from the highest balance reached
+  let maxBalance = sortedBets.length > 0 ? sortedBets[0].balanceAfter : 0;
+  let maxDrawdown = 0;
+  for (const bet of sortedBets) {
+    maxBalance = Math.max(maxBalance, bet.balanceAfter);
+    maxDrawdown = Math.max(maxDrawdown, ((maxBalance - bet.balanceAfter) / maxBalance) * 100);
+  }
+
+  // Consecutive wins/losses; a push neither extends nor breaks a streak
+  let maxWinStreak = 0;
+  let maxLossStreak = 0;
+  let currentWinStreak = 0;
+  let currentLossStreak = 0;
+  let currentStreak = 0;
+  const decidedBets = sortedBets.filter(bet => isDecidedOutcome(bet.outcome));
+  for (const bet of decidedBets) {
+    if (bet.outcome === 'win') {
+      currentWinStreak++;
+      currentLossStreak = 0;
+      currentStreak = currentWinStreak;
+      maxWinStreak = Math.max(maxWinStreak, currentWinStreak);
+    } else {
+      currentLossStreak++;
+      currentWinStreak = 0;
+      currentStreak = -currentLossStreak;
+      maxLossStreak = Math.max(maxLossStreak, currentLossStreak);
+    }
+  }
+
+  // Recovery after losses: how often the next decided bet is a win
+  let lossFollowedByWinCount = 0;
+  let totalLossesFollowedByAnyBet = 0;
+  for (let i = 0; i < decidedBets.length - 1; i++) {
+    if (isLosingOutcome(decidedBets[i].outcome)) {
+      totalLossesFollowedByAnyBet++;
+      if (decidedBets[i+1].outcome === 'win') {
+        lossFollowedByWinCount++;
+      }
+    }
+  }
+
+  return {
+    wins,
+    losses,
+    pushes,
+    partials,
+    winLossRatio: losses === 0 ? wins : wins / losses,
+    winRate: calculateWinRate(betHistory),
+    totalWon,
+    totalLost,
+    totalInvested,
+    netProfit,
+    roi: totalInvested > 0 ? (netProfit / totalInvested) * 100 : 0,
+    expectedLoss,
+    averageHouseEdge: totalInvested > 0 ? (expectedLoss / totalInvested) * 100 : 0,
+    actualLoss: -netProfit,
+    kelly: calculateKellyDiscipline(betHistory),
+    avgStakePercentage: stakePercentages.length > 0
+      ? stakePercentages.reduce((sum, pct) => sum + pct, 0) / stakePercentages.length
+      : 0,
+    maxStakePercentage: stakePercentages.length > 0 ? Math.max(...stakePercentages) : 0,
+    maxDrawdown,
+    maxWinStreak,
+    maxLossStreak,
+    currentStreak,
+    recoveryRate: totalLossesFollowedByAnyBet > 0
+      ? (lossFollowedByWinCount / totalLossesFollowedByAnyBet) * 100
+      : 0,
+  };
+};
@@ -44,6 +44,22 @@ export const formatDate = (date: Date | string, includeTime: boolean = false): s
   return dateObj.toLocaleDateString('en-US', options);
 };
 
+/**
+ * Format a length of time as a short string
+ * @param milliseconds - The duration
+ * @returns Formatted duration, e.g. "1h 05m", "12m 30s" or "45s"
+ */
+export const formatDuration = (milliseconds: number): string => {
+  const totalSeconds = Math.max(0, Math.round(milliseconds / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (hours > 0) return `${hours}h ${String(minutes).padStart(2, '0')}m`;
+  if (minutes > 0) return `${minutes}m ${String(seconds).padStart(2, '0')}s`;
+  return `${seconds}s`;
+};
+
 /**
  * Truncate a string to a specified length with an ellipsis
  * @param str - The string to truncate
@@ -0,0 +1,91 @@
+import type { BetHistory, SettlementOutcome } from '../types';
+import { DEFAULT_GOALS, evaluateGoals, formatGoalValue, Goal, loadGoals, saveGoals } from './goals';
+
+/**
+ * A bet placed the given number of minutes after 10:00
+ */
+const betOf = (minute: number, outcome: SettlementOutcome, betAmount: number, balanceAfter: number): BetHistory => ({
+  id: `bet-${minute}`,
+  eventId: 'coin-flip',
+  eventName: 'Coin Flip',
+  betAmount,
+  outcome,
+  winAmount: outcome === 'win' ? betAmount : -betAmount,
+  balanceAfter,
+  riskPercentage: 30,
+  timestamp: new Date(Date.UTC(2024, 0, 1, 10, minute)),
+});
+
+// Three bets in ten minutes, then one after a 50 minute break; up 5% from $1000
+const history = [
+  betOf(0, 'win', 50, 1050),
+  betOf(5, 'loss', 50, 1000),
+  betOf(10, 'loss', 50, 950),
+  betOf(60, 'win', 100, 1050),
+];
+
+const completed = (goals: Goal[]) => goals.filter(goal => goal.isCompleted).map(goal => goal.id);
+
+const withTargets = (targets: Record<string, number>): Goal[] =>
+  DEFAULT_GOALS.map(goal => ({ ...goal, currentValue: targets[goal.id] ?? goal.currentValue }));
+
+describe('formatGoalValue', () => {
+  it('writes the target with its unit', () => {
+    expect(DEFAULT_GOALS.slice(0, 3).map(formatGoalValue)).toEqual(['10%', '60 min', '20']);
+  });
+});
+
+describe('evaluateGoals', () => {
+  it('checks every goal against the history', () => {
+    expect(completed(evaluateGoals(DEFAULT_GOALS, history))).toEqual([
+      'max-bet',
+      'session-limit',
+      'bet-frequency',
+      'risk-level',
+      'break-frequency',
+      'loss-limit',
+    ]);
+  });
+
+  it('fails goals the history goes past', () => {
+    const goals = evaluateGoals(withTargets({
+      // The largest stake was 100 of 1050
+      'max-bet': 9,
+      // The first session lasted 10 minutes
+      'session-limit': 5,
+      'bet-frequency': 3,
+      'risk-level': 25,
+      // Three bets came less than 10 minutes apart
+      'break-frequency': 2,
+      // The balance fell 5% below where it started
+      'loss-limit': 4,
+    }), history);
+
+    expect(completed(goals)).toEqual([]);
+  });
+
+  it('completes the profit target once it is reached', () => {
+    expect(completed(evaluateGoals(withTargets({ 'profit-target': 5 }), history))).toContain('profit-target');
+  });
+
+  it('reads the bets in time order', () => {
+    expect(evaluateGoals(DEFAULT_GOALS, [...history].reverse())).toEqual(evaluateGoals(DEFAULT_GOALS, history));
+  });
+});
+
+describe('loadGoals and saveGoals', () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+  });
+
+  it('start from the default goals', () => {
+    expect(loadGoals()).toEqual(DEFAULT_GOALS);
+  });
+
+  it('read back the saved goals', () => {
+    const goals = withTargets({ 'max-bet': 5 });
+    saveGoals(goals);
+
+    expect(loadGoals()).toEqual(goals);
+  });
+});
@@ -0,0 +1,256 @@
+/**
+ * Responsible gambling goals
+ *
+ * Personal limits the player sets on the Analytics page (bet size, session
+ * length, bets per day, risk, breaks, profit target and loss limit) and
+ * whether the betting history keeps to them. Goals are stored in
+ * localStorage with their last evaluation.
+ */
+
+import type { BetHistory } from '../types';
+import { STORAGE_KEYS } from './constants';
+
+/**
+ * Fewest bets the goals are evaluated against
+ */
+export const GOAL_MIN_BETS = 3;
+
+/**
+ * Unit of a goal's target
+ */
+export type GoalType = 'percentage' | 'minutes' | 'count';
+
+/**
+ * A responsible gambling goal
+ */
+export interface Goal {
+  /** Identifier of the goal */
+  id: string;
+  /** Short name */
+  title: string;
+  /** What the goal asks for */
+  description: string;
+  /** Unit of the target */
+  type: GoalType;
+  /** Target the goal starts with */
+  defaultValue: number;
+  /** Target the player set */
+  currentValue: number;
+  /** Whether the betting history keeps to the target */
+  isCompleted: boolean;
+  /** Whether the player is tracking the goal */
+  isActive: boolean;
+}
+
+/**
+ * Goals every player starts with
+ */
+export const DEFAULT_GOALS: Goal[] = [
+  {
+    id: 'max-bet',
+    title: 'Maximum Bet Size',
+    description: 'Set a maximum percentage of your bankroll for any single bet',
+    type: 'percentage',
+    defaultValue: 10,
+    currentValue: 10,
+    isCompleted: false,
+    isActive: true
+  },
+  {
+    id: 'session-limit',
+    title: 'Session Time Limit',
+    description: 'Set a maximum duration for your betting sessions',
+    type: 'minutes',
+    defaultValue: 60,
+    currentValue: 60,
+    isCompleted: false,
+    isActive: true
+  },
+  {
+    id: 'bet-frequency',
+    title: 'Daily Bet Limit',
+    description: 'Set a maximum number of bets you want to place per day',
+    type: 'count',
+    defaultValue: 20,
+    currentValue: 20,
+    isCompleted: false,
+    isActive: true
+  },
+  {
+    id: 'risk-level',
+    title: 'Average Risk Level',
+    description: 'Keep your average risk level below this percentage',
+    type: 'percentage',
+    defaultValue: 40,
+    currentValue: 40,
+    isCompleted: false,
+    isActive: true
+  },
+  {
+    id: 'break-frequency',
+    title: 'Break Frequency',
+    description: 'Take a break after this many consecutive bets',
+    type: 'count',
+    defaultValue: 5,
+    currentValue: 5,
+    isCompleted: false,
+    isActive: true
+  },
+  {
+    id: 'profit-target',
+    title: 'Profit Target',
+    description: 'Stop when you reach this profit percentage in a session',
+    type: 'percentage',
+    defaultValue: 50,
+    currentValue: 50,
+    isCompleted: false,
+    isActive: false
+  },
+  {
+    id: 'loss-limit',
+    title: 'Loss Limit',
+    description: 'Stop when you lose this percentage of your bankroll',
+    type: 'percentage',
+    defaultValue: 20,
+    currentValue: 20,
+    isCompleted: false,
+    isActive: false
+  }
+];
+
+/**
+ * Format a goal's target with its unit
+ * @param goal - The goal
+ * @returns The target, e.g. "10%" or "60 min"
+ */
+export const formatGoalValue = (goal: Goal): string =>
+  `${goal.currentValue}${goal.type === 'percentage' ? '%' : goal.type === 'minutes' ? ' min' : ''}`;
+
+/**
+ * Check which goals a betting history keeps to
+ * @param goals - Goals to check
+ * @param betHistory - Bets to check them against, at least GOAL_MIN_BETS
+ * @returns The goals with their completion updated
+ */
+export const evaluateGoals = (goals: Goal[], betHistory: BetHistory[]): Goal[] => {
+  // Calculate metrics to check against goals
+  const sortedBets = [...betHistory].sort((a, b) =>
+    new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+  );
+
+  // Maximum bet as percentage of bankroll
+  const maxBetPercentage = Math.max(...betHistory.map(bet => (bet.betAmount / bet.balanceAfter) * 100));
+
+  // Average risk level
+  const avgRiskLevel = betHistory.reduce((sum, bet) => sum + bet.riskPercentage, 0) / betHistory.length;
+
+  // Session duration (a new session starts if there's a gap of more than 30 minutes)
+  const sessions: number[][] = [];
+  let currentSession = [0];
+
+  for (let i = 1; i < sortedBets.length; i++) {
+    const timeDiffMinutes = (new Date(sortedBets[i].timestamp).getTime() - new Date(sortedBets[i-1].timestamp).getTime()) / (1000 * 60);
+    if (timeDiffMinutes > 30) {
+      sessions.push(currentSession);
+      currentSession = [i];
+    } else {
+      currentSession.push(i);
+    }
+  }
+
+  if (currentSession.length > 0) {
+    sessions.push(currentSession);
+  }
+
+  // Get longest session duration
+  let maxSessionDuration = 0;
+  sessions.forEach(session => {
+    if (session.length < 2) return; // Skip sessions with only one bet
+
+    const sessionStart = new Date(sortedBets[session[0]].timestamp).getTime();
+    const sessionEnd = new Date(sortedBets[session[session.length - 1]].timestamp).getTime();
+    const durationMinutes = (sessionEnd - sessionStart) / (1000 * 60);
+
+    maxSessionDuration = Math.max(maxSessionDuration, durationMinutes);
+  });
+
+  // Get maximum bets per day
+  const betsByDay: Record<string, number> = {};
+  betHistory.forEach(bet => {
+    const dateKey = new Date(bet.timestamp).toISOString().split('T')[0];
+    betsByDay[dateKey] = (betsByDay[dateKey] || 0) + 1;
+  });
+
+  const maxBetsPerDay = Math.max(...Object.values(betsByDay));
+
+  // Get maximum consecutive bets without a break
+  let maxConsecutiveBets = 0;
+  let currentConsecutiveBets = 1;
+
+  for (let i = 1; i < sortedBets.length; i++) {
+    const timeDiffMinutes = (new Date(sortedBets[i].timestamp).getTime() - new Date(sortedBets[i-1].timestamp).getTime()) / (1000 * 60);
+    if (timeDiffMinutes < 10) { // Less than 10 minutes counts as consecutive
+      currentConsecutiveBets++;
+    } else {
+      maxConsecutiveBets = Math.max(maxConsecutiveBets, currentConsecutiveBets);
+      currentConsecutiveBets = 1;
+    }
+  }
+
+  maxConsecutiveBets = Math.max(maxConsecutiveBets, currentConsecutiveBets);
+
+  // Calculate profit and loss
+  const initialBalance = sortedBets[0].balanceAfter - sortedBets[0].winAmount;
+  const currentBalance = sortedBets[sortedBets.length - 1].balanceAfter;
+  const profitPercentage = ((currentBalance - initialBalance) / initialBalance) * 100;
+  const maxLossPercentage = initialBalance > 0 ? ((initialBalance - Math.min(...sortedBets.map(b => b.balanceAfter))) / initialBalance) * 100 : 0;
+
+  return goals.map(goal => {
+    let isCompleted = false;
+
+    switch(goal.id) {
+      case 'max-bet':
+        isCompleted = maxBetPercentage <= goal.currentValue;
+        break;
+      case 'session-limit':
+        isCompleted = maxSessionDuration <= goal.currentValue;
+        break;
+      case 'bet-frequency':
+        isCompleted = maxBetsPerDay <= goal.currentValue;
+        break;
+      case 'risk-level':
+        isCompleted = avgRiskLevel <= goal.currentValue;
+        break;
+      case 'break-frequency':
+        isCompleted = maxConsecutiveBets <= goal.currentValue;
+        break;
+      case 'profit-target':
+        isCompleted = profitPercentage >= goal.currentValue;
+        break;
+      case 'loss-limit':
+        isCompleted = maxLossPercentage <= goal.currentValue;
+        break;
+      default:
+        break;
+    }
+
+    return { ...goal, isCompleted };
+  });
+};
+
+/**
+ * Load the player's goals
+ * @returns The saved goals, or the default goals if none are saved
+ */
+export const loadGoals = (): Goal[] => {
+  const savedGoals = localStorage.getItem(STORAGE_KEYS.BETTING_GOALS);
+  return savedGoals ? JSON.parse(savedGoals) : DEFAULT_GOALS;
+};
+
+/**
+ * Save the player's goals
+ * @param goals - Goals to save
+ */
+export const saveGoals = (goals: Goal[]): void => {
+  localStorage.setItem(STORAGE_KEYS.BETTING_GOALS, JSON.stringify(goals));
+};
@@ -0,0 +1,103 @@
+import type { BetHistory, Session } from '../types';
+import { createExportFilename, escapeCsvField, exportHistoryAsCsv, HISTORY_CSV_COLUMNS, unescapeCsvFormula } from './historyExport';
+import { importHistoryFromCsv, parseCsv } from './historyImport';
+
+const bet: BetHistory = {
+  id: 'bet-1',
+  eventId: 'custom-payday',
+  eventName: '=HYPERLINK("http://example.com","Payday")',
+  betAmount: 100,
+  outcome: 'loss',
+  winAmount: -100,
+  balanceAfter: 900,
+  riskPercentage: 10,
+  timestamp: new Date('2024-05-01T14:31:00Z'),
+};
+
+const session: Session = {
+  id: 'session-1',
+  startedAt: new Date(2024, 4, 1, 14, 30),
+  endedAt: bet.timestamp,
+  startingBalance: 1000,
+  endingBalance: 900,
+  seed: 42,
+  outcome: 'abandoned',
+  challengePersonaId: null,
+  bets: [bet],
+};
+
+describe('escapeCsvField', () => {
+  it('leaves plain values alone', () => {
+    expect(escapeCsvField('Coin Flip')).toBe('Coin Flip');
+    expect(escapeCsvField(1.94)).toBe('1.94');
+  });
+
+  it('writes null and undefined as an empty field', () => {
+    expect(escapeCsvField(null)).toBe('');
+    expect(escapeCsvField(undefined)).toBe('');
+  });
+
+  it('quotes commas, quotes and line breaks', () => {
+    expect(escapeCsvField('Sports Match, "Derby"')).toBe('"Sports Match, ""Derby"""');
+    expect(escapeCsvField('two\nlines')).toBe('"two\nlines"');
+    expect(escapeCsvField('two\r\nlines')).toBe('"two\r\nlines"');
+  });
+
+  it.each(['=1+1', '+1', '-1', '@SUM(A1)', '\t=1+1', '\r=1+1'])('guards %p from being read as a formula', text => {
+    expect(escapeCsvField(text)).toBe(`"'${text}"`);
+  });
+
+  it('guards text that already starts with a quote', () => {
+    expect(escapeCsvField("'tis the season")).toBe(`"''tis the season"`);
+    expect(escapeCsvField("'=x")).toBe(`"''=x"`);
+  });
+
+  it('keeps negative numbers as numbers', () => {
+    expect(escapeCsvField(-100)).toBe('-100');
+  });
+});
+
+describe('unescapeCsvFormula', () => {
+  it('removes the formula guard', () => {
+    expect(unescapeCsvFormula("'=1+1")).toBe('=1+1');
+  });
+
+  it('removes one guard from text that started with a quote', () => {
+    expect(unescapeCsvFormula("''=x")).toBe("'=x");
+    expect(unescapeCsvFormula("''tis the season")).toBe("'tis the season");
+  });
+
+  it('keeps a quote that does not guard anything', () => {
+    expect(unescapeCsvFormula("'tis the season")).toBe("'tis the season");
+  });
+
+  it.each(['=1+1', '\t=1+1', "'=x", "''=x", "'tis the season", 'Coin Flip', '-1'])('undoes escapeCsvField for %p', text => {
+    const [{ cells }] = parseCsv(escapeCsvField(text));
+
+    expect(unescapeCsvFormula(cells[0])).toBe(text);
+  });
+});
+
+describe('exportHistoryAsCsv', () => {
+  it('writes a header row and a row per bet with CRLF line endings', () => {
+    const lines = exportHistoryAsCsv(session).split('\r\n');
+
+    expect(lines).toHaveLength(3);
+    expect(lines[0]).toBe(HISTORY_CSV_COLUMNS.map(column => column.header).join(','));
+    expect(lines[2]).toBe('');
+  });
+
+  it('guards a user-defined event name and reads it back unchanged', () => {
+    const csv = exportHistoryAsCsv(session);
+    const result = importHistoryFromCsv(csv);
+
+    expect(csv).toContain(`"'=HYPERLINK(""http://example.com"",""Payday"")"`);
+    expect(result.ok && result.session.bets[0].eventName).toBe(bet.eventName);
+  });
+});
+
+describe('createExportFilename', () => {
+  it('names the file after when the session started', () => {
+    expect(createExportFilename(session, 'csv')).toBe('bet-history-2024-05-01-1430.csv');
+  });
+});
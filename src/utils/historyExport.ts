@@ -0,0 +1,174 @@
+/**
+ * Bet history export
+ *
+ * Writes a session's bets out as JSON or CSV so they can be kept, shared or
+ * opened in a spreadsheet. Both formats carry the whole `BetHistory` record,
+ * including the provably-fair proof, along with the session it belongs to
+ * and the seed its random generator was created with.
+ */
+
+import type { BetHistory, Session } from '../types';
+
+/**
+ * Identifies a file as a bet history export
+ */
+export const HISTORY_EXPORT_FORMAT = 'virtual-bet-simulator/history';
+
+/**
+ * Current version of the export schema
+ */
+export const HISTORY_EXPORT_VERSION = 1;
+
+/**
+ * Contents of a JSON export; dates are ISO timestamps once written
+ */
+export interface HistoryExport {
+  /** Always HISTORY_EXPORT_FORMAT */
+  format: typeof HISTORY_EXPORT_FORMAT;
+  /** Schema version, HISTORY_EXPORT_VERSION when written */
+  version: number;
+  /** When the export was made */
+  exportedAt: Date;
+  /** The exported session with all of its bets */
+  session: Session;
+}
+
+/**
+ * A CSV column and how to read it from a bet
+ */
+interface HistoryCsvColumn {
+  /** Column header */
+  header: string;
+  /** Value of the column for a bet of the session */
+  value: (bet: BetHistory, session: Session) => string | number | null | undefined;
+}
+
+/**
+ * Columns of a CSV export, in order. Every row repeats the session columns so
+ * a file stays readable when rows are filtered or sorted
+ */
+export const HISTORY_CSV_COLUMNS: HistoryCsvColumn[] = [
+  { header: 'sessionId', value: (bet, session) => session.id },
+  { header: 'sessionStartedAt', value: (bet, session) => session.startedAt.toISOString() },
+  { header: 'sessionSeed', value: (bet, session) => session.seed },
+  { header: 'sessionStartingBalance', value: (bet, session) => session.startingBalance },
+  { header: 'sessionOutcome', value: (bet, session) => session.outcome },
+  { header: 'challengePersonaId', value: (bet, session) => session.challengePersonaId },
+  { header: 'id', value: bet => bet.id },
+  { header: 'timestamp', value: bet => new Date(bet.timestamp).toISOString() },
+  { header: 'eventId', value: bet => bet.eventId },
+  { header: 'eventName', value: bet => bet.eventName },
+  { header: 'selectionId', value: bet => bet.selectionId },
+  { header: 'selectionLabel', value: bet => bet.selectionLabel },
+  { header: 'betAmount', value: bet => bet.betAmount },
+  { header: 'outcome', value: bet => bet.outcome },
+  { header: 'outcomeId', value: bet => bet.outcomeId },
+  { header: 'outcomeLabel', value: bet => bet.outcomeLabel },
+  { header: 'payoutMultiplier', value: bet => bet.payoutMultiplier },
+  { header: 'winAmount', value: bet => bet.winAmount },
+  { header: 'balanceAfter', value: bet => bet.balanceAfter },
+  { header: 'riskPercentage', value: bet => bet.riskPercentage },
+  { header: 'houseEdge', value: bet => bet.houseEdge },
+  { header: 'kellyStake', value: bet => bet.kellyStake },
+  { header: 'serverSeed', value: bet => bet.fairness?.serverSeed },
+  { header: 'serverSeedHash', value: bet => bet.fairness?.serverSeedHash },
+  { header: 'clientSeed', value: bet => bet.fairness?.clientSeed },
+  { header: 'nonce', value: bet => bet.fairness?.nonce },
+  { header: 'roll', value: bet => bet.fairness?.roll },
+];
+
+/**
+ * Text a spreadsheet would read as a formula. Event names are user-defined,
+ * so a cell like `=HYPERLINK(...)` must not run when the file is opened
+ */
+const FORMULA_PATTERN = /^[=+\-@\t\r]/;
+
+/**
+ * Whether text gets a leading `'`: text that starts like a formula, and text
+ * that already starts with `'`, so the guard can be told apart on import
+ */
+const needsFormulaGuard = (text: string): boolean =>
+  FORMULA_PATTERN.test(text) || text.startsWith("'");
+
+/**
+ * Quote a CSV field when it holds a comma, quote or line break, and guard
+ * text that starts like a formula, or with `'`, with a leading `'`
+ * @param value - Field value; null and undefined become an empty field
+ * @returns The field as written to the file
+ */
+export const escapeCsvField = (value: string | number | null | undefined): string => {
+  if (value === null || value === undefined) return '';
+  // Negative numbers are values, not formulas
+  const isGuarded = typeof value === 'string' && needsFormulaGuard(value);
+  const text = isGuarded ? `'${value}` : String(value);
+  return isGuarded || /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Undo the formula guard escapeCsvField adds
+ * @param text - Field as read from the file, after unquoting
+ * @returns The field as it was exported
+ */
+export const unescapeCsvFormula = (text: string): string =>
+  text.startsWith("'") && needsFormulaGuard(text.slice(1)) ? text.slice(1) : text;
+
+/**
+ * Export a session as JSON
+ * @param session - Session to export
+ * @param exportedAt - When the export is made
+ * @returns Indented JSON of a HistoryExport
+ */
+export const exportHistoryAsJson = (session: Session, exportedAt: Date): string => {
+  const data: HistoryExport = {
+    format: HISTORY_EXPORT_FORMAT,
+    version: HISTORY_EXPORT_VERSION,
+    exportedAt,
+    session,
+  };
+
+  return JSON.stringify(data, null, 2);
+};
+
+/**
+ * Export a session's bets as CSV, one row per bet in the order they were placed
+ * @param session - Session to export
+ * @returns CSV with a header row and CRLF line endings
+ */
+export const exportHistoryAsCsv = (session: Session): string => {
+  const rows = [
+    HISTORY_CSV_COLUMNS.map(column => column.header),
+    ...session.bets.map(bet => HISTORY_CSV_COLUMNS.map(column => escapeCsvField(column.value(bet, session)))),
+  ];
+
+  return rows.map(row => row.join(',')).join('\r\n') + '\r\n';
+};
+
+/**
+ * Name of an export file, from the session's start time
+ * @param session - Exported session
+ * @param extension - File extension without the dot
+ * @returns File name such as "bet-history-2024-05-01-1430.csv"
+ */
+export const createExportFilename = (session: Session, extension: string): string => {
+  const start = session.startedAt;
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const date = `${start.getFullYear()}-${pad(start.getMonth() + 1)}-${pad(start.getDate())}`;
+  return `bet-history-${date}-${pad(start.getHours())}${pad(start.getMinutes())}.${extension}`;
+};
+
+/**
+ * Offer text to the browser as a file download
+ * @param contents - File contents
+ * @param filename - Name to save the file as
+ * @param type - MIME type of the contents
+ */
+export const downloadFile = (contents: string, filename: string, type: string): void => {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,201 @@
+import type { BetHistory, Session } from '../types';
+import { exportHistoryAsCsv, exportHistoryAsJson, HISTORY_EXPORT_VERSION } from './historyExport';
+import { importHistory, importHistoryFromCsv, importHistoryFromJson, parseCsv } from './historyImport';
+
+const firstBet: BetHistory = {
+  id: 'bet-1',
+  eventId: 'coin-flip',
+  eventName: 'Coin Flip',
+  betAmount: 100,
+  outcome: 'win',
+  winAmount: 94,
+  balanceAfter: 1094,
+  riskPercentage: 20,
+  timestamp: new Date('2024-01-01T10:00:00Z'),
+  outcomeId: 'win',
+  outcomeLabel: 'Win',
+  payoutMultiplier: 1.94,
+  houseEdge: 0.03,
+  kellyStake: 0,
+  fairness: {
+    serverSeed: 'ab'.repeat(32),
+    serverSeedHash: 'cd'.repeat(32),
+    clientSeed: 'lucky',
+    nonce: 0,
+    roll: 0.25,
+  },
+};
+
+const secondBet: BetHistory = {
+  ...firstBet,
+  id: 'bet-2',
+  eventId: 'sports-match',
+  eventName: 'Sports Match, "Derby"',
+  selectionId: 'underdog',
+  selectionLabel: 'Underdog (3.1x)',
+  outcome: 'loss',
+  winAmount: -100,
+  balanceAfter: 994,
+  timestamp: new Date('2024-01-01T10:01:00Z'),
+  outcomeId: 'favorite',
+  outcomeLabel: 'Favorite wins',
+  payoutMultiplier: 0,
+  fairness: { ...firstBet.fairness!, nonce: 1, roll: 0.8 },
+};
+
+const session: Session = {
+  id: 'session-1',
+  startedAt: new Date('2024-01-01T09:59:00Z'),
+  endedAt: secondBet.timestamp,
+  startingBalance: 1000,
+  endingBalance: 994,
+  seed: 42,
+  outcome: 'abandoned',
+  challengePersonaId: null,
+  bets: [firstBet, secondBet],
+};
+
+const exportedAt = new Date('2024-01-02T00:00:00Z');
+
+/**
+ * A JSON export as parsed, loosely typed so tests can break it
+ */
+interface EditableExport {
+  version: number;
+  session: Record<string, unknown> & { bets: (Record<string, unknown> & { fairness: Record<string, unknown> })[] };
+}
+
+/**
+ * A JSON export with changes made to its contents
+ */
+const editedJson = (edit: (data: EditableExport) => void): string => {
+  const data: EditableExport = JSON.parse(exportHistoryAsJson(session, exportedAt));
+  edit(data);
+  return JSON.stringify(data);
+};
+
+const issuesOf = (result: ReturnType<typeof importHistory>) => (result.ok ? [] : result.issues);
+
+describe('importHistoryFromJson', () => {
+  it('reads back what was exported', () => {
+    expect(importHistoryFromJson(exportHistoryAsJson(session, exportedAt))).toEqual({ ok: true, session });
+  });
+
+  it('keeps the odds recorded in a fairness proof', () => {
+    const odds = { outcomes: [{ id: 'win', label: 'Win', probability: 0.5 }, { id: 'loss', label: 'Loss', probability: 0.5 }], payouts: { win: 1.94 } };
+    const withOdds = { ...session, bets: [{ ...firstBet, fairness: { ...firstBet.fairness!, odds } }] };
+    const result = importHistoryFromJson(exportHistoryAsJson(withOdds, exportedAt));
+
+    expect(result.ok && result.session.bets[0].fairness?.odds).toEqual(odds);
+  });
+
+  it('reports a file that is not JSON', () => {
+    expect(issuesOf(importHistoryFromJson('{"format": '))).toEqual([
+      expect.objectContaining({ row: null, field: null, message: expect.stringContaining('not valid JSON') }),
+    ]);
+  });
+
+  it.each([
+    ['another kind of file', '{"name": "something else"}'],
+    ['a list', '[]'],
+    ['a bare value', '42'],
+  ])('reports %s', (_, text) => {
+    expect(issuesOf(importHistoryFromJson(text))).toEqual([expect.objectContaining({ field: 'format' })]);
+  });
+
+  it.each([
+    ['a newer version', HISTORY_EXPORT_VERSION + 1],
+    ['version 0', 0],
+    ['a negative version', -1],
+  ])('reports %s', (_, version) => {
+    const issues = issuesOf(importHistoryFromJson(editedJson(data => { data.version = version; })));
+
+    expect(issues).toEqual([expect.objectContaining({ field: 'version', message: expect.stringContaining('Unsupported export version') })]);
+  });
+
+  it('reports every missing or malformed field with its bet', () => {
+    const issues = issuesOf(importHistoryFromJson(editedJson(data => {
+      delete data.session.seed;
+      delete data.session.bets[0].betAmount;
+      data.session.bets[1].outcome = 'jackpot';
+      data.session.bets[1].fairness.nonce = 'one';
+    })));
+
+    expect(issues).toEqual([
+      { row: null, field: 'session.seed', message: 'is missing' },
+      { row: 1, field: 'betAmount', message: 'is missing' },
+      { row: 2, field: 'outcome', message: 'must be one of win, loss, push, partial, got "jackpot"' },
+      { row: 2, field: 'fairness.nonce', message: 'must be a number, got "one"' },
+    ]);
+  });
+
+  it('reports a timestamp that is not a date', () => {
+    const issues = issuesOf(importHistoryFromJson(editedJson(data => { data.session.bets[0].timestamp = 'yesterday'; })));
+
+    expect(issues).toEqual([{ row: 1, field: 'timestamp', message: 'must be a timestamp, got "yesterday"' }]);
+  });
+
+  it('reports bets that share an ID', () => {
+    const issues = issuesOf(importHistoryFromJson(editedJson(data => { data.session.bets[1].id = 'bet-1'; })));
+
+    expect(issues).toEqual([{ row: 2, field: 'id', message: 'duplicates bet "bet-1"' }]);
+  });
+
+  it('reports a session without bets', () => {
+    const issues = issuesOf(importHistoryFromJson(editedJson(data => { data.session.bets = []; })));
+
+    expect(issues).toEqual([expect.objectContaining({ field: 'session.bets', message: 'The file has no bets to review' })]);
+  });
+});
+
+describe('importHistoryFromCsv', () => {
+  it('reads back what was exported', () => {
+    expect(importHistoryFromCsv(exportHistoryAsCsv(session))).toEqual({ ok: true, session });
+  });
+
+  it('reports missing columns', () => {
+    const csv = exportHistoryAsCsv(session).replace('betAmount', 'stake');
+
+    expect(issuesOf(importHistoryFromCsv(csv))).toEqual([{ row: 1, field: 'betAmount', message: 'column is missing' }]);
+  });
+
+  it('reports malformed cells with their line', () => {
+    const [header, first, second] = exportHistoryAsCsv(session).split('\r\n');
+    const csv = [header, first.replace('2024-01-01T10:00:00.000Z', 'not a date'), second].join('\r\n');
+
+    expect(issuesOf(importHistoryFromCsv(csv))).toEqual([{ row: 2, field: 'timestamp', message: 'must be a timestamp, got "not a date"' }]);
+  });
+
+  it('reports rows of another session', () => {
+    const [header, first, second] = exportHistoryAsCsv(session).split('\r\n');
+    const csv = [header, first, second.replace('session-1', 'session-2')].join('\r\n');
+
+    expect(issuesOf(importHistoryFromCsv(csv))).toEqual([expect.objectContaining({ row: 3, field: 'sessionId' })]);
+  });
+
+  it('reports an empty file', () => {
+    expect(issuesOf(importHistoryFromCsv(''))).toEqual([{ row: null, field: null, message: 'The file is empty' }]);
+  });
+});
+
+describe('parseCsv', () => {
+  it('follows RFC 4180 quoting and reports the line each record starts on', () => {
+    expect(parseCsv('a,"b ""quoted"", and more"\r\n"multi\nline",c\n\nd,e\n')).toEqual([
+      { cells: ['a', 'b "quoted", and more'], line: 1 },
+      { cells: ['multi\nline', 'c'], line: 2 },
+      { cells: ['d', 'e'], line: 5 },
+    ]);
+  });
+});
+
+describe('importHistory', () => {
+  it('picks the format from the file name, or from the contents', () => {
+    const json = exportHistoryAsJson(session, exportedAt);
+    const csv = exportHistoryAsCsv(session);
+
+    expect(importHistory(json, 'history.json').ok).toBe(true);
+    expect(importHistory(csv, 'history.csv').ok).toBe(true);
+    expect(importHistory(json).ok).toBe(true);
+    expect(importHistory(csv).ok).toBe(true);
+  });
+});
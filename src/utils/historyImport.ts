@@ -0,0 +1,517 @@
+/**
+ * Bet history import
+ *
+ * Reads a history written by the exporter back into a session, so a run can
+ * be reviewed on another machine. Both formats are validated field by field:
+ * instead of stopping at the first problem, every malformed row is reported
+ * with the field at fault, so a hand-edited file can be fixed in one go.
+ */
+
+import type { BetHistory, Session } from '../types';
+import type { FairnessProof, RecordedOdds } from './fairness';
+import { HISTORY_EXPORT_FORMAT, HISTORY_EXPORT_VERSION, unescapeCsvFormula } from './historyExport';
+import { SESSION_OUTCOMES, SETTLEMENT_OUTCOMES } from './persistence';
+
+/**
+ * A problem found while importing
+ */
+export interface HistoryImportIssue {
+  /** Bet number in a JSON file, line number in a CSV file; null for the file as a whole */
+  row: number | null;
+  /** Field or column at fault, null when no single field is */
+  field: string | null;
+  /** What is wrong */
+  message: string;
+}
+
+/**
+ * Result of an import: the session, or every problem that was found
+ */
+export type HistoryImportResult =
+  | { ok: true; session: Session }
+  | { ok: false; issues: HistoryImportIssue[] };
+
+/**
+ * How a field is read and checked
+ */
+interface FieldRule {
+  /** Name of the field in the file */
+  key: string;
+  /** Type the value has to have; dates are ISO timestamps */
+  type: 'string' | 'number' | 'date';
+  /** Whether the field has to be present */
+  required: boolean;
+  /** Values a string field is limited to */
+  values?: readonly string[];
+  /** Whether a number has to be above zero */
+  positive?: boolean;
+}
+
+const BET_FIELDS: FieldRule[] = [
+  { key: 'id', type: 'string', required: true },
+  { key: 'timestamp', type: 'date', required: true },
+  { key: 'eventId', type: 'string', required: true },
+  { key: 'eventName', type: 'string', required: true },
+  { key: 'selectionId', type: 'string', required: false },
+  { key: 'selectionLabel', type: 'string', required: false },
+  { key: 'betAmount', type: 'number', required: true, positive: true },
+  { key: 'outcome', type: 'string', required: true, values: SETTLEMENT_OUTCOMES },
+  { key: 'outcomeId', type: 'string', required: false },
+  { key: 'outcomeLabel', type: 'string', required: false },
+  { key: 'payoutMultiplier', type: 'number', required: false },
+  { key: 'winAmount', type: 'number', required: true },
+  { key: 'balanceAfter', type: 'number', required: true },
+  { key: 'riskPercentage', type: 'number', required: true },
+  { key: 'houseEdge', type: 'number', required: false },
+  { key: 'kellyStake', type: 'number', required: false },
+];
+
+const FAIRNESS_FIELDS: FieldRule[] = [
+  { key: 'serverSeed', type: 'string', required: true },
+  { key: 'serverSeedHash', type: 'string', required: true },
+  { key: 'clientSeed', type: 'string', required: true },
+  { key: 'nonce', type: 'number', required: true },
+  { key: 'roll', type: 'number', required: true },
+];
+
+const SESSION_FIELDS: FieldRule[] = [
+  { key: 'id', type: 'string', required: true },
+  { key: 'startedAt', type: 'date', required: true },
+  { key: 'endedAt', type: 'date', required: false },
+  { key: 'startingBalance', type: 'number', required: true },
+  { key: 'endingBalance', type: 'number', required: true },
+  { key: 'seed', type: 'number', required: true },
+  { key: 'outcome', type: 'string', required: true, values: SESSION_OUTCOMES },
+  { key: 'challengePersonaId', type: 'string', required: false },
+];
+
+/**
+ * Session columns of a CSV export; the end time and ending balance follow from the bets
+ */
+const CSV_SESSION_FIELDS: FieldRule[] = [
+  { key: 'sessionId', type: 'string', required: true },
+  { key: 'sessionStartedAt', type: 'date', required: true },
+  { key: 'sessionSeed', type: 'number', required: true },
+  { key: 'sessionStartingBalance', type: 'number', required: true },
+  { key: 'sessionOutcome', type: 'string', required: true, values: SESSION_OUTCOMES },
+  { key: 'challengePersonaId', type: 'string', required: false },
+];
+
+/**
+ * Values read from a record, by type; absent optional fields are left out,
+ * and required fields are present once the record was read without issues
+ */
+interface FieldValues {
+  /** Text fields, including those limited to a set of values */
+  strings: Record<string, string>;
+  /** Number fields */
+  numbers: Record<string, number>;
+  /** Timestamp fields */
+  dates: Record<string, Date>;
+}
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && isFinite(value);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Shows a value in an error message
+ */
+const describeValue = (value: unknown): string =>
+  typeof value === 'string' ? `"${value}"` : JSON.stringify(value) ?? String(value);
+
+/**
+ * Reads and checks fields of a record
+ *
+ * @param raw - Record as read from the file
+ * @param rules - Fields to read
+ * @param row - Row the record is on, for issues
+ * @param issues - Issues found so far; new ones are added
+ * @param fromText - Whether values are text to convert, as in a CSV file
+ * @param prefix - Prefix of the field names in issues
+ * @returns The values that were read
+ */
+const readFields = (
+  raw: Record<string, unknown>,
+  rules: FieldRule[],
+  row: number | null,
+  issues: HistoryImportIssue[],
+  fromText: boolean,
+  prefix: string = ''
+): FieldValues => {
+  const fields: FieldValues = { strings: {}, numbers: {}, dates: {} };
+
+  for (const rule of rules) {
+    const field = `${prefix}${rule.key}`;
+    const report = (message: string) => issues.push({ row, field, message });
+    let value = raw[rule.key];
+
+    // In text an empty cell is an absent value
+    if (value === undefined || value === null || (fromText && value === '')) {
+      if (rule.required) report('is missing');
+      continue;
+    }
+
+    if (rule.type === 'number') {
+      if (fromText && typeof value === 'string' && value.trim() !== '') value = Number(value);
+      if (!isFiniteNumber(value)) {
+        report(`must be a number, got ${describeValue(raw[rule.key])}`);
+      } else if (rule.positive && value <= 0) {
+        report(`must be above zero, got ${value}`);
+      } else {
+        fields.numbers[rule.key] = value;
+      }
+    } else if (typeof value !== 'string') {
+      report(`must be ${rule.type === 'date' ? 'a timestamp' : 'text'}, got ${describeValue(value)}`);
+    } else if (rule.type === 'date') {
+      const date = new Date(value);
+      if (isNaN(date.getTime())) {
+        report(`must be a timestamp, got ${describeValue(value)}`);
+      } else {
+        fields.dates[rule.key] = date;
+      }
+    } else if (rule.values && !rule.values.includes(value)) {
+      report(`must be one of ${rule.values.join(', ')}, got ${describeValue(value)}`);
+    } else {
+      fields.strings[rule.key] = value;
+    }
+  }
+
+  return fields;
+};
+
+/**
+ * Builds a bet from values read with BET_FIELDS
+ *
+ * @param values - Values of a bet that was read without issues
+ * @param fairness - Fairness proof of the bet, if it has one
+ * @returns The bet history entry, or null if its outcome is unknown
+ */
+const toBetHistory = ({ strings, numbers, dates }: FieldValues, fairness?: FairnessProof): BetHistory | null => {
+  const outcome = SETTLEMENT_OUTCOMES.find(value => value === strings.outcome);
+  if (!outcome) return null;
+
+  const bet: BetHistory = {
+    id: strings.id,
+    eventId: strings.eventId,
+    eventName: strings.eventName,
+    betAmount: numbers.betAmount,
+    outcome,
+    winAmount: numbers.winAmount,
+    balanceAfter: numbers.balanceAfter,
+    riskPercentage: numbers.riskPercentage,
+    timestamp: dates.timestamp,
+  };
+  if (strings.selectionId !== undefined) bet.selectionId = strings.selectionId;
+  if (strings.selectionLabel !== undefined) bet.selectionLabel = strings.selectionLabel;
+  if (strings.outcomeId !== undefined) bet.outcomeId = strings.outcomeId;
+  if (strings.outcomeLabel !== undefined) bet.outcomeLabel = strings.outcomeLabel;
+  if (numbers.payoutMultiplier !== undefined) bet.payoutMultiplier = numbers.payoutMultiplier;
+  if (numbers.houseEdge !== undefined) bet.houseEdge = numbers.houseEdge;
+  if (numbers.kellyStake !== undefined) bet.kellyStake = numbers.kellyStake;
+  if (fairness) bet.fairness = fairness;
+  return bet;
+};
+
+/**
+ * Builds a fairness proof from values read with FAIRNESS_FIELDS
+ *
+ * @param values - Values of a proof that was read without issues
+ * @param odds - Odds recorded in the proof, if any
+ * @returns The fairness proof
+ */
+const toFairnessProof = ({ strings, numbers }: FieldValues, odds?: RecordedOdds): FairnessProof => {
+  const proof: FairnessProof = {
+    serverSeed: strings.serverSeed,
+    serverSeedHash: strings.serverSeedHash,
+    clientSeed: strings.clientSeed,
+    nonce: numbers.nonce,
+    roll: numbers.roll,
+  };
+  if (odds) proof.odds = odds;
+  return proof;
+};
+
+/**
+ * Reads the odds recorded in a fairness proof, which only a JSON export carries
+ *
+ * @param raw - Odds as read from the file
+ * @param row - Row the bet is on, for issues
+ * @param issues - Issues found so far; new ones are added
+ * @returns The odds, or undefined if they are malformed
+ */
+const readOdds = (raw: unknown, row: number, issues: HistoryImportIssue[]): RecordedOdds | undefined => {
+  const report = (message: string) => {
+    issues.push({ row, field: 'fairness.odds', message });
+    return undefined;
+  };
+  if (!isRecord(raw)) return report('must be the odds the bet was settled with');
+
+  const { outcomes, payouts } = raw;
+  if (!Array.isArray(outcomes) || outcomes.length === 0) return report('must list the outcomes');
+
+  const odds: RecordedOdds = { outcomes: [], payouts: {} };
+  for (const outcome of outcomes as unknown[]) {
+    const { id, label, probability } = isRecord(outcome) ? outcome : ({} as Record<string, unknown>);
+    if (typeof id !== 'string' || typeof label !== 'string' || !isFiniteNumber(probability)) {
+      return report(`has a malformed outcome ${describeValue(outcome)}`);
+    }
+    odds.outcomes.push({ id, label, probability });
+  }
+
+  if (!isRecord(payouts)) return report('must have a pay table');
+  for (const [outcomeId, payout] of Object.entries(payouts)) {
+    if (!isFiniteNumber(payout)) return report(`must pay a number on "${outcomeId}", got ${describeValue(payout)}`);
+    odds.payouts[outcomeId] = payout;
+  }
+
+  return odds;
+};
+
+/**
+ * Reports bets that share an ID
+ */
+const checkDuplicateBets = (bets: { bet: BetHistory, row: number }[], issues: HistoryImportIssue[]) => {
+  const seen: Record<string, boolean> = {};
+  for (const { bet, row } of bets) {
+    if (seen[bet.id]) {
+      issues.push({ row, field: 'id', message: `duplicates bet "${bet.id}"` });
+    }
+    seen[bet.id] = true;
+  }
+};
+
+/**
+ * Import a history exported as JSON
+ * @param text - Contents of the file
+ * @returns The session, or every problem found
+ */
+export const importHistoryFromJson = (text: string): HistoryImportResult => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (error) {
+    return { ok: false, issues: [{ row: null, field: null, message: `The file is not valid JSON: ${(error as Error).message}` }] };
+  }
+
+  if (!isRecord(raw) || raw.format !== HISTORY_EXPORT_FORMAT) {
+    return { ok: false, issues: [{ row: null, field: 'format', message: 'The file is not a bet history export' }] };
+  }
+  if (!isFiniteNumber(raw.version) || raw.version < 1 || raw.version > HISTORY_EXPORT_VERSION) {
+    return {
+      ok: false,
+      issues: [{ row: null, field: 'version', message: `Unsupported export version ${describeValue(raw.version)}; this version reads up to ${HISTORY_EXPORT_VERSION}` }],
+    };
+  }
+  if (!isRecord(raw.session)) {
+    return { ok: false, issues: [{ row: null, field: 'session', message: 'is missing' }] };
+  }
+  const rawBets = raw.session.bets;
+  if (!Array.isArray(rawBets)) {
+    return { ok: false, issues: [{ row: null, field: 'session.bets', message: 'must be a list of bets' }] };
+  }
+
+  const issues: HistoryImportIssue[] = [];
+  const session = readFields(raw.session, SESSION_FIELDS, null, issues, false, 'session.');
+
+  const bets: { bet: BetHistory, row: number }[] = [];
+  (rawBets as unknown[]).forEach((entry, index) => {
+    const row = index + 1;
+    if (!isRecord(entry)) {
+      issues.push({ row, field: null, message: 'must be a bet' });
+      return;
+    }
+
+    const issueCount = issues.length;
+    const values = readFields(entry, BET_FIELDS, row, issues, false);
+    let fairness: FairnessProof | undefined;
+    if (entry.fairness !== undefined && entry.fairness !== null) {
+      if (isRecord(entry.fairness)) {
+        const proof = readFields(entry.fairness, FAIRNESS_FIELDS, row, issues, false, 'fairness.');
+        const odds = entry.fairness.odds !== undefined ? readOdds(entry.fairness.odds, row, issues) : undefined;
+        fairness = toFairnessProof(proof, odds);
+      } else {
+        issues.push({ row, field: 'fairness', message: 'must be a fairness proof' });
+      }
+    }
+
+    const bet = issues.length === issueCount ? toBetHistory(values, fairness) : null;
+    if (bet) bets.push({ bet, row });
+  });
+
+  checkDuplicateBets(bets, issues);
+  if (issues.length === 0 && bets.length === 0) {
+    issues.push({ row: null, field: 'session.bets', message: 'The file has no bets to review' });
+  }
+  const outcome = SESSION_OUTCOMES.find(value => value === session.strings.outcome);
+  if (issues.length > 0 || !outcome) return { ok: false, issues };
+
+  return {
+    ok: true,
+    session: {
+      id: session.strings.id,
+      startedAt: session.dates.startedAt,
+      endedAt: session.dates.endedAt ?? null,
+      startingBalance: session.numbers.startingBalance,
+      endingBalance: session.numbers.endingBalance,
+      seed: session.numbers.seed,
+      outcome,
+      challengePersonaId: session.strings.challengePersonaId ?? null,
+      bets: bets.map(({ bet }) => bet),
+    },
+  };
+};
+
+/**
+ * Split CSV text into records, following RFC 4180 quoting
+ * @param text - CSV text
+ * @returns Each non-blank record with the line it starts on
+ */
+export const parseCsv = (text: string): { cells: string[], line: number }[] => {
+  const records: { cells: string[], line: number }[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    cells.push(cell);
+    if (cells.length > 1 || cells[0] !== '') records.push({ cells, line: recordLine });
+    cells = [];
+    cell = '';
+  };
+
+  // A byte order mark is not part of the first header
+  const source = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || cells.length > 0) endRecord();
+
+  return records;
+};
+
+/**
+ * Import a history exported as CSV
+ * @param text - Contents of the file
+ * @returns The session, or every problem found
+ */
+export const importHistoryFromCsv = (text: string): HistoryImportResult => {
+  const [header, ...records] = parseCsv(text);
+  if (!header) {
+    return { ok: false, issues: [{ row: null, field: null, message: 'The file is empty' }] };
+  }
+
+  const columns = header.cells.map(cell => cell.trim());
+  const requiredColumns = [...CSV_SESSION_FIELDS, ...BET_FIELDS]
+    .filter(rule => rule.required)
+    .map(rule => rule.key);
+  const missingColumns = requiredColumns.filter(column => !columns.includes(column));
+  if (missingColumns.length > 0) {
+    return {
+      ok: false,
+      issues: missingColumns.map(column => ({ row: header.line, field: column, message: 'column is missing' })),
+    };
+  }
+  if (records.length === 0) {
+    return { ok: false, issues: [{ row: null, field: null, message: 'The file has no bets to review' }] };
+  }
+
+  const issues: HistoryImportIssue[] = [];
+  const hasFairness = FAIRNESS_FIELDS.some(rule => columns.includes(rule.key));
+  const bets: { bet: BetHistory, row: number }[] = [];
+  let session: FieldValues | null = null;
+
+  for (const record of records) {
+    const row = record.line;
+    if (record.cells.length !== columns.length) {
+      issues.push({ row, field: null, message: `has ${record.cells.length} cells, the header has ${columns.length}` });
+      continue;
+    }
+
+    const raw: Record<string, string> = {};
+    columns.forEach((column, index) => {
+      raw[column] = unescapeCsvFormula(record.cells[index]);
+    });
+
+    // Every row repeats the session; the first one describes it and the rest have to match
+    if (!session) {
+      session = readFields(raw, CSV_SESSION_FIELDS, row, issues, true);
+    } else if (session.strings.sessionId !== undefined && raw.sessionId !== session.strings.sessionId) {
+      issues.push({ row, field: 'sessionId', message: `belongs to session ${describeValue(raw.sessionId)}, not ${describeValue(session.strings.sessionId)}` });
+      continue;
+    }
+
+    const issueCount = issues.length;
+    const values = readFields(raw, BET_FIELDS, row, issues, true);
+    const fairness = hasFairness && FAIRNESS_FIELDS.some(rule => raw[rule.key])
+      ? toFairnessProof(readFields(raw, FAIRNESS_FIELDS, row, issues, true))
+      : undefined;
+
+    const bet = issues.length === issueCount ? toBetHistory(values, fairness) : null;
+    if (bet) bets.push({ bet, row });
+  }
+
+  checkDuplicateBets(bets, issues);
+  if (issues.length > 0 || !session) return { ok: false, issues };
+  const { sessionOutcome } = session.strings;
+  const outcome = SESSION_OUTCOMES.find(value => value === sessionOutcome);
+  if (!outcome) return { ok: false, issues };
+
+  // The CSV has no end time or ending balance; both follow from the last bet
+  const sessionBets = bets.map(({ bet }) => bet);
+  const lastBet = sessionBets[sessionBets.length - 1];
+  return {
+    ok: true,
+    session: {
+      id: session.strings.sessionId,
+      startedAt: session.dates.sessionStartedAt,
+      endedAt: outcome === 'playing' ? null : lastBet.timestamp,
+      startingBalance: session.numbers.sessionStartingBalance,
+      endingBalance: lastBet.balanceAfter,
+      seed: session.numbers.sessionSeed,
+      outcome,
+      challengePersonaId: session.strings.challengePersonaId ?? null,
+      bets: sessionBets,
+    },
+  };
+};
+
+/**
+ * Import an exported history, as JSON or CSV
+ * @param text - Contents of the file
+ * @param filename - Name of the file; its extension picks the format, otherwise the contents do
+ * @returns The session, or every problem found
+ */
+export const importHistory = (text: string, filename: string = ''): HistoryImportResult => {
+  const extension = filename.toLowerCase().split('.').pop();
+  if (extension === 'json') return importHistoryFromJson(text);
+  if (extension === 'csv') return importHistoryFromCsv(text);
+  return text.trim().startsWith('{') ? importHistoryFromJson(text) : importHistoryFromCsv(text);
+};
@@ -0,0 +1,64 @@
+import type { BetHistory, Session } from '../types';
+import { buildHistoryReportHtml, createHistoryReport, escapeHtml } from './historyReport';
+
+const bet: BetHistory = {
+  id: 'bet-1',
+  eventId: 'custom-payday',
+  eventName: '<script>alert("payday")</script>',
+  betAmount: 100,
+  outcome: 'win',
+  winAmount: 94,
+  balanceAfter: 1094,
+  riskPercentage: 10,
+  timestamp: new Date('2024-05-01T14:31:00Z'),
+};
+
+const session: Session = {
+  id: 'session-1',
+  startedAt: new Date('2024-05-01T14:30:00Z'),
+  endedAt: bet.timestamp,
+  startingBalance: 1000,
+  endingBalance: 1094,
+  seed: 42,
+  outcome: 'abandoned',
+  challengePersonaId: null,
+  bets: [bet],
+};
+
+const generatedAt = new Date('2024-05-02T09:00:00Z');
+
+describe('escapeHtml', () => {
+  it('replaces every HTML special character', () => {
+    expect(escapeHtml(`<a href="x" title='y'>Tom & Jerry</a>`)).toBe(
+      '&lt;a href=&quot;x&quot; title=&#39;y&#39;&gt;Tom &amp; Jerry&lt;/a&gt;'
+    );
+  });
+
+  it('escapes ampersands once', () => {
+    expect(escapeHtml('&lt;')).toBe('&amp;lt;');
+  });
+});
+
+describe('createHistoryReport', () => {
+  it('leaves out the analyses the session has too few bets for', () => {
+    const report = createHistoryReport(session, [], () => undefined, generatedAt);
+
+    expect(report.financial).toBeNull();
+    expect(report.behavior).toBeNull();
+    expect(report.patterns).toBeNull();
+    expect(report.goalsEvaluated).toBe(false);
+  });
+});
+
+describe('buildHistoryReportHtml', () => {
+  const reportHtml = buildHistoryReportHtml(createHistoryReport(session, [], () => undefined, generatedAt));
+
+  it('escapes user-defined event names', () => {
+    expect(reportHtml).not.toContain('<script>');
+    expect(reportHtml).toContain('&lt;script&gt;alert(&quot;payday&quot;)&lt;/script&gt;');
+  });
+
+  it('says which sections need more bets', () => {
+    expect(reportHtml).toContain('Needs at least 3 bets.');
+  });
+});
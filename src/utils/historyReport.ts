@@ -0,0 +1,277 @@
+/**
+ * Printable history report
+ *
+ * Bundles a session's financial metrics, behavioral analysis, problem
+ * patterns, goals and bets into a standalone HTML document styled for
+ * printing, so it can be saved as a PDF or handed out on paper. Sections
+ * the session has too few bets for are reported as such rather than left
+ * out.
+ */
+
+import type { BetEvent, Session } from '../types';
+import { analyzeBettingBehavior, BEHAVIORAL_ANALYSIS_MIN_BETS, BehavioralProfile, describeRiskConsistency } from './behavioralAnalysis';
+import { calculateFinancialMetrics, FINANCIAL_METRICS_MIN_BETS, FinancialMetricsSummary } from './financialMetrics';
+import { formatCurrency, formatDate, formatPercentage } from './formatter';
+import { evaluateGoals, formatGoalValue, Goal, GOAL_MIN_BETS } from './goals';
+import { detectBettingPatterns, PATTERN_DETECTION_MIN_BETS, PatternWarning } from './patternDetection';
+import { formatSeed } from './random';
+
+/**
+ * Everything a history report shows; each analysis is null while the session
+ * has too few bets for it
+ */
+export interface HistoryReport {
+  /** Session the report covers */
+  session: Session;
+  /** When the report was made */
+  generatedAt: Date;
+  /** Financial metrics of the session's bets */
+  financial: FinancialMetricsSummary | null;
+  /** Behavioral analysis of the session's bets */
+  behavior: BehavioralProfile | null;
+  /** Problem patterns found in the session's bets */
+  patterns: PatternWarning[] | null;
+  /** Goals the player is tracking */
+  goals: Goal[];
+  /** Whether the goals were checked against the session's bets */
+  goalsEvaluated: boolean;
+}
+
+/**
+ * Analyze a session for a history report
+ * @param session - Session to report on
+ * @param goals - The player's goals; only active ones are reported
+ * @param getEvent - Looks up an event, for bets saved before house edges were recorded
+ * @param generatedAt - When the report is made
+ * @returns The report contents
+ */
+export const createHistoryReport = (
+  session: Session,
+  goals: Goal[],
+  getEvent: (eventId: string) => BetEvent | undefined,
+  generatedAt: Date
+): HistoryReport => {
+  const { bets } = session;
+  const activeGoals = goals.filter(goal => goal.isActive);
+  const goalsEvaluated = bets.length >= GOAL_MIN_BETS;
+
+  return {
+    session,
+    generatedAt,
+    financial: bets.length >= FINANCIAL_METRICS_MIN_BETS ? calculateFinancialMetrics(bets, getEvent) : null,
+    behavior: bets.length >= BEHAVIORAL_ANALYSIS_MIN_BETS ? analyzeBettingBehavior(bets) : null,
+    patterns: bets.length >= PATTERN_DETECTION_MIN_BETS ? detectBettingPatterns(bets) : null,
+    goals: goalsEvaluated ? evaluateGoals(activeGoals, bets) : activeGoals,
+    goalsEvaluated,
+  };
+};
+
+/**
+ * Escape text for use in HTML
+ * @param value - Text to escape
+ * @returns The text with HTML special characters replaced by entities
+ */
+export const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const REPORT_STYLES = `
+  @page { margin: 16mm; }
+  * { box-sizing: border-box; }
+  body { font-family: system-ui, -apple-system, 'Segoe UI', Roboto, sans-serif; color: #111827; font-size: 11pt; line-height: 1.4; margin: 0 auto; max-width: 800px; padding: 24px; }
+  h1 { font-size: 20pt; margin: 0 0 4px; }
+  h2 { font-size: 14pt; margin: 24px 0 8px; border-bottom: 1px solid #d1d5db; padding-bottom: 4px; }
+  p { margin: 4px 0; }
+  .muted { color: #6b7280; }
+  section { break-inside: avoid; page-break-inside: avoid; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { text-align: left; padding: 4px 8px 4px 0; border-bottom: 1px solid #e5e7eb; vertical-align: top; }
+  th { font-weight: 600; color: #374151; }
+  td.number, th.number { text-align: right; }
+  tr { break-inside: avoid; page-break-inside: avoid; }
+  .summary { display: grid; grid-template-columns: repeat(4, 1fr); gap: 8px; margin-top: 16px; }
+  .summary div { border: 1px solid #e5e7eb; border-radius: 6px; padding: 8px; }
+  .summary strong { display: block; font-size: 13pt; }
+  .severity-low { color: #a16207; }
+  .severity-medium { color: #c2410c; }
+  .severity-high { color: #b91c1c; }
+  .met { color: #15803d; }
+  .not-met { color: #b91c1c; }
+  @media print { body { padding: 0; } }
+`;
+
+/**
+ * A two-column table of labels and values
+ */
+const renderDefinitionTable = (rows: [string, string][]): string => `
+  <table>
+    <tbody>
+      ${rows.map(([label, value]) => `<tr><th>${escapeHtml(label)}</th><td class="number">${escapeHtml(value)}</td></tr>`).join('')}
+    </tbody>
+  </table>`;
+
+/**
+ * Explains why a section is empty
+ */
+const renderTooFewBets = (minBets: number): string =>
+  `<p class="muted">Needs at least ${minBets} bets.</p>`;
+
+const renderFinancial = (metrics: FinancialMetricsSummary | null): string => {
+  if (!metrics) return renderTooFewBets(FINANCIAL_METRICS_MIN_BETS);
+
+  return renderDefinitionTable([
+    ['Wins / losses / pushes', `${metrics.wins} / ${metrics.losses} / ${metrics.pushes}`],
+    ['Win rate', formatPercentage(metrics.winRate)],
+    ['Win/loss ratio', metrics.winLossRatio.toFixed(2)],
+    ['Total staked', formatCurrency(metrics.totalInvested)],
+    ['Net profit', `${metrics.netProfit < 0 ? '-' : ''}${formatCurrency(Math.abs(metrics.netProfit))}`],
+    ['Return on investment', `${metrics.roi.toFixed(2)}%`],
+    ['Expected loss (house edge)', `${formatCurrency(metrics.expectedLoss)} (${metrics.averageHouseEdge.toFixed(2)}% edge)`],
+    ['Average stake of bankroll', `${metrics.avgStakePercentage.toFixed(1)}%`],
+    ['Largest stake of bankroll', `${metrics.maxStakePercentage.toFixed(1)}%`],
+    ['Bets above the Kelly stake', `${metrics.kelly.overBets} of ${metrics.kelly.betsCompared}`],
+    ['Maximum drawdown', `${metrics.maxDrawdown.toFixed(1)}%`],
+    ['Longest win / loss streak', `${metrics.maxWinStreak} / ${metrics.maxLossStreak}`],
+    ['Recovery after losses', `${metrics.recoveryRate.toFixed(1)}%`],
+  ]);
+};
+
+const renderBehavior = (behavior: BehavioralProfile | null): string => {
+  if (!behavior) return renderTooFewBets(BEHAVIORAL_ANALYSIS_MIN_BETS);
+
+  const { lossReactions } = behavior;
+  return `${renderDefinitionTable([
+    ['Average time between bets', `${behavior.avgBettingInterval} seconds`],
+    ['Average risk level', `${behavior.avgRisk.toFixed(1)}%`],
+    ['Risk consistency', describeRiskConsistency(behavior.riskDeviation)],
+    ['After a loss: increased / same / decreased stake', `${lossReactions.accelerated} / ${lossReactions.unchanged} / ${lossReactions.cautious}`],
+    ['Average risk after wins', `${behavior.avgPostWinRisk.toFixed(1)}%`],
+    ['Average risk after losses', `${behavior.avgPostLossRisk.toFixed(1)}%`],
+  ])}
+  <p><strong>Betting personality:</strong> ${behavior.traits.length > 0 ? escapeHtml(behavior.traits.join(', ')) : 'Not yet clear'}</p>`;
+};
+
+const renderPatterns = (patterns: PatternWarning[] | null): string => {
+  if (!patterns) return renderTooFewBets(PATTERN_DETECTION_MIN_BETS);
+  if (patterns.length === 0) return '<p>No problematic patterns detected.</p>';
+
+  return `
+  <table>
+    <thead><tr><th>Pattern</th><th>Severity</th><th>Finding and recommendation</th></tr></thead>
+    <tbody>
+      ${patterns.map(pattern => `
+      <tr>
+        <td>${escapeHtml(pattern.title)}</td>
+        <td class="severity-${pattern.severity}">${escapeHtml(pattern.severity)}</td>
+        <td>${escapeHtml(pattern.description)}<br><span class="muted">${escapeHtml(pattern.recommendation)}</span></td>
+      </tr>`).join('')}
+    </tbody>
+  </table>`;
+};
+
+const renderGoals = (goals: Goal[], goalsEvaluated: boolean): string => {
+  if (goals.length === 0) return '<p class="muted">No goals are being tracked.</p>';
+
+  return `
+  ${goalsEvaluated ? '' : renderTooFewBets(GOAL_MIN_BETS)}
+  <table>
+    <thead><tr><th>Goal</th><th class="number">Target</th><th class="number">Status</th></tr></thead>
+    <tbody>
+      ${goals.map(goal => `
+      <tr>
+        <td>${escapeHtml(goal.title)}<br><span class="muted">${escapeHtml(goal.description)}</span></td>
+        <td class="number">${escapeHtml(formatGoalValue(goal))}</td>
+        <td class="number ${goalsEvaluated ? goal.isCompleted ? 'met' : 'not-met' : 'muted'}">${
+          goalsEvaluated ? goal.isCompleted ? 'Met' : 'Not met' : '—'
+        }</td>
+      </tr>`).join('')}
+    </tbody>
+  </table>`;
+};
+
+const renderBets = (session: Session): string => {
+  if (session.bets.length === 0) return '<p class="muted">No bets placed.</p>';
+
+  return `
+  <table>
+    <thead>
+      <tr><th>#</th><th>Time</th><th>Event</th><th class="number">Stake</th><th>Outcome</th><th class="number">Net</th><th class="number">Balance</th><th class="number">Risk</th></tr>
+    </thead>
+    <tbody>
+      ${session.bets.map((bet, index) => `
+      <tr>
+        <td>${index + 1}</td>
+        <td>${escapeHtml(formatDate(new Date(bet.timestamp), true))}</td>
+        <td>${escapeHtml(bet.eventName)}${bet.selectionLabel ? `<br><span class="muted">${escapeHtml(bet.selectionLabel)}</span>` : ''}</td>
+        <td class="number">${formatCurrency(bet.betAmount)}</td>
+        <td>${escapeHtml(bet.outcome)}${bet.outcomeLabel ? ` <span class="muted">(${escapeHtml(bet.outcomeLabel)})</span>` : ''}</td>
+        <td class="number">${bet.winAmount >= 0 ? '+' : '-'}${formatCurrency(Math.abs(bet.winAmount))}</td>
+        <td class="number">${formatCurrency(bet.balanceAfter)}</td>
+        <td class="number">${bet.riskPercentage}%</td>
+      </tr>`).join('')}
+    </tbody>
+  </table>`;
+};
+
+/**
+ * Build a history report as a standalone, print-ready HTML document
+ * @param report - Report contents
+ * @returns Complete HTML document
+ */
+export const buildHistoryReportHtml = (report: HistoryReport): string => {
+  const { session } = report;
+  const endingBalance = session.bets.length > 0 ? session.bets[session.bets.length - 1].balanceAfter : session.startingBalance;
+  const title = `Betting Report – ${formatDate(session.startedAt, true)}`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(title)}</title>
+  <style>${REPORT_STYLES}</style>
+</head>
+<body>
+  <header>
+    <h1>${escapeHtml(title)}</h1>
+    <p class="muted">
+      Virtual Bet Simulator · generated ${escapeHtml(formatDate(report.generatedAt, true))} ·
+      session ${escapeHtml(session.id)} · seed ${escapeHtml(formatSeed(session.seed))}
+    </p>
+    <div class="summary">
+      <div>Bets<strong>${session.bets.length}</strong></div>
+      <div>Starting balance<strong>${formatCurrency(session.startingBalance)}</strong></div>
+      <div>Balance<strong>${formatCurrency(endingBalance)}</strong></div>
+      <div>Outcome<strong>${escapeHtml(session.outcome === 'playing' ? 'In progress' : session.outcome)}</strong></div>
+    </div>
+  </header>
+  <section><h2>Financial Metrics</h2>${renderFinancial(report.financial)}</section>
+  <section><h2>Behavioral Analysis</h2>${renderBehavior(report.behavior)}</section>
+  <section><h2>Pattern Recognition</h2>${renderPatterns(report.patterns)}</section>
+  <section><h2>Goals</h2>${renderGoals(report.goals, report.goalsEvaluated)}</section>
+  <h2>Bets</h2>
+  ${renderBets(session)}
+</body>
+</html>
+`;
+};
+
+/**
+ * Open a rendered report in a new window and bring up the print dialog
+ * @param html - Rendered report
+ * @returns False if the browser blocked the window
+ */
+export const printHistoryReport = (html: string): boolean => {
+  const reportWindow = window.open('', '_blank');
+  if (!reportWindow) return false;
+
+  reportWindow.document.open();
+  reportWindow.document.write(html);
+  reportWindow.document.close();
+  reportWindow.focus();
+  reportWindow.print();
+  return true;
+};
@@ -9,4 +9,27 @@ export * from './constants';
 export * from './formatter';
 export * from './validation';
 export * from './betting';
-export * from './analytics'; 
\ No newline at end of file
+export * from './analytics';
+export * from './persistence';
+export * from './random';
+export * from './hash';
+export * from './fairness';
+export * from './payTable';
+export * from './settlement';
+export * from './strategies';
+export * from './eventRegistry';
+export * from './backtest';
+export * from './projection';
+export * from './riskOfRuin';
+export * from './riskModel';
+export * from './personaEngine';
+export * from './personaChallenge';
+export * from './sessionStats';
+export * from './patternDetection';
+export * from './financialMetrics';
+export * from './benchmarks';
+export * from './behavioralAnalysis';
+export * from './goals';
+export * from './historyExport';
+export * from './historyReport';
+export * from './historyImport';
\ No newline at end of file
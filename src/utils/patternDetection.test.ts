@@ -0,0 +1,64 @@
+import type { BetHistory } from '../types';
+import { detectBettingPatterns, PatternWarning } from './patternDetection';
+
+/**
+ * Five bets, ten minutes apart, that show no pattern unless overridden
+ */
+const series = (override: (i: number) => Partial<BetHistory> = () => ({})): BetHistory[] =>
+  Array.from({ length: 5 }, (_, i) => ({
+    id: `bet-${i}`,
+    eventId: 'coin-flip',
+    eventName: 'Coin Flip',
+    betAmount: 50,
+    outcome: i % 2 === 0 ? 'win' : 'loss',
+    winAmount: i % 2 === 0 ? 47 : -50,
+    balanceAfter: 1000,
+    riskPercentage: 10,
+    timestamp: new Date(Date.UTC(2024, 0, 1, 10, i * 10)),
+    ...override(i),
+  }));
+
+const found = (warnings: PatternWarning[]) => warnings.map(({ id, severity }) => ({ id, severity }));
+
+describe('detectBettingPatterns', () => {
+  it('finds nothing in steady betting', () => {
+    expect(detectBettingPatterns(series())).toEqual([]);
+  });
+
+  it('spots doubling the stake through a losing streak', () => {
+    const warnings = detectBettingPatterns(series(i => ({ outcome: 'loss', betAmount: 10 * 2 ** i })));
+
+    expect(found(warnings)).toEqual([
+      { id: 'chase-losses', severity: 'high' },
+      { id: 'martingale', severity: 'high' },
+      { id: 'loss-streak', severity: 'medium' },
+    ]);
+  });
+
+  it('spots high-risk bets', () => {
+    expect(found(detectBettingPatterns(series(() => ({ riskPercentage: 80 }))))).toEqual([{ id: 'high-risk', severity: 'high' }]);
+  });
+
+  it('spots bets placed within two minutes of each other', () => {
+    const warnings = detectBettingPatterns(series(i => ({ timestamp: new Date(Date.UTC(2024, 0, 1, 10, i)) })));
+
+    expect(found(warnings)).toEqual([{ id: 'rapid-betting', severity: 'high' }]);
+  });
+
+  it('spots stakes above a fifth of the bankroll', () => {
+    expect(found(detectBettingPatterns(series(() => ({ betAmount: 300 }))))).toEqual([{ id: 'large-stakes', severity: 'high' }]);
+  });
+
+  it('spots risk climbing after wins', () => {
+    const risks = [5, 10, 20, 40, 45];
+    const warnings = detectBettingPatterns(series(i => ({ outcome: 'win', riskPercentage: risks[i] })));
+
+    expect(found(warnings)).toEqual([{ id: 'overconfidence', severity: 'high' }]);
+  });
+
+  it('reads the bets in time order', () => {
+    const bets = series(i => ({ outcome: 'loss', betAmount: 10 * 2 ** i }));
+
+    expect(detectBettingPatterns([...bets].reverse())).toEqual(detectBettingPatterns(bets));
+  });
+});
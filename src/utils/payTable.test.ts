@@ -0,0 +1,114 @@
+import type { BetOutcome, BetSelection } from '../types';
+import { eventRegistry } from './eventRegistry';
+import {
+  calculateSelectionOdds,
+  getEventOutcomes,
+  getEventSelections,
+  getSelection,
+  getSelectionOdds,
+  resolveOutcome,
+  validatePayTable,
+} from './payTable';
+
+const coinFlip = eventRegistry.getEvent('coin-flip')!;
+const sportsMatch = eventRegistry.getEvent('sports-match')!;
+
+const outcomes: BetOutcome[] = [
+  { id: 'a', label: 'A', probability: 0.3 },
+  { id: 'b', label: 'B', probability: 0.25 },
+  { id: 'c', label: 'C', probability: 0.45 },
+];
+
+describe('binary events', () => {
+  it('get an implicit win and loss pay table', () => {
+    expect(getEventOutcomes(coinFlip)).toEqual([
+      { id: 'win', label: 'Win', probability: 0.5 },
+      { id: 'loss', label: 'Loss', probability: 0.5 },
+    ]);
+    expect(getEventSelections(coinFlip)).toEqual([{ id: 'coin-flip', label: 'Coin Flip', payouts: { win: coinFlip.multiplier } }]);
+  });
+
+  it('keep the house edge their return to player leaves', () => {
+    expect(getSelectionOdds(coinFlip)?.houseEdge).toBeCloseTo(0.03, 10);
+  });
+});
+
+describe('getSelection', () => {
+  it('defaults to the first selection', () => {
+    expect(getSelection(sportsMatch)?.id).toBe('underdog');
+  });
+
+  it('is undefined for a selection the event does not have', () => {
+    expect(getSelection(sportsMatch, 'home-win')).toBeUndefined();
+    expect(getSelectionOdds(sportsMatch, 'home-win')).toBeUndefined();
+  });
+});
+
+describe('calculateSelectionOdds', () => {
+  it('separates wins from refunds', () => {
+    const selection: BetSelection = { id: 'dnb', label: 'A, draw no bet', payouts: { a: 2.26, b: 1 } };
+
+    const odds = calculateSelectionOdds(outcomes, selection);
+
+    expect(odds.winChance).toBe(0.3);
+    expect(odds.refundChance).toBe(0.25);
+    expect(odds.rtp).toBeCloseTo(0.928, 10);
+    expect(odds.houseEdge).toBeCloseTo(0.072, 10);
+    expect(odds.averagePayout).toBeCloseTo(2.26, 10);
+    expect(odds.maxPayout).toBe(2.26);
+  });
+
+  it('averages the payout over the winning outcomes', () => {
+    const selection: BetSelection = { id: 'ab', label: 'A or B', payouts: { a: 2, b: 3 } };
+
+    expect(calculateSelectionOdds(outcomes, selection).averagePayout).toBeCloseTo((0.3 * 2 + 0.25 * 3) / 0.55, 10);
+  });
+});
+
+describe('resolveOutcome', () => {
+  it('lands on outcomes by cumulative probability', () => {
+    expect(resolveOutcome(outcomes, 0).id).toBe('a');
+    expect(resolveOutcome(outcomes, 0.2999).id).toBe('a');
+    expect(resolveOutcome(outcomes, 0.3).id).toBe('b');
+    expect(resolveOutcome(outcomes, 0.9999).id).toBe('c');
+  });
+
+  it('falls back to the last outcome when the probabilities come up short', () => {
+    expect(resolveOutcome([{ id: 'x', label: 'X', probability: 0.5 }, { id: 'y', label: 'Y', probability: 0.4999 }], 0.99995).id).toBe('y');
+  });
+});
+
+describe('validatePayTable', () => {
+  const selection: BetSelection = { id: 'a', label: 'A', payouts: { a: 3 } };
+
+  it('accepts the built-in pay tables', () => {
+    eventRegistry.events.forEach(event => {
+      expect(validatePayTable(getEventOutcomes(event), getEventSelections(event))).toEqual([]);
+    });
+  });
+
+  it('reports probabilities that do not sum to 1', () => {
+    expect(validatePayTable(outcomes.slice(0, 2), [selection])).toContain('outcome probabilities must sum to 1, got 0.55');
+  });
+
+  it('reports duplicate and unknown IDs', () => {
+    const errors = validatePayTable(outcomes, [selection, { ...selection, payouts: { z: 2 } }]);
+
+    expect(errors).toEqual(expect.arrayContaining([
+      'selection "a" is listed more than once',
+      'selection "a" pays on unknown outcome "z"',
+    ]));
+  });
+
+  it('reports selections that can never win or never lose', () => {
+    const errors = validatePayTable(outcomes, [
+      { id: 'never-wins', label: 'Never wins', payouts: { a: 1 } },
+      { id: 'never-loses', label: 'Never loses', payouts: { a: 1.5, b: 1.5, c: 1.5 } },
+    ]);
+
+    expect(errors).toEqual([
+      'selection "never-wins" must pay more than the stake on at least one outcome',
+      'selection "never-loses" must lose at least part of the stake on some outcome',
+    ]);
+  });
+});
@@ -0,0 +1,227 @@
+/**
+ * Pay tables for betting events
+ *
+ * Every event settles through a pay table: a set of outcomes the roll can
+ * land on and, for each selection the player can back, the return each
+ * outcome pays. A return above 1 wins, exactly 1 pushes and below 1 refunds
+ * part of the stake. Multi-outcome events author theirs; a binary event has
+ * an implicit table with a single selection that pays its multiplier on a win.
+ */
+
+import type { BetEvent, BetOutcome, BetSelection } from '../types';
+
+/**
+ * Odds of backing one selection
+ */
+export interface SelectionOdds {
+  /** Probability that the selection returns more than the stake (0-1) */
+  winChance: number;
+  /** Probability that the selection hands back some or all of the stake without winning (0-1) */
+  refundChance: number;
+  /** Average return per unit staked */
+  rtp: number;
+  /** Share of each stake the house keeps on average */
+  houseEdge: number;
+  /** Average return per unit staked when the selection wins */
+  averagePayout: number;
+  /** Largest return per unit staked on any outcome */
+  maxPayout: number;
+}
+
+/** Tolerance when checking that outcome probabilities sum to 1 */
+const PROBABILITY_TOLERANCE = 1e-9;
+
+/** Outcome IDs of the implicit pay table of a binary event */
+export const BINARY_OUTCOME_IDS = {
+  WIN: 'win',
+  LOSS: 'loss',
+} as const;
+
+/**
+ * Whether an event authors its own pay table
+ * @param event - The event to check
+ * @returns True for multi-outcome events
+ */
+export const hasPayTable = (event: BetEvent): boolean => {
+  return Array.isArray(event.outcomes) && Array.isArray(event.selections);
+};
+
+/**
+ * Get the outcomes an event's roll can land on, in roll order
+ * @param event - The event
+ * @returns The authored outcomes, or win then loss for a binary event
+ */
+export const getEventOutcomes = (event: BetEvent): BetOutcome[] => {
+  if (hasPayTable(event)) {
+    return event.outcomes as BetOutcome[];
+  }
+
+  return [
+    { id: BINARY_OUTCOME_IDS.WIN, label: 'Win', probability: event.winChance },
+    { id: BINARY_OUTCOME_IDS.LOSS, label: 'Loss', probability: 1 - event.winChance },
+  ];
+};
+
+/**
+ * Get the selections a player can back on an event
+ * @param event - The event
+ * @returns The authored selections, or a single selection paying the multiplier on a win
+ */
+export const getEventSelections = (event: BetEvent): BetSelection[] => {
+  if (hasPayTable(event)) {
+    return event.selections as BetSelection[];
+  }
+
+  return [
+    { id: event.id, label: event.name, payouts: { [BINARY_OUTCOME_IDS.WIN]: event.multiplier } },
+  ];
+};
+
+/**
+ * Look up a selection on an event
+ * @param event - The event
+ * @param selectionId - ID of the selection, omitted for the default one
+ * @returns The selection, or undefined if the event has no such selection
+ */
+export const getSelection = (event: BetEvent, selectionId?: string): BetSelection | undefined => {
+  const selections = getEventSelections(event);
+  if (selectionId === undefined) {
+    return selections[0];
+  }
+  return selections.find(selection => selection.id === selectionId);
+};
+
+/**
+ * Calculate the odds of backing a selection
+ * @param outcomes - The event's outcomes
+ * @param selection - The selection backed
+ * @returns Win chance, return to player and payout figures
+ */
+export const calculateSelectionOdds = (outcomes: BetOutcome[], selection: BetSelection): SelectionOdds => {
+  let winChance = 0;
+  let refundChance = 0;
+  let winningReturn = 0;
+  let rtp = 0;
+  let maxPayout = 0;
+
+  outcomes.forEach(outcome => {
+    const payout = selection.payouts[outcome.id] || 0;
+    rtp += outcome.probability * payout;
+    maxPayout = Math.max(maxPayout, payout);
+
+    if (payout > 1) {
+      winChance += outcome.probability;
+      winningReturn += outcome.probability * payout;
+    } else if (payout > 0) {
+      refundChance += outcome.probability;
+    }
+  });
+
+  return {
+    winChance,
+    refundChance,
+    rtp,
+    houseEdge: 1 - rtp,
+    averagePayout: winChance > 0 ? winningReturn / winChance : 0,
+    maxPayout,
+  };
+};
+
+/**
+ * Calculate the odds of backing a selection on an event
+ * @param event - The event
+ * @param selectionId - ID of the selection, omitted for the default one
+ * @returns The odds, or undefined if the event has no such selection
+ */
+export const getSelectionOdds = (event: BetEvent, selectionId?: string): SelectionOdds | undefined => {
+  const selection = getSelection(event, selectionId);
+  return selection && calculateSelectionOdds(getEventOutcomes(event), selection);
+};
+
+/**
+ * Find the outcome a roll lands on by cumulative probability
+ * @param outcomes - The event's outcomes, in roll order
+ * @param roll - Roll in the range [0, 1)
+ * @returns The outcome the roll falls in
+ */
+export const resolveOutcome = (outcomes: BetOutcome[], roll: number): BetOutcome => {
+  let cumulative = 0;
+
+  for (const outcome of outcomes) {
+    cumulative += outcome.probability;
+    if (roll < cumulative) {
+      return outcome;
+    }
+  }
+
+  // Rounding can leave the probabilities a hair short of 1
+  return outcomes[outcomes.length - 1];
+};
+
+/**
+ * Validate an authored pay table
+ * @param outcomes - The outcomes to validate
+ * @param selections - The selections to validate
+ * @returns Error messages, empty if the pay table is valid
+ */
+export const validatePayTable = (outcomes: BetOutcome[], selections: BetSelection[]): string[] => {
+  const errors: string[] = [];
+  const outcomeIds: Record<string, boolean> = {};
+  let totalProbability = 0;
+
+  if (outcomes.length < 2) {
+    errors.push('at least two outcomes are required');
+  }
+
+  outcomes.forEach(outcome => {
+    if (outcomeIds[outcome.id]) {
+      errors.push(`outcome "${outcome.id}" is listed more than once`);
+    }
+    outcomeIds[outcome.id] = true;
+
+    if (isNaN(outcome.probability) || outcome.probability <= 0 || outcome.probability >= 1) {
+      errors.push(`outcome "${outcome.id}" must have a probability between 0 and 1`);
+    }
+    totalProbability += outcome.probability;
+  });
+
+  if (Math.abs(totalProbability - 1) > PROBABILITY_TOLERANCE) {
+    errors.push(`outcome probabilities must sum to 1, got ${totalProbability}`);
+  }
+
+  if (selections.length === 0) {
+    errors.push('at least one selection is required');
+  }
+
+  const selectionIds: Record<string, boolean> = {};
+  selections.forEach(selection => {
+    if (selectionIds[selection.id]) {
+      errors.push(`selection "${selection.id}" is listed more than once`);
+    }
+    selectionIds[selection.id] = true;
+
+    Object.keys(selection.payouts).forEach(outcomeId => {
+      const payout = selection.payouts[outcomeId];
+      if (!outcomeIds[outcomeId]) {
+        errors.push(`selection "${selection.id}" pays on unknown outcome "${outcomeId}"`);
+      }
+      if (isNaN(payout) || payout < 0) {
+        errors.push(`selection "${selection.id}" must not pay a negative return on "${outcomeId}"`);
+      }
+    });
+
+    const payouts = outcomes.map(outcome => selection.payouts[outcome.id] || 0);
+    if (!payouts.some(payout => payout > 1)) {
+      errors.push(`selection "${selection.id}" must pay more than the stake on at least one outcome`);
+    }
+    if (!payouts.some(payout => payout < 1)) {
+      errors.push(`selection "${selection.id}" must lose at least part of the stake on some outcome`);
+    }
+
+    if (calculateSelectionOdds(outcomes, selection).rtp > 2) {
+      errors.push(`selection "${selection.id}" returns more than 200% of the stake`);
+    }
+  });
+
+  return errors;
+};
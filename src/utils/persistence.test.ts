@@ -0,0 +1,218 @@
+import type { Session } from '../types';
+import { createSessionId } from '../engine/sessions';
+import { commitServerSeed, generateClientSeed } from './fairness';
+import {
+  deserializeGameSnapshot,
+  deserializeSessionArchive,
+  GAME_SNAPSHOT_VERSION,
+  GameSnapshot,
+  loadGameSnapshot,
+  loadSessionArchive,
+  migrateGameSnapshot,
+  saveSessionArchive,
+  serializeGameSnapshot,
+  serializeSessionArchive,
+} from './persistence';
+import { createSeededRandom } from './random';
+
+const savedAt = '2024-01-01T12:00:00.000Z';
+
+const bet = {
+  id: 'bet-1',
+  eventId: 'coin-flip',
+  eventName: 'Coin Flip',
+  betAmount: 100,
+  outcome: 'loss',
+  winAmount: -100,
+  balanceAfter: 900,
+  riskPercentage: 20,
+  timestamp: '2024-01-01T11:00:00.000Z',
+};
+
+const snapshot: GameSnapshot = {
+  balance: 900,
+  currentRisk: 20,
+  betHistory: [{ ...bet, outcome: 'loss', timestamp: new Date(bet.timestamp) }],
+  gameState: 'playing',
+  seed: 42,
+  fairness: { clientSeed: 'lucky', nonce: 1 },
+  challengePersonaId: null,
+  sessionId: 'session-1',
+  startedAt: new Date('2024-01-01T10:00:00Z'),
+};
+
+// The state each schema version was written with
+const v1State = { balance: 900, currentRisk: 20, betHistory: [bet], gameState: 'playing' };
+const v2State = { ...v1State, seed: 42, rngState: 42 };
+const v3State = { ...v2State, fairness: { serverSeed: 'ab'.repeat(32), clientSeed: 'lucky', nonce: 1 } };
+const v4State = { ...v3State, challengePersonaId: 'baby-betsy' };
+const v5State = { ...v4State, sessionId: 'session-1', startedAt: '2024-01-01T10:00:00.000Z' };
+const v6State = { ...v5State, fairness: { clientSeed: 'lucky', nonce: 1 } };
+
+const stored = (version: number, state: object) => JSON.stringify({ version, savedAt, state });
+
+describe('game snapshot migrations', () => {
+  it('gives a version 1 snapshot a fresh seed', () => {
+    const restored = deserializeGameSnapshot(stored(1, v1State));
+
+    expect(restored?.seed).toEqual(expect.any(Number));
+    expect(restored?.fairness.clientSeed).toMatch(/^[0-9a-f]{16}$/);
+  });
+
+  it('draws the client seed of a version 2 snapshot from its saved generator', () => {
+    const restored = deserializeGameSnapshot(stored(2, v2State));
+
+    expect(restored?.fairness).toEqual({ clientSeed: generateClientSeed(createSeededRandom(42, 42)), nonce: 1 });
+  });
+
+  it('makes a version 3 snapshot a regular game', () => {
+    expect(deserializeGameSnapshot(stored(3, v3State))?.challengePersonaId).toBeNull();
+  });
+
+  it('starts the session of a version 4 snapshot with its first bet', () => {
+    const restored = deserializeGameSnapshot(stored(4, v4State));
+
+    expect(restored?.startedAt).toEqual(new Date(bet.timestamp));
+    expect(restored?.sessionId).toBe(createSessionId(new Date(bet.timestamp)));
+    expect(restored?.challengePersonaId).toBe('baby-betsy');
+  });
+
+  it('starts the session of a version 4 snapshot without bets when it was saved', () => {
+    expect(deserializeGameSnapshot(stored(4, { ...v4State, betHistory: [] }))?.startedAt).toEqual(new Date(savedAt));
+  });
+
+  it('drops the server seed of a version 5 snapshot', () => {
+    const migrated = migrateGameSnapshot(JSON.parse(stored(5, v5State)));
+
+    expect(migrated?.version).toBe(GAME_SNAPSHOT_VERSION);
+    expect(migrated?.state.fairness).toEqual({ clientSeed: 'lucky', nonce: 1 });
+  });
+
+  it('drops the generator state of a version 6 snapshot', () => {
+    const migrated = migrateGameSnapshot(JSON.parse(stored(6, v6State)));
+
+    expect(migrated?.version).toBe(GAME_SNAPSHOT_VERSION);
+    expect(migrated?.state).not.toHaveProperty('rngState');
+    expect(deserializeGameSnapshot(stored(6, v6State))).toEqual({ ...snapshot, challengePersonaId: 'baby-betsy' });
+  });
+
+  it('rejects a snapshot without a version', () => {
+    expect(deserializeGameSnapshot(JSON.stringify(v1State))).toBeNull();
+  });
+
+  it('rejects a snapshot from a newer version', () => {
+    expect(deserializeGameSnapshot(stored(GAME_SNAPSHOT_VERSION + 1, v6State))).toBeNull();
+  });
+});
+
+describe('game snapshots', () => {
+  it('read back what was saved', () => {
+    expect(deserializeGameSnapshot(serializeGameSnapshot(snapshot))).toEqual(snapshot);
+  });
+
+  it('never save the server seed, which follows from the seed', () => {
+    // The game passes its live state, which still carries the server seed
+    const fairness = commitServerSeed(snapshot.fairness, snapshot.seed);
+    const json = serializeGameSnapshot({ ...snapshot, fairness });
+
+    expect(json).not.toContain(fairness.serverSeed);
+    expect(deserializeGameSnapshot(json)?.fairness).toEqual({ clientSeed: 'lucky', nonce: 1 });
+  });
+
+  it.each([
+    ['text that is not JSON', '{"version": 6'],
+    ['a bet without an amount', serializeGameSnapshot(snapshot).replace('"betAmount":100,', '')],
+    ['a bet with an unreadable timestamp', serializeGameSnapshot(snapshot).replace(bet.timestamp, 'yesterday')],
+    ['an unknown game state', serializeGameSnapshot(snapshot).replace('"gameState":"playing"', '"gameState":"paused"')],
+  ])('are unreadable with %s', (_, value) => {
+    expect(deserializeGameSnapshot(value)).toBeNull();
+  });
+
+  describe('loadGameSnapshot', () => {
+    const key = 'test-game';
+
+    beforeEach(() => window.localStorage.clear());
+
+    it('moves a corrupt snapshot aside so the game can start fresh', () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      window.localStorage.setItem(key, '{"version": 6');
+
+      expect(loadGameSnapshot(key)).toBeNull();
+      expect(window.localStorage.getItem(key)).toBeNull();
+      expect(window.localStorage.getItem(`${key}_corrupt`)).toBe('{"version": 6');
+      expect(warn).toHaveBeenCalled();
+      warn.mockRestore();
+    });
+
+    it('loads a snapshot that was saved', () => {
+      window.localStorage.setItem(key, serializeGameSnapshot(snapshot));
+
+      expect(loadGameSnapshot(key)).toEqual(snapshot);
+    });
+  });
+});
+
+describe('session archive', () => {
+  const session: Session = {
+    id: 'session-1',
+    startedAt: new Date('2024-01-01T10:00:00Z'),
+    endedAt: new Date(bet.timestamp),
+    startingBalance: 1000,
+    endingBalance: 900,
+    seed: 42,
+    outcome: 'abandoned',
+    challengePersonaId: null,
+    bets: snapshot.betHistory,
+  };
+
+  it('reads back what was saved', () => {
+    expect(deserializeSessionArchive(serializeSessionArchive([session]))).toEqual([session]);
+  });
+
+  it('is unreadable with a malformed session', () => {
+    expect(deserializeSessionArchive(serializeSessionArchive([session]).replace('"abandoned"', '"paused"'))).toBeNull();
+  });
+
+  describe('saveSessionArchive', () => {
+    const key = 'test-archive';
+    const sessions = [1, 2, 3].map(n => ({ ...session, id: `session-${n}` }));
+
+    beforeEach(() => window.localStorage.clear());
+
+    it('saves every session that fits', () => {
+      expect(saveSessionArchive(sessions, key)).toBe(3);
+      expect(loadSessionArchive(key)).toEqual(sessions);
+    });
+
+    it('leaves the oldest sessions out to stay under the size limit', () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      expect(saveSessionArchive(sessions, key, serializeSessionArchive(sessions.slice(1)).length)).toBe(2);
+      expect(loadSessionArchive(key)).toEqual(sessions.slice(1));
+      warn.mockRestore();
+    });
+
+    it('drops the oldest sessions and retries when the storage quota is exceeded', () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const limit = serializeSessionArchive(sessions.slice(2)).length;
+      const setItem = jest.spyOn(Storage.prototype, 'setItem').mockImplementation(function (this: Storage, name, value) {
+        if (value.length > limit) throw new DOMException('Quota exceeded', 'QuotaExceededError');
+        window.localStorage[name] = value;
+      });
+
+      expect(saveSessionArchive(sessions, key)).toBe(1);
+      setItem.mockRestore();
+      expect(loadSessionArchive(key)).toEqual(sessions.slice(2));
+      warn.mockRestore();
+    });
+  });
+
+  it('moves a corrupt archive aside', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    window.localStorage.setItem('test-archive', 'not json');
+
+    expect(loadSessionArchive('test-archive')).toEqual([]);
+    expect(window.localStorage.getItem('test-archive_corrupt')).toBe('not json');
+    warn.mockRestore();
+  });
+});
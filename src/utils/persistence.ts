@@ -0,0 +1,543 @@
+/**
+ * Persistence layer for the game session
+ *
+ * The whole game is stored in localStorage as a single versioned snapshot.
+ * Older snapshots are upgraded through the migration table, and anything
+ * that cannot be read back is moved aside so a corrupt save never blocks
+ * the game from starting. Past sessions are stored under their own key, so
+ * saving the game after every bet doesn't rewrite the whole archive.
+ */
+
+import type { BetHistory, GameState, Session, SessionOutcome, SettlementOutcome } from '../types';
+import { createSessionId } from '../engine/sessions';
+import { STORAGE_KEYS } from './constants';
+import { generateSeed, createSeededRandom } from './random';
+import { FairnessState, generateClientSeed } from './fairness';
+
+/**
+ * Current version of the snapshot schema
+ */
+export const GAME_SNAPSHOT_VERSION = 7;
+
+/**
+ * Current version of the session archive schema
+ */
+export const SESSION_ARCHIVE_VERSION = 1;
+
+/**
+ * Most characters the session archive may take up in storage. Browsers allow
+ * around 5 MB per site, and the game snapshot and custom events need room too
+ */
+export const MAX_SESSION_ARCHIVE_LENGTH = 2000000;
+
+/**
+ * Provably-fair state as saved: the server seed is left out, since it
+ * follows from the session seed and the nonce
+ */
+export type SavedFairnessState = Omit<FairnessState, 'serverSeed' | 'serverSeedHash'>;
+
+/**
+ * Game state captured in a snapshot
+ */
+export interface GameSnapshot {
+  /** Current player balance */
+  balance: number;
+  /** Current risk level (0-100) */
+  currentRisk: number;
+  /** History of all bets placed */
+  betHistory: BetHistory[];
+  /** Current state of the game */
+  gameState: GameState;
+  /** Seed the session's random generator was created with */
+  seed: number;
+  /** Client seed and nonce for the next bet */
+  fairness: SavedFairnessState;
+  /** ID of the persona committed to in a persona challenge, null outside one */
+  challengePersonaId: string | null;
+  /** ID of the current session */
+  sessionId: string;
+  /** When the current session started */
+  startedAt: Date;
+}
+
+/**
+ * Bet history entry as written to storage
+ */
+type SerializedBetHistory = Omit<BetHistory, 'timestamp'> & { timestamp: string };
+
+/**
+ * Snapshot as written to storage
+ */
+interface SerializedGameSnapshot {
+  /** Schema version the snapshot was written with */
+  version: number;
+  /** ISO timestamp of when the snapshot was written */
+  savedAt: string;
+  /** Serialized game state */
+  state: Omit<GameSnapshot, 'betHistory' | 'startedAt'> & { betHistory: SerializedBetHistory[]; startedAt: string };
+}
+
+/**
+ * Session as written to storage
+ */
+type SerializedSession = Omit<Session, 'startedAt' | 'endedAt' | 'bets'> & {
+  startedAt: string;
+  endedAt: string | null;
+  bets: SerializedBetHistory[];
+};
+
+/**
+ * A JSON object as read from storage, before its fields are checked
+ */
+type RawRecord = Record<string, unknown>;
+
+/**
+ * Snapshot as read from storage, at whatever version it was written with
+ */
+interface RawGameSnapshot {
+  /** Schema version */
+  version: number;
+  /** When the snapshot was written, unchecked */
+  savedAt: unknown;
+  /** Game state, unchecked */
+  state: RawRecord;
+}
+
+const isRecord = (value: unknown): value is RawRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && isFinite(value);
+
+/**
+ * Upgrades a raw snapshot from one version to the next, keyed by the version it upgrades from.
+ * A field a migration needs but can't read is left alone for reviveSnapshot to reject
+ */
+const migrations: Record<number, (raw: RawGameSnapshot) => RawGameSnapshot> = {
+  // Version 2 added the session seed; older sessions get a fresh one
+  1: (raw) => {
+    return { ...raw, version: 2, state: { ...raw.state, seed: generateSeed() } };
+  },
+  // Version 3 added provably-fair seeds; the client seed is drawn from the saved generator, if there is one
+  2: (raw) => {
+    const { seed, rngState, betHistory } = raw.state;
+    if (!isFiniteNumber(seed)) return { ...raw, version: 3 };
+
+    const rng = createSeededRandom(seed, isFiniteNumber(rngState) ? rngState : seed);
+    const fairness = { clientSeed: generateClientSeed(rng), nonce: Array.isArray(betHistory) ? betHistory.length : 0 };
+    return { ...raw, version: 3, state: { ...raw.state, fairness } };
+  },
+  // Version 4 added persona challenges; older sessions are regular games
+  3: (raw) => ({ ...raw, version: 4, state: { ...raw.state, challengePersonaId: null } }),
+  // Version 5 added explicit sessions; older sessions started with their first bet, or when saved
+  4: (raw) => {
+    const { betHistory } = raw.state;
+    const firstBet = Array.isArray(betHistory) && isRecord(betHistory[0]) ? betHistory[0] : null;
+    const startedAt = firstBet ? firstBet.timestamp : raw.savedAt;
+    if (typeof startedAt !== 'string') return { ...raw, version: 5 };
+
+    const sessionId = createSessionId(new Date(startedAt));
+    return { ...raw, version: 5, state: { ...raw.state, sessionId, startedAt } };
+  },
+  // Version 6 stopped saving the server seed, which is derived from the session seed
+  5: (raw) => {
+    if (!isRecord(raw.state.fairness)) return { ...raw, version: 6 };
+
+    const { serverSeed, ...fairness } = raw.state.fairness;
+    return { ...raw, version: 6, state: { ...raw.state, fairness } };
+  },
+  // Version 7 stopped saving the random generator state, which nothing read back
+  6: (raw) => {
+    const { rngState, ...state } = raw.state;
+    return { ...raw, version: 7, state };
+  },
+};
+
+const GAME_STATES: GameState[] = ['playing', 'won', 'lost'];
+
+/**
+ * Every outcome a bet can settle with
+ */
+export const SETTLEMENT_OUTCOMES: SettlementOutcome[] = ['win', 'loss', 'push', 'partial'];
+
+/**
+ * Every outcome a session can have
+ */
+export const SESSION_OUTCOMES: SessionOutcome[] = ['playing', 'won', 'lost', 'abandoned'];
+
+const isSavedFairnessState = (value: unknown): value is SavedFairnessState =>
+  isRecord(value) && typeof value.clientSeed === 'string' && isFiniteNumber(value.nonce);
+
+/**
+ * Revives a stored date
+ *
+ * @param raw - ISO timestamp as read from storage
+ * @returns The date, or null if it isn't a valid timestamp
+ */
+const reviveDate = (raw: unknown): Date | null => {
+  if (typeof raw !== 'string') return null;
+  const date = new Date(raw);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * Revives a stored bet history entry
+ *
+ * The fields every bet has are checked; the optional details of the bet
+ * were written by serializeBet and are kept as they were saved.
+ *
+ * @param raw - Entry as read from storage
+ * @returns The bet history entry, or null if the entry is malformed
+ */
+const reviveBetHistory = (raw: unknown): BetHistory | null => {
+  if (!isRecord(raw) || typeof raw.id !== 'string' || typeof raw.eventId !== 'string' || typeof raw.eventName !== 'string') return null;
+  if (!isFiniteNumber(raw.betAmount) || !isFiniteNumber(raw.winAmount) || !isFiniteNumber(raw.balanceAfter)) return null;
+  if (!isFiniteNumber(raw.riskPercentage)) return null;
+  if (!SETTLEMENT_OUTCOMES.some(outcome => outcome === raw.outcome)) return null;
+
+  const timestamp = reviveDate(raw.timestamp);
+  if (!timestamp) return null;
+
+  return { ...(raw as SerializedBetHistory), timestamp };
+};
+
+/**
+ * Revives a list of stored bet history entries
+ *
+ * @param raw - Entries as read from storage
+ * @returns The bet history, or null if any entry is malformed
+ */
+const reviveBets = (raw: unknown[]): BetHistory[] | null => {
+  const bets: BetHistory[] = [];
+  for (const entry of raw) {
+    const bet = reviveBetHistory(entry);
+    if (!bet) return null;
+    bets.push(bet);
+  }
+  return bets;
+};
+
+/**
+ * Revives a stored session
+ *
+ * @param raw - Session as read from storage
+ * @returns The session, or null if it is malformed
+ */
+const reviveSession = (raw: unknown): Session | null => {
+  if (!isRecord(raw) || typeof raw.id !== 'string') return null;
+  const outcome = SESSION_OUTCOMES.find(value => value === raw.outcome);
+  if (!outcome) return null;
+  if (!isFiniteNumber(raw.startingBalance) || !isFiniteNumber(raw.endingBalance) || !isFiniteNumber(raw.seed)) return null;
+  if (raw.challengePersonaId !== null && typeof raw.challengePersonaId !== 'string') return null;
+  if (!Array.isArray(raw.bets)) return null;
+
+  const startedAt = reviveDate(raw.startedAt);
+  const endedAt = raw.endedAt === null ? null : reviveDate(raw.endedAt);
+  const bets = reviveBets(raw.bets);
+  if (!startedAt || (raw.endedAt !== null && !endedAt) || !bets) return null;
+
+  return {
+    id: raw.id,
+    startedAt,
+    endedAt,
+    startingBalance: raw.startingBalance,
+    endingBalance: raw.endingBalance,
+    seed: raw.seed,
+    outcome,
+    challengePersonaId: raw.challengePersonaId,
+    bets,
+  };
+};
+
+/**
+ * Converts a bet history entry into its stored form
+ *
+ * @param bet - Bet history entry
+ * @returns The entry with an ISO timestamp
+ */
+const serializeBet = (bet: BetHistory): SerializedBetHistory => ({
+  ...bet,
+  timestamp: new Date(bet.timestamp).toISOString(),
+});
+
+/**
+ * Converts a raw snapshot into game state
+ *
+ * @param raw - Snapshot at the current schema version, null if it couldn't be upgraded
+ * @returns The game state, or null if the snapshot is malformed
+ */
+const reviveSnapshot = (raw: RawGameSnapshot | null): GameSnapshot | null => {
+  if (!raw) return null;
+  const { state } = raw;
+  if (!isFiniteNumber(state.balance) || !isFiniteNumber(state.currentRisk)) return null;
+  const gameState = GAME_STATES.find(value => value === state.gameState);
+  if (!gameState || !Array.isArray(state.betHistory)) return null;
+  if (!isFiniteNumber(state.seed)) return null;
+  if (!isSavedFairnessState(state.fairness)) return null;
+  if (state.challengePersonaId !== null && typeof state.challengePersonaId !== 'string') return null;
+  if (typeof state.sessionId !== 'string') return null;
+
+  const startedAt = reviveDate(state.startedAt);
+  const betHistory = reviveBets(state.betHistory);
+  if (!startedAt || !betHistory) return null;
+
+  return {
+    balance: state.balance,
+    currentRisk: state.currentRisk,
+    betHistory,
+    gameState,
+    seed: state.seed,
+    fairness: { clientSeed: state.fairness.clientSeed, nonce: state.fairness.nonce },
+    challengePersonaId: state.challengePersonaId,
+    sessionId: state.sessionId,
+    startedAt,
+  };
+};
+
+/**
+ * Runs the migrations needed to bring a raw snapshot up to the current version
+ *
+ * @param raw - Snapshot as parsed from storage
+ * @returns The snapshot at the current version, or null if it has no version, a
+ * version newer than this one, or no way to upgrade
+ */
+export const migrateGameSnapshot = (raw: unknown): RawGameSnapshot | null => {
+  if (!isRecord(raw) || !isFiniteNumber(raw.version) || !isRecord(raw.state)) return null;
+
+  let snapshot: RawGameSnapshot = { version: raw.version, savedAt: raw.savedAt, state: raw.state };
+  while (snapshot.version < GAME_SNAPSHOT_VERSION) {
+    const migrate = migrations[snapshot.version];
+    if (!migrate) return null;
+    snapshot = migrate(snapshot);
+  }
+
+  return snapshot.version === GAME_SNAPSHOT_VERSION ? snapshot : null;
+};
+
+/**
+ * Serializes game state into a snapshot string
+ *
+ * @param snapshot - Game state to serialize
+ * @returns JSON string ready for storage
+ */
+export const serializeGameSnapshot = (snapshot: GameSnapshot): string => {
+  const serialized: SerializedGameSnapshot = {
+    version: GAME_SNAPSHOT_VERSION,
+    savedAt: new Date().toISOString(),
+    state: {
+      ...snapshot,
+      // Only what the type allows: a live state passed in still carries its derived server seed
+      fairness: { clientSeed: snapshot.fairness.clientSeed, nonce: snapshot.fairness.nonce },
+      betHistory: snapshot.betHistory.map(serializeBet),
+      startedAt: snapshot.startedAt.toISOString(),
+    },
+  };
+
+  return JSON.stringify(serialized);
+};
+
+/**
+ * Parses a snapshot string back into game state
+ *
+ * @param value - JSON string as read from storage
+ * @returns The game state, or null if the snapshot is corrupt or unsupported
+ */
+export const deserializeGameSnapshot = (value: string): GameSnapshot | null => {
+  try {
+    return reviveSnapshot(migrateGameSnapshot(JSON.parse(value)));
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Loads the saved game from localStorage
+ *
+ * A snapshot that cannot be read is copied to a backup key and removed,
+ * so the game starts fresh instead of failing on every load.
+ *
+ * @param key - The localStorage key to read
+ * @returns The saved game state, or null if there is none
+ */
+export const loadGameSnapshot = (key: string = STORAGE_KEYS.GAME_STATE): GameSnapshot | null => {
+  if (typeof window === 'undefined') return null;
+
+  try {
+    const item = window.localStorage.getItem(key);
+    if (!item) return null;
+
+    const snapshot = deserializeGameSnapshot(item);
+    if (!snapshot) {
+      console.warn(`Discarding unreadable game snapshot in localStorage key "${key}"`);
+      window.localStorage.setItem(`${key}_corrupt`, item);
+      window.localStorage.removeItem(key);
+    }
+    return snapshot;
+  } catch (error) {
+    console.warn(`Error reading localStorage key "${key}":`, error);
+    return null;
+  }
+};
+
+/**
+ * Saves the game to localStorage
+ *
+ * @param snapshot - Game state to save
+ * @param key - The localStorage key to write
+ */
+export const saveGameSnapshot = (snapshot: GameSnapshot, key: string = STORAGE_KEYS.GAME_STATE): void => {
+  if (typeof window === 'undefined') return;
+
+  try {
+    window.localStorage.setItem(key, serializeGameSnapshot(snapshot));
+  } catch (error) {
+    console.warn(`Error setting localStorage key "${key}":`, error);
+  }
+};
+
+/**
+ * Removes the saved game from localStorage
+ *
+ * @param key - The localStorage key to clear
+ */
+export const clearGameSnapshot = (key: string = STORAGE_KEYS.GAME_STATE): void => {
+  if (typeof window === 'undefined') return;
+
+  try {
+    window.localStorage.removeItem(key);
+  } catch (error) {
+    console.warn(`Error removing localStorage key "${key}":`, error);
+  }
+};
+
+/**
+ * Converts a session into its stored form
+ *
+ * @param session - Session to store
+ * @returns JSON of the session
+ */
+const serializeSession = (session: Session): string => {
+  const serialized: SerializedSession = {
+    ...session,
+    startedAt: session.startedAt.toISOString(),
+    endedAt: session.endedAt ? session.endedAt.toISOString() : null,
+    bets: session.bets.map(serializeBet),
+  };
+
+  return JSON.stringify(serialized);
+};
+
+/**
+ * Joins serialized sessions into a stored archive
+ *
+ * @param sessions - JSON of each session, oldest first
+ * @returns JSON of the archive: its schema version and the sessions
+ */
+const joinSessionArchive = (sessions: string[]): string =>
+  `{"version":${SESSION_ARCHIVE_VERSION},"sessions":[${sessions.join(',')}]}`;
+
+/**
+ * Serializes the session archive
+ *
+ * @param sessions - Archived sessions, oldest first
+ * @returns JSON string ready for storage
+ */
+export const serializeSessionArchive = (sessions: Session[]): string =>
+  joinSessionArchive(sessions.map(serializeSession));
+
+/**
+ * Parses a session archive string back into sessions
+ *
+ * @param value - JSON string as read from storage
+ * @returns The archived sessions, or null if the archive is corrupt or unsupported
+ */
+export const deserializeSessionArchive = (value: string): Session[] | null => {
+  try {
+    const raw: unknown = JSON.parse(value);
+    if (!isRecord(raw) || raw.version !== SESSION_ARCHIVE_VERSION || !Array.isArray(raw.sessions)) return null;
+
+    const sessions: Session[] = [];
+    for (const entry of raw.sessions) {
+      const session = reviveSession(entry);
+      if (!session) return null;
+      sessions.push(session);
+    }
+    return sessions;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Loads the archive of past sessions from localStorage
+ *
+ * Like the game snapshot, an archive that cannot be read is copied to a
+ * backup key and removed.
+ *
+ * @param key - The localStorage key to read
+ * @returns The archived sessions, oldest first; empty if there are none
+ */
+export const loadSessionArchive = (key: string = STORAGE_KEYS.SESSION_ARCHIVE): Session[] => {
+  if (typeof window === 'undefined') return [];
+
+  try {
+    const item = window.localStorage.getItem(key);
+    if (!item) return [];
+
+    const sessions = deserializeSessionArchive(item);
+    if (!sessions) {
+      console.warn(`Discarding unreadable session archive in localStorage key "${key}"`);
+      window.localStorage.setItem(`${key}_corrupt`, item);
+      window.localStorage.removeItem(key);
+    }
+    return sessions || [];
+  } catch (error) {
+    console.warn(`Error reading localStorage key "${key}":`, error);
+    return [];
+  }
+};
+
+/**
+ * Saves the archive of past sessions to localStorage
+ *
+ * Sessions carry every bet with its fairness proof, so a long archive can
+ * outgrow the storage quota. The oldest sessions are left out until the
+ * archive fits under MAX_SESSION_ARCHIVE_LENGTH and the browser accepts it.
+ *
+ * @param sessions - Archived sessions, oldest first
+ * @param key - The localStorage key to write
+ * @param maxLength - Most characters the archive may take up
+ * @returns How many of the newest sessions were saved; fewer than were given when the oldest had to be left out
+ */
+export const saveSessionArchive = (
+  sessions: Session[],
+  key: string = STORAGE_KEYS.SESSION_ARCHIVE,
+  maxLength: number = MAX_SESSION_ARCHIVE_LENGTH
+): number => {
+  if (typeof window === 'undefined') return sessions.length;
+
+  const serialized = sessions.map(serializeSession);
+  let length = joinSessionArchive(serialized).length;
+  let first = 0;
+  while (first < serialized.length && length > maxLength) {
+    // Along with the comma that separated it from the next session
+    length -= serialized[first].length + 1;
+    first++;
+  }
+
+  for (; first <= serialized.length; first++) {
+    try {
+      window.localStorage.setItem(key, joinSessionArchive(serialized.slice(first)));
+      if (first > 0) {
+        console.warn(`Left the ${first} oldest of ${sessions.length} sessions out of localStorage key "${key}" to fit the storage quota`);
+      }
+      return sessions.length - first;
+    } catch (error) {
+      if (first === serialized.length) {
+        console.warn(`Error setting localStorage key "${key}":`, error);
+      }
+    }
+  }
+
+  return 0;
+};
@@ -0,0 +1,87 @@
+import type { BetHistory } from '../types';
+import { PERSONAS } from '../engine/personas';
+import { eventRegistry } from './eventRegistry';
+import { checkPersonaBetLimit, getPersonaBetLimit, summarizePersonaChallenge } from './personaChallenge';
+
+const [babyBetsy, , yoloYolanda] = PERSONAS;
+const coinFlip = eventRegistry.getEvent('coin-flip')!;
+const diceRoll = eventRegistry.getEvent('dice-roll')!;
+
+/**
+ * A bet with the fields the summary reads
+ */
+const betOf = (betAmount: number, winAmount: number, balanceAfter: number): BetHistory => ({
+  id: `bet-${balanceAfter}`,
+  eventId: 'coin-flip',
+  eventName: 'Coin Flip',
+  betAmount,
+  outcome: winAmount > 0 ? 'win' : 'loss',
+  winAmount,
+  balanceAfter,
+  riskPercentage: 10,
+  timestamp: new Date('2024-01-01T10:00:00Z'),
+});
+
+describe('getPersonaBetLimit', () => {
+  it('allows the persona\'s share of the balance, rounded down', () => {
+    expect(getPersonaBetLimit(babyBetsy, coinFlip, 1005)).toBe(100);
+    expect(getPersonaBetLimit(yoloYolanda, coinFlip, 1005)).toBe(1005);
+  });
+
+  it('never drops below the event\'s minimum bet', () => {
+    // 10% of $300 is $30, but the dice roll takes $50 at least
+    expect(getPersonaBetLimit(babyBetsy, diceRoll, 300)).toBe(50);
+    expect(getPersonaBetLimit(babyBetsy, coinFlip, 300)).toBe(30);
+  });
+});
+
+describe('checkPersonaBetLimit', () => {
+  it('allows a bet up to the limit', () => {
+    expect(checkPersonaBetLimit(babyBetsy, coinFlip, 100, 1000)).toBeNull();
+  });
+
+  it('explains a bet over the limit', () => {
+    expect(checkPersonaBetLimit(babyBetsy, coinFlip, 101, 1000)).toEqual({
+      code: 'persona-limit',
+      personaId: 'baby-betsy',
+      limit: 100,
+      message: 'Baby Betsy can only bet up to 10% of the balance ($100)',
+    });
+  });
+});
+
+describe('summarizePersonaChallenge', () => {
+  it('summarizes a challenge without bets', () => {
+    expect(summarizePersonaChallenge(babyBetsy, [], 'playing', 1000)).toEqual({
+      personaId: 'baby-betsy',
+      result: 'playing',
+      betCount: 0,
+      wins: 0,
+      winRate: 0,
+      finalBalance: 1000,
+      peakBalance: 1000,
+      totalReturn: 0,
+      averageStakeFraction: 0,
+      averageLimitUsage: 0,
+    });
+  });
+
+  it('tracks the peak, the return and how much of the limit was used', () => {
+    const summary = summarizePersonaChallenge(babyBetsy, [betOf(100, 94, 1094), betOf(50, -50, 1044)], 'playing', 1000);
+
+    expect(summary.wins).toBe(1);
+    expect(summary.peakBalance).toBe(1094);
+    expect(summary.finalBalance).toBe(1044);
+    expect(summary.totalReturn).toBeCloseTo(0.044, 10);
+    expect(summary.averageStakeFraction).toBeCloseTo((0.1 + 50 / 1094) / 2, 10);
+    expect(summary.averageLimitUsage).toBeCloseTo((1 + 50 / 109) / 2, 10);
+  });
+
+  it('leaves pushes out of the win rate', () => {
+    const push: BetHistory = { ...betOf(50, 0, 1094), outcome: 'push' };
+    const summary = summarizePersonaChallenge(babyBetsy, [betOf(100, 94, 1094), push, betOf(50, -50, 1044)], 'playing', 1000);
+
+    expect(summary.betCount).toBe(3);
+    expect(summary.winRate).toBe(0.5);
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Persona challenge mode
+ *
+ * In a persona challenge the player commits to a persona before the first
+ * bet and has to reach the goal within that persona's bet limit: Baby Betsy
+ * may stake 10% of the balance, Midlife Crisis Mike 30% and YOLO Yolanda
+ * all of it. A bet at the event's minimum is always allowed, so a small
+ * balance never leaves the player with no bet they can place.
+ */
+
+import type { BetEvent, BetHistory, GameState, Persona } from '../types';
+import { INITIAL_BALANCE } from './constants';
+import { calculateMaxBet } from './betting';
+import { calculateWinRate } from './settlement';
+
+/**
+ * Why a bet breaks the challenge persona's limit
+ */
+export interface PersonaLimitViolation {
+  /** Reason code */
+  code: 'persona-limit';
+  /** ID of the challenge persona */
+  personaId: string;
+  /** Largest stake the persona allows at the current balance */
+  limit: number;
+  /** Explanation for the player */
+  message: string;
+}
+
+/**
+ * How a persona challenge went
+ */
+export interface PersonaChallengeSummary {
+  /** ID of the challenge persona */
+  personaId: string;
+  /** State the challenge ended in */
+  result: GameState;
+  /** Number of bets placed */
+  betCount: number;
+  /** Number of bets won */
+  wins: number;
+  /** Share of decided bets that were won (0-1); pushes are left out */
+  winRate: number;
+  /** Balance at the end */
+  finalBalance: number;
+  /** Highest balance reached */
+  peakBalance: number;
+  /** Final balance relative to the starting balance, e.g. 0.5 for +50% */
+  totalReturn: number;
+  /** Average share of the balance staked (0-1) */
+  averageStakeFraction: number;
+  /** Average stake as a share of the persona's limit at the time (0-1) */
+  averageLimitUsage: number;
+}
+
+/**
+ * Largest stake a persona allows on an event at a balance
+ * @param persona - The challenge persona
+ * @param event - Event the bet is on
+ * @param balance - Balance before the bet
+ * @returns The limit; never below the event's minimum bet
+ */
+export const getPersonaBetLimit = (persona: Persona, event: BetEvent, balance: number): number =>
+  Math.max(Math.floor(calculateMaxBet(balance, persona.maxBetPercentage)), event.minBet);
+
+/**
+ * Check a stake against the challenge persona's limit
+ * @param persona - The challenge persona
+ * @param event - Event the bet is on
+ * @param amount - Stake of the bet
+ * @param balance - Balance before the bet
+ * @returns The violation, or null if the persona allows the bet
+ */
+export const checkPersonaBetLimit = (
+  persona: Persona,
+  event: BetEvent,
+  amount: number,
+  balance: number
+): PersonaLimitViolation | null => {
+  const limit = getPersonaBetLimit(persona, event, balance);
+  if (amount <= limit) return null;
+
+  return {
+    code: 'persona-limit',
+    personaId: persona.id,
+    limit,
+    message: `${persona.name} can only bet up to ${Math.round(persona.maxBetPercentage * 100)}% of the balance ($${limit.toLocaleString()})`,
+  };
+};
+
+/**
+ * Summarize how a persona challenge went
+ * @param persona - The challenge persona
+ * @param betHistory - Bets placed during the challenge, oldest first
+ * @param gameState - State of the game
+ * @param startingBalance - Balance the challenge started with
+ * @returns The challenge summary
+ */
+export const summarizePersonaChallenge = (
+  persona: Persona,
+  betHistory: BetHistory[],
+  gameState: GameState,
+  startingBalance: number = INITIAL_BALANCE
+): PersonaChallengeSummary => {
+  const finalBalance = betHistory.length > 0 ? betHistory[betHistory.length - 1].balanceAfter : startingBalance;
+  let peakBalance = startingBalance;
+  let stakeFractionSum = 0;
+  let limitUsageSum = 0;
+
+  betHistory.forEach(bet => {
+    const balanceBefore = bet.balanceAfter - bet.winAmount;
+    const limit = Math.floor(calculateMaxBet(balanceBefore, persona.maxBetPercentage));
+    peakBalance = Math.max(peakBalance, bet.balanceAfter);
+    stakeFractionSum += balanceBefore > 0 ? bet.betAmount / balanceBefore : 1;
+    limitUsageSum += limit > 0 ? Math.min(bet.betAmount / limit, 1) : 1;
+  });
+
+  const betCount = betHistory.length;
+
+  return {
+    personaId: persona.id,
+    result: gameState,
+    betCount,
+    wins: betHistory.filter(bet => bet.outcome === 'win').length,
+    winRate: calculateWinRate(betHistory),
+    finalBalance,
+    peakBalance,
+    totalReturn: (finalBalance - startingBalance) / startingBalance,
+    averageStakeFraction: betCount > 0 ? stakeFractionSum / betCount : 0,
+    averageLimitUsage: betCount > 0 ? limitUsageSum / betCount : 0,
+  };
+};
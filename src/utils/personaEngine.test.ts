@@ -0,0 +1,108 @@
+import type { BetHistory } from '../types';
+import { PERSONAS } from '../engine/personas';
+import { eventRegistry } from './eventRegistry';
+import { calculateBehaviorProfile, classifyPersona, selectPersona } from './personaEngine';
+
+const [babyBetsy, midlifeMike, yoloYolanda] = PERSONAS;
+const getEvent = eventRegistry.getEvent;
+
+/**
+ * A bet staking a share of a $1,000 balance
+ */
+const betOf = (fraction: number, won: boolean = false, eventId: string = 'coin-flip', index: number = 0): BetHistory => ({
+  id: `bet-${index}`,
+  eventId,
+  eventName: eventId,
+  betAmount: fraction * 1000,
+  outcome: won ? 'win' : 'loss',
+  winAmount: won ? fraction * 1000 : -fraction * 1000,
+  balanceAfter: won ? 1000 + fraction * 1000 : 1000 - fraction * 1000,
+  riskPercentage: fraction * 100,
+  timestamp: new Date(Date.UTC(2024, 0, 1, 10, index)),
+});
+
+const betsOf = (fractions: number[]): BetHistory[] => fractions.map((fraction, index) => betOf(fraction, false, 'coin-flip', index));
+
+describe('calculateBehaviorProfile', () => {
+  it('scores no bets as 0', () => {
+    expect(calculateBehaviorProfile([], getEvent).score).toBe(0);
+  });
+
+  it('measures stake size, all-ins and long shots', () => {
+    const profile = calculateBehaviorProfile([betOf(0.1, true), betOf(1, true), betOf(0.1, true, 'roulette')], getEvent);
+
+    expect(profile.betCount).toBe(3);
+    expect(profile.averageStakeFraction).toBeCloseTo(0.4, 10);
+    expect(profile.allInShare).toBeCloseTo(1 / 3, 10);
+    expect(profile.longShotShare).toBeCloseTo(1 / 3, 10);
+    expect(profile.lossChaseRate).toBe(0);
+  });
+
+  it('counts a loss followed by a bigger stake as chasing it', () => {
+    // The first loss is chased, the second isn't, and the win doesn't count
+    const profile = calculateBehaviorProfile([betOf(0.1), betOf(0.2), betOf(0.2, true), betOf(0.5)], getEvent);
+
+    expect(profile.lossChaseRate).toBe(0.5);
+  });
+});
+
+describe('selectPersona', () => {
+  it('keeps the persona while the score hovers just past its range', () => {
+    // Baby Betsy covers 0-30, Midlife Crisis Mike 31-70
+    expect(selectPersona(33, babyBetsy, PERSONAS, 5)).toBe(babyBetsy);
+    expect(selectPersona(28, midlifeMike, PERSONAS, 5)).toBe(midlifeMike);
+  });
+
+  it('changes persona once the score is clearly past the range', () => {
+    expect(selectPersona(36, babyBetsy, PERSONAS, 5)).toBe(midlifeMike);
+    expect(selectPersona(25, midlifeMike, PERSONAS, 5)).toBe(babyBetsy);
+    expect(selectPersona(100, babyBetsy, PERSONAS, 5)).toBe(yoloYolanda);
+  });
+
+  it('changes at the range edge without hysteresis', () => {
+    expect(selectPersona(31, babyBetsy, PERSONAS, 0)).toBe(midlifeMike);
+  });
+});
+
+describe('classifyPersona', () => {
+  it('starts as the first persona', () => {
+    expect(classifyPersona([], PERSONAS, getEvent)).toEqual({
+      personaId: babyBetsy.id,
+      profile: calculateBehaviorProfile([], getEvent),
+      history: [{ fromPersonaId: null, toPersonaId: babyBetsy.id, betCount: 0, score: 0, timestamp: null }],
+    });
+  });
+
+  it('waits for the minimum number of bets before changing', () => {
+    const bets = betsOf([1, 1, 1]);
+
+    expect(classifyPersona(bets.slice(0, 2), PERSONAS, getEvent, { minBets: 3 }).personaId).toBe(babyBetsy.id);
+    expect(classifyPersona(bets, PERSONAS, getEvent, { minBets: 3 }).history[1]).toEqual({
+      fromPersonaId: babyBetsy.id,
+      toPersonaId: yoloYolanda.id,
+      betCount: 3,
+      score: 75,
+      timestamp: bets[2].timestamp,
+    });
+  });
+
+  it('judges the persona by the most recent window only', () => {
+    const bets = betsOf([1, 1, 1, 0.1, 0.1, 0.1]);
+    const { personaId, history } = classifyPersona(bets, PERSONAS, getEvent, { windowSize: 3 });
+
+    expect(personaId).toBe(babyBetsy.id);
+    expect(history.map(change => change.toPersonaId)).toEqual([babyBetsy.id, yoloYolanda.id, midlifeMike.id, babyBetsy.id]);
+  });
+
+  it('does not flip back and forth on a score near a boundary', () => {
+    // Stakes of 20-21% score 30-32, right on Baby Betsy's upper edge
+    const bets = betsOf([0.2, 0.21, 0.2, 0.21, 0.2, 0.21, 0.2, 0.21]);
+
+    expect(classifyPersona(bets, PERSONAS, getEvent).history).toHaveLength(1);
+    expect(classifyPersona(bets, PERSONAS, getEvent, { hysteresis: 0, windowSize: 1, minBets: 1 }).history.length).toBeGreaterThan(2);
+  });
+
+  it('refuses to classify without personas', () => {
+    expect(() => classifyPersona([], [], getEvent)).toThrow('without any personas');
+  });
+});
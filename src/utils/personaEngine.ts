@@ -0,0 +1,226 @@
+/**
+ * Persona engine
+ *
+ * Classifies the player into a persona from how they have been betting
+ * lately rather than from any one bet. Each bet is scored over a rolling
+ * window of the bets before it:
+ * - stake size: average share of the balance staked
+ * - all-ins: share of bets that staked nearly the whole balance
+ * - long shots: share of bets on high-risk events
+ * - loss chasing: how often a loss was followed by a bigger stake
+ *
+ * The persona only changes once the score has moved clearly past the edge
+ * of the current persona's risk range, so a score hovering on a boundary
+ * doesn't flip the persona back and forth with every bet.
+ */
+
+import type { BetEvent, BetHistory, Persona } from '../types';
+
+/**
+ * How the player has been betting over the rolling window
+ */
+export interface BehaviorProfile {
+  /** Number of bets in the window */
+  betCount: number;
+  /** Average share of the balance staked (0-1) */
+  averageStakeFraction: number;
+  /** Share of bets that staked nearly the whole balance (0-1) */
+  allInShare: number;
+  /** Share of bets on high-risk events (0-1) */
+  longShotShare: number;
+  /** Share of losses followed by a bigger stake (0-1) */
+  lossChaseRate: number;
+  /** Behavior score the persona is classified by (0-100) */
+  score: number;
+}
+
+/**
+ * A change from one persona to another
+ */
+export interface PersonaChange {
+  /** ID of the persona before the change, null for the starting persona */
+  fromPersonaId: string | null;
+  /** ID of the persona after the change */
+  toPersonaId: string;
+  /** Number of bets placed when the change happened */
+  betCount: number;
+  /** Behavior score that caused the change (0-100) */
+  score: number;
+  /** When the change happened: the time of the bet, or null for the starting persona */
+  timestamp: Date | null;
+}
+
+/**
+ * Result of classifying a betting history
+ */
+export interface PersonaClassification {
+  /** ID of the current persona */
+  personaId: string;
+  /** Behavior over the most recent window */
+  profile: BehaviorProfile;
+  /** Every persona the player has had, oldest first, starting with the starting persona */
+  history: PersonaChange[];
+}
+
+/**
+ * Settings of the persona engine
+ */
+export interface PersonaEngineOptions {
+  /** Number of recent bets the behavior is measured over */
+  windowSize?: number;
+  /** Points the score has to move past a persona's risk range before the persona changes */
+  hysteresis?: number;
+  /** Number of bets before the persona can change at all */
+  minBets?: number;
+}
+
+/** Number of recent bets the behavior is measured over by default */
+export const PERSONA_WINDOW_SIZE = 10;
+
+/** Points past a risk range that change the persona by default */
+export const PERSONA_HYSTERESIS = 5;
+
+/** Number of bets before the persona can change by default */
+export const PERSONA_MIN_BETS = 3;
+
+/** Share of the balance from which a stake counts as all-in */
+const ALL_IN_FRACTION = 0.9;
+
+/** Share of the balance at which the stake size component is at its maximum */
+const MAX_RISK_STAKE_FRACTION = 0.3;
+
+/** Growth of the stake after a loss that counts as chasing it */
+const LOSS_CHASE_GROWTH = 1.25;
+
+/** Weights of the behavior components in the score */
+const BEHAVIOR_WEIGHTS = {
+  stakeSize: 0.45,
+  allIns: 0.3,
+  longShots: 0.1,
+  lossChasing: 0.15,
+};
+
+/**
+ * Share of the balance a bet staked
+ * @param bet - The bet
+ * @returns The stake fraction (0-1)
+ */
+const getStakeFraction = (bet: BetHistory): number => {
+  const balanceBefore = bet.balanceAfter - bet.winAmount;
+  return balanceBefore > 0 ? Math.min(bet.betAmount / balanceBefore, 1) : 1;
+};
+
+/**
+ * Measure how the player bet over some bets
+ * @param bets - Bets in the order they were placed
+ * @param getEvent - Looks up the event a bet was on
+ * @returns The behavior profile; a score of 0 with no bets
+ */
+export const calculateBehaviorProfile = (
+  bets: BetHistory[],
+  getEvent: (eventId: string) => BetEvent | undefined
+): BehaviorProfile => {
+  if (bets.length === 0) {
+    return { betCount: 0, averageStakeFraction: 0, allInShare: 0, longShotShare: 0, lossChaseRate: 0, score: 0 };
+  }
+
+  const fractions = bets.map(getStakeFraction);
+  const averageStakeFraction = fractions.reduce((sum, fraction) => sum + fraction, 0) / bets.length;
+  const allInShare = fractions.filter(fraction => fraction >= ALL_IN_FRACTION).length / bets.length;
+  const longShotShare = bets.filter(bet => getEvent(bet.eventId)?.riskLevel === 'High').length / bets.length;
+
+  // Reaction to losses: did the next stake grow?
+  let lossesFollowed = 0;
+  let lossesChased = 0;
+  for (let i = 1; i < bets.length; i++) {
+    if (bets[i - 1].winAmount < 0) {
+      lossesFollowed++;
+      if (fractions[i] > fractions[i - 1] * LOSS_CHASE_GROWTH) lossesChased++;
+    }
+  }
+  const lossChaseRate = lossesFollowed > 0 ? lossesChased / lossesFollowed : 0;
+
+  const score = 100 * (
+    BEHAVIOR_WEIGHTS.stakeSize * Math.min(averageStakeFraction / MAX_RISK_STAKE_FRACTION, 1) +
+    BEHAVIOR_WEIGHTS.allIns * allInShare +
+    BEHAVIOR_WEIGHTS.longShots * longShotShare +
+    BEHAVIOR_WEIGHTS.lossChasing * lossChaseRate
+  );
+
+  return {
+    betCount: bets.length,
+    averageStakeFraction,
+    allInShare,
+    longShotShare,
+    lossChaseRate,
+    score: Math.min(Math.round(score), 100),
+  };
+};
+
+/**
+ * Pick the persona for a score, sticking with the current one unless the score is clearly outside its range
+ * @param score - Behavior score (0-100)
+ * @param current - Current persona
+ * @param personas - Available personas
+ * @param hysteresis - Points past the current range needed to change
+ * @returns The persona to have next
+ */
+export const selectPersona = (
+  score: number,
+  current: Persona,
+  personas: Persona[],
+  hysteresis: number = PERSONA_HYSTERESIS
+): Persona => {
+  if (score >= current.riskRange.min - hysteresis && score <= current.riskRange.max + hysteresis) {
+    return current;
+  }
+
+  return personas.find(persona => score >= persona.riskRange.min && score <= persona.riskRange.max) || current;
+};
+
+/**
+ * Classify a betting history into personas, replaying it bet by bet
+ * @param betHistory - Bets in the order they were placed
+ * @param personas - Available personas; the first is the starting persona
+ * @param getEvent - Looks up the event a bet was on
+ * @param options - Window size, hysteresis and minimum bets
+ * @returns The current persona, the latest behavior and every persona change
+ * @throws {Error} If there are no personas
+ */
+export const classifyPersona = (
+  betHistory: BetHistory[],
+  personas: Persona[],
+  getEvent: (eventId: string) => BetEvent | undefined,
+  options: PersonaEngineOptions = {}
+): PersonaClassification => {
+  const { windowSize = PERSONA_WINDOW_SIZE, hysteresis = PERSONA_HYSTERESIS, minBets = PERSONA_MIN_BETS } = options;
+
+  if (personas.length === 0) {
+    throw new Error('Cannot classify a persona without any personas');
+  }
+
+  let current = personas[0];
+  let profile = calculateBehaviorProfile([], getEvent);
+  const history: PersonaChange[] = [
+    { fromPersonaId: null, toPersonaId: current.id, betCount: 0, score: 0, timestamp: null },
+  ];
+
+  for (let i = 1; i <= betHistory.length; i++) {
+    profile = calculateBehaviorProfile(betHistory.slice(Math.max(0, i - windowSize), i), getEvent);
+    if (i < minBets) continue;
+
+    const next = selectPersona(profile.score, current, personas, hysteresis);
+    if (next.id !== current.id) {
+      history.push({
+        fromPersonaId: current.id,
+        toPersonaId: next.id,
+        betCount: i,
+        score: profile.score,
+        timestamp: betHistory[i - 1].timestamp,
+      });
+      current = next;
+    }
+  }
+
+  return { personaId: current.id, profile, history };
+};
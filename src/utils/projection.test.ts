@@ -0,0 +1,100 @@
+import type { UserMetrics } from '../types';
+import {
+  calculatePercentile,
+  calculatePercentileBand,
+  ProjectionConfig,
+  runMonteCarloProjection,
+  simulateProjectionPath,
+} from './projection';
+import { createSeededRandom } from './random';
+
+const metrics: UserMetrics = {
+  winRate: 0.45,
+  avgBetSize: 100,
+  avgRiskLevel: 30,
+  winRateTrend: 0,
+  betSizeTrend: 0,
+  riskTrend: 0,
+  recentWinRate: 0.45,
+  bettingFrequency: 10,
+  avgBetSizeRatio: 0.1,
+  betSizeStdDev: 0.02,
+};
+
+const config: ProjectionConfig = { metrics, balance: 1000, numBets: 20, paths: 200 };
+
+describe('calculatePercentile', () => {
+  it('is 0 for an empty list', () => {
+    expect(calculatePercentile([], 0.5)).toBe(0);
+  });
+
+  it('interpolates between neighbours', () => {
+    expect(calculatePercentile([10, 20], 0.25)).toBe(12.5);
+    expect(calculatePercentile([1, 2, 3, 4, 5], 0.5)).toBe(3);
+  });
+
+  it('takes the ends at 0 and 1', () => {
+    expect(calculatePercentile([1, 2, 3], 0)).toBe(1);
+    expect(calculatePercentile([1, 2, 3], 1)).toBe(3);
+  });
+});
+
+describe('calculatePercentileBand', () => {
+  it('sorts the values first', () => {
+    expect(calculatePercentileBand([5, 1, 4, 2, 3])).toEqual({ p5: 1.2, p25: 2, p50: 3, p75: 4, p95: 4.8 });
+  });
+
+  it('collapses a single value', () => {
+    expect(calculatePercentileBand([7])).toEqual({ p5: 7, p25: 7, p50: 7, p75: 7, p95: 7 });
+  });
+});
+
+describe('simulateProjectionPath', () => {
+  it('records the starting balance and one balance per bet', () => {
+    const path = simulateProjectionPath(config, createSeededRandom(1));
+
+    expect(path.balances).toHaveLength(21);
+    expect(path.balances[0]).toBe(1000);
+  });
+
+  it('stays flat once the path has gone broke', () => {
+    const path = simulateProjectionPath({ ...config, metrics: { ...metrics, winRate: 0.01, avgBetSize: 500 } }, createSeededRandom(1));
+    const broke = path.balances.indexOf(0);
+
+    expect(broke).toBeGreaterThan(0);
+    expect(path.balances.slice(broke).every(balance => balance === 0)).toBe(true);
+    expect(path.betsPlaced).toBe(broke);
+  });
+
+  it('places no bets from the goal', () => {
+    const path = simulateProjectionPath({ ...config, balance: 10000 }, createSeededRandom(1));
+
+    expect(path.betsPlaced).toBe(0);
+    expect(new Set(path.balances)).toEqual(new Set([10000]));
+  });
+});
+
+describe('runMonteCarloProjection', () => {
+  it('gives the same projection for the same seed', () => {
+    expect(runMonteCarloProjection(config, createSeededRandom(5))).toEqual(runMonteCarloProjection(config, createSeededRandom(5)));
+  });
+
+  it('bands the balance after every bet, from the starting balance', () => {
+    const { monteCarlo } = runMonteCarloProjection(config, createSeededRandom(5));
+
+    expect(monteCarlo.pathCount).toBe(200);
+    expect(monteCarlo.bands).toHaveLength(21);
+    expect(monteCarlo.bands[0]).toEqual({ bet: 0, p5: 1000, p25: 1000, p50: 1000, p75: 1000, p95: 1000 });
+    monteCarlo.bands.forEach(band => {
+      expect(band.p5).toBeLessThanOrEqual(band.p50);
+      expect(band.p50).toBeLessThanOrEqual(band.p95);
+    });
+  });
+
+  it('keeps ruin and goal probabilities within 0 and 1', () => {
+    const { monteCarlo } = runMonteCarloProjection({ ...config, numBets: 200 }, createSeededRandom(5));
+
+    expect(monteCarlo.ruinProbability).toBeGreaterThan(0);
+    expect(monteCarlo.ruinProbability + monteCarlo.goalProbability).toBeLessThanOrEqual(1);
+  });
+});
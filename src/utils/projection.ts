@@ -0,0 +1,278 @@
+/**
+ * Monte Carlo balance projections
+ *
+ * Projects the player's balance forward by simulating many independent
+ * paths of future bets from their betting metrics. A single path swings
+ * wildly from one run to the next; the spread across thousands of paths
+ * is what says something about where the balance is heading.
+ */
+
+import type {
+  MonteCarloProjection,
+  PercentileBand,
+  ProjectionBandPoint,
+  ProjectionMetrics,
+  UserMetrics,
+} from '../types';
+import { GOAL_AMOUNT } from './constants';
+import {
+  calculateBankruptcyRiskScore,
+  calculateStandardDeviation,
+  calculateValueAtRisk,
+} from './analytics';
+import type { RandomGenerator } from './random';
+
+/** Number of paths simulated by default */
+export const DEFAULT_PROJECTION_PATHS = 1000;
+
+/** Path counts offered to the player */
+export const PROJECTION_PATH_OPTIONS = [500, 1000, 5000];
+
+/** Value at Risk confidence level used by default */
+export const DEFAULT_CONFIDENCE_LEVEL = 0.95;
+
+/** Value at Risk confidence levels offered to the player */
+export const CONFIDENCE_LEVEL_OPTIONS = [0.9, 0.95, 0.99];
+
+/**
+ * Settings of a projection
+ */
+export interface ProjectionConfig {
+  /** Betting metrics the simulated bets follow */
+  metrics: UserMetrics;
+  /** Balance every path starts from */
+  balance: number;
+  /** Number of bets to project */
+  numBets: number;
+  /** Number of paths to simulate */
+  paths: number;
+  /** Confidence level of the Value at Risk (0-1) */
+  confidenceLevel?: number;
+  /** Balance at which a path stops because the game is won */
+  goal?: number;
+}
+
+/**
+ * Combined result of a projection
+ */
+export interface ProjectionResult {
+  /** Typical path metrics and risk assessment, taken across all paths */
+  projections: ProjectionMetrics;
+  /** Distribution of the simulated balances */
+  monteCarlo: MonteCarloProjection;
+}
+
+/**
+ * A single simulated path
+ */
+export interface ProjectionPath {
+  /** Balance before the first bet and after each bet; stays flat once the path has ended */
+  balances: number[];
+  /** Number of bets placed before the path ended */
+  betsPlaced: number;
+  /** Number of winning bets */
+  wins: number;
+  /** Sum of the stakes */
+  totalBetSize: number;
+  /** Sum of the risk levels */
+  totalRiskLevel: number;
+}
+
+/**
+ * Calculate a percentile of sorted values, interpolating between neighbours
+ * @param sorted - Values in ascending order
+ * @param percentile - Percentile to find (0-1)
+ * @returns The percentile, or 0 for an empty list
+ */
+export const calculatePercentile = (sorted: number[], percentile: number): number => {
+  if (sorted.length === 0) return 0;
+
+  const position = (sorted.length - 1) * percentile;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+/**
+ * Calculate the percentile band of some values
+ * @param values - Values in any order
+ * @returns The 5th, 25th, 50th, 75th and 95th percentiles
+ */
+export const calculatePercentileBand = (values: number[]): PercentileBand => {
+  const sorted = [...values].sort((a, b) => a - b);
+
+  return {
+    p5: calculatePercentile(sorted, 0.05),
+    p25: calculatePercentile(sorted, 0.25),
+    p50: calculatePercentile(sorted, 0.5),
+    p75: calculatePercentile(sorted, 0.75),
+    p95: calculatePercentile(sorted, 0.95),
+  };
+};
+
+/**
+ * Simulate one path of future bets
+ *
+ * Win rate, bet size and risk level drift with the player's recent trends
+ * plus some noise. The path stops once the balance hits zero or the goal,
+ * just as the game does.
+ *
+ * @param config - Projection settings
+ * @param rng - Random generator for the path
+ * @returns The simulated path
+ */
+export const simulateProjectionPath = (config: ProjectionConfig, rng: RandomGenerator): ProjectionPath => {
+  const { metrics, balance, numBets, goal = GOAL_AMOUNT } = config;
+
+  let projectedBalance = balance;
+  let currentWinRate = metrics.winRate;
+  let currentBetSize = metrics.avgBetSize;
+  let currentRiskLevel = metrics.avgRiskLevel;
+  const path: ProjectionPath = { balances: [balance], betsPlaced: 0, wins: 0, totalBetSize: 0, totalRiskLevel: 0 };
+
+  // Random variation helper
+  const randomVariation = () => (rng.next() * 0.2) - 0.1; // -10% to +10%
+
+  for (let i = 0; i < numBets; i++) {
+    if (projectedBalance <= 0 || projectedBalance >= goal) {
+      path.balances.push(projectedBalance);
+      continue;
+    }
+
+    // Adjust metrics with trends and random variations
+    currentWinRate = Math.max(0.01, Math.min(0.95,
+      currentWinRate + (metrics.winRateTrend / numBets) + randomVariation() * 0.05
+    ));
+
+    currentBetSize = Math.max(10,
+      currentBetSize * (1 + (metrics.betSizeTrend / numBets) + randomVariation() * 0.1)
+    );
+
+    currentRiskLevel = Math.max(5, Math.min(95,
+      currentRiskLevel + (metrics.riskTrend / numBets) + randomVariation()
+    ));
+
+    // Determine bet outcome
+    const isWin = rng.next() < currentWinRate;
+
+    // Calculate average return based on risk level
+    const avgReturn = 1 + (currentRiskLevel / 100);
+
+    if (isWin) {
+      projectedBalance += currentBetSize * avgReturn * 0.8; // 80% of theoretical return
+      path.wins++;
+    } else {
+      projectedBalance -= currentBetSize;
+    }
+
+    // Don't allow balance to go below 0
+    projectedBalance = Math.max(0, projectedBalance);
+    path.balances.push(projectedBalance);
+    path.betsPlaced++;
+    path.totalBetSize += currentBetSize;
+    path.totalRiskLevel += currentRiskLevel;
+  }
+
+  return path;
+};
+
+/**
+ * Calculate the median of some values
+ * @param values - Values in any order
+ * @returns The median
+ */
+const median = (values: number[]): number => calculatePercentile([...values].sort((a, b) => a - b), 0.5);
+
+/**
+ * Summarize simulated paths into typical path metrics and the distribution of balances
+ * @param config - Projection settings the paths were simulated with
+ * @param simulated - The simulated paths
+ * @returns Typical path metrics and the distribution of balances
+ */
+export const summarizeProjection = (config: ProjectionConfig, simulated: ProjectionPath[]): ProjectionResult => {
+  const { metrics, balance, numBets, confidenceLevel = DEFAULT_CONFIDENCE_LEVEL, goal = GOAL_AMOUNT } = config;
+  const paths = simulated.length;
+
+  // Percentile band of the balances after each bet
+  const bands: ProjectionBandPoint[] = [];
+  for (let bet = 0; bet <= numBets; bet++) {
+    bands.push({ bet, ...calculatePercentileBand(simulated.map(path => path.balances[bet])) });
+  }
+
+  const finalBalances = simulated.map(path => path.balances[numBets]);
+  const totalBets = simulated.reduce((sum, path) => sum + path.betsPlaced, 0);
+
+  // Per-path statistics, summarized by their median across paths
+  const volatilities = simulated.map(path => {
+    const average = path.balances.reduce((sum, value) => sum + value, 0) / path.balances.length;
+    return average > 0 ? calculateStandardDeviation(path.balances) / average : 0;
+  });
+  const minBalance = median(simulated.map(path => Math.min(...path.balances)));
+  const maxBalance = median(simulated.map(path => Math.max(...path.balances)));
+  const finalBalance = median(finalBalances);
+  const balanceVolatility = median(volatilities);
+
+  // Value at Risk over every simulated bet
+  const balanceChanges: number[] = [];
+  simulated.forEach(path => {
+    for (let i = 1; i <= path.betsPlaced; i++) {
+      balanceChanges.push(path.balances[i] - path.balances[i - 1]);
+    }
+  });
+  const valueAtRisk = calculateValueAtRisk(balanceChanges, confidenceLevel);
+  const avgBalance = simulated.reduce(
+    (sum, path) => sum + path.balances.reduce((pathSum, value) => pathSum + value, 0) / path.balances.length,
+    0
+  ) / (paths || 1);
+
+  const riskAssessment = calculateBankruptcyRiskScore(
+    finalBalance,
+    minBalance,
+    balance,
+    balanceVolatility,
+    valueAtRisk,
+    avgBalance,
+    metrics.betSizeStdDev
+  );
+
+  return {
+    projections: {
+      finalBalance,
+      projectedWinRate: totalBets > 0 ? simulated.reduce((sum, path) => sum + path.wins, 0) / totalBets : 0,
+      maxBalance,
+      minBalance,
+      averageBetSize: totalBets > 0 ? simulated.reduce((sum, path) => sum + path.totalBetSize, 0) / totalBets : 0,
+      averageRiskLevel: totalBets > 0 ? simulated.reduce((sum, path) => sum + path.totalRiskLevel, 0) / totalBets : 0,
+      bankruptcyRiskScore: riskAssessment.riskScore,
+      bankruptcyRiskCategory: riskAssessment.riskCategory,
+      balanceVolatility,
+      valueAtRisk,
+      profitPotential: finalBalance > balance * 1.5 ? 'High' :
+                       finalBalance > balance * 1.1 ? 'Medium' : 'Low',
+      riskBreakdown: riskAssessment.breakdown,
+    },
+    monteCarlo: {
+      pathCount: paths,
+      bands,
+      finalBalance: calculatePercentileBand(finalBalances),
+      ruinProbability: paths > 0 ? finalBalances.filter(value => value <= 0).length / paths : 0,
+      goalProbability: paths > 0 ? finalBalances.filter(value => value >= goal).length / paths : 0,
+    },
+  };
+};
+
+/**
+ * Project the balance by simulating many independent paths
+ * @param config - Projection settings
+ * @param rng - Random generator shared by all paths
+ * @returns Typical path metrics and the distribution of balances
+ */
+export const runMonteCarloProjection = (config: ProjectionConfig, rng: RandomGenerator): ProjectionResult => {
+  const simulated: ProjectionPath[] = [];
+
+  for (let i = 0; i < config.paths; i++) {
+    simulated.push(simulateProjectionPath(config, rng));
+  }
+
+  return summarizeProjection(config, simulated);
+};
@@ -0,0 +1,62 @@
+import { createMulberry32, formatSeed, generateSeed, parseSeed } from './random';
+
+/**
+ * The first draws of a generator
+ */
+const draws = (seed: number, count: number = 5, state?: number): number[] => {
+  const rng = createMulberry32(seed, state);
+  return Array.from({ length: count }, () => rng.next());
+};
+
+describe('createMulberry32', () => {
+  it('gives the same sequence for the same seed', () => {
+    expect(draws(42)).toEqual(draws(42));
+    expect(draws(42)).not.toEqual(draws(43));
+  });
+
+  it('draws in the range [0, 1)', () => {
+    draws(7, 1000).forEach(value => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+  });
+
+  it('resumes a sequence from a saved state', () => {
+    const rng = createMulberry32(42);
+    rng.next();
+    rng.next();
+
+    expect(draws(42, 3, rng.getState())).toEqual(draws(42, 5).slice(2));
+  });
+});
+
+describe('generateSeed', () => {
+  it('returns a 32-bit unsigned seed', () => {
+    const seed = generateSeed();
+
+    expect(Number.isInteger(seed)).toBe(true);
+    expect(seed).toBeGreaterThanOrEqual(0);
+    expect(seed).toBeLessThanOrEqual(0xffffffff);
+  });
+});
+
+describe('formatSeed and parseSeed', () => {
+  it('format a seed as 8 upper-case hex characters', () => {
+    expect(formatSeed(0)).toBe('00000000');
+    expect(formatSeed(0x1a2b3c4d)).toBe('1A2B3C4D');
+    expect(formatSeed(0xffffffff)).toBe('FFFFFFFF');
+  });
+
+  it.each([0, 1, 42, 0x1a2b3c4d, 0xffffffff])('round-trip %i', (seed) => {
+    expect(parseSeed(formatSeed(seed))).toBe(seed);
+  });
+
+  it('accept short, lower-case and padded input', () => {
+    expect(parseSeed('2a')).toBe(42);
+    expect(parseSeed(' 1a2b3c4d ')).toBe(0x1a2b3c4d);
+  });
+
+  it.each(['', '   ', '123456789', 'xyz', '12 34', '-1', '0x2A', '1.5'])('reject %p', (value) => {
+    expect(parseSeed(value)).toBeNull();
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Seedable random number generation
+ *
+ * Bet outcomes and projections draw from a RandomGenerator instead of
+ * Math.random, so a run can be replayed exactly from its seed.
+ */
+
+/**
+ * Source of uniformly distributed random numbers
+ */
+export interface RandomGenerator {
+  /** Returns the next number in the range [0, 1) */
+  next: () => number;
+  /** Returns the internal state, which can be passed back to the factory to resume the sequence */
+  getState: () => number;
+}
+
+/**
+ * Creates a generator from a seed, optionally resuming from a saved state
+ */
+export type RandomGeneratorFactory = (seed: number, state?: number) => RandomGenerator;
+
+/**
+ * Mulberry32 PRNG - small, fast and good enough for a simulator
+ *
+ * @param seed - 32-bit unsigned seed
+ * @param state - Saved state to resume from, defaults to the seed
+ * @returns A seeded random generator
+ */
+export const createMulberry32: RandomGeneratorFactory = (seed, state = seed) => {
+  let current = state >>> 0;
+
+  return {
+    next: () => {
+      current = (current + 0x6d2b79f5) >>> 0;
+      let t = current;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    },
+    getState: () => current,
+  };
+};
+
+/**
+ * Default generator used by the game and projections
+ */
+export const createSeededRandom: RandomGeneratorFactory = createMulberry32;
+
+/**
+ * Generates a fresh random seed
+ *
+ * @returns 32-bit unsigned seed
+ */
+export const generateSeed = (): number => {
+  if (typeof window !== 'undefined' && window.crypto?.getRandomValues) {
+    return window.crypto.getRandomValues(new Uint32Array(1))[0];
+  }
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+};
+
+/**
+ * Formats a seed for display
+ *
+ * @param seed - 32-bit unsigned seed
+ * @returns Seed as an 8 character hex string
+ */
+export const formatSeed = (seed: number): string => {
+  return (seed >>> 0).toString(16).toUpperCase().padStart(8, '0');
+};
+
+/**
+ * Parses a seed entered by the user
+ *
+ * @param value - Seed as an 8 character hex string
+ * @returns The seed, or null if the value is not a valid seed
+ */
+export const parseSeed = (value: string): number | null => {
+  const trimmed = value.trim();
+  if (!/^[0-9a-fA-F]{1,8}$/.test(trimmed)) return null;
+  return parseInt(trimmed, 16) >>> 0;
+};
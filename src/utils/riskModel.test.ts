@@ -0,0 +1,65 @@
+import { assessRisk, DEFAULT_RISK_WEIGHTS, RiskAssessment, RiskComponentId, RiskModelWeights } from './riskModel';
+import { getBinaryPayouts } from './riskOfRuin';
+
+const coinFlip = getBinaryPayouts(0.5, 1.94);
+
+const valueOf = (assessment: RiskAssessment, id: RiskComponentId): number =>
+  assessment.components.find(component => component.id === id)!.value;
+
+describe('assessRisk', () => {
+  it('scores nothing without a stake or a balance', () => {
+    expect(assessRisk({ stake: 0, balance: 1000, payouts: coinFlip }).score).toBe(0);
+    expect(assessRisk({ stake: 100, balance: 0, payouts: coinFlip }).score).toBe(0);
+  });
+
+  it('breaks the score into components that add up to it', () => {
+    const assessment = assessRisk({ stake: 300, balance: 1000, payouts: coinFlip });
+    const total = assessment.components.reduce((sum, component) => sum + component.contribution, 0);
+
+    expect(assessment.components.map(component => component.id)).toEqual(['stakeFraction', 'eventVariance', 'ruinOnLoss', 'expectedValue']);
+    expect(assessment.score).toBe(Math.round(total));
+  });
+
+  it('measures each component on a 0-1 scale', () => {
+    const assessment = assessRisk({ stake: 300, balance: 1000, payouts: coinFlip });
+
+    expect(valueOf(assessment, 'stakeFraction')).toBeCloseTo(0.3, 10);
+    // A 1.94x coin flip keeps 3% of each stake; the component peaks at a 10% edge
+    expect(valueOf(assessment, 'expectedValue')).toBeCloseTo(0.3, 10);
+    expect(valueOf(assessment, 'ruinOnLoss')).toBe(0);
+  });
+
+  it('counts the chance of a loss that leaves less than the minimum bet', () => {
+    const assessment = assessRisk({ stake: 950, balance: 1000, payouts: coinFlip, minBet: 100 });
+
+    expect(valueOf(assessment, 'ruinOnLoss')).toBe(0.5);
+  });
+
+  it('rates a long shot more volatile than a coin flip', () => {
+    const longShot = assessRisk({ stake: 100, balance: 1000, payouts: getBinaryPayouts(0.1, 9.7) });
+    const flip = assessRisk({ stake: 100, balance: 1000, payouts: coinFlip });
+
+    expect(valueOf(longShot, 'eventVariance')).toBeGreaterThan(valueOf(flip, 'eventVariance'));
+  });
+
+  it('scores an all-in bet higher than a small one', () => {
+    expect(assessRisk({ stake: 1000, balance: 1000, payouts: coinFlip }).score).toBeGreaterThan(
+      assessRisk({ stake: 10, balance: 1000, payouts: coinFlip }).score
+    );
+  });
+
+  it('weights components by their share of the total weight', () => {
+    const weights: RiskModelWeights = { stakeFraction: 1, eventVariance: 0, ruinOnLoss: 0, expectedValue: 0 };
+    const assessment = assessRisk({ stake: 250, balance: 1000, payouts: coinFlip }, weights);
+
+    expect(assessment.score).toBe(25);
+    expect(assessment.components.map(component => component.weight)).toEqual([1, 0, 0, 0]);
+  });
+
+  it('rejects weights that can\'t be averaged', () => {
+    const input = { stake: 100, balance: 1000, payouts: coinFlip };
+
+    expect(() => assessRisk(input, { ...DEFAULT_RISK_WEIGHTS, eventVariance: -1 })).toThrow('Risk weight "eventVariance" must be zero or more');
+    expect(() => assessRisk(input, { stakeFraction: 0, eventVariance: 0, ruinOnLoss: 0, expectedValue: 0 })).toThrow('At least one risk weight');
+  });
+});
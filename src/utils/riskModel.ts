@@ -0,0 +1,185 @@
+/**
+ * Bet risk model
+ *
+ * Scores how risky a single bet is from 0 (harmless) to 100 (reckless). The
+ * score is a weighted average of named components, each measuring one kind
+ * of risk on a 0-1 scale, so the breakdown shows where the score comes from:
+ * - stakeFraction: share of the balance put on the bet
+ * - eventVariance: how widely the bet's return swings, whatever its size
+ * - ruinOnLoss: chance the bet leaves too little to place another
+ * - expectedValue: how much of each stake the house keeps on average
+ */
+
+import type { PayoutChance } from './riskOfRuin';
+
+/**
+ * Weight of each risk component; only their ratios matter
+ */
+export interface RiskModelWeights {
+  /** Weight of the share of the balance staked */
+  stakeFraction: number;
+  /** Weight of the spread of the bet's return */
+  eventVariance: number;
+  /** Weight of the chance of being unable to bet again */
+  ruinOnLoss: number;
+  /** Weight of the house edge */
+  expectedValue: number;
+}
+
+/** Identifier of a risk component */
+export type RiskComponentId = keyof RiskModelWeights;
+
+/**
+ * One component of a risk assessment
+ */
+export interface RiskComponent {
+  /** Component identifier */
+  id: RiskComponentId;
+  /** Short name shown to the player */
+  label: string;
+  /** What the component measures */
+  description: string;
+  /** Measured risk (0-1) */
+  value: number;
+  /** Share of the score the component is weighted with (0-1) */
+  weight: number;
+  /** Points the component adds to the score (0-100) */
+  contribution: number;
+}
+
+/**
+ * Risk score of a bet together with its breakdown
+ */
+export interface RiskAssessment {
+  /** Overall risk (0-100) */
+  score: number;
+  /** Components the score is made of, in a fixed order */
+  components: RiskComponent[];
+}
+
+/**
+ * Bet to assess
+ */
+export interface RiskModelInput {
+  /** Amount staked */
+  stake: number;
+  /** Balance before the bet */
+  balance: number;
+  /** Possible results of the bet; probabilities sum to 1 */
+  payouts: PayoutChance[];
+  /** Smallest stake allowed; a balance below it can't place another bet */
+  minBet?: number;
+}
+
+/** Default component weights */
+export const DEFAULT_RISK_WEIGHTS: RiskModelWeights = {
+  stakeFraction: 0.45,
+  eventVariance: 0.2,
+  ruinOnLoss: 0.25,
+  expectedValue: 0.1,
+};
+
+/** House edge at which the expected value component is at its maximum */
+const MAX_RISK_HOUSE_EDGE = 0.1;
+
+/** Player-facing names and descriptions of the components */
+const RISK_COMPONENT_INFO: Record<RiskComponentId, { label: string; description: string }> = {
+  stakeFraction: {
+    label: 'Stake size',
+    description: 'Share of your balance on this bet',
+  },
+  eventVariance: {
+    label: 'Volatility',
+    description: 'How widely the return swings',
+  },
+  ruinOnLoss: {
+    label: 'Ruin chance',
+    description: 'Chance this bet leaves you unable to bet again',
+  },
+  expectedValue: {
+    label: 'House edge',
+    description: 'Share of each stake the house keeps on average',
+  },
+};
+
+/**
+ * Check that risk weights can be averaged
+ * @param weights - Weights to check
+ * @throws {Error} If a weight is negative or they add up to zero
+ */
+const validateRiskWeights = (weights: RiskModelWeights): void => {
+  const entries = Object.entries(weights) as [RiskComponentId, number][];
+  entries.forEach(([id, weight]) => {
+    if (!(weight >= 0)) {
+      throw new Error(`Risk weight "${id}" must be zero or more, got ${weight}`);
+    }
+  });
+  if (entries.every(([, weight]) => weight === 0)) {
+    throw new Error('At least one risk weight must be above zero');
+  }
+};
+
+/**
+ * Measure each risk component of a bet
+ * @param input - The bet
+ * @returns Each component's value (0-1)
+ */
+const measureRiskComponents = (input: RiskModelInput): Record<RiskComponentId, number> => {
+  const { stake, balance, payouts, minBet = 1 } = input;
+
+  const meanPayout = payouts.reduce((sum, { probability, payout }) => sum + probability * payout, 0);
+  const payoutDeviation = Math.sqrt(
+    payouts.reduce((sum, { probability, payout }) => sum + probability * Math.pow(payout - meanPayout, 2), 0)
+  );
+
+  // Chance of every result that leaves less than a minimum bet
+  const ruinChance = payouts
+    .filter(({ payout }) => balance - stake + stake * payout < minBet)
+    .reduce((sum, { probability }) => sum + probability, 0);
+
+  return {
+    stakeFraction: Math.min(stake / balance, 1),
+    // Maps a deviation of 0 to 0 and grows towards 1 for long shots
+    eventVariance: payoutDeviation / (1 + payoutDeviation),
+    ruinOnLoss: Math.min(ruinChance, 1),
+    expectedValue: Math.min(Math.max((1 - meanPayout) / MAX_RISK_HOUSE_EDGE, 0), 1),
+  };
+};
+
+/**
+ * Assess the risk of a bet
+ * @param input - The bet
+ * @param weights - Component weights, defaults to DEFAULT_RISK_WEIGHTS
+ * @returns Risk score and its breakdown; a score of 0 with no stake or balance
+ * @throws {Error} If the weights are invalid
+ */
+export const assessRisk = (
+  input: RiskModelInput,
+  weights: RiskModelWeights = DEFAULT_RISK_WEIGHTS
+): RiskAssessment => {
+  validateRiskWeights(weights);
+
+  const ids = Object.keys(RISK_COMPONENT_INFO) as RiskComponentId[];
+  const totalWeight = ids.reduce((sum, id) => sum + weights[id], 0);
+  const isAssessable = input.stake > 0 && input.balance > 0 && input.payouts.length > 0;
+  const values = isAssessable ? measureRiskComponents(input) : null;
+
+  const components: RiskComponent[] = ids.map(id => {
+    const value = values ? values[id] : 0;
+    const weight = weights[id] / totalWeight;
+    return {
+      id,
+      ...RISK_COMPONENT_INFO[id],
+      value,
+      weight,
+      contribution: value * weight * 100,
+    };
+  });
+
+  const score = components.reduce((sum, component) => sum + component.contribution, 0);
+
+  return {
+    score: Math.min(Math.max(Math.round(score), 0), 100),
+    components,
+  };
+};
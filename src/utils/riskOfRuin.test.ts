@@ -0,0 +1,116 @@
+import { createSeededRandom } from './random';
+import { calculateRiskOfRuin, getBinaryPayouts, PayoutChance } from './riskOfRuin';
+
+/**
+ * Classic gambler's ruin: the chance of reaching n units from i with unit bets won with probability p
+ */
+const classicGoalProbability = (p: number, i: number, n: number): number => {
+  const ratio = (1 - p) / p;
+  return (1 - Math.pow(ratio, i)) / (1 - Math.pow(ratio, n));
+};
+
+/**
+ * Plays a flat stake until the goal is reached or the stake can't be covered
+ */
+const simulateGoalProbability = (payouts: PayoutChance[], balance: number, goal: number, stake: number, sessions: number): number => {
+  const rng = createSeededRandom(2024);
+  let reached = 0;
+
+  for (let i = 0; i < sessions; i++) {
+    let current = balance;
+    while (current >= stake && current < goal) {
+      const roll = rng.next();
+      let cumulative = 0;
+      const result = payouts.find(chance => roll < (cumulative += chance.probability)) || payouts[payouts.length - 1];
+      current += stake * (result.payout - 1);
+    }
+    if (current >= goal) reached++;
+  }
+
+  return reached / sessions;
+};
+
+describe('calculateRiskOfRuin', () => {
+  describe('even-money bets with a flat stake', () => {
+    it('matches the fair gambler\'s ruin result', () => {
+      const odds = calculateRiskOfRuin({ balance: 300, goal: 1000, payouts: getBinaryPayouts(0.5, 2), policy: { type: 'flat', stake: 100 } });
+
+      expect(odds.isExact).toBe(true);
+      expect(odds.goalProbability).toBeCloseTo(0.3, 10);
+      // i * (n - i) bets on average
+      expect(odds.expectedBets).toBeCloseTo(21, 8);
+    });
+
+    it('matches the classic result for an unfavourable bet', () => {
+      const odds = calculateRiskOfRuin({ balance: 300, goal: 1000, payouts: getBinaryPayouts(0.45, 2), policy: { type: 'flat', stake: 100 } });
+      const goalProbability = classicGoalProbability(0.45, 3, 10);
+
+      expect(odds.isExact).toBe(true);
+      expect(odds.goalProbability).toBeCloseTo(goalProbability, 10);
+      expect(odds.ruinProbability).toBeCloseTo(1 - goalProbability, 10);
+      expect(odds.expectedBets).toBeCloseTo(3 / 0.1 - (10 / 0.1) * goalProbability, 8);
+    });
+
+    it('goes broke with the last stake, not before', () => {
+      const odds = calculateRiskOfRuin({ balance: 100, goal: 1000, payouts: getBinaryPayouts(0.5, 2), policy: { type: 'flat', stake: 100 } });
+
+      expect(odds.goalProbability).toBeCloseTo(0.1, 10);
+    });
+  });
+
+  describe('ruin', () => {
+    it('is certain once the balance can\'t cover the stake', () => {
+      const odds = calculateRiskOfRuin({ balance: 90, goal: 1000, payouts: getBinaryPayouts(0.5, 2), policy: { type: 'flat', stake: 100 } });
+
+      expect(odds).toEqual({ goalProbability: 0, ruinProbability: 1, expectedBets: 0, isExact: true });
+    });
+
+    it('is certain once the balance can\'t cover the minimum bet', () => {
+      const odds = calculateRiskOfRuin({
+        balance: 40,
+        goal: 1000,
+        payouts: getBinaryPayouts(0.5, 2),
+        policy: { type: 'fraction', fraction: 0.1 },
+        minBet: 50,
+      });
+
+      expect(odds.ruinProbability).toBe(1);
+    });
+
+    it('is impossible once the goal is reached', () => {
+      const odds = calculateRiskOfRuin({ balance: 1000, goal: 1000, payouts: getBinaryPayouts(0.5, 2), policy: { type: 'flat', stake: 100 } });
+
+      expect(odds.goalProbability).toBe(1);
+    });
+  });
+
+  it('never moves a balance that only pushes', () => {
+    const odds = calculateRiskOfRuin({ balance: 500, goal: 1000, payouts: [{ probability: 1, payout: 1 }], policy: { type: 'flat', stake: 100 } });
+
+    expect(odds).toEqual({ goalProbability: 0, ruinProbability: 0, expectedBets: Infinity, isExact: true });
+  });
+
+  it('rejects stakes and fractions that can\'t be played', () => {
+    const payouts = getBinaryPayouts(0.5, 2);
+
+    expect(() => calculateRiskOfRuin({ balance: 500, payouts, policy: { type: 'flat', stake: 0 } })).toThrow();
+    expect(() => calculateRiskOfRuin({ balance: 500, payouts, policy: { type: 'fraction', fraction: 1 } })).toThrow();
+    expect(() => calculateRiskOfRuin({ balance: 500, payouts: [], policy: { type: 'flat', stake: 10 } })).toThrow();
+  });
+
+  describe('approximations, against a Monte Carlo simulation', () => {
+    const sessions = 20000;
+
+    it.each([
+      ['a coin flip staking the whole balance', getBinaryPayouts(0.5, 1.94), 1000],
+      ['a coin flip staking 30% of the balance', getBinaryPayouts(0.5, 1.94), 300],
+      ['a long shot', getBinaryPayouts(0.3, 3.1), 200],
+      ['a bet that can push', [{ probability: 0.3, payout: 2.26 }, { probability: 0.25, payout: 1 }, { probability: 0.45, payout: 0 }], 250],
+    ])('stays close for %s', (_, payouts, stake) => {
+      const odds = calculateRiskOfRuin({ balance: 1000, goal: 10000, payouts, policy: { type: 'flat', stake } });
+
+      expect(odds.isExact).toBe(false);
+      expect(Math.abs(odds.goalProbability - simulateGoalProbability(payouts, 1000, 10000, stake, sessions))).toBeLessThan(0.01);
+    });
+  });
+});
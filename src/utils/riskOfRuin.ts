@@ -0,0 +1,243 @@
+/**
+ * Closed-form risk of ruin
+ *
+ * Gambler's-ruin formulas for playing the same bet over and over until the
+ * balance reaches the goal or can no longer cover a stake. They give the
+ * answer a Monte Carlo simulation converges to, without simulating.
+ *
+ * Each bet moves the balance by a random step. With a stake policy fixed,
+ * there is an exponent r for which e^(r * balance) is a fair game, and
+ * stopping that fair game at the goal or at ruin gives the probability of
+ * each. For even-money bets with a flat stake the steps are exactly one
+ * unit up or down and this is the classic, exact gambler's-ruin result.
+ * Other payouts can jump past the goal on the last bet, or leave part of a
+ * stake that can no longer be bet; the formula has to guess where the
+ * walk ends up, so those results are approximate.
+ */
+
+import type { BetEvent } from '../types';
+import { GOAL_AMOUNT } from './constants';
+import { getEventOutcomes, getSelection } from './payTable';
+
+/**
+ * How the stake of each bet is chosen
+ * - flat: the same amount every bet
+ * - fraction: the same share of the current balance every bet
+ */
+export type StakePolicy =
+  | { type: 'flat'; stake: number }
+  | { type: 'fraction'; fraction: number };
+
+/**
+ * One possible result of a bet
+ */
+export interface PayoutChance {
+  /** Probability of this result (0-1) */
+  probability: number;
+  /** Total return per unit staked, 0 for a loss */
+  payout: number;
+}
+
+/**
+ * Settings of a risk of ruin calculation
+ */
+export interface RiskOfRuinParams {
+  /** Balance before the first bet */
+  balance: number;
+  /** Balance at which the challenge is won */
+  goal?: number;
+  /** Possible results of each bet; probabilities sum to 1 */
+  payouts: PayoutChance[];
+  /** How each stake is chosen */
+  policy: StakePolicy;
+  /** Smallest stake allowed; the balance is ruined once it drops below it or, with a flat stake, below the stake */
+  minBet?: number;
+}
+
+/**
+ * Chances of finishing the challenge
+ */
+export interface RiskOfRuinResult {
+  /** Probability of reaching the goal (0-1) */
+  goalProbability: number;
+  /** Probability of going broke first (0-1) */
+  ruinProbability: number;
+  /** Expected number of bets until one or the other happens */
+  expectedBets: number;
+  /** Whether the result is exact rather than an approximation that ignores where the last bet lands */
+  isExact: boolean;
+}
+
+/** Drift below which a walk counts as fair */
+const FAIR_DRIFT = 1e-12;
+
+/**
+ * Build the payout distribution of a simple win-or-lose bet
+ * @param winChance - Probability of winning (0-1)
+ * @param multiplier - Total return per unit staked on a win
+ * @returns The payout distribution
+ */
+export const getBinaryPayouts = (winChance: number, multiplier: number): PayoutChance[] => [
+  { probability: winChance, payout: multiplier },
+  { probability: 1 - winChance, payout: 0 },
+];
+
+/**
+ * Build the payout distribution of backing a selection on an event
+ * @param event - The event
+ * @param selectionId - Selection to back, omitted for the event's default selection
+ * @returns The payout distribution, or an empty list if the event has no such selection
+ */
+export const getSelectionPayouts = (event: BetEvent, selectionId?: string): PayoutChance[] => {
+  const selection = getSelection(event, selectionId);
+  if (!selection) return [];
+
+  return getEventOutcomes(event).map(outcome => ({
+    probability: outcome.probability,
+    payout: selection.payouts[outcome.id] || 0,
+  }));
+};
+
+/**
+ * Find the non-zero exponent r with E[e^(r * step)] = 1
+ *
+ * The left side is convex in r and equals 1 at r = 0, so the other root
+ * lies on the side opposite the drift and bisection finds it.
+ *
+ * @param steps - Possible steps and their probabilities
+ * @param drift - Expected step
+ * @returns The exponent
+ */
+const solveRuinExponent = (steps: { probability: number; size: number }[], drift: number): number => {
+  const excess = (r: number) => steps.reduce((sum, step) => sum + step.probability * Math.exp(r * step.size), 0) - 1;
+  const direction = drift < 0 ? 1 : -1;
+
+  // Widen the bracket until the far end is above 1
+  let near = 0;
+  let far = direction;
+  while (excess(far) < 0) {
+    near = far;
+    far *= 2;
+  }
+
+  for (let i = 0; i < 100; i++) {
+    const middle = (near + far) / 2;
+    if (excess(middle) < 0) {
+      near = middle;
+    } else {
+      far = middle;
+    }
+  }
+  return (near + far) / 2;
+};
+
+/**
+ * Probability of a walk starting at start reaching target before 0
+ * @param r - Ruin exponent of the walk
+ * @param start - Starting position (0 < start < target)
+ * @param target - Position of the goal
+ * @returns The probability
+ */
+const calculateHitProbability = (r: number, start: number, target: number): number => {
+  // Rearranged so that large positive exponents don't overflow
+  if (r > 0) {
+    return Math.exp(r * (start - target)) * Math.expm1(-r * start) / Math.expm1(-r * target);
+  }
+  return Math.expm1(r * start) / Math.expm1(r * target);
+};
+
+/**
+ * Calculate the chances of reaching the goal before going broke
+ * @param params - Balance, goal, bet and stake policy
+ * @returns Goal and ruin probabilities and the expected number of bets
+ * @throws {Error} If the stake policy or payouts are invalid
+ */
+export const calculateRiskOfRuin = (params: RiskOfRuinParams): RiskOfRuinResult => {
+  const { balance, goal = GOAL_AMOUNT, payouts, policy, minBet = 1 } = params;
+
+  if (payouts.length === 0) {
+    throw new Error('Cannot calculate risk of ruin without any payouts');
+  }
+  if (policy.type === 'flat' && !(policy.stake > 0)) {
+    throw new Error(`Cannot calculate risk of ruin for a stake of ${policy.stake}`);
+  }
+  if (policy.type === 'fraction' && !(policy.fraction > 0 && policy.fraction < 1)) {
+    throw new Error(`Cannot calculate risk of ruin for a fraction of ${policy.fraction}`);
+  }
+
+  // Position of the balance between ruin (0) and the goal (target), and the steps a bet takes
+  let start: number;
+  let target: number;
+  let steps: { probability: number; size: number }[];
+  // Whether the walk moves in whole steps from whole positions, so it lands exactly on the ruin line
+  let onLattice = false;
+
+  if (policy.type === 'flat') {
+    // In stakes: one full loss is one step down
+    steps = payouts.map(({ probability, payout }) => ({ probability, size: payout - 1 }));
+    const position = balance / policy.stake;
+    // The balance is ruined once it can't cover the stake or the minimum bet
+    const ruinLine = Math.max(policy.stake, minBet) / policy.stake;
+    if (position < ruinLine) {
+      return { goalProbability: 0, ruinProbability: 1, expectedBets: 0, isExact: true };
+    }
+
+    // A walk in whole stakes is ruined exactly one stake below the line. Any other walk is ruined
+    // somewhere in the stake below it, and the formula puts the end halfway down that stake
+    onLattice = Number.isInteger(position) && Number.isInteger(ruinLine)
+      && steps.every(step => step.probability === 0 || Number.isInteger(step.size));
+    const ruinPosition = ruinLine - (onLattice ? 1 : 0.5);
+    start = position - ruinPosition;
+    target = goal / policy.stake - ruinPosition;
+  } else {
+    // On a log scale: a stake of a fixed share multiplies the balance, and ruin is dropping below the minimum bet
+    start = Math.log(balance / minBet);
+    target = Math.log(goal / minBet);
+    steps = payouts.map(({ probability, payout }) => ({ probability, size: Math.log(1 + policy.fraction * (payout - 1)) }));
+  }
+
+  if (start >= target) {
+    return { goalProbability: 1, ruinProbability: 0, expectedBets: 0, isExact: true };
+  }
+  if (start <= 0) {
+    return { goalProbability: 0, ruinProbability: 1, expectedBets: 0, isExact: true };
+  }
+
+  const moving = steps.filter(step => step.probability > 0 && step.size !== 0);
+  const drift = steps.reduce((sum, step) => sum + step.probability * step.size, 0);
+  const isExact = onLattice
+    && moving.every(step => Math.abs(step.size) === 1)
+    && Number.isInteger(target);
+
+  if (moving.length === 0) {
+    // Every bet is a push: the balance never moves
+    return { goalProbability: 0, ruinProbability: 0, expectedBets: Infinity, isExact: true };
+  }
+  if (moving.every(step => step.size > 0)) {
+    return { goalProbability: 1, ruinProbability: 0, expectedBets: (target - start) / drift, isExact };
+  }
+  if (moving.every(step => step.size < 0)) {
+    return { goalProbability: 0, ruinProbability: 1, expectedBets: start / -drift, isExact };
+  }
+
+  let goalProbability: number;
+  let expectedBets: number;
+
+  if (Math.abs(drift) < FAIR_DRIFT) {
+    // A fair game: the chance of the goal is how far along the way the balance is
+    const variance = steps.reduce((sum, step) => sum + step.probability * step.size * step.size, 0);
+    goalProbability = start / target;
+    expectedBets = (goalProbability * Math.pow(target - start, 2) + (1 - goalProbability) * start * start) / variance;
+  } else {
+    goalProbability = calculateHitProbability(solveRuinExponent(steps, drift), start, target);
+    // Wald's identity: the expected end position is the start plus the drift per bet times the bets
+    expectedBets = (goalProbability * target - start) / drift;
+  }
+
+  return {
+    goalProbability,
+    ruinProbability: 1 - goalProbability,
+    expectedBets,
+    isExact,
+  };
+};
@@ -0,0 +1,82 @@
+import type { BetHistory, SettlementOutcome, Session } from '../types';
+import { calculateSessionStats } from './sessionStats';
+
+const startedAt = new Date('2024-01-01T10:00:00Z');
+
+/**
+ * A bet placed the given number of minutes into the session
+ */
+const betOf = (minute: number, outcome: SettlementOutcome, betAmount: number, balanceAfter: number): BetHistory => ({
+  id: `bet-${minute}`,
+  eventId: 'coin-flip',
+  eventName: 'Coin Flip',
+  betAmount,
+  outcome,
+  winAmount: 0,
+  balanceAfter,
+  riskPercentage: 10,
+  timestamp: new Date(startedAt.getTime() + minute * 60000),
+});
+
+const sessionOf = (bets: BetHistory[], endingBalance: number): Session => ({
+  id: 'session-1',
+  startedAt,
+  endedAt: null,
+  startingBalance: 1000,
+  endingBalance,
+  seed: 42,
+  outcome: 'playing',
+  challengePersonaId: null,
+  bets,
+});
+
+describe('calculateSessionStats', () => {
+  it('reports zeros for a session without bets', () => {
+    expect(calculateSessionStats(sessionOf([], 1000))).toEqual({
+      betCount: 0,
+      wins: 0,
+      winRate: 0,
+      totalStaked: 0,
+      averageStake: 0,
+      largestStake: 0,
+      netResult: 0,
+      returnOnStake: 0,
+      peakBalance: 1000,
+      lowestBalance: 1000,
+      maxDrawdown: 0,
+      durationMs: 0,
+    });
+  });
+
+  it('summarizes the bets of a session', () => {
+    const stats = calculateSessionStats(sessionOf([
+      betOf(5, 'win', 100, 1100),
+      betOf(10, 'loss', 200, 900),
+      betOf(12, 'push', 50, 900),
+      betOf(20, 'loss', 50, 850),
+    ], 850));
+
+    expect(stats).toMatchObject({
+      betCount: 4,
+      wins: 1,
+      totalStaked: 400,
+      averageStake: 100,
+      largestStake: 200,
+      netResult: -150,
+      returnOnStake: -0.375,
+      peakBalance: 1100,
+      lowestBalance: 850,
+      durationMs: 20 * 60000,
+    });
+    // The push is left out of the win rate
+    expect(stats.winRate).toBeCloseTo(1 / 3, 10);
+    expect(stats.maxDrawdown).toBeCloseTo(250 / 1100, 10);
+  });
+
+  it('measures the drawdown from the starting balance when it was never beaten', () => {
+    const stats = calculateSessionStats(sessionOf([betOf(1, 'loss', 100, 900)], 900));
+
+    expect(stats.peakBalance).toBe(1000);
+    expect(stats.maxDrawdown).toBeCloseTo(0.1, 10);
+  });
+});
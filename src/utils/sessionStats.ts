@@ -0,0 +1,81 @@
+/**
+ * Per-session statistics
+ *
+ * Summaries of one game session, used to list past sessions and to compare
+ * them. Win rates leave pushes out, as everywhere else.
+ */
+
+import type { Session } from '../types';
+import { calculateWinRate } from './settlement';
+
+/**
+ * Statistics of one session
+ */
+export interface SessionStats {
+  /** Number of bets placed */
+  betCount: number;
+  /** Number of bets won */
+  wins: number;
+  /** Share of decided bets that were won (0-1) */
+  winRate: number;
+  /** Total amount staked */
+  totalStaked: number;
+  /** Average stake */
+  averageStake: number;
+  /** Largest stake */
+  largestStake: number;
+  /** Ending balance minus starting balance */
+  netResult: number;
+  /** Net result per unit staked, e.g. -0.05 for -5% */
+  returnOnStake: number;
+  /** Highest balance reached, including the starting balance */
+  peakBalance: number;
+  /** Lowest balance reached, including the starting balance */
+  lowestBalance: number;
+  /** Largest fall from a peak, as a share of that peak (0-1) */
+  maxDrawdown: number;
+  /** Time from the start of the session to its last bet, in milliseconds */
+  durationMs: number;
+}
+
+/**
+ * Calculate the statistics of a session
+ * @param session - The session
+ * @returns The session's statistics; zeros for a session without bets
+ */
+export const calculateSessionStats = (session: Session): SessionStats => {
+  const { bets, startingBalance, endingBalance } = session;
+  let peakBalance = startingBalance;
+  let lowestBalance = startingBalance;
+  let maxDrawdown = 0;
+  let totalStaked = 0;
+  let largestStake = 0;
+
+  bets.forEach(bet => {
+    totalStaked += bet.betAmount;
+    largestStake = Math.max(largestStake, bet.betAmount);
+    peakBalance = Math.max(peakBalance, bet.balanceAfter);
+    lowestBalance = Math.min(lowestBalance, bet.balanceAfter);
+    if (peakBalance > 0) {
+      maxDrawdown = Math.max(maxDrawdown, (peakBalance - bet.balanceAfter) / peakBalance);
+    }
+  });
+
+  const lastBet = bets[bets.length - 1];
+  const netResult = endingBalance - startingBalance;
+
+  return {
+    betCount: bets.length,
+    wins: bets.filter(bet => bet.outcome === 'win').length,
+    winRate: calculateWinRate(bets),
+    totalStaked,
+    averageStake: bets.length > 0 ? totalStaked / bets.length : 0,
+    largestStake,
+    netResult,
+    returnOnStake: totalStaked > 0 ? netResult / totalStaked : 0,
+    peakBalance,
+    lowestBalance,
+    maxDrawdown,
+    durationMs: lastBet ? new Date(lastBet.timestamp).getTime() - session.startedAt.getTime() : 0,
+  };
+};
@@ -0,0 +1,58 @@
+import type { BetHistory, SettlementOutcome } from '../types';
+import { calculateWinRate, isDecidedOutcome, isLosingOutcome, settleBet } from './settlement';
+
+/**
+ * A bet with the given outcome
+ */
+const betOf = (outcome: SettlementOutcome): BetHistory => ({
+  id: `bet-${outcome}`,
+  eventId: 'coin-flip',
+  eventName: 'Coin Flip',
+  betAmount: 100,
+  outcome,
+  winAmount: 0,
+  balanceAfter: 1000,
+  riskPercentage: 10,
+  timestamp: new Date('2024-01-01T10:00:00Z'),
+});
+
+describe('settleBet', () => {
+  it.each([
+    [1.94, 'win', 194, 94],
+    [1, 'push', 100, 0],
+    [0.5, 'partial', 50, -50],
+    [0, 'loss', 0, -100],
+  ])('settles a %sx payout as a %s', (payout, outcome, returnAmount, winAmount) => {
+    expect(settleBet(100, payout)).toEqual({ outcome, returnAmount, winAmount });
+  });
+
+  it('rounds the return to the cent', () => {
+    expect(settleBet(33.33, 2.26).returnAmount).toBe(75.33);
+  });
+
+  it('rejects negative or missing amounts', () => {
+    expect(() => settleBet(-1, 2)).toThrow('Cannot settle a stake of -1');
+    expect(() => settleBet(100, NaN)).toThrow('Cannot settle a payout of NaNx');
+  });
+});
+
+describe('outcome classification', () => {
+  it('counts partial refunds as losing money', () => {
+    expect(['win', 'push', 'partial', 'loss'].filter(outcome => isLosingOutcome(outcome as SettlementOutcome))).toEqual(['partial', 'loss']);
+  });
+
+  it('leaves pushes out of decided bets', () => {
+    expect(['win', 'push', 'partial', 'loss'].filter(outcome => isDecidedOutcome(outcome as SettlementOutcome))).toEqual(['win', 'partial', 'loss']);
+  });
+});
+
+describe('calculateWinRate', () => {
+  it('divides wins by decided bets only', () => {
+    expect(calculateWinRate(['win', 'push', 'push', 'partial', 'loss'].map(outcome => betOf(outcome as SettlementOutcome)))).toBeCloseTo(1 / 3, 10);
+  });
+
+  it('is 0 without decided bets', () => {
+    expect(calculateWinRate([])).toBe(0);
+    expect(calculateWinRate([betOf('push')])).toBe(0);
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Bet settlement
+ *
+ * Turns a stake and the return its outcome pays into the amounts the game
+ * books, and classifies the result so analytics treat pushes and partial
+ * refunds consistently: a push is neither a win nor a loss, a partial
+ * refund still loses money.
+ */
+
+import type { BetHistory, SettlementOutcome } from '../types';
+
+/**
+ * Amounts and classification of a settled bet
+ */
+export interface SettlementResult {
+  /** How the bet turned out */
+  outcome: SettlementOutcome;
+  /** Total returned to the player, stake included */
+  returnAmount: number;
+  /** Net change to the balance: positive for a win, zero for a push, negative otherwise */
+  winAmount: number;
+}
+
+/**
+ * Settle a bet
+ * @param stake - Amount wagered
+ * @param payoutMultiplier - Total return per unit staked, 0 for a loss
+ * @returns The settlement result
+ * @throws {Error} If the stake or payout is negative or not a number
+ */
+export const settleBet = (stake: number, payoutMultiplier: number): SettlementResult => {
+  if (isNaN(stake) || stake < 0) {
+    throw new Error(`Cannot settle a stake of ${stake}`);
+  }
+  if (isNaN(payoutMultiplier) || payoutMultiplier < 0) {
+    throw new Error(`Cannot settle a payout of ${payoutMultiplier}x`);
+  }
+
+  const outcome: SettlementOutcome =
+    payoutMultiplier > 1 ? 'win' :
+    payoutMultiplier === 1 ? 'push' :
+    payoutMultiplier > 0 ? 'partial' :
+    'loss';
+
+  // Round to the cent so fractional payouts like 2.26x do not leave float noise in the balance
+  const returnAmount = Math.round(stake * payoutMultiplier * 100) / 100;
+
+  return {
+    outcome,
+    returnAmount,
+    winAmount: returnAmount - stake,
+  };
+};
+
+/**
+ * Whether a settled bet lost money
+ * @param outcome - The settlement outcome
+ * @returns True for losses and partial refunds
+ */
+export const isLosingOutcome = (outcome: SettlementOutcome): boolean => {
+  return outcome === 'loss' || outcome === 'partial';
+};
+
+/**
+ * Whether a settled bet counts toward win rates and streaks
+ * @param outcome - The settlement outcome
+ * @returns False for pushes, which hand the stake back
+ */
+export const isDecidedOutcome = (outcome: SettlementOutcome): boolean => {
+  return outcome !== 'push';
+};
+
+/**
+ * Calculate the share of decided bets that were won
+ * @param bets - Settled bets
+ * @returns Win rate (0-1), 0 if no bet was decided
+ */
+export const calculateWinRate = (bets: BetHistory[]): number => {
+  const decided = bets.filter(bet => isDecidedOutcome(bet.outcome));
+  if (decided.length === 0) return 0;
+
+  return decided.filter(bet => bet.outcome === 'win').length / decided.length;
+};
@@ -0,0 +1,100 @@
+import type { SettlementOutcome } from '../types';
+import {
+  advanceStakingProgress,
+  calculateNextStake,
+  checkStake,
+  getStakingStrategy,
+  INITIAL_STAKING_PROGRESS,
+  replayStakingProgress,
+  StakingConfig,
+  StakingStrategyId,
+} from './strategies';
+
+const configOf = (strategyId: StakingStrategyId, fraction: number = 0.1): StakingConfig => ({ strategyId, baseStake: 10, fraction });
+const coinFlip = { winChance: 0.5, payout: 1.94 };
+
+/**
+ * Stakes a strategy places over a run of outcomes, the first before any bet
+ */
+const stakesOver = (strategyId: StakingStrategyId, outcomes: SettlementOutcome[]): number[] => {
+  const config = configOf(strategyId);
+  return [0, ...outcomes.map((_, i) => i + 1)].map(count =>
+    calculateNextStake(config, replayStakingProgress(config, outcomes.slice(0, count)), 1000, coinFlip)
+  );
+};
+
+describe('staking progressions', () => {
+  it('doubles a Martingale stake after each loss and starts over after a win', () => {
+    expect(stakesOver('martingale', ['loss', 'loss', 'win', 'loss'])).toEqual([10, 20, 40, 10, 20]);
+  });
+
+  it('doubles a reverse Martingale stake after each win and starts over after a loss', () => {
+    expect(stakesOver('reverse-martingale', ['win', 'win', 'loss'])).toEqual([10, 20, 40, 10]);
+  });
+
+  it('moves a Fibonacci stake one step up after a loss and two back after a win', () => {
+    expect(stakesOver('fibonacci', ['loss', 'loss', 'loss', 'loss', 'win', 'win', 'win'])).toEqual([10, 10, 20, 30, 50, 20, 10, 10]);
+  });
+
+  it('adds a unit to a D\'Alembert stake after a loss and takes one away after a win', () => {
+    expect(stakesOver('dalembert', ['loss', 'loss', 'win', 'win', 'win'])).toEqual([10, 20, 30, 20, 10, 10]);
+  });
+
+  it('leaves a flat stake alone', () => {
+    expect(stakesOver('flat', ['loss', 'win', 'loss'])).toEqual([10, 10, 10, 10]);
+  });
+
+  it.each<StakingStrategyId>(['martingale', 'reverse-martingale', 'fibonacci', 'dalembert'])('does not move %s on a push', strategyId => {
+    const progress = { step: 2 };
+
+    expect(advanceStakingProgress(configOf(strategyId), progress, 'push')).toBe(progress);
+  });
+
+  it('counts a partial refund as a loss', () => {
+    expect(stakesOver('martingale', ['partial', 'push', 'partial'])).toEqual([10, 20, 20, 40]);
+    expect(advanceStakingProgress(configOf('reverse-martingale'), { step: 2 }, 'partial')).toEqual(INITIAL_STAKING_PROGRESS);
+  });
+});
+
+describe('calculateNextStake', () => {
+  it('stakes a share of the balance for fixed fraction, rounded down', () => {
+    expect(calculateNextStake(configOf('fixed-fraction', 0.15), INITIAL_STAKING_PROGRESS, 1005, coinFlip)).toBe(150);
+  });
+
+  it('stakes nothing with Kelly on a bet with a house edge', () => {
+    expect(calculateNextStake(configOf('kelly', 1), INITIAL_STAKING_PROGRESS, 1000, coinFlip)).toBe(0);
+  });
+
+  it('stakes the Kelly share of the balance on a bet with an edge', () => {
+    // f* = (bp - q) / b with b = 1 and p = 0.75 gives 50%; half Kelly stakes 25%
+    expect(calculateNextStake(configOf('kelly', 0.5), INITIAL_STAKING_PROGRESS, 1000, { winChance: 0.75, payout: 2 })).toBe(250);
+  });
+});
+
+describe('checkStake', () => {
+  const table = { minBet: 10, maxBet: 500 };
+
+  it('passes a stake the balance and table allow unchanged', () => {
+    expect(checkStake(configOf('flat'), 250, 1000, table)).toEqual({ ok: true, stake: 250 });
+  });
+
+  it.each([
+    ['kelly', 0, 1000, 'no-edge'],
+    ['flat', 0, 1000, 'below-minimum'],
+    ['flat', 5, 1000, 'below-minimum'],
+    ['martingale', 640, 600, 'insufficient-balance'],
+    ['martingale', 640, 1000, 'table-limit'],
+  ])('stops %p staking %p from %p with %p', (strategyId, stake, balance, reason) => {
+    expect(checkStake(configOf(strategyId as StakingStrategyId), stake, balance, table)).toEqual({ ok: false, reason });
+  });
+
+  it('has no table limit for an event without a maximum bet', () => {
+    expect(checkStake(configOf('flat'), 5000, 10000, { minBet: 10, maxBet: null })).toEqual({ ok: true, stake: 5000 });
+  });
+});
+
+describe('getStakingStrategy', () => {
+  it('rejects an unknown strategy', () => {
+    expect(() => getStakingStrategy('parlay' as StakingStrategyId)).toThrow('Unknown staking strategy "parlay"');
+  });
+});
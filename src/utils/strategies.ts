@@ -0,0 +1,276 @@
+/**
+ * Staking strategies for the auto-bet runner
+ *
+ * A strategy only decides how much to stake next. Its progress is derived
+ * from the outcomes of the bets it has placed so far, so the same run of
+ * outcomes always produces the same stakes.
+ */
+
+import type { BetEvent, SettlementOutcome } from '../types';
+import { calculateKellyFraction } from './betting';
+import { isDecidedOutcome } from './settlement';
+
+/**
+ * Identifiers of the available staking strategies
+ */
+export type StakingStrategyId =
+  | 'flat'
+  | 'martingale'
+  | 'reverse-martingale'
+  | 'fibonacci'
+  | 'dalembert'
+  | 'fixed-fraction'
+  | 'kelly';
+
+/**
+ * Description of a staking strategy for display
+ */
+export interface StakingStrategy {
+  /** Unique identifier */
+  id: StakingStrategyId;
+  /** Display name */
+  name: string;
+  /** How the strategy sizes its stakes */
+  description: string;
+  /** Whether the strategy sizes stakes as a fraction of the balance instead of from the base stake */
+  usesFraction: boolean;
+}
+
+/**
+ * Settings of a staking strategy
+ */
+export interface StakingConfig {
+  /** Strategy to follow */
+  strategyId: StakingStrategyId;
+  /** Stake of the first bet and unit of the progressions */
+  baseStake: number;
+  /** Share of the balance to stake for fixed fraction, or share of the full Kelly stake for Kelly (0-1) */
+  fraction: number;
+}
+
+/**
+ * Odds of the bet a strategy is sizing
+ */
+export interface StakingOdds {
+  /** Probability of a win (0-1) */
+  winChance: number;
+  /** Average return per unit staked on a win */
+  payout: number;
+}
+
+/**
+ * Why a strategy's stake can't be placed
+ * - no-edge: Kelly stakes nothing on a bet without an edge
+ * - below-minimum: the stake is below the event's minimum bet
+ * - insufficient-balance: the stake is more than the balance
+ * - table-limit: the stake is above the event's maximum bet
+ */
+export type StakeRejection = 'no-edge' | 'below-minimum' | 'insufficient-balance' | 'table-limit';
+
+/**
+ * A stake that can be placed, or why it can't
+ */
+export type StakeCheck =
+  | { ok: true; stake: number }
+  | { ok: false; reason: StakeRejection };
+
+/**
+ * Progress of a strategy through its progression
+ */
+export interface StakingProgress {
+  /** Position in the progression: doublings for Martingale, sequence index for Fibonacci, units for D'Alembert */
+  step: number;
+}
+
+/**
+ * Available staking strategies
+ */
+export const STAKING_STRATEGIES: StakingStrategy[] = [
+  {
+    id: 'flat',
+    name: 'Flat',
+    description: 'Stake the base amount every round.',
+    usesFraction: false,
+  },
+  {
+    id: 'martingale',
+    name: 'Martingale',
+    description: 'Double the stake after every loss and go back to the base stake after a win.',
+    usesFraction: false,
+  },
+  {
+    id: 'reverse-martingale',
+    name: 'Reverse Martingale',
+    description: 'Double the stake after every win and go back to the base stake after a loss.',
+    usesFraction: false,
+  },
+  {
+    id: 'fibonacci',
+    name: 'Fibonacci',
+    description: 'Move one step up the Fibonacci sequence after a loss and two steps back after a win.',
+    usesFraction: false,
+  },
+  {
+    id: 'dalembert',
+    name: "D'Alembert",
+    description: 'Add one base unit to the stake after a loss and take one away after a win.',
+    usesFraction: false,
+  },
+  {
+    id: 'fixed-fraction',
+    name: 'Fixed Fraction',
+    description: 'Stake the same share of the current balance every round.',
+    usesFraction: true,
+  },
+  {
+    id: 'kelly',
+    name: 'Kelly',
+    description: 'Stake the share of the balance the Kelly criterion gives for the odds. On a bet with a house edge that is nothing at all.',
+    usesFraction: true,
+  },
+];
+
+/**
+ * Look up a staking strategy
+ * @param id - Strategy identifier
+ * @returns The strategy
+ * @throws {Error} If there is no strategy with that identifier
+ */
+export const getStakingStrategy = (id: StakingStrategyId): StakingStrategy => {
+  const strategy = STAKING_STRATEGIES.find(s => s.id === id);
+  if (!strategy) {
+    throw new Error(`Unknown staking strategy "${id}"`);
+  }
+  return strategy;
+};
+
+/**
+ * Progress of a strategy before its first bet
+ */
+export const INITIAL_STAKING_PROGRESS: StakingProgress = { step: 0 };
+
+/**
+ * Get a term of the Fibonacci sequence 1, 1, 2, 3, 5, ...
+ * @param index - Zero-based index into the sequence
+ * @returns The term
+ */
+const fibonacci = (index: number): number => {
+  let previous = 0;
+  let current = 1;
+  for (let i = 0; i < index; i++) {
+    const next = previous + current;
+    previous = current;
+    current = next;
+  }
+  return current;
+};
+
+/**
+ * Advance a strategy's progression after a bet settles
+ * @param config - Strategy settings
+ * @param progress - Progress before the bet
+ * @param outcome - How the bet settled
+ * @returns Progress after the bet; pushes leave it unchanged and partial refunds count as losses
+ */
+export const advanceStakingProgress = (
+  config: StakingConfig,
+  progress: StakingProgress,
+  outcome: SettlementOutcome
+): StakingProgress => {
+  if (!isDecidedOutcome(outcome)) return progress;
+
+  const won = outcome === 'win';
+
+  switch (config.strategyId) {
+    case 'martingale':
+      return { step: won ? 0 : progress.step + 1 };
+    case 'reverse-martingale':
+      return { step: won ? progress.step + 1 : 0 };
+    case 'fibonacci':
+      return { step: won ? Math.max(progress.step - 2, 0) : progress.step + 1 };
+    case 'dalembert':
+      return { step: won ? Math.max(progress.step - 1, 0) : progress.step + 1 };
+    default:
+      return progress;
+  }
+};
+
+/**
+ * Replay a strategy's progression over the outcomes of its bets
+ * @param config - Strategy settings
+ * @param outcomes - Outcomes of the bets placed so far, oldest first
+ * @returns Progress after the last bet
+ */
+export const replayStakingProgress = (config: StakingConfig, outcomes: SettlementOutcome[]): StakingProgress => {
+  return outcomes.reduce(
+    (progress, outcome) => advanceStakingProgress(config, progress, outcome),
+    INITIAL_STAKING_PROGRESS
+  );
+};
+
+/**
+ * Calculate the stake of the next bet
+ * @param config - Strategy settings
+ * @param progress - Progress of the strategy
+ * @param balance - Current balance
+ * @param odds - Odds of the bet being sized
+ * @returns Stake in whole dollars; 0 means the strategy would not bet
+ */
+export const calculateNextStake = (
+  config: StakingConfig,
+  progress: StakingProgress,
+  balance: number,
+  odds: StakingOdds
+): number => {
+  const { baseStake, fraction } = config;
+  let stake: number;
+
+  switch (config.strategyId) {
+    case 'martingale':
+    case 'reverse-martingale':
+      stake = baseStake * Math.pow(2, progress.step);
+      break;
+    case 'fibonacci':
+      stake = baseStake * fibonacci(progress.step);
+      break;
+    case 'dalembert':
+      stake = baseStake * (progress.step + 1);
+      break;
+    case 'fixed-fraction':
+      stake = balance * fraction;
+      break;
+    case 'kelly':
+      stake = balance * calculateKellyFraction(odds.payout, odds.winChance) * fraction;
+      break;
+    default:
+      stake = baseStake;
+  }
+
+  return Math.floor(stake);
+};
+
+/**
+ * Check that a strategy's stake can be placed as it is
+ *
+ * Stakes are never adjusted to fit: the auto-bet runner and the backtester
+ * both stop where this rejects a stake, so a backtest plays the strategy the
+ * way the runner would.
+ *
+ * @param config - Strategy settings
+ * @param stake - Stake the strategy wants to place
+ * @param balance - Current balance
+ * @param event - Event the bet is placed on, for its table limits
+ * @returns The stake, or why it can't be placed
+ */
+export const checkStake = (
+  config: StakingConfig,
+  stake: number,
+  balance: number,
+  event: Pick<BetEvent, 'minBet' | 'maxBet'>
+): StakeCheck => {
+  if (stake <= 0) return { ok: false, reason: config.strategyId === 'kelly' ? 'no-edge' : 'below-minimum' };
+  if (stake > balance) return { ok: false, reason: 'insufficient-balance' };
+  if (event.maxBet !== null && stake > event.maxBet) return { ok: false, reason: 'table-limit' };
+  if (stake < event.minBet) return { ok: false, reason: 'below-minimum' };
+  return { ok: true, stake };
+};
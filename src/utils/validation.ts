@@ -2,31 +2,94 @@
  * Utility functions for validation in the application
  */
 
+import type { BetEvent, BetSelection, GameState, Persona } from '../types';
+import { checkPersonaBetLimit, PersonaLimitViolation } from './personaChallenge';
+
 /**
- * Validate a bet amount
- * @param value - The bet amount to validate
- * @param balance - Current balance
- * @param minBet - Minimum allowed bet
- * @returns Error message if invalid, empty string if valid
+ * Why a bet cannot be placed
+ * - game-over: the game has been won or lost
+ * - unknown-event: no event has the ID
+ * - unknown-selection: the event has no such selection
+ * - invalid-amount: the stake is not a positive number
+ * - below-min-bet / above-max-bet: the stake is outside the event's limits
+ * - insufficient-balance: the stake is more than the balance
+ * - read-only: an imported history is being reviewed, so no bets can be placed
+ * - bet-pending: another bet was placed since the game last rendered
+ * - persona-limit: the stake is above the challenge persona's limit
  */
-export const validateBetAmount = (value: number, balance: number, minBet: number = 1): string => {
-  if (isNaN(value)) {
-    return 'Bet amount must be a number';
-  }
+export type BetRejectionCode =
+  | 'game-over'
+  | 'unknown-event'
+  | 'unknown-selection'
+  | 'invalid-amount'
+  | 'below-min-bet'
+  | 'above-max-bet'
+  | 'insufficient-balance'
+  | 'read-only'
+  | 'bet-pending'
+  | PersonaLimitViolation['code'];
 
-  if (value <= 0) {
-    return 'Bet amount must be greater than zero';
-  }
+/**
+ * A bet that cannot be placed, with the reason
+ */
+export type BetRejection =
+  | {
+      /** Reason code */
+      code: Exclude<BetRejectionCode, PersonaLimitViolation['code']>;
+      /** Explanation for the player */
+      message: string;
+    }
+  | PersonaLimitViolation;
 
-  if (value < minBet) {
-    return `Bet amount must be at least ${minBet}`;
-  }
+/**
+ * Everything a bet is validated against
+ */
+export interface BetValidationContext {
+  /** Event the bet is on, undefined if no event has the requested ID */
+  event: BetEvent | undefined;
+  /** Selection backed, undefined if the event has no such selection */
+  selection: BetSelection | undefined;
+  /** Stake of the bet */
+  amount: number;
+  /** Balance before the bet */
+  balance: number;
+  /** Current state of the game */
+  gameState: GameState;
+  /** Persona committed to in a persona challenge, null in a regular game */
+  challengePersona?: Persona | null;
+}
 
-  if (value > balance) {
-    return 'Bet amount cannot exceed your balance';
+/**
+ * Validate a bet before it is placed
+ * @param context - The bet and the game it is placed in
+ * @returns The first reason the bet can't be placed, or null if it can
+ */
+export const validateBet = (context: BetValidationContext): BetRejection | null => {
+  const { event, selection, amount, balance, gameState, challengePersona = null } = context;
+
+  if (gameState !== 'playing') {
+    return { code: 'game-over', message: gameState === 'won' ? 'You already reached the goal' : 'You are out of money' };
+  }
+  if (!event) {
+    return { code: 'unknown-event', message: 'Invalid event selected' };
+  }
+  if (!selection) {
+    return { code: 'unknown-selection', message: `Unknown selection for ${event.name}` };
+  }
+  if (isNaN(amount) || amount <= 0) {
+    return { code: 'invalid-amount', message: 'Please enter a valid bet amount' };
+  }
+  if (amount < event.minBet) {
+    return { code: 'below-min-bet', message: `Minimum bet for ${event.name} is $${event.minBet}` };
+  }
+  if (event.maxBet !== null && amount > event.maxBet) {
+    return { code: 'above-max-bet', message: `Maximum bet for ${event.name} is $${event.maxBet}` };
+  }
+  if (amount > balance) {
+    return { code: 'insufficient-balance', message: 'Not enough balance' };
   }
 
-  return '';
+  return challengePersona ? checkPersonaBetLimit(challengePersona, event, amount, balance) : null;
 };
 
 /**
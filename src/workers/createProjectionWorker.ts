@@ -0,0 +1,14 @@
+/**
+ * Starts the projection worker
+ *
+ * Kept in its own module because `import.meta` only parses in the browser
+ * bundle; Jest loads modules as CommonJS and never imports this one.
+ */
+
+/**
+ * Create a projection worker
+ * @returns The worker
+ */
+export const createProjectionWorker = (): Worker => {
+  return new Worker(new URL('./projection.worker.ts', import.meta.url));
+};
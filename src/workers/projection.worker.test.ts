@@ -0,0 +1,81 @@
+import type { UserMetrics } from '../types';
+import { ProjectionConfig, runMonteCarloProjection } from '../utils/projection';
+import { createSeededRandom } from '../utils/random';
+import type { ProjectionWorkerRequest, ProjectionWorkerResponse } from './projectionProtocol';
+import './projection.worker';
+
+const metrics: UserMetrics = {
+  winRate: 0.45,
+  avgBetSize: 100,
+  avgRiskLevel: 30,
+  winRateTrend: 0,
+  betSizeTrend: 0,
+  riskTrend: 0,
+  recentWinRate: 0.45,
+  bettingFrequency: 10,
+  avgBetSizeRatio: 0.1,
+  betSizeStdDev: 0.02,
+};
+
+// Three chunks: two progress reports, then the result
+const config: ProjectionConfig = { metrics, balance: 1000, numBets: 20, paths: 250 };
+
+// In jsdom the worker's global scope is the window
+const send = (request: ProjectionWorkerRequest) => {
+  window.dispatchEvent(new MessageEvent('message', { data: request }));
+};
+
+describe('projection worker', () => {
+  let responses: ProjectionWorkerResponse[];
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    responses = [];
+    jest.spyOn(window, 'postMessage').mockImplementation((message: ProjectionWorkerResponse) => {
+      responses.push(message);
+    });
+  });
+
+  afterEach(() => {
+    jest.runOnlyPendingTimers();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('reports progress between chunks and then the result', () => {
+    send({ type: 'run', requestId: 1, config, seed: 42 });
+    jest.runAllTimers();
+
+    expect(responses).toEqual([
+      { type: 'progress', requestId: 1, completedPaths: 100, totalPaths: 250 },
+      { type: 'progress', requestId: 1, completedPaths: 200, totalPaths: 250 },
+      { type: 'result', requestId: 1, result: runMonteCarloProjection(config, createSeededRandom(42)) },
+    ]);
+  });
+
+  it('stops a run that was cancelled', () => {
+    send({ type: 'run', requestId: 2, config, seed: 42 });
+    send({ type: 'cancel', requestId: 2 });
+    jest.runAllTimers();
+
+    expect(responses).toEqual([{ type: 'progress', requestId: 2, completedPaths: 100, totalPaths: 250 }]);
+  });
+
+  it('ignores a cancel for another run', () => {
+    send({ type: 'run', requestId: 3, config, seed: 42 });
+    send({ type: 'cancel', requestId: 99 });
+    jest.runAllTimers();
+
+    expect(responses[responses.length - 1]).toMatchObject({ type: 'result', requestId: 3 });
+  });
+
+  it('abandons a run when a newer one starts', () => {
+    send({ type: 'run', requestId: 4, config, seed: 42 });
+    send({ type: 'run', requestId: 5, config, seed: 7 });
+    jest.runAllTimers();
+
+    const results = responses.filter(response => response.type === 'result');
+    expect(results).toEqual([{ type: 'result', requestId: 5, result: runMonteCarloProjection(config, createSeededRandom(7)) }]);
+    expect(responses.filter(response => response.requestId === 4)).toHaveLength(1);
+  });
+});
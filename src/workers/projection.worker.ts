@@ -0,0 +1,68 @@
+/// <reference lib="webworker" />
+/**
+ * Projection worker
+ *
+ * Simulates projection paths off the main thread. Paths are simulated in
+ * chunks, yielding between chunks so progress can be reported and a cancel
+ * message can stop a run part way through.
+ */
+
+import { createSeededRandom } from '../utils/random';
+import { simulateProjectionPath, summarizeProjection, ProjectionPath } from '../utils/projection';
+import type { ProjectionRunRequest, ProjectionWorkerRequest, ProjectionWorkerResponse } from './projectionProtocol';
+
+/** Paths simulated between progress reports */
+const CHUNK_SIZE = 100;
+
+declare const self: DedicatedWorkerGlobalScope;
+
+/** Run being simulated, null when the worker is idle or the run was cancelled */
+let activeRequestId: number | null = null;
+
+const respond = (message: ProjectionWorkerResponse) => {
+  self.postMessage(message);
+};
+
+/**
+ * Simulates a projection one chunk at a time
+ */
+const run = ({ requestId, config, seed }: ProjectionRunRequest) => {
+  activeRequestId = requestId;
+  const rng = createSeededRandom(seed);
+  const paths: ProjectionPath[] = [];
+
+  const simulateChunk = () => {
+    // A cancel or a newer run replaced this one
+    if (activeRequestId !== requestId) return;
+
+    try {
+      const chunkEnd = Math.min(paths.length + CHUNK_SIZE, config.paths);
+      while (paths.length < chunkEnd) {
+        paths.push(simulateProjectionPath(config, rng));
+      }
+
+      if (paths.length < config.paths) {
+        respond({ type: 'progress', requestId, completedPaths: paths.length, totalPaths: config.paths });
+        setTimeout(simulateChunk, 0);
+        return;
+      }
+
+      respond({ type: 'result', requestId, result: summarizeProjection(config, paths) });
+    } catch (error) {
+      respond({ type: 'error', requestId, message: error instanceof Error ? error.message : String(error) });
+    }
+    activeRequestId = null;
+  };
+
+  simulateChunk();
+};
+
+self.addEventListener('message', (event: MessageEvent<ProjectionWorkerRequest>) => {
+  const request = event.data;
+
+  if (request.type === 'run') {
+    run(request);
+  } else if (request.type === 'cancel' && activeRequestId === request.requestId) {
+    activeRequestId = null;
+  }
+});
@@ -0,0 +1,67 @@
+/**
+ * Messages exchanged with the projection worker
+ *
+ * Every run carries a request id. The worker tags its progress, result and
+ * error messages with the id of the run they belong to, so the page can
+ * ignore messages from a run it has since cancelled.
+ */
+
+import type { ProjectionConfig, ProjectionResult } from '../utils/projection';
+
+/**
+ * Asks the worker to simulate a projection
+ */
+export interface ProjectionRunRequest {
+  type: 'run';
+  requestId: number;
+  /** Projection settings */
+  config: ProjectionConfig;
+  /** Seed of the random generator shared by all paths */
+  seed: number;
+}
+
+/**
+ * Asks the worker to abandon a run
+ */
+export interface ProjectionCancelRequest {
+  type: 'cancel';
+  requestId: number;
+}
+
+/**
+ * Messages the page sends to the worker
+ */
+export type ProjectionWorkerRequest = ProjectionRunRequest | ProjectionCancelRequest;
+
+/**
+ * Reports how many paths of a run have been simulated
+ */
+export interface ProjectionProgressMessage {
+  type: 'progress';
+  requestId: number;
+  completedPaths: number;
+  totalPaths: number;
+}
+
+/**
+ * Delivers the result of a finished run
+ */
+export interface ProjectionResultMessage {
+  type: 'result';
+  requestId: number;
+  result: ProjectionResult;
+}
+
+/**
+ * Reports a run that failed
+ */
+export interface ProjectionErrorMessage {
+  type: 'error';
+  requestId: number;
+  message: string;
+}
+
+/**
+ * Messages the worker sends to the page
+ */
+export type ProjectionWorkerResponse = ProjectionProgressMessage | ProjectionResultMessage | ProjectionErrorMessage;
@@ -0,0 +1,19 @@
+/**
+ * Loading the projection worker
+ */
+
+/**
+ * Whether the environment can run the projection worker
+ * @returns False where there are no Web Workers, as in Jest's jsdom
+ */
+export const isProjectionWorkerSupported = (): boolean => {
+  return typeof Worker !== 'undefined';
+};
+
+/**
+ * Load and start a projection worker
+ * @returns The worker
+ */
+export const loadProjectionWorker = (): Promise<Worker> => {
+  return import('./createProjectionWorker').then(module => module.createProjectionWorker());
+};